@@ -1,6 +1,10 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
+import { CategoryProvider } from './contexts/CategoryContext';
+import { FormatProvider } from './contexts/FormatContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
+import { AccountProvider } from './contexts/AccountContext';
 import { Layout } from './components/Layout';
 import { AuthPage } from './pages/AuthPage';
 import { DashboardPage } from './pages/DashboardPage';
@@ -9,25 +13,47 @@ import { TransactionsPage } from './pages/TransactionsPage';
 import { AssetsGoalsPage } from './pages/AssetsGoalsPage';
 import { SettingsPage } from './pages/SettingsPage';
 import { CalendarPage } from './pages/CalendarPage';
+import { ImportPage } from './pages/ImportPage';
+import { RulesPage } from './pages/RulesPage';
+import { CategoriesPage } from './pages/CategoriesPage';
+import { MerchantsPage } from './pages/MerchantsPage';
+import { BudgetsPage } from './pages/BudgetsPage';
+import { RecurringPage } from './pages/RecurringPage';
+import { AccountsPage } from './pages/AccountsPage';
 
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <Routes>
-          <Route path="/auth" element={<AuthPage />} />
-          <Route path="/" element={<Layout />}>
-            <Route index element={<Navigate to="/dashboard" replace />} />
-            <Route path="dashboard" element={<DashboardPage />} />
-            <Route path="upload" element={<UploadPage />} />
-            <Route path="transactions" element={<TransactionsPage />} />
-            <Route path="calendar" element={<CalendarPage />} />
-            <Route path="assets-goals" element={<AssetsGoalsPage />} />
-            <Route path="settings" element={<SettingsPage />} />
-          </Route>
-          <Route path="*" element={<Navigate to="/dashboard" replace />} />
-        </Routes>
-      </Router>
+      <CategoryProvider>
+        <FormatProvider>
+          <CurrencyProvider>
+            <AccountProvider>
+              <Router>
+                <Routes>
+                  <Route path="/auth" element={<AuthPage />} />
+                  <Route path="/" element={<Layout />}>
+                    <Route index element={<Navigate to="/dashboard" replace />} />
+                    <Route path="dashboard" element={<DashboardPage />} />
+                    <Route path="upload" element={<UploadPage />} />
+                    <Route path="import" element={<ImportPage />} />
+                    <Route path="transactions" element={<TransactionsPage />} />
+                    <Route path="accounts" element={<AccountsPage />} />
+                    <Route path="calendar" element={<CalendarPage />} />
+                    <Route path="budgets" element={<BudgetsPage />} />
+                    <Route path="recurring" element={<RecurringPage />} />
+                    <Route path="categories" element={<CategoriesPage />} />
+                    <Route path="merchants" element={<MerchantsPage />} />
+                    <Route path="rules" element={<RulesPage />} />
+                    <Route path="assets-goals" element={<AssetsGoalsPage />} />
+                    <Route path="settings" element={<SettingsPage />} />
+                  </Route>
+                  <Route path="*" element={<Navigate to="/dashboard" replace />} />
+                </Routes>
+              </Router>
+            </AccountProvider>
+          </CurrencyProvider>
+        </FormatProvider>
+      </CategoryProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,49 @@
+import { useCategories } from '../contexts/CategoryContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { BudgetStatus } from '../utils/budgetUtils';
+
+interface BudgetProgressProps {
+  statuses: BudgetStatus[];
+  compact?: boolean;
+}
+
+// Green while under 80% of the budget, amber up to 100%, red once it is overspent
+function barColor(status: BudgetStatus): string {
+  if (status.remaining < 0) return 'bg-red-500';
+  if (status.available > 0 && status.spent / status.available >= 0.8) return 'bg-yellow-500';
+  return 'bg-green-500';
+}
+
+export function BudgetProgress({ statuses, compact = false }: BudgetProgressProps) {
+  const { categoryLabel } = useCategories();
+  const { formatBase } = useCurrency();
+
+  return (
+    <div className={compact ? 'space-y-2' : 'space-y-4'}>
+      {statuses.map(status => {
+        const percent = status.available > 0 ? Math.min(100, (status.spent / status.available) * 100) : 100;
+        return (
+          <div key={status.budget.id}>
+            <div className={`flex justify-between ${compact ? 'text-xs' : 'text-sm'} mb-1`}>
+              <span className="font-medium text-gray-700">{categoryLabel(status.budget.category)}</span>
+              <span className="text-gray-900">
+                {formatBase(status.spent)} of {formatBase(status.available)}
+              </span>
+            </div>
+            <div className="w-full bg-gray-100 rounded-full h-2">
+              <div className={`h-2 rounded-full ${barColor(status)}`} style={{ width: `${percent}%` }} />
+            </div>
+            <div className="mt-1 flex justify-between text-xs text-gray-500">
+              <span className={status.remaining < 0 ? 'text-red-600' : ''}>
+                {status.remaining < 0
+                  ? `${formatBase(Math.abs(status.remaining))} over`
+                  : `${formatBase(status.remaining)} left`}
+              </span>
+              {status.carriedOver > 0 && <span>+{formatBase(status.carriedOver)} rolled over</span>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import {
+  ArrowLeftRight, Baby, Briefcase, Car, Coffee, Dumbbell, Film, Fuel, Gift, GraduationCap, HeartPulse,
+  HelpCircle, Home, LucideIcon, PawPrint, PiggyBank, Plane, Receipt, Repeat, ShoppingBag, ShoppingCart,
+  Smartphone, Tag, Utensils, Wallet, Zap
+} from 'lucide-react';
+
+// Icon names stored in categories.icon
+const ICONS: Record<string, LucideIcon> = {
+  'utensils': Utensils,
+  'coffee': Coffee,
+  'shopping-cart': ShoppingCart,
+  'shopping-bag': ShoppingBag,
+  'car': Car,
+  'fuel': Fuel,
+  'plane': Plane,
+  'zap': Zap,
+  'smartphone': Smartphone,
+  'home': Home,
+  'wallet': Wallet,
+  'briefcase': Briefcase,
+  'piggy-bank': PiggyBank,
+  'heart-pulse': HeartPulse,
+  'dumbbell': Dumbbell,
+  'film': Film,
+  'repeat': Repeat,
+  'receipt': Receipt,
+  'arrow-left-right': ArrowLeftRight,
+  'graduation-cap': GraduationCap,
+  'gift': Gift,
+  'paw-print': PawPrint,
+  'baby': Baby,
+  'tag': Tag,
+  'help-circle': HelpCircle,
+};
+
+interface CategoryIconProps {
+  icon: string;
+  color: string;
+  className?: string;
+}
+
+export function CategoryIcon({ icon, color, className = 'h-4 w-4' }: CategoryIconProps) {
+  const Icon = ICONS[icon] ?? Tag;
+  return <Icon className={className} style={{ color }} />;
+}
+
+interface CategoryIconPickerProps {
+  value: string;
+  color: string;
+  onChange: (icon: string) => void;
+}
+
+export function CategoryIconPicker({ value, color, onChange }: CategoryIconPickerProps) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {Object.keys(ICONS).map(icon => (
+        <button
+          key={icon}
+          type="button"
+          onClick={() => onChange(icon)}
+          title={icon}
+          className={`p-1.5 rounded border ${
+            icon === value ? 'border-blue-500 bg-blue-50' : 'border-transparent hover:bg-gray-100'
+          }`}
+        >
+          <CategoryIcon icon={icon} color={color} />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,15 +1,24 @@
-import React from 'react';
-import { X, Plus, Pencil, Trash2 } from 'lucide-react';
-import { formatDisplayDate, formatMoney } from '../utils/dateUtils';
+import { useState } from 'react';
+import { X, Plus, Pencil, Trash2, ChevronRight, ChevronDown } from 'lucide-react';
+import { TransactionItemsBreakdown } from './TransactionItemsBreakdown';
+import { TransactionSplit } from '../utils/splitUtils';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { TransactionAmount } from './TransactionAmount';
+import { isTransfer } from '../utils/transferUtils';
 
 interface Transaction {
   id: string;
   date: string;
   description: string;
   amount: number;
+  currency?: string | null;
+  transfer_id?: string | null;
   type: 'debit' | 'credit';
   category: string;
   notes?: string | null;
+  transaction_items?: { count: number }[];
+  transaction_splits?: TransactionSplit[];
 }
 
 interface DayOverviewProps {
@@ -31,19 +40,24 @@ export function DayOverview({
   onEditTransaction,
   onDeleteTransaction
 }: DayOverviewProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { baseCurrency, toBase, formatBase } = useCurrency();
+  const { money, date: formatDate } = useFormat();
+
   if (!isOpen) return null;
 
-  const income = transactions
+  const converted = toBase(transactions.filter(transaction => !isTransfer(transaction)));
+  const income = converted
     .filter(t => t.type === 'credit')
     .reduce((sum, t) => sum + t.amount, 0);
 
-  const expenses = transactions
+  const expenses = converted
     .filter(t => t.type === 'debit')
     .reduce((sum, t) => sum + t.amount, 0);
 
   const net = income - expenses;
 
-  const displayDate = formatDisplayDate(date);
+  const displayDate = formatDate(date);
   const [dayOfWeek, ...rest] = displayDate.split(',');
   const fullDate = `${dayOfWeek},${rest.join(',')}`;
 
@@ -73,14 +87,14 @@ export function DayOverview({
               <div className="p-3 bg-green-50 rounded-lg border border-green-200 text-center">
                 <div className="text-xs font-medium text-green-800 mb-1">Income</div>
                 <div className="text-lg font-bold text-green-600">
-                  +${income.toFixed(2)}
+                  +{formatBase(income)}
                 </div>
               </div>
 
               <div className="p-3 bg-red-50 rounded-lg border border-red-200 text-center">
                 <div className="text-xs font-medium text-red-800 mb-1">Expenses</div>
                 <div className="text-lg font-bold text-red-600">
-                  -${expenses.toFixed(2)}
+                  -{formatBase(expenses)}
                 </div>
               </div>
 
@@ -99,7 +113,7 @@ export function DayOverview({
                 <div className={`text-lg font-bold ${
                   net > 0 ? 'text-green-600' : net < 0 ? 'text-red-600' : 'text-gray-600'
                 }`}>
-                  {net > 0 ? '+' : ''}{net < 0 ? '-' : ''}${Math.abs(net).toFixed(2)}
+                  {net > 0 ? '+' : ''}{net < 0 ? '-' : ''}{formatBase(Math.abs(net))}
                 </div>
               </div>
             </div>
@@ -135,17 +149,46 @@ export function DayOverview({
                               </span>
                             </>
                           )}
+                          {isTransfer(transaction) && (
+                            <span className="px-1.5 py-0.5 text-xs font-medium rounded bg-gray-200 text-gray-700">Transfer</span>
+                          )}
                         </div>
                         <div className={`text-base font-bold ${
                           transaction.type === 'debit' ? 'text-red-600' : 'text-green-600'
                         }`}>
-                          {formatMoney(transaction.amount, transaction.type === 'credit' ? 'income' : 'expense')}
+                          <TransactionAmount amount={transaction.amount} currency={transaction.currency} date={transaction.date} type={transaction.type} />
                         </div>
+                        {(transaction.transaction_splits?.length ?? 0) > 0 && (
+                          <div className="mt-1 space-y-0.5">
+                            {transaction.transaction_splits!.map((split, index) => (
+                              <div key={index} className="flex justify-between text-xs text-gray-600">
+                                <span>
+                                  {split.category}
+                                  {split.note && <span className="text-gray-400"> · {split.note}</span>}
+                                </span>
+                                <span>{money(split.amount, transaction.currency || baseCurrency)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                         {transaction.notes && (
                           <p className="text-xs text-gray-500 mt-1 italic">
                             {transaction.notes}
                           </p>
                         )}
+                        {(transaction.transaction_items?.[0]?.count ?? 0) > 0 && (
+                          <button
+                            onClick={() => setExpandedId(expandedId === transaction.id ? null : transaction.id)}
+                            className="mt-1 inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-800 transition-colors"
+                          >
+                            {expandedId === transaction.id ? (
+                              <ChevronDown className="h-3 w-3 mr-1" />
+                            ) : (
+                              <ChevronRight className="h-3 w-3 mr-1" />
+                            )}
+                            {transaction.transaction_items![0].count} line items
+                          </button>
+                        )}
                       </div>
                       <div className="flex gap-2 ml-3">
                         <button
@@ -164,6 +207,11 @@ export function DayOverview({
                         </button>
                       </div>
                     </div>
+                    {expandedId === transaction.id && (
+                      <div className="mt-2 pt-2 border-t border-gray-200">
+                        <TransactionItemsBreakdown transactionId={transaction.id} transactionAmount={transaction.amount} currency={transaction.currency} />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
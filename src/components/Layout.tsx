@@ -11,14 +11,30 @@ import {
   Menu,
   X,
   Target,
-  Calendar
+  Calendar,
+  FileUp,
+  Wand2,
+  Tags,
+  Store,
+  PiggyBank,
+  Repeat,
+  Wallet
 } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { generateDueTransactions } from '../lib/recurring';
 
 export function Layout() {
   const { user, signOut, loading } = useAuth();
   const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const userId = user?.id;
+
+  // Recurring transactions that fell due since the last visit are added on sign-in
+  useEffect(() => {
+    if (!userId) return;
+    generateDueTransactions(userId)
+      .catch(error => console.error('Error generating recurring transactions:', error));
+  }, [userId]);
 
   if (loading) {
     return (
@@ -35,8 +51,15 @@ export function Layout() {
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
     { name: 'Upload', href: '/upload', icon: Upload },
+    { name: 'Import', href: '/import', icon: FileUp },
     { name: 'Transactions', href: '/transactions', icon: CreditCard },
+    { name: 'Accounts', href: '/accounts', icon: Wallet },
     { name: 'Calendar', href: '/calendar', icon: Calendar },
+    { name: 'Budgets', href: '/budgets', icon: PiggyBank },
+    { name: 'Recurring', href: '/recurring', icon: Repeat },
+    { name: 'Categories', href: '/categories', icon: Tags },
+    { name: 'Merchants', href: '/merchants', icon: Store },
+    { name: 'Rules', href: '/rules', icon: Wand2 },
     { name: 'Assets & Goals', href: '/assets-goals', icon: Target },
     { name: 'Settings', href: '/settings', icon: Settings },
   ];
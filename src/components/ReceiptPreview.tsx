@@ -0,0 +1,29 @@
+interface ReceiptPreviewProps {
+  url: string;
+  imagePath: string;
+  // Page of a PDF to open at
+  page?: number | null;
+  className?: string;
+}
+
+function isPdfPath(path: string): boolean {
+  return /\.pdf$/i.test(path);
+}
+
+export function ReceiptPreview({ url, imagePath, page, className = '' }: ReceiptPreviewProps) {
+  if (isPdfPath(imagePath)) {
+    return (
+      <object
+        data={page ? `${url}#page=${page}` : url}
+        type="application/pdf"
+        className={`w-full h-[32rem] rounded ${className}`}
+      >
+        <a href={url} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:text-blue-800">
+          Open PDF
+        </a>
+      </object>
+    );
+  }
+
+  return <img src={url} alt="Receipt" className={`rounded object-contain ${className}`} />;
+}
@@ -0,0 +1,369 @@
+import React, { useState } from 'react';
+import { Save, Trash2, AlertTriangle } from 'lucide-react';
+import { DuplicateCandidate, describeDuplicateReasons } from '../../supabase/functions/_shared/duplicates';
+import { FieldConfidence, ReceiptField } from '../../supabase/functions/_shared/field-confidence';
+import { ReceiptPreview } from './ReceiptPreview';
+import { useCategories } from '../contexts/CategoryContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { amountStep, currencyDecimals, currencyOptions, currencySymbol } from '../../supabase/functions/_shared/currency';
+
+export interface DraftLineItem {
+  name: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  taxable: boolean;
+}
+
+export interface ReceiptDraft {
+  date: string;
+  description: string;
+  // Missing on drafts queued before merchants were tracked
+  merchant?: string | null;
+  amount: number;
+  // Currency read from the receipt; null or missing means the profile currency
+  currency?: string | null;
+  type: 'debit' | 'credit';
+  category: string;
+  notes: string | null;
+  items: DraftLineItem[];
+  image_path: string;
+  // Page of a multi-page PDF this candidate was read from
+  page: number | null;
+  // Name of the categorization rule that picked the category
+  category_rule?: string | null;
+  // Merchant whose earlier category corrections picked the category
+  category_learned_from?: string | null;
+  // Directory merchant whose default category was used
+  category_merchant_default?: string | null;
+  ocr_provider: string | null;
+  ocr_confidence: number | null;
+  confidence: FieldConfidence;
+}
+
+export interface ReviewedReceipt {
+  date: string;
+  description: string;
+  merchant: string | null;
+  amount: number;
+  currency: string;
+  type: 'debit' | 'credit';
+  category: string;
+  notes: string | null;
+  items: DraftLineItem[];
+}
+
+interface ReceiptReviewFormProps {
+  draft: ReceiptDraft;
+  imageUrl: string | null;
+  duplicates: DuplicateCandidate[];
+  saving: boolean;
+  onConfirm: (values: ReviewedReceipt, duplicateAction?: 'keep_both' | 'merge', mergeIntoId?: string) => void;
+  onDiscard: () => void;
+}
+
+const LOW_CONFIDENCE = 0.5;
+
+function ConfidenceBadge({ value }: { value: number }) {
+  const level = value >= 0.8 ? 'High' : value >= LOW_CONFIDENCE ? 'Medium' : 'Low';
+  const colors = {
+    High: 'bg-green-100 text-green-800',
+    Medium: 'bg-yellow-100 text-yellow-800',
+    Low: 'bg-red-100 text-red-800'
+  };
+
+  return (
+    <span
+      className={`ml-2 px-1.5 py-0.5 text-xs font-medium rounded ${colors[level]}`}
+      title={`${Math.round(value * 100)}% confidence`}
+    >
+      {level}
+    </span>
+  );
+}
+
+export function ReceiptReviewForm({ draft, imageUrl, duplicates, saving, onConfirm, onDiscard }: ReceiptReviewFormProps) {
+  const { categoryOptions, categoryLabel } = useCategories();
+  const { baseCurrency } = useCurrency();
+  const { money, date: formatDate } = useFormat();
+  const [formData, setFormData] = useState({
+    date: draft.date,
+    description: draft.description,
+    merchant: draft.merchant || '',
+    amount: draft.amount.toFixed(currencyDecimals(draft.currency || baseCurrency)),
+    currency: draft.currency || '',
+    type: draft.type,
+    category: draft.category,
+    notes: draft.notes || ''
+  });
+  const [includeItems, setIncludeItems] = useState(draft.items.length > 0);
+  const [error, setError] = useState('');
+
+
+  const inputClass = (field: ReceiptField) =>
+    `w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+      draft.confidence[field] < LOW_CONFIDENCE ? 'border-yellow-400 bg-yellow-50' : 'border-gray-300'
+    }`;
+
+  const currency = formData.currency || baseCurrency;
+
+  const buildValues = (): ReviewedReceipt | null => {
+    const amount = parseFloat(formData.amount);
+    if (!formData.date || !(amount > 0)) {
+      setError('Please enter a valid date and an amount greater than zero');
+      return null;
+    }
+    setError('');
+
+    return {
+      date: formData.date,
+      description: formData.description.trim() || formData.merchant.trim() || formData.category,
+      merchant: formData.merchant.trim() || null,
+      amount,
+      currency,
+      type: formData.type,
+      category: formData.category,
+      notes: formData.notes.trim() || null,
+      items: includeItems ? draft.items : []
+    };
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const values = buildValues();
+    if (values) onConfirm(values, duplicates.length > 0 ? 'keep_both' : undefined);
+  };
+
+  const handleMerge = (transactionId: string) => {
+    const values = buildValues();
+    if (values) onConfirm(values, 'merge', transactionId);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-2 flex items-start justify-center">
+        {imageUrl ? (
+          <ReceiptPreview url={imageUrl} imagePath={draft.image_path} page={draft.page} className="max-w-full max-h-[32rem]" />
+        ) : (
+          <p className="text-sm text-gray-500 py-8">Receipt preview unavailable</p>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Review Transaction</h3>
+          <p className="text-sm text-gray-500">
+            Check the extracted details before saving. Highlighted fields are the least certain.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        {duplicates.length > 0 && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <div className="flex items-center text-sm font-semibold text-yellow-900 mb-2">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              Possible duplicate
+            </div>
+            <div className="space-y-2">
+              {duplicates.map(({ transaction, reasons }) => (
+                <div key={transaction.id} className="flex items-center justify-between bg-white p-2 rounded border border-yellow-200">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {transaction.description} · {money(transaction.amount, transaction.currency || baseCurrency)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(transaction.date)} · {describeDuplicateReasons(reasons)}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleMerge(transaction.id)}
+                    disabled={saving}
+                    className="px-3 py-1 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 disabled:opacity-50 transition-colors"
+                  >
+                    Merge
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+              Date <ConfidenceBadge value={draft.confidence.date} />
+            </label>
+            <input
+              type="date"
+              value={formData.date}
+              onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+              className={inputClass('date')}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+              Amount <ConfidenceBadge value={draft.confidence.amount} />
+            </label>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <span className="absolute left-3 top-2 text-gray-500">{currencySymbol(currency)}</span>
+                <input
+                  type="number"
+                  step={amountStep(currency)}
+                  min={amountStep(currency)}
+                  value={formData.amount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                  className={`${inputClass('amount')} ${currencySymbol(currency).length > 1 ? 'pl-12' : 'pl-8'}`}
+                  required
+                />
+              </div>
+              <select
+                value={currency}
+                onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value }))}
+                className="border border-gray-300 rounded-lg px-2 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label="Currency"
+              >
+                {currencyOptions(currency).map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+              Merchant <ConfidenceBadge value={draft.confidence.description} />
+            </label>
+            <input
+              type="text"
+              value={formData.merchant}
+              onChange={(e) => setFormData(prev => ({ ...prev, merchant: e.target.value }))}
+              className={inputClass('description')}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={formData.description}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+              Type <ConfidenceBadge value={draft.confidence.type} />
+            </label>
+            <select
+              value={formData.type}
+              onChange={(e) => setFormData(prev => ({ ...prev, type: e.target.value as 'debit' | 'credit' }))}
+              className={inputClass('type')}
+            >
+              <option value="debit">Expense</option>
+              <option value="credit">Income</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+              Category <ConfidenceBadge value={draft.confidence.category} />
+            </label>
+            <select
+              value={formData.category}
+              onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
+              className={inputClass('category')}
+            >
+              {categoryOptions(draft.category).map(cat => (
+                <option key={cat} value={cat}>{categoryLabel(cat)}</option>
+              ))}
+            </select>
+            {draft.category_rule && formData.category === draft.category && (
+              <p className="mt-1 text-xs text-gray-500">Set by rule "{draft.category_rule}"</p>
+            )}
+            {draft.category_learned_from && formData.category === draft.category && (
+              <p className="mt-1 text-xs text-gray-500">Based on how you categorized {draft.category_learned_from} before</p>
+            )}
+            {draft.category_merchant_default && formData.category === draft.category && (
+              <p className="mt-1 text-xs text-gray-500">Default category for {draft.category_merchant_default}</p>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+          <textarea
+            value={formData.notes}
+            onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            rows={2}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+          />
+        </div>
+
+        {draft.items.length > 0 && (
+          <div>
+            <label className="inline-flex items-center text-sm text-gray-700 mb-2">
+              <input
+                type="checkbox"
+                checked={includeItems}
+                onChange={(e) => setIncludeItems(e.target.checked)}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Save {draft.items.length} line items
+            </label>
+            {includeItems && (
+              <ul className="text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded p-2 max-h-32 overflow-y-auto space-y-0.5">
+                {draft.items.map((item, index) => (
+                  <li key={index} className="flex justify-between">
+                    <span>{item.quantity !== 1 ? `${item.quantity} × ` : ''}{item.name}</span>
+                    <span>{money(item.line_total, currency)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex space-x-3 pt-2">
+          <button
+            type="button"
+            onClick={onDiscard}
+            disabled={saving}
+            className="flex-1 px-4 py-2 border border-red-300 rounded-lg text-red-700 font-medium hover:bg-red-50 transition-colors disabled:opacity-50 flex items-center justify-center"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Discard
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+          >
+            {saving ? (
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+            ) : (
+              <>
+                <Save className="h-4 w-4 mr-2" />
+                {duplicates.length > 0 ? 'Save as New' : 'Save Transaction'}
+              </>
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
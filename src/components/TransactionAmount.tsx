@@ -0,0 +1,34 @@
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+
+interface TransactionAmountProps {
+  amount: number;
+  currency?: string | null;
+  date: string;
+  // Adds a +/- sign when given
+  type?: 'debit' | 'credit';
+}
+
+/**
+ * An amount in its own currency; amounts in another currency than the
+ * profile's are followed by what they come to in the profile currency.
+ */
+export function TransactionAmount({ amount, currency, date, type }: TransactionAmountProps) {
+  const { baseCurrency, convert } = useCurrency();
+  const { money } = useFormat();
+  const own = currency || baseCurrency;
+  const sign = type === 'credit' ? '+' : type === 'debit' ? '-' : '';
+  const text = `${sign}${money(Math.abs(Number(amount)), own)}`;
+
+  if (own === baseCurrency) return <>{text}</>;
+
+  const converted = convert(Math.abs(Number(amount)), own, date);
+  return (
+    <>
+      {text}
+      <span className="block text-xs font-normal text-gray-500">
+        {converted === null ? `No ${own} rate` : `≈ ${sign}${money(converted, baseCurrency)}`}
+      </span>
+    </>
+  );
+}
@@ -1,7 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { X, Save } from 'lucide-react';
+import { X, Save, Plus, Trash2, Split } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoryContext';
+import { CategorizationRule, findMatchingRule } from '../../supabase/functions/_shared/rules';
+import { loadCategorizationRules } from '../lib/categorizationRules';
+import { CategoryCorrection, learnedCategory } from '../../supabase/functions/_shared/category-learning';
+import { loadCategoryCorrections, recordCategoryCorrections } from '../lib/categoryCorrections';
+import { matchMerchant, Merchant } from '../../supabase/functions/_shared/merchants';
+import { loadMerchants, resolveMerchant } from '../lib/merchants';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { useAccounts } from '../contexts/AccountContext';
+import { amountStep, currencyOptions, currencySymbol } from '../../supabase/functions/_shared/currency';
 
 interface TransactionDrawerProps {
   isOpen: boolean;
@@ -12,41 +23,113 @@ interface TransactionDrawerProps {
     id: string;
     date: string;
     description: string;
+    merchant?: string | null;
     amount: number;
+    currency?: string | null;
+    account_id?: string | null;
     type: 'debit' | 'credit';
     category: string;
-    notes?: string;
+    notes?: string | null;
   } | null;
 }
 
-const CATEGORIES = [
-  'Dining', 'Groceries', 'Transport', 'Utilities',
-  'Rent', 'Income', 'Shopping', 'Healthcare', 'Entertainment', 'Gym', 'Subscriptions', 'Other'
-];
+interface SplitRow {
+  category: string;
+  amount: string;
+  note: string;
+}
 
 export function TransactionDrawer({ isOpen, onClose, onSave, initialDate, transaction }: TransactionDrawerProps) {
   const { user } = useAuth();
+  const { categoryOptions, categoryLabel } = useCategories();
+  const { baseCurrency } = useCurrency();
+  const { money } = useFormat();
+  const { accounts } = useAccounts();
   const [formData, setFormData] = useState({
     date: initialDate || '',
     description: '',
     amount: '',
+    // Empty until the user picks one, meaning the profile currency
+    currency: '',
+    account_id: '',
     type: 'expense' as 'expense' | 'income',
     category: 'Other',
-    subcategory: '',
+    merchant: '',
     notes: ''
   });
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
+  const [splitEnabled, setSplitEnabled] = useState(false);
+  const [splits, setSplits] = useState<SplitRow[]>([]);
+  const [hadSplits, setHadSplits] = useState(false);
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [history, setHistory] = useState<CategoryCorrection[]>([]);
+  const [matchedRule, setMatchedRule] = useState<CategorizationRule | null>(null);
+  const [learnedFrom, setLearnedFrom] = useState<string | null>(null);
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [merchantDefault, setMerchantDefault] = useState<Merchant | null>(null);
+  const [categoryTouched, setCategoryTouched] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    loadCategorizationRules(user.id)
+      .then(setRules)
+      .catch(err => console.error('Error loading categorization rules:', err));
+    loadCategoryCorrections(user.id)
+      .then(setHistory)
+      .catch(err => console.error('Error loading category corrections:', err));
+    loadMerchants(user.id)
+      .then(setMerchants)
+      .catch(err => console.error('Error loading merchants:', err));
+  }, [isOpen, user]);
+
+  const suggestionKey = formData.merchant || formData.description;
 
+  // New transactions take their category from the user's rules, from how they
+  // categorized this merchant before, or from the merchant's default category,
+  // until one is picked by hand
   useEffect(() => {
+    if (transaction || categoryTouched || splitEnabled) return;
+
+    const rule = findMatchingRule(rules, {
+      description: suggestionKey,
+      merchant: formData.merchant || null,
+      amount: parseFloat(formData.amount) || 0,
+      type: formData.type === 'income' ? 'credit' : 'debit'
+    });
+    const learned = rule ? null : learnedCategory(history, suggestionKey);
+    const known = rule || learned ? null : matchMerchant(merchants, suggestionKey);
+    const suggested = rule?.category ?? learned?.category ?? known?.default_category ?? undefined;
+
+    setMatchedRule(rule);
+    setLearnedFrom(learned ? suggestionKey : null);
+    setMerchantDefault(known?.default_category ? known : null);
+    if (suggested) {
+      setFormData(prev => (prev.category === suggested ? prev : { ...prev, category: suggested }));
+    }
+  }, [rules, history, merchants, transaction, categoryTouched, splitEnabled, suggestionKey, formData.merchant, formData.amount, formData.type]);
+
+  useEffect(() => {
+    setSplitEnabled(false);
+    setSplits([]);
+    setHadSplits(false);
+    setCategoryTouched(false);
+    setMatchedRule(null);
+    setLearnedFrom(null);
+    setMerchantDefault(null);
+
     if (transaction) {
+      loadSplits(transaction.id);
+
       setFormData({
         date: transaction.date,
         description: transaction.description,
         amount: transaction.amount.toString(),
+        currency: transaction.currency || '',
+        account_id: transaction.account_id || '',
         type: transaction.type === 'credit' ? 'income' : 'expense',
         category: transaction.category,
-        subcategory: '',
+        merchant: transaction.merchant || '',
         notes: transaction.notes || ''
       });
     } else if (initialDate) {
@@ -54,6 +137,50 @@ export function TransactionDrawer({ isOpen, onClose, onSave, initialDate, transa
     }
   }, [transaction, initialDate]);
 
+  const loadSplits = async (transactionId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('transaction_splits')
+        .select('category, amount, note')
+        .eq('transaction_id', transactionId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      if (data && data.length > 0) {
+        setSplits(data.map((split: { category: string; amount: number; note: string | null }) => ({
+          category: split.category,
+          amount: split.amount.toString(),
+          note: split.note || ''
+        })));
+        setSplitEnabled(true);
+        setHadSplits(true);
+      }
+    } catch (err) {
+      console.error('Error loading splits:', err);
+    }
+  };
+
+  const toCents = (value: string) => Math.round((parseFloat(value) || 0) * 100);
+
+  const currency = formData.currency || baseCurrency;
+  const splitRemainingCents = toCents(formData.amount) - splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+
+  const enableSplit = () => {
+    setSplits([
+      { category: formData.category, amount: formData.amount, note: '' },
+      { category: 'Other', amount: '', note: '' }
+    ]);
+    setSplitEnabled(true);
+  };
+
+  const updateSplit = (index: number, field: keyof SplitRow, value: string) => {
+    setSplits(prev => prev.map((split, i) => (i === index ? { ...split, [field]: value } : split)));
+  };
+
+  const removeSplit = (index: number) => {
+    setSplits(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -63,44 +190,85 @@ export function TransactionDrawer({ isOpen, onClose, onSave, initialDate, transa
       return;
     }
 
+    if (splitEnabled) {
+      if (splits.length < 2) {
+        setError('A split needs at least two categories');
+        return;
+      }
+      if (splits.some(split => toCents(split.amount) <= 0)) {
+        setError('Every split needs an amount greater than zero');
+        return;
+      }
+      if (splitRemainingCents !== 0) {
+        setError(`Splits must add up to the transaction total (${money(parseFloat(formData.amount), currency)})`);
+        return;
+      }
+    }
+
+    // The transaction keeps the largest allocation as its headline category
+    const primaryCategory = splitEnabled
+      ? splits.reduce((best, split) => (toCents(split.amount) > toCents(best.amount) ? split : best)).category
+      : formData.category;
+
     try {
       setSaving(true);
 
+      // Typed merchant names are filed under the directory entry they match, or start a new one
+      const merchant = await resolveMerchant(user!.id, merchants, formData.merchant);
+
       const transactionData = {
-        user_id: user!.id,
         date: formData.date,
-        description: formData.subcategory || formData.category,
+        description: formData.description.trim() || formData.merchant.trim() || formData.category,
+        merchant: merchant?.name ?? null,
+        merchant_id: merchant?.id ?? null,
         amount: parseFloat(formData.amount),
+        currency,
+        account_id: formData.account_id || null,
         type: formData.type === 'income' ? 'credit' as const : 'debit' as const,
-        category: formData.category,
-        notes: formData.notes || null,
-        updated_at: new Date().toISOString()
+        category: primaryCategory,
+        notes: formData.notes || null
       };
 
+      // The row and its splits are written in one call, so splits the database rejects
+      // leave the transaction as it was
+      const { error } = await supabase.rpc('save_transaction', {
+        p_transaction_id: transaction?.id ?? null,
+        p_transaction: transactionData,
+        p_splits: splitEnabled
+          ? splits.map(split => ({
+              category: split.category,
+              amount: toCents(split.amount) / 100,
+              note: split.note.trim() || null
+            }))
+          : hadSplits ? [] : null
+      });
+
+      if (error) throw error;
+
       if (transaction) {
-        const { error } = await supabase
-          .from('transactions')
-          .update(transactionData)
-          .eq('id', transaction.id);
-
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from('transactions')
-          .insert([transactionData]);
-
-        if (error) throw error;
+        await recordCategoryCorrections(user!.id, [{
+          transactionId: transaction.id,
+          description: transactionData.merchant || transactionData.description,
+          from: transaction.category,
+          to: primaryCategory
+        }]);
       }
 
       setFormData({
         date: initialDate || '',
         description: '',
         amount: '',
+        currency: '',
+        account_id: '',
         type: 'expense',
         category: 'Other',
-        subcategory: '',
+        merchant: '',
         notes: ''
       });
+      setSplitEnabled(false);
+      setSplits([]);
+      setHadSplits(false);
+      setCategoryTouched(false);
 
       onSave();
       onClose();
@@ -186,31 +354,144 @@ export function TransactionDrawer({ isOpen, onClose, onSave, initialDate, transa
                 </div>
               </div>
 
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Category <span className="text-red-500">*</span>
+                  </label>
+                  {splitEnabled ? (
+                    <button
+                      type="button"
+                      onClick={() => setSplitEnabled(false)}
+                      className="text-xs font-medium text-gray-600 hover:text-gray-800"
+                    >
+                      Remove split
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={enableSplit}
+                      className="inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      <Split className="h-3 w-3 mr-1" />
+                      Split across categories
+                    </button>
+                  )}
+                </div>
+                {splitEnabled ? (
+                  <div className="space-y-2">
+                    {splits.map((split, index) => (
+                      <div key={index} className="p-2 border border-gray-200 rounded-lg space-y-2">
+                        <div className="flex items-center gap-2">
+                          <select
+                            value={split.category}
+                            onChange={(e) => updateSplit(index, 'category', e.target.value)}
+                            className="flex-1 border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            {categoryOptions(split.category).map(cat => (
+                              <option key={cat} value={cat}>{categoryLabel(cat)}</option>
+                            ))}
+                          </select>
+                          <div className="relative w-28">
+                            <span className="absolute left-2 top-1 text-sm text-gray-500">{currencySymbol(currency)}</span>
+                            <input
+                              type="number"
+                              step={amountStep(currency)}
+                              min={amountStep(currency)}
+                              value={split.amount}
+                              onChange={(e) => updateSplit(index, 'amount', e.target.value)}
+                              placeholder="0.00"
+                              className={`w-full border border-gray-300 rounded-lg ${currencySymbol(currency).length > 1 ? 'pl-7' : 'pl-5'} pr-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                            />
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => removeSplit(index)}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                            title="Remove"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                        <input
+                          type="text"
+                          value={split.note}
+                          onChange={(e) => updateSplit(index, 'note', e.target.value)}
+                          placeholder="Note (optional)"
+                          className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+                    ))}
+                    <div className="flex items-center justify-between">
+                      <button
+                        type="button"
+                        onClick={() => setSplits(prev => [...prev, { category: 'Other', amount: '', note: '' }])}
+                        className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add category
+                      </button>
+                      <span className={`text-sm font-medium ${
+                        splitRemainingCents === 0 ? 'text-green-600' : 'text-red-600'
+                      }`}>
+                        {splitRemainingCents === 0
+                          ? 'Fully allocated'
+                          : splitRemainingCents > 0
+                          ? `${money(splitRemainingCents / 100, currency)} left to allocate`
+                          : `${money(-splitRemainingCents / 100, currency)} over total`}
+                      </span>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <select
+                      value={formData.category}
+                      onChange={(e) => {
+                        setCategoryTouched(true);
+                        setFormData(prev => ({ ...prev, category: e.target.value }));
+                      }}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      required
+                    >
+                      {categoryOptions(formData.category).map(cat => (
+                        <option key={cat} value={cat}>{categoryLabel(cat)}</option>
+                      ))}
+                    </select>
+                    {matchedRule && !categoryTouched && formData.category === matchedRule.category && (
+                      <p className="mt-1 text-xs text-gray-500">Set by rule "{matchedRule.name}"</p>
+                    )}
+                    {learnedFrom && !categoryTouched && (
+                      <p className="mt-1 text-xs text-gray-500">Based on how you categorized {learnedFrom} before</p>
+                    )}
+                    {merchantDefault && !categoryTouched && formData.category === merchantDefault.default_category && (
+                      <p className="mt-1 text-xs text-gray-500">Default category for {merchantDefault.name}</p>
+                    )}
+                  </>
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Category <span className="text-red-500">*</span>
+                  Merchant
                 </label>
-                <select
-                  value={formData.category}
-                  onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
+                <input
+                  type="text"
+                  value={formData.merchant}
+                  onChange={(e) => setFormData(prev => ({ ...prev, merchant: e.target.value }))}
+                  placeholder="e.g., Circle K, Uber, etc."
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  required
-                >
-                  {CATEGORIES.map(cat => (
-                    <option key={cat} value={cat}>{cat}</option>
-                  ))}
-                </select>
+                />
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Subcategory
+                  Description
                 </label>
                 <input
                   type="text"
-                  value={formData.subcategory}
-                  onChange={(e) => setFormData(prev => ({ ...prev, subcategory: e.target.value }))}
-                  placeholder="e.g., Circle K, Uber, etc."
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="Defaults to the merchant"
                   className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
@@ -219,21 +500,59 @@ export function TransactionDrawer({ isOpen, onClose, onSave, initialDate, transa
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Amount <span className="text-red-500">*</span>
                 </label>
-                <div className="relative">
-                  <span className="absolute left-3 top-2 text-gray-500">$</span>
-                  <input
-                    type="number"
-                    step="0.01"
-                    min="0.01"
-                    value={formData.amount}
-                    onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
-                    placeholder="0.00"
-                    className="w-full border border-gray-300 rounded-lg pl-8 pr-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    required
-                  />
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <span className="absolute left-3 top-2 text-gray-500">{currencySymbol(currency)}</span>
+                    <input
+                      type="number"
+                      step={amountStep(currency)}
+                      min={amountStep(currency)}
+                      value={formData.amount}
+                      onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                      placeholder="0.00"
+                      className={`w-full border border-gray-300 rounded-lg ${currencySymbol(currency).length > 1 ? 'pl-12' : 'pl-8'} pr-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                      required
+                    />
+                  </div>
+                  <select
+                    value={currency}
+                    onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value }))}
+                    className="border border-gray-300 rounded-lg px-2 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    aria-label="Currency"
+                  >
+                    {currencyOptions(currency).map(code => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
                 </div>
               </div>
 
+              {accounts.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Account
+                  </label>
+                  <select
+                    value={formData.account_id}
+                    onChange={(e) => {
+                      const account = accounts.find(candidate => candidate.id === e.target.value);
+                      // A new transaction is in its account's currency unless one was picked
+                      setFormData(prev => ({
+                        ...prev,
+                        account_id: e.target.value,
+                        currency: prev.currency || (transaction ? '' : account?.currency ?? '')
+                      }));
+                    }}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">No account</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Notes
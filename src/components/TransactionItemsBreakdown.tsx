@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useFormat } from '../contexts/FormatContext';
+
+interface TransactionItem {
+  id: string;
+  position: number;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  taxable: boolean;
+}
+
+interface TransactionItemsBreakdownProps {
+  transactionId: string;
+  transactionAmount: number;
+  // The transaction's currency; the profile currency when not given
+  currency?: string | null;
+}
+
+export function TransactionItemsBreakdown({ transactionId, transactionAmount, currency }: TransactionItemsBreakdownProps) {
+  const { money } = useFormat();
+  const [items, setItems] = useState<TransactionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadItems = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('transaction_items')
+          .select('*')
+          .eq('transaction_id', transactionId)
+          .order('position', { ascending: true });
+
+        if (error) throw error;
+        setItems(data || []);
+      } catch (error) {
+        console.error('Error loading line items:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadItems();
+  }, [transactionId]);
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-2 py-2">
+        {[1, 2, 3].map(i => (
+          <div key={i} className="h-4 bg-gray-200 rounded"></div>
+        ))}
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return <p className="text-xs text-gray-500 py-2">No line items were extracted for this transaction.</p>;
+  }
+
+  const itemsTotal = items.reduce((sum, item) => sum + item.line_total, 0);
+  // Whatever the items don't account for is tax, fees or rounding on the receipt
+  const remainder = transactionAmount - itemsTotal;
+
+  return (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr className="text-gray-500">
+          <th className="py-1 pr-3 text-left font-medium">Item</th>
+          <th className="py-1 px-3 text-right font-medium">Qty</th>
+          <th className="py-1 px-3 text-right font-medium">Unit</th>
+          <th className="py-1 pl-3 text-right font-medium">Total</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {items.map(item => (
+          <tr key={item.id}>
+            <td className="py-1 pr-3 text-gray-900">
+              {item.name}
+              {item.taxable && (
+                <span className="ml-2 inline-flex items-center px-1.5 rounded text-[10px] font-medium bg-yellow-100 text-yellow-800" title="Taxable item">
+                  TAX
+                </span>
+              )}
+            </td>
+            <td className="py-1 px-3 text-right text-gray-600">{item.quantity}</td>
+            <td className="py-1 px-3 text-right text-gray-600">{money(item.unit_price, currency)}</td>
+            <td className="py-1 pl-3 text-right font-medium text-gray-900">{money(item.line_total, currency)}</td>
+          </tr>
+        ))}
+      </tbody>
+      <tfoot>
+        {Math.abs(remainder) >= 0.01 && (
+          <tr className="text-gray-500">
+            <td colSpan={3} className="pt-2 pr-3 text-right">Tax, fees &amp; rounding</td>
+            <td className="pt-2 pl-3 text-right">{money(remainder, currency)}</td>
+          </tr>
+        )}
+        <tr className="text-gray-900 font-semibold">
+          <td colSpan={3} className="pt-1 pr-3 text-right">Total</td>
+          <td className="pt-1 pl-3 text-right">{money(transactionAmount, currency)}</td>
+        </tr>
+      </tfoot>
+    </table>
+  );
+}
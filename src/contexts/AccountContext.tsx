@@ -0,0 +1,65 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { loadAccounts } from '../lib/accounts';
+import { Account } from '../utils/accountUtils';
+
+interface AccountContextType {
+  accounts: Account[];
+  loading: boolean;
+  refreshAccounts: () => Promise<void>;
+  // The account's name, or null for unassigned or unknown ids
+  accountName: (id: string | null | undefined) => string | null;
+}
+
+const AccountContext = createContext<AccountContextType | undefined>(undefined);
+
+export function AccountProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [loading, setLoading] = useState(true);
+  const userId = user?.id;
+
+  const refreshAccounts = useCallback(async () => {
+    if (!userId) {
+      setAccounts([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setAccounts(await loadAccounts(userId));
+    } catch (error) {
+      console.error('Error loading accounts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refreshAccounts();
+  }, [refreshAccounts]);
+
+  const value = useMemo(() => {
+    const names = new Map(accounts.map(account => [account.id, account.name]));
+    return {
+      accounts,
+      loading,
+      refreshAccounts,
+      accountName: (id: string | null | undefined) => (id ? names.get(id) ?? null : null),
+    };
+  }, [accounts, loading, refreshAccounts]);
+
+  return (
+    <AccountContext.Provider value={value}>
+      {children}
+    </AccountContext.Provider>
+  );
+}
+
+export function useAccounts() {
+  const context = useContext(AccountContext);
+  if (context === undefined) {
+    throw new Error('useAccounts must be used within an AccountProvider');
+  }
+  return context;
+}
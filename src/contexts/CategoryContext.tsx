@@ -0,0 +1,90 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { loadCategories } from '../lib/categories';
+import {
+  Category,
+  categoryPath,
+  DEFAULT_CATEGORIES,
+  DEFAULT_CATEGORY_NAMES,
+  sortCategoryTree
+} from '../../supabase/functions/_shared/categories';
+
+interface CategoryContextType {
+  // Every category, archived ones included
+  categories: Category[];
+  // Names offered in pickers and filters, each parent followed by its children
+  categoryNames: string[];
+  loading: boolean;
+  refreshCategories: () => Promise<void>;
+  colorFor: (name: string) => string;
+  // "Parent › Child" for sub-categories, the plain name otherwise
+  categoryLabel: (name: string) => string;
+  // Picker options that keep the current value even if it is archived or unknown
+  categoryOptions: (current: string) => string[];
+}
+
+const CategoryContext = createContext<CategoryContextType | undefined>(undefined);
+
+const UNKNOWN_COLOR = '#9ca3af';
+
+export function CategoryProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const userId = user?.id;
+
+  const refreshCategories = useCallback(async () => {
+    if (!userId) {
+      setCategories([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setCategories(await loadCategories(userId));
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refreshCategories();
+  }, [refreshCategories]);
+
+  const value = useMemo(() => {
+    // Until the user's list arrives, pickers still get the defaults
+    const categoryNames = categories.length > 0
+      ? sortCategoryTree(categories).filter(({ category }) => !category.archived).map(({ category }) => category.name)
+      : DEFAULT_CATEGORY_NAMES;
+    const colors = new Map<string, string>(
+      (categories.length > 0 ? categories : DEFAULT_CATEGORIES).map(category => [category.name, category.color])
+    );
+
+    return {
+      categories,
+      categoryNames,
+      loading,
+      refreshCategories,
+      colorFor: (name: string) => colors.get(name) ?? UNKNOWN_COLOR,
+      categoryLabel: (name: string) => categoryPath(categories, name).join(' › '),
+      categoryOptions: (current: string) =>
+        !current || categoryNames.includes(current) ? categoryNames : [current, ...categoryNames],
+    };
+  }, [categories, loading, refreshCategories]);
+
+  return (
+    <CategoryContext.Provider value={value}>
+      {children}
+    </CategoryContext.Provider>
+  );
+}
+
+export function useCategories() {
+  const context = useContext(CategoryContext);
+  if (context === undefined) {
+    throw new Error('useCategories must be used within a CategoryProvider');
+  }
+  return context;
+}
@@ -0,0 +1,89 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { useFormat } from './FormatContext';
+import { loadFxRates } from '../lib/fxRates';
+import {
+  convertTransactions,
+  ConvertedTransaction,
+  createConverter,
+  CurrencyConverter,
+  FxRate
+} from '../../supabase/functions/_shared/currency';
+
+type ConvertibleTransaction = Parameters<typeof convertTransactions>[0][number];
+
+interface CurrencyContextType {
+  // The profile currency all totals are shown in, from the format preferences
+  baseCurrency: string;
+  rates: FxRate[];
+  loading: boolean;
+  refreshCurrency: () => Promise<void>;
+  convert: CurrencyConverter;
+  // Transactions with amounts in the base currency, ready to be added up
+  toBase: <T extends ConvertibleTransaction>(transactions: T[]) => ConvertedTransaction<T>[];
+  // An amount in the base currency
+  formatBase: (amount: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { preferences, money, loading: preferencesLoading, refreshPreferences } = useFormat();
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [ratesLoading, setRatesLoading] = useState(true);
+  const userId = user?.id;
+  const baseCurrency = preferences.currency;
+  const loading = preferencesLoading || ratesLoading;
+
+  const refreshRates = useCallback(async () => {
+    if (!userId) {
+      setRates([]);
+      setRatesLoading(false);
+      return;
+    }
+
+    try {
+      setRates(await loadFxRates(userId));
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+    } finally {
+      setRatesLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refreshRates();
+  }, [refreshRates]);
+
+  const refreshCurrency = useCallback(async () => {
+    await Promise.all([refreshPreferences(), refreshRates()]);
+  }, [refreshPreferences, refreshRates]);
+
+  const value = useMemo(() => {
+    const convert = createConverter(rates, baseCurrency);
+    return {
+      baseCurrency,
+      rates,
+      loading,
+      refreshCurrency,
+      convert,
+      toBase: <T extends ConvertibleTransaction>(transactions: T[]) => convertTransactions(transactions, convert),
+      formatBase: (amount: number) => money(amount, baseCurrency),
+    };
+  }, [baseCurrency, rates, loading, refreshCurrency, money]);
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
@@ -0,0 +1,62 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { loadFormatPreferences } from '../lib/preferences';
+import {
+  createFormatter,
+  DEFAULT_FORMAT_PREFERENCES,
+  FormatPreferences,
+  Formatter
+} from '../../supabase/functions/_shared/format';
+
+interface FormatContextType extends Formatter {
+  loading: boolean;
+  refreshPreferences: () => Promise<void>;
+}
+
+const FormatContext = createContext<FormatContextType | undefined>(undefined);
+
+export function FormatProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<FormatPreferences>(DEFAULT_FORMAT_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+  const userId = user?.id;
+
+  const refreshPreferences = useCallback(async () => {
+    if (!userId) {
+      setPreferences(DEFAULT_FORMAT_PREFERENCES);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setPreferences(await loadFormatPreferences(userId));
+    } catch (error) {
+      console.error('Error loading format preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refreshPreferences();
+  }, [refreshPreferences]);
+
+  const value = useMemo(
+    () => ({ ...createFormatter(preferences), loading, refreshPreferences }),
+    [preferences, loading, refreshPreferences]
+  );
+
+  return (
+    <FormatContext.Provider value={value}>
+      {children}
+    </FormatContext.Provider>
+  );
+}
+
+export function useFormat() {
+  const context = useContext(FormatContext);
+  if (context === undefined) {
+    throw new Error('useFormat must be used within a FormatProvider');
+  }
+  return context;
+}
@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+import { Account, AccountTransaction, ALL_ACCOUNTS, NO_ACCOUNT } from '../utils/accountUtils';
+
+export const ACCOUNT_SELECT = 'id, name, type, currency, opening_balance';
+
+// Supabase returns at most this many rows per request, and balances need every transaction
+const PAGE_SIZE = 1000;
+
+export async function loadAccounts(userId: string): Promise<Account[]> {
+  const { data, error } = await supabase
+    .from('accounts')
+    .select(ACCOUNT_SELECT)
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Every transaction assigned to an account (or to `accountId` only), with just
+ * the fields balances are worked out from.
+ */
+export async function loadAccountTransactions(userId: string, accountId?: string): Promise<AccountTransaction[]> {
+  const transactions: AccountTransaction[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('transactions')
+      .select('id, account_id, date, created_at, amount, currency, type')
+      .eq('user_id', userId)
+      .order('date')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    query = accountId ? query.eq('account_id', accountId) : query.not('account_id', 'is', null);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    transactions.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return transactions;
+  }
+}
+
+interface AccountFilterable<Q> {
+  eq: (column: 'account_id', value: string) => Q;
+  is: (column: 'account_id', value: null) => Q;
+}
+
+// Narrow a transactions query to an account filter value (an account id, NO_ACCOUNT or ALL_ACCOUNTS)
+export function filterByAccount<Q extends AccountFilterable<Q>>(query: Q, account: string): Q {
+  if (account === NO_ACCOUNT) return query.is('account_id', null);
+  if (account !== ALL_ACCOUNTS) return query.eq('account_id', account);
+  return query;
+}
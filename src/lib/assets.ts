@@ -0,0 +1,47 @@
+import { supabase } from './supabase';
+import { AssetValuation } from '../utils/netWorthUtils';
+
+const PAGE_SIZE = 1000;
+
+export async function loadAssetValuations(userId: string): Promise<AssetValuation[]> {
+  const valuations: AssetValuation[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('asset_valuations')
+      .select('asset_id, date, amount')
+      .eq('user_id', userId)
+      .order('date')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    valuations.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return valuations;
+  }
+}
+
+/**
+ * Record what an asset was worth on `date`, replacing any value already
+ * recorded that day, and keep the asset's amount at its latest value.
+ */
+export async function recordValuation(userId: string, assetId: string, date: string, amount: number): Promise<void> {
+  const { error } = await supabase
+    .from('asset_valuations')
+    .upsert({ user_id: userId, asset_id: assetId, date, amount }, { onConflict: 'asset_id,date' });
+  if (error) throw error;
+
+  const { data: latest, error: latestError } = await supabase
+    .from('asset_valuations')
+    .select('amount')
+    .eq('asset_id', assetId)
+    .order('date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (latestError) throw latestError;
+
+  const { error: updateError } = await supabase
+    .from('assets')
+    .update({ amount: latest?.amount ?? amount, updated_at: new Date().toISOString() })
+    .eq('id', assetId);
+  if (updateError) throw updateError;
+}
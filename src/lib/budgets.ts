@@ -0,0 +1,64 @@
+import { supabase } from './supabase';
+import { Category } from '../../supabase/functions/_shared/categories';
+import { convertTransactions, CurrencyConverter } from '../../supabase/functions/_shared/currency';
+import { Budget, BudgetStatus, BudgetTransaction, computeBudgetStatus } from '../utils/budgetUtils';
+import { getEndOfMonth, getStartOfMonth } from '../utils/dateUtils';
+
+export const BUDGET_SELECT = 'id, category, amount, rollover, start_month';
+
+// Supabase returns at most this many rows per request, and rollover reaches back over many months
+const PAGE_SIZE = 1000;
+
+export async function loadBudgets(userId: string): Promise<Budget[]> {
+  const { data, error } = await supabase
+    .from('budgets')
+    .select(BUDGET_SELECT)
+    .eq('user_id', userId)
+    .order('category');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Budget vs actual for a calendar month (`month` is 0-based, as in Date).
+ * Rollover budgets need every month since they started, so transactions are
+ * fetched from the earliest such start. Budgets are in the profile currency,
+ * which `convert` turns each transaction into.
+ */
+export async function loadBudgetStatus(
+  userId: string,
+  categories: Category[],
+  year: number,
+  month: number,
+  convert: CurrencyConverter
+): Promise<BudgetStatus[]> {
+  const budgets = await loadBudgets(userId);
+  if (budgets.length === 0) return [];
+
+  const monthStart = getStartOfMonth(year, month);
+  const since = budgets
+    .filter(budget => budget.rollover)
+    .reduce((earliest, budget) => (budget.start_month < earliest ? budget.start_month : earliest), monthStart);
+
+  const transactions: Array<BudgetTransaction & { currency: string | null }> = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('date, amount, currency, type, category, transaction_splits(category, amount)')
+      .eq('user_id', userId)
+      .eq('type', 'debit')
+      .is('transfer_id', null)
+      .gte('date', since)
+      .lte('date', getEndOfMonth(year, month))
+      .order('date')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    transactions.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return computeBudgetStatus(budgets, categories, convertTransactions(transactions, convert), monthStart.slice(0, 7));
+}
@@ -0,0 +1,68 @@
+import { supabase } from './supabase';
+import {
+  Category,
+  CATEGORY_SELECT,
+  DEFAULT_CATEGORIES
+} from '../../supabase/functions/_shared/categories';
+
+async function seedDefaultCategories(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('categories')
+    .upsert(
+      DEFAULT_CATEGORIES.map(category => ({ user_id: userId, ...category })),
+      { onConflict: 'user_id,name', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * The user's categories, sorted by name. Users who signed up after the
+ * categories migration get the default set the first time this runs.
+ */
+export async function loadCategories(userId: string): Promise<Category[]> {
+  const query = () => supabase
+    .from('categories')
+    .select(CATEGORY_SELECT)
+    .eq('user_id', userId)
+    .order('name');
+
+  const { data, error } = await query();
+  if (error) throw error;
+  if (data && data.length > 0) return data;
+
+  await seedDefaultCategories(userId);
+  const seeded = await query();
+  if (seeded.error) throw seeded.error;
+  return seeded.data || [];
+}
+
+/**
+ * Rename a category everywhere it is referenced by name: transactions, splits,
+ * categorization rules, budgets, learned corrections, merchant defaults and
+ * recurring transactions.
+ */
+export async function renameCategory(userId: string, category: Category, name: string): Promise<void> {
+  const { error } = await supabase
+    .from('categories')
+    .update({ name, updated_at: new Date().toISOString() })
+    .eq('id', category.id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const references = [
+    supabase.from('transactions').update({ category: name }).eq('user_id', userId).eq('category', category.name),
+    supabase.from('transaction_splits').update({ category: name }).eq('user_id', userId).eq('category', category.name),
+    supabase.from('categorization_rules').update({ category: name }).eq('user_id', userId).eq('category', category.name),
+    supabase.from('budgets').update({ category: name }).eq('user_id', userId).eq('category', category.name),
+    supabase.from('category_corrections').update({ to_category: name }).eq('user_id', userId).eq('to_category', category.name),
+    supabase.from('category_corrections').update({ from_category: name }).eq('user_id', userId).eq('from_category', category.name),
+    supabase.from('merchants').update({ default_category: name }).eq('user_id', userId).eq('default_category', category.name),
+    supabase.from('recurring_transactions').update({ category: name }).eq('user_id', userId).eq('category', category.name),
+  ];
+
+  for (const result of await Promise.all(references)) {
+    if (result.error) throw result.error;
+  }
+}
@@ -0,0 +1,12 @@
+import { supabase } from './supabase';
+import { CategorizationRule, RULE_SELECT, sortRules } from '../../supabase/functions/_shared/rules';
+
+export async function loadCategorizationRules(userId: string): Promise<CategorizationRule[]> {
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .select(RULE_SELECT)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return sortRules(data || []);
+}
@@ -0,0 +1,53 @@
+import { supabase } from './supabase';
+import {
+  CategoryCorrection,
+  CORRECTION_HISTORY_LIMIT,
+  CORRECTION_SELECT,
+  merchantKey
+} from '../../supabase/functions/_shared/category-learning';
+
+export interface CorrectionInput {
+  transactionId?: string | null;
+  description: string;
+  from: string | null;
+  to: string;
+}
+
+export async function loadCategoryCorrections(userId: string): Promise<CategoryCorrection[]> {
+  const { data, error } = await supabase
+    .from('category_corrections')
+    .select(CORRECTION_SELECT)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(CORRECTION_HISTORY_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Remember that the user moved these transactions to another category. This is
+ * training data for later suggestions, so failures are logged and never block the save.
+ */
+export async function recordCategoryCorrections(userId: string, corrections: CorrectionInput[]): Promise<void> {
+  const rows = corrections
+    .filter(correction => correction.from !== correction.to && merchantKey(correction.description))
+    .map(correction => ({
+      user_id: userId,
+      transaction_id: correction.transactionId ?? null,
+      description: correction.description,
+      merchant_key: merchantKey(correction.description),
+      from_category: correction.from,
+      to_category: correction.to
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('category_corrections')
+    .insert(rows);
+
+  if (error) {
+    console.error('Error recording category corrections:', error);
+  }
+}
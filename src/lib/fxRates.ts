@@ -0,0 +1,47 @@
+import { supabase } from './supabase';
+import { FxRate } from '../../supabase/functions/_shared/currency';
+
+export const FX_RATE_SELECT = 'date, base_currency, quote_currency, rate';
+
+// Rows sent per request when importing a long rate history
+const IMPORT_BATCH_SIZE = 500;
+
+// Supabase returns at most this many rows per request, and daily rates soon pass it
+const PAGE_SIZE = 1000;
+
+export async function loadFxRates(userId: string): Promise<FxRate[]> {
+  const rates: FxRate[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('fx_rates')
+      .select(FX_RATE_SELECT)
+      .eq('user_id', userId)
+      .order('date')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rates.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rates;
+  }
+}
+
+/**
+ * Save imported rates, replacing any already stored for the same day and pair.
+ * Returns how many rates were saved.
+ */
+export async function importFxRates(userId: string, rates: FxRate[]): Promise<number> {
+  // A file listing the same day and pair twice keeps its last line
+  const unique = new Map(rates.map(rate => [`${rate.date}:${rate.base_currency}:${rate.quote_currency}`, rate]));
+  const rows = [...unique.values()].map(rate => ({ user_id: userId, ...rate }));
+
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('fx_rates')
+      .upsert(rows.slice(i, i + IMPORT_BATCH_SIZE), { onConflict: 'user_id,date,base_currency,quote_currency' });
+
+    if (error) throw error;
+  }
+
+  return rows.length;
+}
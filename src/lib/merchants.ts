@@ -0,0 +1,88 @@
+import { supabase } from './supabase';
+import {
+  canonicalMerchantName,
+  matchMerchant,
+  Merchant,
+  MerchantRow,
+  MERCHANT_SELECT,
+  toMerchant
+} from '../../supabase/functions/_shared/merchants';
+
+export async function loadMerchants(userId: string): Promise<Merchant[]> {
+  const { data, error } = await supabase
+    .from('merchants')
+    .select(MERCHANT_SELECT)
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) throw error;
+  return ((data || []) as MerchantRow[]).map(toMerchant);
+}
+
+export async function addMerchantAlias(userId: string, merchant: Merchant, alias: string): Promise<void> {
+  const trimmed = alias.trim();
+  if (!trimmed || trimmed === merchant.name || merchant.aliases.includes(trimmed)) return;
+
+  const { error } = await supabase
+    .from('merchant_aliases')
+    .upsert(
+      [{ user_id: userId, merchant_id: merchant.id, alias: trimmed }],
+      { onConflict: 'merchant_id,alias', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * The directory entry for a merchant name typed or read off a receipt. A known
+ * merchant is matched through its name and aliases, and a new spelling is kept
+ * as an alias; anything else becomes a new merchant under a tidied-up name.
+ */
+export async function resolveMerchant(
+  userId: string,
+  merchants: Merchant[],
+  rawName: string
+): Promise<Merchant | null> {
+  const raw = rawName.trim();
+  if (!raw) return null;
+
+  const known = matchMerchant(merchants, raw);
+  if (known) {
+    await addMerchantAlias(userId, known, raw);
+    return known;
+  }
+
+  const { data, error } = await supabase
+    .from('merchants')
+    .upsert([{ user_id: userId, name: canonicalMerchantName(raw) }], { onConflict: 'user_id,name' })
+    .select(MERCHANT_SELECT)
+    .single();
+
+  if (error) throw error;
+  const merchant = toMerchant(data as MerchantRow);
+  await addMerchantAlias(userId, merchant, raw);
+  return merchant;
+}
+
+/**
+ * Rename a merchant and the merchant name stored on its transactions. The old
+ * name is kept as an alias so receipts that still print it keep matching.
+ */
+export async function renameMerchant(userId: string, merchant: Merchant, name: string): Promise<void> {
+  const { error } = await supabase
+    .from('merchants')
+    .update({ name, updated_at: new Date().toISOString() })
+    .eq('id', merchant.id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const { error: transactionError } = await supabase
+    .from('transactions')
+    .update({ merchant: name })
+    .eq('user_id', userId)
+    .eq('merchant_id', merchant.id);
+
+  if (transactionError) throw transactionError;
+  await addMerchantAlias(userId, { ...merchant, name }, merchant.name);
+}
@@ -0,0 +1,16 @@
+import { supabase } from './supabase';
+import { FormatPreferences, normalizeFormatPreferences } from '../../supabase/functions/_shared/format';
+
+export const FORMAT_PREFERENCES_SELECT = 'currency, locale, week_start, date_format';
+
+// The profile's currency, locale, first day of the week and date format
+export async function loadFormatPreferences(userId: string): Promise<FormatPreferences> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(FORMAT_PREFERENCES_SELECT)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return normalizeFormatPreferences(data);
+}
@@ -0,0 +1,85 @@
+import { supabase } from './supabase';
+import { loadMerchants } from './merchants';
+import { matchMerchant } from '../../supabase/functions/_shared/merchants';
+import { nextOccurrence, occurrencesBetween, RecurringTransaction } from '../utils/recurrenceUtils';
+import { getTodayString } from '../utils/dateUtils';
+
+export const RECURRING_SELECT = 'id, name, merchant, amount, currency, account_id, type, category, frequency, start_date, next_date, end_date, active';
+
+export async function loadRecurringTransactions(userId: string): Promise<RecurringTransaction[]> {
+  const { data, error } = await supabase
+    .from('recurring_transactions')
+    .select(RECURRING_SELECT)
+    .eq('user_id', userId)
+    .order('next_date');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Create the transactions every active template is due for up to today and
+ * move each template's next date past them. An occurrence is unique per
+ * template and date, so running this from two tabs at once is harmless.
+ * Returns how many transactions were created.
+ */
+export async function generateDueTransactions(userId: string): Promise<number> {
+  const today = getTodayString();
+  const { data, error } = await supabase
+    .from('recurring_transactions')
+    .select(RECURRING_SELECT)
+    .eq('user_id', userId)
+    .eq('active', true)
+    .lte('next_date', today);
+
+  if (error) throw error;
+  const due: RecurringTransaction[] = data || [];
+  if (due.length === 0) return 0;
+
+  const merchants = await loadMerchants(userId);
+  let created = 0;
+
+  for (const template of due) {
+    const dates = occurrencesBetween(template, template.next_date, today);
+    const merchant = matchMerchant(merchants, template.merchant);
+
+    if (dates.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from('transactions')
+        .upsert(
+          dates.map(date => ({
+            user_id: userId,
+            date,
+            description: template.name,
+            merchant: merchant?.name ?? template.merchant,
+            merchant_id: merchant?.id ?? null,
+            amount: template.amount,
+            currency: template.currency,
+            account_id: template.account_id,
+            type: template.type,
+            category: template.category,
+            recurring_id: template.id,
+            notes: 'Added from a recurring transaction'
+          })),
+          { onConflict: 'recurring_id,date', ignoreDuplicates: true }
+        )
+        .select('id');
+
+      if (insertError) throw insertError;
+      created += inserted?.length ?? 0;
+    }
+
+    const lastDate = dates[dates.length - 1] ?? template.next_date;
+    const nextDate = dates.length > 0 ? nextOccurrence(lastDate, template.frequency, template.start_date) : template.next_date;
+    const finished = !!template.end_date && nextDate > template.end_date;
+
+    const { error: updateError } = await supabase
+      .from('recurring_transactions')
+      .update({ next_date: nextDate, active: !finished, updated_at: new Date().toISOString() })
+      .eq('id', template.id);
+
+    if (updateError) throw updateError;
+  }
+
+  return created;
+}
@@ -32,10 +32,12 @@ const createMockClient = () => ({
     delete: () => ({ eq: () => Promise.resolve({ error: { message: 'Please configure Supabase' } }) }),
     upsert: () => Promise.resolve({ error: { message: 'Please configure Supabase' } })
   }),
+  rpc: () => Promise.resolve({ data: null, error: { message: 'Please configure Supabase' } }),
   storage: {
     from: () => ({
       upload: () => Promise.resolve({ error: { message: 'Please configure Supabase' } }),
-      createSignedUrl: () => Promise.resolve({ data: null, error: { message: 'Please configure Supabase' } })
+      createSignedUrl: () => Promise.resolve({ data: null, error: { message: 'Please configure Supabase' } }),
+      remove: () => Promise.resolve({ data: null, error: { message: 'Please configure Supabase' } })
     })
   }
 });
@@ -53,18 +55,27 @@ export type Database = {
           user_id: string;
           display_name: string | null;
           currency: string;
+          locale: string;
+          week_start: number;
+          date_format: 'locale' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
           created_at: string;
         };
         Insert: {
           user_id: string;
           display_name?: string | null;
           currency?: string;
+          locale?: string;
+          week_start?: number;
+          date_format?: 'locale' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
           created_at?: string;
         };
         Update: {
           user_id?: string;
           display_name?: string | null;
           currency?: string;
+          locale?: string;
+          week_start?: number;
+          date_format?: 'locale' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
           created_at?: string;
         };
       };
@@ -74,6 +85,10 @@ export type Database = {
           user_id: string;
           date: string;
           description: string;
+          merchant: string | null;
+          merchant_id: string | null;
+          account_id: string | null;
+          transfer_id: string | null;
           amount: number;
           type: 'debit' | 'credit';
           category: string;
@@ -81,12 +96,21 @@ export type Database = {
           created_at: string;
           updated_at: string;
           notes: string | null;
+          ocr_provider: string | null;
+          ocr_confidence: number | null;
+          image_hash: string | null;
+          recurring_id: string | null;
+          currency: string;
         };
         Insert: {
           id?: string;
           user_id: string;
           date: string;
           description: string;
+          merchant?: string | null;
+          merchant_id?: string | null;
+          account_id?: string | null;
+          transfer_id?: string | null;
           amount: number;
           type: 'debit' | 'credit';
           category?: string;
@@ -94,12 +118,21 @@ export type Database = {
           created_at?: string;
           updated_at?: string;
           notes?: string | null;
+          ocr_provider?: string | null;
+          ocr_confidence?: number | null;
+          image_hash?: string | null;
+          recurring_id?: string | null;
+          currency?: string;
         };
         Update: {
           id?: string;
           user_id?: string;
           date?: string;
           description?: string;
+          merchant?: string | null;
+          merchant_id?: string | null;
+          account_id?: string | null;
+          transfer_id?: string | null;
           amount?: number;
           type?: 'debit' | 'credit';
           category?: string;
@@ -107,6 +140,440 @@ export type Database = {
           created_at?: string;
           updated_at?: string;
           notes?: string | null;
+          ocr_provider?: string | null;
+          ocr_confidence?: number | null;
+          image_hash?: string | null;
+          recurring_id?: string | null;
+          currency?: string;
+        };
+      };
+      transaction_items: {
+        Row: {
+          id: string;
+          transaction_id: string;
+          user_id: string;
+          position: number;
+          name: string;
+          quantity: number;
+          unit_price: number;
+          line_total: number;
+          taxable: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          transaction_id: string;
+          user_id: string;
+          position?: number;
+          name: string;
+          quantity?: number;
+          unit_price?: number;
+          line_total?: number;
+          taxable?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          transaction_id?: string;
+          user_id?: string;
+          position?: number;
+          name?: string;
+          quantity?: number;
+          unit_price?: number;
+          line_total?: number;
+          taxable?: boolean;
+          created_at?: string;
+        };
+      };
+      transaction_splits: {
+        Row: {
+          id: string;
+          transaction_id: string;
+          user_id: string;
+          position: number;
+          category: string;
+          amount: number;
+          note: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          transaction_id: string;
+          user_id: string;
+          position?: number;
+          category: string;
+          amount: number;
+          note?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          transaction_id?: string;
+          user_id?: string;
+          position?: number;
+          category?: string;
+          amount?: number;
+          note?: string | null;
+          created_at?: string;
+        };
+      };
+      upload_jobs: {
+        Row: {
+          id: string;
+          user_id: string;
+          file_name: string;
+          image_path: string;
+          status: 'queued' | 'processing' | 'needs_review' | 'done' | 'failed';
+          error: string | null;
+          draft: Record<string, unknown> | null;
+          duplicates: unknown[] | null;
+          duplicate_action: 'keep_both' | null;
+          ocr_text: string | null;
+          transaction_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          file_name: string;
+          image_path: string;
+          status?: 'queued' | 'processing' | 'needs_review' | 'done' | 'failed';
+          error?: string | null;
+          draft?: Record<string, unknown> | null;
+          duplicates?: unknown[] | null;
+          duplicate_action?: 'keep_both' | null;
+          ocr_text?: string | null;
+          transaction_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          file_name?: string;
+          image_path?: string;
+          status?: 'queued' | 'processing' | 'needs_review' | 'done' | 'failed';
+          error?: string | null;
+          draft?: Record<string, unknown> | null;
+          duplicates?: unknown[] | null;
+          duplicate_action?: 'keep_both' | null;
+          ocr_text?: string | null;
+          transaction_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      categories: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          parent_id: string | null;
+          color: string;
+          icon: string;
+          archived: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          parent_id?: string | null;
+          color?: string;
+          icon?: string;
+          archived?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          parent_id?: string | null;
+          color?: string;
+          icon?: string;
+          archived?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      categorization_rules: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          priority: number;
+          description_pattern: string | null;
+          merchant: string | null;
+          min_amount: number | null;
+          max_amount: number | null;
+          type: 'debit' | 'credit' | null;
+          category: string;
+          enabled: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          priority?: number;
+          description_pattern?: string | null;
+          merchant?: string | null;
+          min_amount?: number | null;
+          max_amount?: number | null;
+          type?: 'debit' | 'credit' | null;
+          category: string;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          priority?: number;
+          description_pattern?: string | null;
+          merchant?: string | null;
+          min_amount?: number | null;
+          max_amount?: number | null;
+          type?: 'debit' | 'credit' | null;
+          category?: string;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      category_corrections: {
+        Row: {
+          id: string;
+          user_id: string;
+          transaction_id: string | null;
+          description: string;
+          merchant_key: string;
+          from_category: string | null;
+          to_category: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          transaction_id?: string | null;
+          description: string;
+          merchant_key: string;
+          from_category?: string | null;
+          to_category: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          transaction_id?: string | null;
+          description?: string;
+          merchant_key?: string;
+          from_category?: string | null;
+          to_category?: string;
+          created_at?: string;
+        };
+      };
+      accounts: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          type: 'chequing' | 'credit_card' | 'cash' | 'savings';
+          currency: string;
+          opening_balance: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          type?: 'chequing' | 'credit_card' | 'cash' | 'savings';
+          currency?: string;
+          opening_balance?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          type?: 'chequing' | 'credit_card' | 'cash' | 'savings';
+          currency?: string;
+          opening_balance?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      merchants: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          default_category: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          default_category?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          default_category?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      merchant_aliases: {
+        Row: {
+          id: string;
+          user_id: string;
+          merchant_id: string;
+          alias: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          merchant_id: string;
+          alias: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          merchant_id?: string;
+          alias?: string;
+          created_at?: string;
+        };
+      };
+      budgets: {
+        Row: {
+          id: string;
+          user_id: string;
+          category: string;
+          amount: number;
+          rollover: boolean;
+          start_month: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          category: string;
+          amount: number;
+          rollover?: boolean;
+          start_month?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          category?: string;
+          amount?: number;
+          rollover?: boolean;
+          start_month?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      recurring_transactions: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          merchant: string | null;
+          amount: number;
+          currency: string;
+          account_id: string | null;
+          type: 'debit' | 'credit';
+          category: string;
+          frequency: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+          start_date: string;
+          next_date: string;
+          end_date: string | null;
+          active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          merchant?: string | null;
+          amount: number;
+          currency?: string;
+          account_id?: string | null;
+          type: 'debit' | 'credit';
+          category?: string;
+          frequency: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+          start_date: string;
+          next_date: string;
+          end_date?: string | null;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          merchant?: string | null;
+          amount?: number;
+          currency?: string;
+          account_id?: string | null;
+          type?: 'debit' | 'credit';
+          category?: string;
+          frequency?: 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+          start_date?: string;
+          next_date?: string;
+          end_date?: string | null;
+          active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      fx_rates: {
+        Row: {
+          id: string;
+          user_id: string;
+          date: string;
+          base_currency: string;
+          quote_currency: string;
+          rate: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          date: string;
+          base_currency: string;
+          quote_currency: string;
+          rate: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          date?: string;
+          base_currency?: string;
+          quote_currency?: string;
+          rate?: number;
+          created_at?: string;
         };
       };
       goals: {
@@ -117,6 +584,7 @@ export type Database = {
           month: number;
           target_amount: number;
           actual_amount: number | null;
+          actual_source: 'computed' | 'manual';
           notes: string | null;
           created_at: string;
           updated_at: string;
@@ -128,6 +596,7 @@ export type Database = {
           month: number;
           target_amount: number;
           actual_amount?: number | null;
+          actual_source?: 'computed' | 'manual';
           notes?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -139,6 +608,7 @@ export type Database = {
           month?: number;
           target_amount?: number;
           actual_amount?: number | null;
+          actual_source?: 'computed' | 'manual';
           notes?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -152,6 +622,7 @@ export type Database = {
           type: string;
           amount: number;
           description: string | null;
+          account_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -162,6 +633,7 @@ export type Database = {
           type?: string;
           amount: number;
           description?: string | null;
+          account_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -172,10 +644,37 @@ export type Database = {
           type?: string;
           amount?: number;
           description?: string | null;
+          account_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      asset_valuations: {
+        Row: {
+          id: string;
+          user_id: string;
+          asset_id: string;
+          date: string;
+          amount: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          asset_id: string;
+          date: string;
+          amount: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          asset_id?: string;
+          date?: string;
+          amount?: number;
+          created_at?: string;
+        };
+      };
       goal_notes: {
         Row: {
           id: string;
@@ -0,0 +1,40 @@
+import { supabase } from './supabase';
+import { TransferCandidate } from '../utils/transferUtils';
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Unlinked transactions assigned to an account on or after `since`, the ones
+ * transfer matches are looked for in.
+ */
+export async function loadTransferCandidates(userId: string, since: string): Promise<TransferCandidate[]> {
+  const transactions: TransferCandidate[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, account_id, date, description, amount, currency, type, transfer_id')
+      .eq('user_id', userId)
+      .not('account_id', 'is', null)
+      .is('transfer_id', null)
+      .gte('date', since)
+      .order('date')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    transactions.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return transactions;
+  }
+}
+
+// Link a debit and a credit as the two sides of one transfer
+export async function linkTransfer(debitId: string, creditId: string): Promise<void> {
+  const { error } = await supabase.rpc('link_transfer', { p_debit_id: debitId, p_credit_id: creditId });
+  if (error) throw error;
+}
+
+// Unlink a transfer; both sides count as income and spending again
+export async function unlinkTransfer(transactionId: string): Promise<void> {
+  const { error } = await supabase.rpc('unlink_transfer', { p_transaction_id: transactionId });
+  if (error) throw error;
+}
@@ -0,0 +1,222 @@
+import { supabase } from './supabase';
+import type { ReceiptDraft } from '../components/ReceiptReviewForm';
+import type { DuplicateCandidate } from '../../supabase/functions/_shared/duplicates';
+import {
+  countPdfPages,
+  MAX_PDF_PAGES,
+  PROCESS_TIMEOUT_MS,
+  processingTimeoutMs
+} from '../../supabase/functions/_shared/pdf-limits';
+
+export type UploadJobStatus = 'queued' | 'processing' | 'needs_review' | 'done' | 'failed';
+
+export interface UploadJob {
+  id: string;
+  file_name: string;
+  image_path: string;
+  status: UploadJobStatus;
+  error: string | null;
+  draft: ReceiptDraft | null;
+  duplicates: DuplicateCandidate[] | null;
+  duplicate_action: 'keep_both' | null;
+  ocr_text: string | null;
+  transaction_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// How many receipts go through OCR at once
+export const UPLOAD_CONCURRENCY = 3;
+
+// A job left in "processing" this long belonged to a tab that went away
+const STALE_PROCESSING_MS = 2 * 60 * 1000;
+
+// Finished jobs stay in the list for a day so the user can jump to what was saved
+const DONE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export async function loadUploadJobs(userId: string): Promise<UploadJob[]> {
+  // Older finished jobs are cleared out rather than read back every time; their
+  // files stay, since the saved transactions point at them
+  const { error: cleanupError } = await supabase
+    .from('upload_jobs')
+    .delete()
+    .eq('user_id', userId)
+    .eq('status', 'done')
+    .lt('updated_at', new Date(Date.now() - DONE_RETENTION_MS).toISOString());
+
+  if (cleanupError) throw cleanupError;
+
+  const { data, error } = await supabase
+    .from('upload_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  const now = Date.now();
+  const jobs: UploadJob[] = data || [];
+
+  const stale = jobs.filter(job => job.status === 'processing' && now - Date.parse(job.updated_at) > STALE_PROCESSING_MS);
+  for (const job of stale) {
+    await updateUploadJob(job.id, { status: 'queued' });
+    job.status = 'queued';
+  }
+
+  return jobs;
+}
+
+/**
+ * Store the file in the receipts bucket and queue it. The job only exists once
+ * the image is uploaded, so anything in the table can be resumed after a reload.
+ */
+export async function createUploadJob(userId: string, file: File): Promise<UploadJob> {
+  const imagePath = `${userId}/${Date.now()}_${file.name}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('receipts')
+    .upload(imagePath, file);
+
+  if (uploadError) {
+    if (uploadError.message.includes('Bucket not found')) {
+      throw new Error('Storage bucket "receipts" not found. Please create the bucket in your Supabase dashboard under Storage.');
+    }
+    throw uploadError;
+  }
+
+  const { data, error } = await supabase
+    .from('upload_jobs')
+    .insert([{ user_id: userId, file_name: file.name, image_path: imagePath, status: 'queued' }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateUploadJob(jobId: string, changes: Partial<Omit<UploadJob, 'id'>>): Promise<void> {
+  const { error } = await supabase
+    .from('upload_jobs')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+
+  if (error) throw error;
+}
+
+export interface PageDraft {
+  draft: ReceiptDraft;
+  duplicates: DuplicateCandidate[];
+  ocr_text: string;
+}
+
+/**
+ * A multi-page PDF yields one draft per page. The first stays on the original
+ * job; the rest become jobs of their own that share its file and wait for review.
+ */
+export async function createPageJobs(userId: string, job: UploadJob, pages: PageDraft[]): Promise<UploadJob[]> {
+  if (pages.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('upload_jobs')
+    .insert(pages.map(page => ({
+      user_id: userId,
+      file_name: pageFileName(job.file_name, page.draft.page),
+      image_path: job.image_path,
+      status: 'needs_review',
+      draft: page.draft,
+      duplicates: page.duplicates,
+      ocr_text: page.ocr_text,
+    })))
+    .select();
+
+  if (error) throw error;
+  return data || [];
+}
+
+export function pageFileName(fileName: string, page: number | null): string {
+  return page ? `${fileName} (page ${page})` : fileName;
+}
+
+/**
+ * Drop a job from the queue. Its file goes too, unless a transaction or
+ * another page of the same PDF still uses it.
+ */
+export async function deleteUploadJob(job: UploadJob): Promise<void> {
+  if (!job.transaction_id && !await isFileShared(job)) {
+    const { error: removeError } = await supabase.storage
+      .from('receipts')
+      .remove([job.image_path]);
+
+    if (removeError) {
+      console.error('Error removing uploaded image:', removeError);
+    }
+  }
+
+  const { error } = await supabase
+    .from('upload_jobs')
+    .delete()
+    .eq('id', job.id);
+
+  if (error) throw error;
+}
+
+async function isFileShared(job: UploadJob): Promise<boolean> {
+  const { count: transactionCount } = await supabase
+    .from('transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('image_path', job.image_path);
+
+  const { count: jobCount } = await supabase
+    .from('upload_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('image_path', job.image_path)
+    .neq('id', job.id);
+
+  return (transactionCount ?? 0) > 0 || (jobCount ?? 0) > 0;
+}
+
+/**
+ * How long to wait for a job's OCR. PDFs get longer the more pages they have;
+ * when the file isn't at hand (a job resumed after a reload) or its pages can't
+ * be counted, it's assumed to be as long as process_image will read.
+ */
+export async function processingTimeoutFor(job: UploadJob, file?: File): Promise<number> {
+  if (!/\.pdf$/i.test(job.image_path)) return PROCESS_TIMEOUT_MS;
+  const pages = file ? countPdfPages(new Uint8Array(await file.arrayBuffer())) : null;
+  return processingTimeoutMs(pages ?? MAX_PDF_PAGES);
+}
+
+export async function callProcessImage(body: Record<string, unknown>, timeoutMs: number = PROCESS_TIMEOUT_MS): Promise<Response> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Authentication required. Please sign in again.');
+  }
+
+  return fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process_image`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+}
+
+export async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    // Clone the response to avoid "body stream already read" error
+    const errorData = await response.clone().json();
+    if (errorData.error) return errorData.error;
+  } catch {
+    // Not JSON; fall through to the text body
+  }
+
+  try {
+    const errorText = await response.text();
+    return errorText || `HTTP ${response.status}: ${response.statusText}`;
+  } catch {
+    return `HTTP ${response.status}: ${response.statusText}`;
+  }
+}
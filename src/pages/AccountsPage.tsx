@@ -0,0 +1,439 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useAccounts } from '../contexts/AccountContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { loadAccountTransactions } from '../lib/accounts';
+import { linkTransfer, loadTransferCandidates } from '../lib/transfers';
+import { Account, accountBalance, AccountTransaction, AccountType, accountTypeLabel, ACCOUNT_TYPES } from '../utils/accountUtils';
+import { findTransferMatches, TransferCandidate, TransferMatch } from '../utils/transferUtils';
+import { amountStep, createConverter, currencyOptions, currencySymbol } from '../../supabase/functions/_shared/currency';
+import { getLocalDateString, getTodayString, parseLocalDate } from '../utils/dateUtils';
+import { Plus, Pencil, Trash2, Save, X, AlertCircle, CheckCircle, ArrowRightLeft } from 'lucide-react';
+
+// How far back unlinked transactions are searched for transfers
+const TRANSFER_SEARCH_DAYS = 365;
+
+interface AccountForm {
+  name: string;
+  type: AccountType;
+  currency: string;
+  opening_balance: string;
+}
+
+function emptyForm(currency: string): AccountForm {
+  return { name: '', type: 'chequing', currency, opening_balance: '0' };
+}
+
+function matchKey(match: TransferMatch<TransferCandidate>): string {
+  return `${match.debit.id}:${match.credit.id}`;
+}
+
+function toForm(account: Account): AccountForm {
+  return {
+    name: account.name,
+    type: account.type,
+    currency: account.currency,
+    opening_balance: Number(account.opening_balance).toString()
+  };
+}
+
+export function AccountsPage() {
+  const { user } = useAuth();
+  const { accounts, loading: accountsLoading, refreshAccounts, accountName } = useAccounts();
+  const { baseCurrency, rates, convert, formatBase } = useCurrency();
+  const { money, date: formatDate } = useFormat();
+  const [transactions, setTransactions] = useState<AccountTransaction[]>([]);
+  const [transferMatches, setTransferMatches] = useState<TransferMatch<TransferCandidate>[]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [linking, setLinking] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<AccountForm>(() => emptyForm(baseCurrency));
+  const [editing, setEditing] = useState<Account | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      const today = parseLocalDate(getTodayString());
+      const since = getLocalDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() - TRANSFER_SEARCH_DAYS));
+      const [loadedTransactions, candidates] = await Promise.all([
+        loadAccountTransactions(user.id),
+        loadTransferCandidates(user.id, since)
+      ]);
+      setTransactions(loadedTransactions);
+      setTransferMatches(findTransferMatches(candidates));
+    } catch (err) {
+      console.error('Error loading account transactions:', err);
+      setError('Failed to load account balances');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const openNewAccount = () => {
+    setForm(emptyForm(baseCurrency));
+    setEditing(null);
+    setShowForm(true);
+    setError('');
+  };
+
+  const openEditAccount = (account: Account) => {
+    setForm(toForm(account));
+    setEditing(account);
+    setShowForm(true);
+    setError('');
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+    setForm(emptyForm(baseCurrency));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const name = form.name.trim();
+    const openingBalance = parseFloat(form.opening_balance || '0');
+    if (!name) {
+      setError('Please give the account a name');
+      return;
+    }
+    if (Number.isNaN(openingBalance)) {
+      setError('The opening balance must be a number');
+      return;
+    }
+    if (accounts.some(account => account.name.toLowerCase() === name.toLowerCase() && account.id !== editing?.id)) {
+      setError(`There is already an account called ${name}`);
+      return;
+    }
+
+    const accountData = {
+      name,
+      type: form.type,
+      currency: form.currency,
+      opening_balance: Math.round(openingBalance * 100) / 100,
+      updated_at: new Date().toISOString()
+    };
+
+    try {
+      setSaving(true);
+      setError('');
+
+      if (editing) {
+        const { error } = await supabase.from('accounts').update(accountData).eq('id', editing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('accounts').insert([{ user_id: user.id, ...accountData }]);
+        if (error) throw error;
+      }
+
+      closeForm();
+      await refreshAccounts();
+      setSuccess(editing ? `Updated ${name}` : `Added ${name}`);
+    } catch (err) {
+      console.error('Error saving account:', err);
+      setError('Failed to save account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (account: Account) => {
+    if (!confirm(`Delete "${account.name}"? Its transactions are kept without an account.`)) return;
+
+    try {
+      const { error } = await supabase.from('accounts').delete().eq('id', account.id);
+      if (error) throw error;
+
+      await Promise.all([refreshAccounts(), refresh()]);
+      setSuccess(`Deleted ${account.name}`);
+    } catch (err) {
+      console.error('Error deleting account:', err);
+      setError('Failed to delete account');
+    }
+  };
+
+  const handleLinkTransfers = async (matches: TransferMatch<TransferCandidate>[]) => {
+    try {
+      setLinking(true);
+      setError('');
+      for (const match of matches) {
+        await linkTransfer(match.debit.id, match.credit.id);
+      }
+      await refresh();
+      setSuccess(matches.length === 1 ? 'Linked 1 transfer' : `Linked ${matches.length} transfers`);
+    } catch (err) {
+      console.error('Error linking transfers:', err);
+      setError('Failed to link transfers');
+      await refresh();
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  if (loading || accountsLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const today = getTodayString();
+  const balances = accounts.map(account => {
+    const balance = accountBalance(account, transactions, createConverter(rates, account.currency));
+    return {
+      account,
+      balance,
+      count: transactions.filter(transaction => transaction.account_id === account.id).length,
+      // Today's value in the profile currency, for the total
+      inBase: convert(balance, account.currency, today)
+    };
+  });
+  const total = balances.reduce((sum, { balance, inBase }) => sum + (inBase ?? balance), 0);
+  const visibleMatches = transferMatches.filter(match => !dismissed.has(matchKey(match)));
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Accounts</h1>
+          <p className="mt-2 text-gray-600">
+            The bank accounts, cards and cash your transactions are paid from. Each balance is the opening balance plus the account's income minus its expenses.
+          </p>
+        </div>
+        <button
+          onClick={openNewAccount}
+          className="ml-4 flex-shrink-0 inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Account
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-center">
+          <CheckCircle className="h-5 w-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white shadow rounded-lg p-6 mb-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">{editing ? 'Edit Account' : 'New Account'}</h2>
+            <button type="button" onClick={closeForm} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Visa"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as AccountType }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {ACCOUNT_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+              <select
+                value={form.currency}
+                onChange={(e) => setForm(prev => ({ ...prev, currency: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {currencyOptions(form.currency).map(code => (
+                  <option key={code} value={code}>{code} ({currencySymbol(code)})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Opening balance</label>
+              <input
+                type="number"
+                step={amountStep(form.currency)}
+                value={form.opening_balance}
+                onChange={(e) => setForm(prev => ({ ...prev, opening_balance: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {form.type === 'credit_card' && (
+            <p className="text-xs text-gray-500">Enter money already owed on the card as a negative opening balance.</p>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {accounts.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+          No accounts yet. Add one, then pick it when you add, import or review transactions.
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Transactions</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {balances.map(({ account, balance, count, inBase }) => (
+                <tr key={account.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Link to={`/transactions?account=${account.id}`} className="text-sm font-medium text-blue-600 hover:text-blue-800">
+                      {account.name}
+                    </Link>
+                    <div className="text-xs text-gray-500">Opening balance {money(Number(account.opening_balance), account.currency)}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{accountTypeLabel(account.type)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">{count}</td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {money(balance, account.currency)}
+                    {account.currency !== baseCurrency && (
+                      <span className="block text-xs font-normal text-gray-500">
+                        {inBase === null ? `No ${account.currency} rate` : `≈ ${formatBase(inBase)}`}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    <button
+                      onClick={() => openEditAccount(account)}
+                      className="text-blue-600 hover:text-blue-900 mr-3"
+                      aria-label={`Edit ${account.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(account)}
+                      className="text-red-600 hover:text-red-900"
+                      aria-label={`Delete ${account.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50">
+              <tr>
+                <td colSpan={3} className="px-6 py-3 text-sm font-semibold text-gray-700">Total</td>
+                <td className={`px-6 py-3 whitespace-nowrap text-sm text-right font-semibold ${total < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {formatBase(total)}
+                </td>
+                <td></td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {visibleMatches.length > 0 && (
+        <div className="bg-white shadow rounded-lg p-6 mt-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center">
+              <ArrowRightLeft className="h-5 w-5 text-blue-600 mr-2" />
+              <h2 className="text-lg font-semibold text-gray-900">Possible Transfers</h2>
+            </div>
+            <button
+              onClick={() => handleLinkTransfers(visibleMatches)}
+              disabled={linking}
+              className="text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              Link all
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Money that left one account and arrived in another, such as a card payment or a move to savings. Linked transfers still move balances but don't count as income or spending.
+          </p>
+          <div className="divide-y divide-gray-200">
+            {visibleMatches.map(match => (
+              <div key={matchKey(match)} className="py-3 flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {money(Number(match.debit.amount), match.debit.currency || baseCurrency)} from {accountName(match.debit.account_id)} to {accountName(match.credit.account_id)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatDate(match.debit.date)} "{match.debit.description}"
+                    {match.days > 0 ? ` · ${formatDate(match.credit.date)}` : ''} "{match.credit.description}"
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3 ml-4">
+                  <button
+                    onClick={() => handleLinkTransfers([match])}
+                    disabled={linking}
+                    className="inline-flex items-center px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    Link
+                  </button>
+                  <button
+                    onClick={() => setDismissed(prev => new Set(prev).add(matchKey(match)))}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
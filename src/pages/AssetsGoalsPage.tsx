@@ -1,11 +1,30 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Target, TrendingUp, Plus, Pencil, Trash2, Save, X, PieChart, StickyNote } from 'lucide-react';
-import { Chart as ChartJS, ArcElement, Tooltip, Legend } from 'chart.js';
-import { Pie } from 'react-chartjs-2';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { useAccounts } from '../contexts/AccountContext';
+import { loadAccountTransactions } from '../lib/accounts';
+import { loadAssetValuations, recordValuation } from '../lib/assets';
+import { AccountTransaction, balanceOn } from '../utils/accountUtils';
+import {
+  AccountValue,
+  ASSET_TYPES,
+  assetTypeInfo,
+  assetValueOn,
+  AssetValuation,
+  groupValuations,
+  isLiability,
+  monthEndDates,
+  netWorthOn
+} from '../utils/netWorthUtils';
+import { getTodayString } from '../utils/dateUtils';
+import { amountStep, createConverter, CurrencyConverter } from '../../supabase/functions/_shared/currency';
+import { Target, TrendingUp, Plus, Pencil, Trash2, Save, X, PieChart, StickyNote, RotateCcw, Link2 } from 'lucide-react';
+import { Chart as ChartJS, ArcElement, CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend, TooltipItem } from 'chart.js';
+import { Line, Pie } from 'react-chartjs-2';
 
-ChartJS.register(ArcElement, Tooltip, Legend);
+ChartJS.register(ArcElement, CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
 
 interface Goal {
   id: string;
@@ -13,6 +32,8 @@ interface Goal {
   month: number;
   target_amount: number;
   actual_amount: number | null;
+  // 'computed' months show net savings from transactions; 'manual' ones keep the typed amount
+  actual_source: 'computed' | 'manual';
   notes: string | null;
   yearly_target?: number | null;
 }
@@ -23,6 +44,8 @@ interface Asset {
   type: string;
   amount: number;
   description: string | null;
+  // Linked assets take their value from the account's balance
+  account_id: string | null;
 }
 
 interface GoalNote {
@@ -31,25 +54,47 @@ interface GoalNote {
   content: string;
 }
 
-const MONTHS = [
-  'January', 'February', 'March', 'April', 'May', 'June',
-  'July', 'August', 'September', 'October', 'November', 'December'
-];
+// Credits minus debits for each month (1-12) of the given transactions, already in one currency
+function netSavingsByMonth(transactions: Array<{ date: string; amount: number; type: 'debit' | 'credit' }>): Record<number, number> {
+  const totals: Record<number, number> = {};
+  for (const transaction of transactions) {
+    const month = parseInt(transaction.date.slice(5, 7), 10);
+    const signed = transaction.type === 'credit' ? transaction.amount : -transaction.amount;
+    totals[month] = (totals[month] || 0) + signed;
+  }
+  return totals;
+}
+
+const EMPTY_ASSET = { name: '', type: 'other', amount: 0, description: '', account_id: '' };
 
-const ASSET_TYPES = [
-  { value: 'stocks', label: 'Stocks (TFSA)', color: '#ef4444' },
-  { value: 'crypto', label: 'Crypto', color: '#6366f1' },
-  { value: 'savings', label: 'Savings', color: '#10b981' },
-  { value: 'investment', label: 'Investment', color: '#f59e0b' },
-  { value: 'real_estate', label: 'Real Estate', color: '#8b5cf6' },
-  { value: 'other', label: 'Other', color: '#6b7280' }
-];
+function AssetTypeOptions() {
+  return (
+    <>
+      <optgroup label="Assets">
+        {ASSET_TYPES.filter(type => !type.liability).map(type => (
+          <option key={type.value} value={type.value}>{type.label}</option>
+        ))}
+      </optgroup>
+      <optgroup label="Liabilities">
+        {ASSET_TYPES.filter(type => type.liability).map(type => (
+          <option key={type.value} value={type.value}>{type.label}</option>
+        ))}
+      </optgroup>
+    </>
+  );
+}
 
 export function AssetsGoalsPage() {
   const { user } = useAuth();
+  const { baseCurrency, rates, convert, loading: currencyLoading, toBase, formatBase } = useCurrency();
+  const { month: formatMonth } = useFormat();
+  const { accounts, accountName } = useAccounts();
   const [currentYear, setCurrentYear] = useState(new Date().getFullYear());
   const [goals, setGoals] = useState<Goal[]>([]);
+  const [netSavings, setNetSavings] = useState<Record<number, number>>({});
   const [assets, setAssets] = useState<Asset[]>([]);
+  const [valuations, setValuations] = useState<AssetValuation[]>([]);
+  const [accountTransactions, setAccountTransactions] = useState<AccountTransaction[]>([]);
   const [goalNotes, setGoalNotes] = useState<GoalNote | null>(null);
   const [assetNotes, setAssetNotes] = useState<GoalNote | null>(null);
   const [loading, setLoading] = useState(true);
@@ -62,14 +107,14 @@ export function AssetsGoalsPage() {
   const [editingYearlyTarget, setEditingYearlyTarget] = useState(false);
   const [yearlyTargetInput, setYearlyTargetInput] = useState<string>('12000');
   const [yearlyTargetError, setYearlyTargetError] = useState('');
-  const [newAsset, setNewAsset] = useState({ name: '', type: 'other', amount: 0, description: '' });
+  const [newAsset, setNewAsset] = useState(EMPTY_ASSET);
   const [editForm, setEditForm] = useState<any>({});
 
   useEffect(() => {
-    if (user) {
+    if (user && !currencyLoading) {
       loadData();
     }
-  }, [user, currentYear]);
+  }, [user, currentYear, currencyLoading, toBase]);
 
   const loadData = async () => {
     try {
@@ -80,12 +125,25 @@ export function AssetsGoalsPage() {
         .eq('year', currentYear)
         .order('month');
 
+      const { data: transactionsData } = await supabase
+        .from('transactions')
+        .select('date, amount, currency, type')
+        .eq('user_id', user!.id)
+        .is('transfer_id', null)
+        .gte('date', `${currentYear}-01-01`)
+        .lte('date', `${currentYear}-12-31`);
+
       const { data: assetsData } = await supabase
         .from('assets')
         .select('*')
         .eq('user_id', user!.id)
         .order('created_at', { ascending: false });
 
+      const [valuationsData, accountTransactionsData] = await Promise.all([
+        loadAssetValuations(user!.id),
+        loadAccountTransactions(user!.id)
+      ]);
+
       const { data: goalNotesData } = await supabase
         .from('goal_notes')
         .select('*')
@@ -99,7 +157,10 @@ export function AssetsGoalsPage() {
         .eq('year', -currentYear);
 
       setGoals(goalsData || []);
+      setNetSavings(netSavingsByMonth(toBase<{ date: string; amount: number; currency: string; type: 'debit' | 'credit' }>(transactionsData || [])));
       setAssets(assetsData || []);
+      setValuations(valuationsData);
+      setAccountTransactions(accountTransactionsData);
       setGoalNotes(goalNotesData && goalNotesData.length > 0 ? goalNotesData[0] : null);
       setAssetNotes(assetNotesData && assetNotesData.length > 0 ? assetNotesData[0] : null);
 
@@ -191,23 +252,28 @@ export function AssetsGoalsPage() {
 
   const addAsset = async (closeForm = true) => {
     try {
-      const { error } = await supabase
+      const linked = !!newAsset.account_id;
+      const { data, error } = await supabase
         .from('assets')
         .insert({
           user_id: user!.id,
           name: newAsset.name,
           type: newAsset.type,
-          amount: newAsset.amount,
-          description: newAsset.description || null
-        });
+          amount: linked ? 0 : newAsset.amount,
+          description: newAsset.description || null,
+          account_id: newAsset.account_id || null
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
+      if (!linked) {
+        await recordValuation(user!.id, data.id, getTodayString(), newAsset.amount);
+      }
 
+      setNewAsset(EMPTY_ASSET);
       if (closeForm) {
-        setNewAsset({ name: '', type: 'other', amount: 0, description: '' });
         setShowAddAsset(false);
-      } else {
-        setNewAsset({ name: '', type: 'other', amount: 0, description: '' });
       }
 
       loadData();
@@ -216,14 +282,21 @@ export function AssetsGoalsPage() {
     }
   };
 
-  const updateAsset = async (assetId: string, updates: Partial<Asset>) => {
+  const updateAsset = async (asset: Asset, updates: Partial<Asset> & { valued_on?: string }) => {
     try {
+      const { amount, valued_on: valuedOn, ...details } = updates;
+      const accountId = details.account_id === undefined ? asset.account_id : details.account_id || null;
       const { error } = await supabase
         .from('assets')
-        .update({ ...updates, updated_at: new Date().toISOString() })
-        .eq('id', assetId);
+        .update({ ...details, account_id: accountId, updated_at: new Date().toISOString() })
+        .eq('id', asset.id);
 
       if (error) throw error;
+
+      // A new amount (or an amount for another day) becomes a valuation, so earlier values stay in the history
+      if (!accountId && amount !== undefined && (Number(amount) !== Number(asset.amount) || (valuedOn && valuedOn !== getTodayString()))) {
+        await recordValuation(user!.id, asset.id, valuedOn || getTodayString(), Number(amount));
+      }
       loadData();
     } catch (error) {
       console.error('Error updating asset:', error);
@@ -287,10 +360,16 @@ export function AssetsGoalsPage() {
     return (yearlyTarget / 12) * month;
   };
 
+  const getComputedActual = (month: number) => Math.round((netSavings[month] || 0) * 100) / 100;
+
+  const getActual = (goal: Goal) => {
+    return goal.actual_source === 'manual' ? goal.actual_amount || 0 : getComputedActual(goal.month);
+  };
+
   const getCumulativeActual = (month: number) => {
     return goals
       .filter(goal => goal.month <= month)
-      .reduce((sum, goal) => sum + (goal.actual_amount || 0), 0);
+      .reduce((sum, goal) => sum + getActual(goal), 0);
   };
 
   const getProgressPercentage = (cumulativeActual: number, cumulativeTarget: number) => {
@@ -310,18 +389,90 @@ export function AssetsGoalsPage() {
     return Math.min(percentage, 100);
   };
 
+  // Balances of linked accounts in the profile currency, for asset values and the net worth history
+  const converters = new Map<string, CurrencyConverter>();
+  const accountValue: AccountValue = (accountId, date) => {
+    const account = accounts.find(candidate => candidate.id === accountId);
+    if (!account) return null;
+    if (!converters.has(account.currency)) converters.set(account.currency, createConverter(rates, account.currency));
+    const balance = balanceOn(account, accountTransactions, converters.get(account.currency)!, date);
+    return convert(balance, account.currency, date);
+  };
+
+  const today = getTodayString();
+  const valuationsByAsset = groupValuations(valuations);
+  const currentValue = (asset: Asset) =>
+    asset.account_id ? assetValueOn(asset, [], accountValue, today) ?? 0 : Number(asset.amount);
+  const current = netWorthOn(assets, valuationsByAsset, accountValue, today);
+  const netWorthHistory = monthEndDates(currentYear, today).map(date => netWorthOn(assets, valuationsByAsset, accountValue, date));
+  // An account backs at most one asset
+  const linkableAccounts = (assetId?: string) =>
+    accounts.filter(account => !assets.some(asset => asset.account_id === account.id && asset.id !== assetId));
+  const chartAssets = assets.filter(asset => !isLiability(asset.type) && currentValue(asset) > 0);
+
+  const netWorthChartData = {
+    labels: netWorthHistory.map(point => formatMonth(new Date(`${point.date}T00:00:00`), 'short')),
+    datasets: [
+      {
+        label: 'Net worth',
+        data: netWorthHistory.map(point => point.netWorth),
+        borderColor: '#2563eb',
+        backgroundColor: '#2563eb',
+        tension: 0.3
+      },
+      {
+        label: 'Assets',
+        data: netWorthHistory.map(point => point.assets),
+        borderColor: '#10b981',
+        backgroundColor: '#10b981',
+        borderDash: [4, 4],
+        tension: 0.3
+      },
+      {
+        label: 'Liabilities',
+        data: netWorthHistory.map(point => point.liabilities),
+        borderColor: '#ef4444',
+        backgroundColor: '#ef4444',
+        borderDash: [4, 4],
+        tension: 0.3
+      }
+    ]
+  };
+
+  const netWorthChartOptions = {
+    responsive: true,
+    plugins: {
+      legend: {
+        position: 'bottom' as const,
+        labels: {
+          usePointStyle: true
+        }
+      },
+      tooltip: {
+        callbacks: {
+          label: function(context: TooltipItem<'line'>) {
+            return `${context.dataset.label}: ${formatBase(context.parsed.y ?? 0)}`;
+          }
+        }
+      }
+    },
+    scales: {
+      y: {
+        ticks: {
+          callback: function(value: string | number) {
+            return formatBase(Number(value));
+          }
+        }
+      }
+    }
+  };
+
   const assetChartData = {
-    labels: assets.map(asset => {
-      const type = ASSET_TYPES.find(t => t.value === asset.type);
-      return type?.label || asset.type;
-    }),
+    labels: chartAssets.map(asset => assetTypeInfo(asset.type)?.label || asset.type),
     datasets: [
       {
-        data: assets.map(asset => asset.amount),
-        backgroundColor: assets.map(asset => {
-          const type = ASSET_TYPES.find(t => t.value === asset.type);
-          return type?.color || '#6b7280';
-        }),
+        data: chartAssets.map(currentValue),
+        backgroundColor: chartAssets.map(asset => assetTypeInfo(asset.type)?.color || '#6b7280'),
         borderWidth: 2,
         borderColor: '#ffffff'
       }
@@ -345,7 +496,7 @@ export function AssetsGoalsPage() {
             const value = context.parsed || 0;
             const total = context.dataset.data.reduce((a: number, b: number) => a + b, 0);
             const percentage = ((value / total) * 100).toFixed(1);
-            return `${label}: $${value.toFixed(2)} (${percentage}%)`;
+            return `${label}: ${formatBase(value)} (${percentage}%)`;
           }
         }
       }
@@ -453,7 +604,7 @@ export function AssetsGoalsPage() {
                 </div>
               ) : (
                 <div className="text-2xl font-bold text-blue-900 dark:text-blue-100">
-                  ${yearlyTarget.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  {formatBase(yearlyTarget)}
                 </div>
               )}
             </div>
@@ -478,7 +629,7 @@ export function AssetsGoalsPage() {
                       <div className="space-y-3">
                         <div className="flex items-center justify-between">
                           <span className="text-sm font-medium text-gray-900 dark:text-white w-20">
-                            {MONTHS[goal.month - 1].slice(0, 3)}
+                            {formatMonth(new Date(goal.year, goal.month - 1, 1), 'short')}
                           </span>
                           <div className="flex items-center space-x-1">
                             {editingGoal === goal.id ? (
@@ -508,7 +659,8 @@ export function AssetsGoalsPage() {
                                 onClick={() => {
                                   setEditingGoal(goal.id);
                                   setEditForm({
-                                    actual_amount: goal.actual_amount || 0,
+                                    actual_amount: getActual(goal),
+                                    actual_source: goal.actual_source,
                                     target_amount: goal.target_amount
                                   });
                                 }}
@@ -522,31 +674,59 @@ export function AssetsGoalsPage() {
 
                         <div className="grid grid-cols-3 gap-2 text-sm">
                           <div className="flex flex-col items-center">
-                            <span className="text-xs text-gray-500 dark:text-gray-400 mb-1">Actual</span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400 mb-1 flex items-center">
+                              Actual
+                              {(editingGoal === goal.id ? editForm.actual_source : goal.actual_source) === 'manual' ? (
+                                <span
+                                  className="ml-1 px-1.5 rounded-full bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200"
+                                  title="Entered by hand; overrides the amount from your transactions"
+                                >
+                                  Manual
+                                </span>
+                              ) : (
+                                <span
+                                  className="ml-1 px-1.5 rounded-full bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200"
+                                  title="Net savings from this month's transactions (income minus expenses)"
+                                >
+                                  Auto
+                                </span>
+                              )}
+                            </span>
                             {editingGoal === goal.id ? (
-                              <input
-                                type="number"
-                                step="0.01"
-                                value={editForm.actual_amount || 0}
-                                onChange={(e) => setEditForm(prev => ({ ...prev, actual_amount: parseFloat(e.target.value) || 0 }))}
-                                className="w-full border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-xs bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-1 focus:ring-blue-500 focus:border-transparent text-center"
-                              />
+                              <div className="flex items-center w-full space-x-1">
+                                <input
+                                  type="number"
+                                  step={amountStep(baseCurrency)}
+                                  value={editForm.actual_amount || 0}
+                                  onChange={(e) => setEditForm(prev => ({ ...prev, actual_amount: parseFloat(e.target.value) || 0, actual_source: 'manual' }))}
+                                  className="w-full border border-gray-300 dark:border-gray-600 rounded px-2 py-1 text-xs bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-1 focus:ring-blue-500 focus:border-transparent text-center"
+                                />
+                                {editForm.actual_source === 'manual' && (
+                                  <button
+                                    onClick={() => setEditForm({ ...editForm, actual_amount: getComputedActual(goal.month), actual_source: 'computed' })}
+                                    className="p-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors"
+                                    title="Use net savings from transactions"
+                                  >
+                                    <RotateCcw className="h-3 w-3" />
+                                  </button>
+                                )}
+                              </div>
                             ) : (
                               <span className="font-semibold text-gray-900 dark:text-white">
-                                ${(goal.actual_amount || 0).toFixed(2)}
+                                {formatBase(getActual(goal))}
                               </span>
                             )}
                           </div>
                           <div className="flex flex-col items-center">
                             <span className="text-xs text-gray-500 dark:text-gray-400 mb-1">Total</span>
                             <span className="font-semibold text-blue-600 dark:text-blue-400">
-                              ${cumulativeActual.toFixed(2)}
+                              {formatBase(cumulativeActual)}
                             </span>
                           </div>
                           <div className="flex flex-col items-center">
                             <span className="text-xs text-gray-500 dark:text-gray-400 mb-1">Target</span>
                             <span className="font-semibold text-gray-600 dark:text-gray-300">
-                              ${cumulativeTarget.toFixed(2)}
+                              {formatBase(cumulativeTarget)}
                             </span>
                           </div>
                         </div>
@@ -624,28 +804,62 @@ export function AssetsGoalsPage() {
                                   onChange={(e) => setEditForm(prev => ({ ...prev, type: e.target.value }))}
                                   className="flex-1 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                                 >
-                                  {ASSET_TYPES.map(type => (
-                                    <option key={type.value} value={type.value}>{type.label}</option>
-                                  ))}
+                                  <AssetTypeOptions />
                                 </select>
-                                <input
-                                  type="number"
-                                  step="0.01"
-                                  value={editForm.amount || 0}
-                                  onChange={(e) => setEditForm(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
-                                  className="w-32 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                                  placeholder="Amount"
-                                />
+                                {!editForm.account_id && (
+                                  <input
+                                    type="number"
+                                    step={amountStep(baseCurrency)}
+                                    value={editForm.amount || 0}
+                                    onChange={(e) => setEditForm(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                                    className="w-32 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    placeholder="Amount"
+                                  />
+                                )}
+                              </div>
+                              <div className="flex space-x-2">
+                                {accounts.length > 0 && (
+                                  <select
+                                    value={editForm.account_id || ''}
+                                    onChange={(e) => setEditForm({ ...editForm, account_id: e.target.value })}
+                                    aria-label="Linked account"
+                                    className="flex-1 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                  >
+                                    <option value="">Not linked to an account</option>
+                                    {linkableAccounts(asset.id).map(account => (
+                                      <option key={account.id} value={account.id}>{account.name}</option>
+                                    ))}
+                                  </select>
+                                )}
+                                {!editForm.account_id && (
+                                  <input
+                                    type="date"
+                                    value={editForm.valued_on || today}
+                                    max={today}
+                                    onChange={(e) => setEditForm({ ...editForm, valued_on: e.target.value })}
+                                    aria-label="Value as of"
+                                    title="The day this value applies to"
+                                    className="w-36 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                  />
+                                )}
                               </div>
                             </div>
                           ) : (
                             <div>
                               <div className="flex items-center justify-between">
                                 <span className="font-medium text-gray-900 dark:text-white truncate" title={asset.name}>{asset.name}</span>
-                                <span className="font-semibold text-gray-900 dark:text-white ml-2">${asset.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                                <span className={`font-semibold ml-2 ${isLiability(asset.type) ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                                  {isLiability(asset.type) ? '-' : ''}{formatBase(currentValue(asset))}
+                                </span>
                               </div>
-                              <div className="text-sm text-gray-500 dark:text-gray-400">
-                                {ASSET_TYPES.find(t => t.value === asset.type)?.label || asset.type}
+                              <div className="text-sm text-gray-500 dark:text-gray-400 flex items-center">
+                                {assetTypeInfo(asset.type)?.label || asset.type}
+                                {asset.account_id && accountName(asset.account_id) && (
+                                  <span className="ml-2 inline-flex items-center text-xs" title="Value follows the account's balance">
+                                    <Link2 className="h-3 w-3 mr-0.5" />
+                                    {accountName(asset.account_id)}
+                                  </span>
+                                )}
                               </div>
                             </div>
                           )}
@@ -655,7 +869,7 @@ export function AssetsGoalsPage() {
                             <>
                               <button
                                 onClick={() => {
-                                  updateAsset(asset.id, editForm);
+                                  updateAsset(asset, editForm);
                                   setEditingAsset(null);
                                   setEditForm({});
                                 }}
@@ -682,7 +896,9 @@ export function AssetsGoalsPage() {
                                     name: asset.name,
                                     type: asset.type,
                                     amount: asset.amount,
-                                    description: asset.description
+                                    description: asset.description,
+                                    account_id: asset.account_id || '',
+                                    valued_on: today
                                   });
                                 }}
                                 className="p-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors"
@@ -708,6 +924,39 @@ export function AssetsGoalsPage() {
         </div>
       </div>
 
+      <div className="mt-6 bg-white dark:bg-gray-800 shadow-sm rounded-2xl border border-gray-200 dark:border-gray-700">
+        <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-700 flex items-center">
+          <TrendingUp className="h-5 w-5 text-blue-600 dark:text-blue-400 mr-2" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Net Worth {currentYear}</h2>
+        </div>
+        <div className="p-4 sm:p-6">
+          <div className="grid grid-cols-3 gap-4 mb-6 text-center">
+            <div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Assets</div>
+              <div className="text-lg font-semibold text-green-600 dark:text-green-400">{formatBase(current.assets)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Liabilities</div>
+              <div className="text-lg font-semibold text-red-600 dark:text-red-400">{formatBase(current.liabilities)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Net Worth Today</div>
+              <div className={`text-lg font-semibold ${current.netWorth < 0 ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'}`}>
+                {formatBase(current.netWorth)}
+              </div>
+            </div>
+          </div>
+          {netWorthHistory.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">No history for {currentYear} yet</p>
+          ) : (
+            <Line data={netWorthChartData} options={netWorthChartOptions} />
+          )}
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            Month-end values: the latest value recorded for each asset, and the balance of linked accounts.
+          </p>
+        </div>
+      </div>
+
       <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
         <div className="bg-white dark:bg-gray-800 shadow-sm rounded-2xl border border-gray-200 dark:border-gray-700">
           <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
@@ -857,22 +1106,40 @@ export function AssetsGoalsPage() {
                     onChange={(e) => setNewAsset(prev => ({ ...prev, type: e.target.value }))}
                     className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
-                    {ASSET_TYPES.map(type => (
-                      <option key={type.value} value={type.value}>{type.label}</option>
-                    ))}
+                    <AssetTypeOptions />
                   </select>
                 </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Amount</label>
-                  <input
-                    type="number"
-                    step="0.01"
-                    value={newAsset.amount}
-                    onChange={(e) => setNewAsset(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
-                    className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="0.00"
-                  />
-                </div>
+                {accounts.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Linked Account (Optional)</label>
+                    <select
+                      value={newAsset.account_id}
+                      onChange={(e) => setNewAsset(prev => ({ ...prev, account_id: e.target.value }))}
+                      className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Not linked</option>
+                      {linkableAccounts().map(account => (
+                        <option key={account.id} value={account.id}>{account.name}</option>
+                      ))}
+                    </select>
+                    {newAsset.account_id && (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">The value follows the account's balance as transactions come in.</p>
+                    )}
+                  </div>
+                )}
+                {!newAsset.account_id && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{isLiability(newAsset.type) ? 'Amount Owed' : 'Amount'}</label>
+                    <input
+                      type="number"
+                      step={amountStep(baseCurrency)}
+                      value={newAsset.amount}
+                      onChange={(e) => setNewAsset(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                      className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="0.00"
+                    />
+                  </div>
+                )}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description (Optional)</label>
                   <textarea
@@ -887,7 +1154,7 @@ export function AssetsGoalsPage() {
               <div className="flex space-x-3 mt-6">
                 <button
                   onClick={() => addAsset(true)}
-                  disabled={!newAsset.name || newAsset.amount <= 0}
+                  disabled={!newAsset.name || (!newAsset.account_id && newAsset.amount <= 0)}
                   className="flex-1 inline-flex justify-center items-center rounded-xl px-3.5 py-2.5 text-sm font-medium text-white bg-green-600 hover:bg-green-700 dark:bg-green-500 dark:hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
                 >
                   <Plus className="h-4 w-4 mr-2" />
@@ -895,7 +1162,7 @@ export function AssetsGoalsPage() {
                 </button>
                 <button
                   onClick={() => addAsset(false)}
-                  disabled={!newAsset.name || newAsset.amount <= 0}
+                  disabled={!newAsset.name || (!newAsset.account_id && newAsset.amount <= 0)}
                   className="flex-1 inline-flex justify-center items-center rounded-xl px-3.5 py-2.5 text-sm font-medium text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/30 hover:bg-green-100 dark:hover:bg-green-900/50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors border border-green-300 dark:border-green-800"
                 >
                   Add Another
@@ -904,7 +1171,7 @@ export function AssetsGoalsPage() {
               <button
                 onClick={() => {
                   setShowAddAsset(false);
-                  setNewAsset({ name: '', type: 'other', amount: 0, description: '' });
+                  setNewAsset(EMPTY_ASSET);
                 }}
                 className="w-full mt-3 inline-flex justify-center items-center rounded-xl px-3.5 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
               >
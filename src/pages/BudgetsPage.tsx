@@ -0,0 +1,331 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoryContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { loadBudgets, loadBudgetStatus } from '../lib/budgets';
+import { Budget, BudgetStatus } from '../utils/budgetUtils';
+import { BudgetProgress } from '../components/BudgetProgress';
+import { Plus, Pencil, Trash2, Save, X, AlertCircle, CheckCircle } from 'lucide-react';
+import { getTodayString, parseLocalDate } from '../utils/dateUtils';
+import { amountStep } from '../../supabase/functions/_shared/currency';
+
+interface BudgetForm {
+  category: string;
+  amount: string;
+  rollover: boolean;
+  // "YYYY-MM", as used by <input type="month">
+  start_month: string;
+}
+
+function emptyForm(): BudgetForm {
+  return {
+    category: '',
+    amount: '',
+    rollover: false,
+    start_month: getTodayString().slice(0, 7)
+  };
+}
+
+function toForm(budget: Budget): BudgetForm {
+  return {
+    category: budget.category,
+    amount: Number(budget.amount).toString(),
+    rollover: budget.rollover,
+    start_month: budget.start_month.slice(0, 7)
+  };
+}
+
+export function BudgetsPage() {
+  const { user } = useAuth();
+  const { categories, categoryOptions, categoryLabel } = useCategories();
+  const { baseCurrency, convert, formatBase } = useCurrency();
+  const { month: formatMonth } = useFormat();
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<BudgetForm>(emptyForm);
+  const [editing, setEditing] = useState<Budget | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      const now = new Date();
+      const [loadedBudgets, loadedStatuses] = await Promise.all([
+        loadBudgets(user.id),
+        loadBudgetStatus(user.id, categories, now.getFullYear(), now.getMonth(), convert)
+      ]);
+      setBudgets(loadedBudgets);
+      setStatuses(loadedStatuses);
+    } catch (err) {
+      console.error('Error loading budgets:', err);
+      setError('Failed to load budgets');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, categories, convert]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Budgets that start in a later month have no status yet
+  const statusById = new Map(statuses.map(status => [status.budget.id, status]));
+
+  const openNewBudget = () => {
+    setForm(emptyForm());
+    setEditing(null);
+    setShowForm(true);
+    setError('');
+  };
+
+  const openEditBudget = (budget: Budget) => {
+    setForm(toForm(budget));
+    setEditing(budget);
+    setShowForm(true);
+    setError('');
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+    setForm(emptyForm());
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const amount = parseFloat(form.amount);
+    if (!form.category) {
+      setError('Please choose a category');
+      return;
+    }
+    if (!(amount > 0)) {
+      setError('The monthly amount must be greater than zero');
+      return;
+    }
+    if (!/^\d{4}-\d{2}$/.test(form.start_month)) {
+      setError('Please choose the month the budget starts');
+      return;
+    }
+    if (budgets.some(budget => budget.category === form.category && budget.id !== editing?.id)) {
+      setError(`${form.category} already has a budget`);
+      return;
+    }
+
+    const budgetData = {
+      category: form.category,
+      amount: Math.round(amount * 100) / 100,
+      rollover: form.rollover,
+      start_month: `${form.start_month}-01`,
+      updated_at: new Date().toISOString()
+    };
+
+    try {
+      setSaving(true);
+      setError('');
+
+      if (editing) {
+        const { error } = await supabase.from('budgets').update(budgetData).eq('id', editing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('budgets').insert([{ user_id: user.id, ...budgetData }]);
+        if (error) throw error;
+      }
+
+      closeForm();
+      await refresh();
+      setSuccess(editing ? 'Budget updated' : 'Budget created');
+    } catch (err) {
+      console.error('Error saving budget:', err);
+      setError('Failed to save budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    if (!confirm(`Delete the ${budget.category} budget?`)) return;
+
+    try {
+      const { error } = await supabase.from('budgets').delete().eq('id', budget.id);
+      if (error) throw error;
+      await refresh();
+      setSuccess(`Deleted the ${budget.category} budget`);
+    } catch (err) {
+      console.error('Error deleting budget:', err);
+      setError('Failed to delete budget');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Budgets</h1>
+          <p className="mt-2 text-gray-600">
+            Monthly spending limits per category, compared live with your transactions. A budget on a parent category covers its sub-categories. With rollover, whatever you don't spend is added to next month's budget.
+          </p>
+        </div>
+        <button
+          onClick={openNewBudget}
+          className="ml-4 flex-shrink-0 inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Budget
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-center">
+          <CheckCircle className="h-5 w-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white shadow rounded-lg p-6 mb-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">{editing ? 'Edit Budget' : 'New Budget'}</h2>
+            <button type="button" onClick={closeForm} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={form.category}
+                onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Choose a category</option>
+                {categoryOptions(form.category).map(cat => (
+                  <option key={cat} value={cat}>{categoryLabel(cat)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Monthly amount</label>
+              <input
+                type="number"
+                step={amountStep(baseCurrency)}
+                min="0"
+                value={form.amount}
+                onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                placeholder="e.g., 300"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Starting month</label>
+              <input
+                type="month"
+                value={form.start_month}
+                onChange={(e) => setForm(prev => ({ ...prev, start_month: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.rollover}
+              onChange={(e) => setForm(prev => ({ ...prev, rollover: e.target.checked }))}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Roll unspent amounts over to the next month
+          </label>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Budget'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {budgets.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+          No budgets yet.
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg divide-y divide-gray-200">
+          {budgets.map(budget => {
+            const status = statusById.get(budget.id);
+            return (
+              <div key={budget.id} className="p-6 flex items-start">
+                <div className="flex-1">
+                  {status ? (
+                    <BudgetProgress statuses={[status]} />
+                  ) : (
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium text-gray-700">{categoryLabel(budget.category)}</span>
+                      <span className="text-gray-500">
+                        Starts {formatMonth(parseLocalDate(budget.start_month))}
+                      </span>
+                    </div>
+                  )}
+                  <p className="mt-2 text-xs text-gray-500">
+                    {formatBase(Number(budget.amount))} a month{budget.rollover && ', unspent amounts roll over'}
+                  </p>
+                </div>
+                <div className="ml-6 flex-shrink-0 text-sm">
+                  <button
+                    onClick={() => openEditBudget(budget)}
+                    className="text-blue-600 hover:text-blue-900 mr-3"
+                    aria-label={`Edit ${budget.category} budget`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(budget)}
+                    className="text-red-600 hover:text-red-900"
+                    aria-label={`Delete ${budget.category} budget`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,23 +2,48 @@ import React, { useState, useEffect } from 'react';
 import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoryContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { useAccounts } from '../contexts/AccountContext';
+import { ALL_ACCOUNTS, NO_ACCOUNT } from '../utils/accountUtils';
+import { isTransfer } from '../utils/transferUtils';
+import { filterByAccount } from '../lib/accounts';
 import { TransactionDrawer } from '../components/TransactionDrawer';
 import { DayOverview } from '../components/DayOverview';
-import { getMonthGrid, getMonthName, getTodayString, formatMoney, getStartOfMonth, getEndOfMonth } from '../utils/dateUtils';
+import { sumByCategory, sortedCategoryTotals, TransactionSplit } from '../utils/splitUtils';
+import { BudgetStatus } from '../utils/budgetUtils';
+import { loadBudgetStatus } from '../lib/budgets';
+import { BudgetProgress } from '../components/BudgetProgress';
+import { loadRecurringTransactions } from '../lib/recurring';
+import { occurrencesBetween, RecurringTransaction } from '../utils/recurrenceUtils';
+import { getMonthGrid, getTodayString, getStartOfMonth, getEndOfMonth } from '../utils/dateUtils';
 
 interface Transaction {
   id: string;
   date: string;
   description: string;
+  merchant?: string | null;
   amount: number;
+  currency?: string | null;
+  account_id?: string | null;
+  transfer_id?: string | null;
   type: 'debit' | 'credit';
   category: string;
   notes?: string | null;
+  transaction_items?: { count: number }[];
+  transaction_splits?: TransactionSplit[];
 }
 
 export function CalendarPage() {
   const { user } = useAuth();
+  const { categories, colorFor } = useCategories();
+  const { baseCurrency, convert, toBase, formatBase } = useCurrency();
+  const { preferences, money, signedMoney, date: formatDate, month: formatMonth, weekdays } = useFormat();
+  const { accounts } = useAccounts();
   const [currentDate, setCurrentDate] = useState(new Date());
+  // An account id, NO_ACCOUNT or ALL_ACCOUNTS
+  const [accountFilter, setAccountFilter] = useState(ALL_ACCOUNTS);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [drawerOpen, setDrawerOpen] = useState(false);
@@ -26,6 +51,8 @@ export function CalendarPage() {
   const [selectedDate, setSelectedDate] = useState<string>('');
   const [showTotals, setShowTotals] = useState(true);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [budgetStatuses, setBudgetStatuses] = useState<BudgetStatus[]>([]);
+  const [recurring, setRecurring] = useState<RecurringTransaction[]>([]);
   const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; transactionId: string | null }>({
     show: false,
     transactionId: null
@@ -35,7 +62,22 @@ export function CalendarPage() {
     if (user) {
       fetchTransactions();
     }
-  }, [user, currentDate]);
+  }, [user, currentDate, accountFilter]);
+
+  // Recomputed whenever the month's transactions are reloaded, e.g. after an edit
+  useEffect(() => {
+    if (!user) return;
+    loadBudgetStatus(user.id, categories, currentDate.getFullYear(), currentDate.getMonth(), convert)
+      .then(setBudgetStatuses)
+      .catch(err => console.error('Error loading budgets:', err));
+  }, [user, categories, currentDate, transactions, convert]);
+
+  useEffect(() => {
+    if (!user) return;
+    loadRecurringTransactions(user.id)
+      .then(setRecurring)
+      .catch(err => console.error('Error loading recurring transactions:', err));
+  }, [user]);
 
   const fetchTransactions = async () => {
     try {
@@ -49,13 +91,16 @@ export function CalendarPage() {
       const prevMonthStart = getStartOfMonth(year, month - 1);
       const nextMonthEnd = getEndOfMonth(year, month + 1);
 
-      const { data, error } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('user_id', user?.id)
-        .gte('date', prevMonthStart)
-        .lte('date', nextMonthEnd)
-        .order('date', { ascending: true });
+      const { data, error } = await filterByAccount(
+        supabase
+          .from('transactions')
+          .select('*, transaction_items(count), transaction_splits(category, amount, note)')
+          .eq('user_id', user?.id)
+          .gte('date', prevMonthStart)
+          .lte('date', nextMonthEnd)
+          .order('date', { ascending: true }),
+        accountFilter
+      );
 
       if (error) throw error;
       setTransactions(data || []);
@@ -71,7 +116,7 @@ export function CalendarPage() {
   };
 
   const getDayTotal = (dateStr: string) => {
-    const dayTransactions = getTransactionsForDate(dateStr);
+    const dayTransactions = toBase(getTransactionsForDate(dateStr).filter(t => !isTransfer(t)));
     return dayTransactions.reduce((sum, t) => {
       return t.type === 'credit' ? sum + t.amount : sum - t.amount;
     }, 0);
@@ -83,7 +128,8 @@ export function CalendarPage() {
     const startDate = getStartOfMonth(year, month);
     const endDate = getEndOfMonth(year, month);
 
-    const monthTransactions = transactions.filter(t => t.date >= startDate && t.date <= endDate);
+    // Transfers only move money between accounts, so they are neither income nor spending
+    const monthTransactions = toBase(transactions.filter(t => t.date >= startDate && t.date <= endDate && !isTransfer(t)));
 
     const income = monthTransactions
       .filter(t => t.type === 'credit')
@@ -95,7 +141,9 @@ export function CalendarPage() {
 
     const net = income - expenses;
 
-    return { income, expenses, net };
+    const categories = sortedCategoryTotals(sumByCategory(monthTransactions));
+
+    return { income, expenses, net, categories };
   };
 
   const previousMonth = () => {
@@ -165,12 +213,22 @@ export function CalendarPage() {
     fetchTransactions();
   };
 
-  const monthGrid = getMonthGrid(currentDate.getFullYear(), currentDate.getMonth());
-  const monthYear = getMonthName(currentDate);
+  const monthGrid = getMonthGrid(currentDate.getFullYear(), currentDate.getMonth(), preferences.weekStart);
+  const monthYear = formatMonth(currentDate);
   const todayStr = getTodayString();
-  const weekDays = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'];
+  const weekDays = weekdays();
   const totals = getMonthTotals();
 
+  // Charges still to come this month; past ones are already on the calendar as transactions.
+  // Recurring transactions have no account, so they are only listed across all accounts
+  const monthStart = getStartOfMonth(currentDate.getFullYear(), currentDate.getMonth());
+  const monthEnd = getEndOfMonth(currentDate.getFullYear(), currentDate.getMonth());
+  const upcomingCharges = recurring
+    .filter(template => template.active && accountFilter === ALL_ACCOUNTS)
+    .flatMap(template => occurrencesBetween(template, todayStr > monthStart ? todayStr : monthStart, monthEnd)
+      .map(date => ({ template, date })))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
   if (loading) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -187,6 +245,20 @@ export function CalendarPage() {
         <h1 className="text-2xl font-bold text-gray-900">Budget Calendar</h1>
 
         <div className="flex items-center gap-3">
+          {accounts.length > 0 && (
+            <select
+              value={accountFilter}
+              onChange={(e) => setAccountFilter(e.target.value)}
+              aria-label="Account"
+              className="px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value={ALL_ACCOUNTS}>All accounts</option>
+              {accounts.map(account => (
+                <option key={account.id} value={account.id}>{account.name}</option>
+              ))}
+              <option value={NO_ACCOUNT}>No account</option>
+            </select>
+          )}
           <button
             onClick={goToToday}
             className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
@@ -219,7 +291,7 @@ export function CalendarPage() {
             {weekDays.map(day => (
               <div
                 key={day}
-                className="px-2 py-3 text-xs font-bold text-gray-600 text-center border-r border-gray-200 last:border-r-0"
+                className="px-2 py-3 text-xs font-bold uppercase text-gray-600 text-center border-r border-gray-200 last:border-r-0"
               >
                 {day}
               </div>
@@ -275,7 +347,9 @@ export function CalendarPage() {
                         >
                           <div className="flex flex-col">
                             <span className="text-gray-700 font-medium truncate" title={transaction.description}>
-                              {transaction.category}
+                              {transaction.transaction_splits?.length
+                                ? transaction.transaction_splits.map(split => split.category).join(' + ')
+                                : transaction.category}
                               {transaction.description !== transaction.category && (
                                 <span className="text-gray-500"> | {transaction.description}</span>
                               )}
@@ -287,7 +361,7 @@ export function CalendarPage() {
                                   : 'text-green-600'
                               }`}
                             >
-                              {formatMoney(transaction.amount, transaction.type === 'credit' ? 'income' : 'expense')}
+                              {signedMoney(transaction.amount, transaction.type === 'credit' ? 'income' : 'expense', transaction.currency || baseCurrency)}
                             </span>
                           </div>
                         </div>
@@ -301,7 +375,7 @@ export function CalendarPage() {
                             dayTotal > 0 ? 'text-green-600' : dayTotal < 0 ? 'text-red-600' : 'text-gray-600'
                           }`}
                         >
-                          {dayTotal > 0 ? '+' : ''}{dayTotal < 0 ? '-' : ''}${Math.abs(dayTotal).toFixed(2)}
+                          {dayTotal > 0 ? '+' : ''}{dayTotal < 0 ? '-' : ''}{formatBase(Math.abs(dayTotal))}
                         </span>
                       </div>
                     )}
@@ -320,14 +394,14 @@ export function CalendarPage() {
               <div className="p-4 bg-green-50 rounded-xl border border-green-200">
                 <div className="text-sm font-medium text-green-800 mb-1">Income</div>
                 <div className="text-2xl font-bold text-green-600">
-                  +${totals.income.toFixed(2)}
+                  +{formatBase(totals.income)}
                 </div>
               </div>
 
               <div className="p-4 bg-red-50 rounded-xl border border-red-200">
                 <div className="text-sm font-medium text-red-800 mb-1">Expenses</div>
                 <div className="text-2xl font-bold text-red-600">
-                  -${totals.expenses.toFixed(2)}
+                  -{formatBase(totals.expenses)}
                 </div>
               </div>
 
@@ -346,11 +420,54 @@ export function CalendarPage() {
                 <div className={`text-2xl font-bold ${
                   totals.net > 0 ? 'text-green-600' : totals.net < 0 ? 'text-red-600' : 'text-gray-600'
                 }`}>
-                  {totals.net > 0 ? '+' : ''}{totals.net < 0 ? '-' : ''}${Math.abs(totals.net).toFixed(2)}
+                  {totals.net > 0 ? '+' : ''}{totals.net < 0 ? '-' : ''}{formatBase(Math.abs(totals.net))}
                 </div>
               </div>
             </div>
 
+            {totals.categories.length > 0 && (
+              <div className="mt-6 pt-6 border-t border-gray-200">
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Spending by Category</h3>
+                <div className="space-y-1">
+                  {totals.categories.map(({ category, amount }) => (
+                    <div key={category} className="flex justify-between text-sm">
+                      <span className="flex items-center text-gray-600">
+                        <span className="h-2 w-2 rounded-full mr-2" style={{ backgroundColor: colorFor(category) }} />
+                        {category}
+                      </span>
+                      <span className="font-medium text-gray-900">{formatBase(amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {budgetStatuses.length > 0 && (
+              <div className="mt-6 pt-6 border-t border-gray-200">
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Budgets</h3>
+                <BudgetProgress statuses={budgetStatuses} compact />
+              </div>
+            )}
+
+            {upcomingCharges.length > 0 && (
+              <div className="mt-6 pt-6 border-t border-gray-200">
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Upcoming Charges</h3>
+                <div className="space-y-1">
+                  {upcomingCharges.map(({ template, date }) => (
+                    <div key={`${template.id}-${date}`} className="flex justify-between text-sm">
+                      <span className="text-gray-600">
+                        <span className="text-gray-400 mr-2">{formatDate(date)}</span>
+                        {template.name}
+                      </span>
+                      <span className={`font-medium ${template.type === 'credit' ? 'text-green-600' : 'text-gray-900'}`}>
+                        {template.type === 'credit' ? '+' : ''}{money(Number(template.amount), template.currency)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="mt-6 pt-6 border-t border-gray-200">
               <div className="text-xs text-gray-500 space-y-1">
                 <div className="flex justify-between">
@@ -384,14 +501,14 @@ export function CalendarPage() {
             <div className="p-3 bg-green-50 rounded-lg border border-green-200 text-center">
               <div className="text-xs font-medium text-green-800 mb-1">Income</div>
               <div className="text-lg font-bold text-green-600">
-                +${totals.income.toFixed(2)}
+                +{formatBase(totals.income)}
               </div>
             </div>
 
             <div className="p-3 bg-red-50 rounded-lg border border-red-200 text-center">
               <div className="text-xs font-medium text-red-800 mb-1">Expenses</div>
               <div className="text-lg font-bold text-red-600">
-                -${totals.expenses.toFixed(2)}
+                -{formatBase(totals.expenses)}
               </div>
             </div>
 
@@ -410,11 +527,34 @@ export function CalendarPage() {
               <div className={`text-lg font-bold ${
                 totals.net > 0 ? 'text-green-600' : totals.net < 0 ? 'text-red-600' : 'text-gray-600'
               }`}>
-                {totals.net > 0 ? '+' : ''}{totals.net < 0 ? '-' : ''}${Math.abs(totals.net).toFixed(2)}
+                {totals.net > 0 ? '+' : ''}{totals.net < 0 ? '-' : ''}{formatBase(Math.abs(totals.net))}
               </div>
             </div>
           </div>
         )}
+
+        {showTotals && budgetStatuses.length > 0 && (
+          <div className="mt-4">
+            <BudgetProgress statuses={budgetStatuses} compact />
+          </div>
+        )}
+
+        {showTotals && upcomingCharges.length > 0 && (
+          <div className="mt-4 space-y-1">
+            <h3 className="text-sm font-semibold text-gray-700">Upcoming Charges</h3>
+            {upcomingCharges.map(({ template, date }) => (
+              <div key={`${template.id}-${date}`} className="flex justify-between text-sm">
+                <span className="text-gray-600">
+                  <span className="text-gray-400 mr-2">{formatDate(date)}</span>
+                  {template.name}
+                </span>
+                <span className={`font-medium ${template.type === 'credit' ? 'text-green-600' : 'text-gray-900'}`}>
+                  {template.type === 'credit' ? '+' : ''}{money(Number(template.amount), template.currency)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       <DayOverview
@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoryContext';
+import { renameCategory } from '../lib/categories';
+import { CategoryIcon, CategoryIconPicker } from '../components/CategoryIcon';
+import { Plus, Pencil, Save, X, AlertCircle, CheckCircle, Archive, ArchiveRestore } from 'lucide-react';
+import { Category, descendantNames, sortCategoryTree } from '../../supabase/functions/_shared/categories';
+
+interface CategoryForm {
+  name: string;
+  parent_id: string;
+  color: string;
+  icon: string;
+}
+
+const EMPTY_FORM: CategoryForm = {
+  name: '',
+  parent_id: '',
+  color: '#3b82f6',
+  icon: 'tag'
+};
+
+function toForm(category: Category): CategoryForm {
+  return {
+    name: category.name,
+    parent_id: category.parent_id || '',
+    color: category.color,
+    icon: category.icon
+  };
+}
+
+export function CategoriesPage() {
+  const { user } = useAuth();
+  const { categories, loading, refreshCategories } = useCategories();
+  const [form, setForm] = useState<CategoryForm>(EMPTY_FORM);
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const visible = sortCategoryTree(categories).filter(({ category }) => showArchived || !category.archived);
+  // A category can't be filed under itself or anything below it
+  const excluded = new Set(editing ? descendantNames(categories, editing.name) : []);
+  const parentOptions = sortCategoryTree(categories)
+    .filter(({ category }) => !category.archived && !excluded.has(category.name));
+
+  const openNewCategory = () => {
+    setForm(EMPTY_FORM);
+    setEditing(null);
+    setShowForm(true);
+    setError('');
+  };
+
+  const openEditCategory = (category: Category) => {
+    setForm(toForm(category));
+    setEditing(category);
+    setShowForm(true);
+    setError('');
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const name = form.name.trim();
+    if (!name) {
+      setError('Please give the category a name');
+      return;
+    }
+    const clash = categories.find(category =>
+      category.id !== editing?.id && category.name.toLowerCase() === name.toLowerCase()
+    );
+    if (clash) {
+      setError(`There is already a category called "${clash.name}"`);
+      return;
+    }
+
+    const categoryData = {
+      parent_id: form.parent_id || null,
+      color: form.color,
+      icon: form.icon,
+      updated_at: new Date().toISOString()
+    };
+
+    try {
+      setSaving(true);
+      setError('');
+
+      if (editing) {
+        const { error } = await supabase.from('categories').update(categoryData).eq('id', editing.id);
+        if (error) throw error;
+        if (name !== editing.name) await renameCategory(user.id, editing, name);
+      } else {
+        const { error } = await supabase.from('categories').insert([{ user_id: user.id, name, ...categoryData }]);
+        if (error) throw error;
+      }
+
+      closeForm();
+      await refreshCategories();
+      setSuccess(editing ? 'Category updated' : 'Category created');
+    } catch (err) {
+      console.error('Error saving category:', err);
+      setError('Failed to save category');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleArchived = async (category: Category) => {
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .update({ archived: !category.archived, updated_at: new Date().toISOString() })
+        .eq('id', category.id);
+
+      if (error) throw error;
+      await refreshCategories();
+      setSuccess(category.archived ? `Restored ${category.name}` : `Archived ${category.name}`);
+    } catch (err) {
+      console.error('Error archiving category:', err);
+      setError('Failed to update category');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Categories</h1>
+          <p className="mt-2 text-gray-600">
+            The categories offered everywhere in BudgetSnap. Give a category a parent to file it as a sub-category; spending rolls up to the parent on the dashboard and in filters. Renaming one updates your transactions and rules; archiving hides it from pickers but keeps past transactions as they are.
+          </p>
+        </div>
+        <button
+          onClick={openNewCategory}
+          className="ml-4 flex-shrink-0 inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Category
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-center">
+          <CheckCircle className="h-5 w-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white shadow rounded-lg p-6 mb-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">{editing ? 'Edit Category' : 'New Category'}</h2>
+            <button type="button" onClick={closeForm} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Coffee"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Parent</label>
+              <select
+                value={form.parent_id}
+                onChange={(e) => setForm(prev => ({ ...prev, parent_id: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">None</option>
+                {parentOptions.map(({ category, depth }) => (
+                  <option key={category.id} value={category.id}>{'\u00a0\u00a0'.repeat(depth)}{category.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+              <input
+                type="color"
+                value={form.color}
+                onChange={(e) => setForm(prev => ({ ...prev, color: e.target.value }))}
+                className="h-10 w-20 border border-gray-300 rounded-lg"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Icon</label>
+            <CategoryIconPicker
+              value={form.icon}
+              color={form.color}
+              onChange={(icon) => setForm(prev => ({ ...prev, icon }))}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Category'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="flex justify-end mb-2">
+        <label className="inline-flex items-center text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+            className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Show archived
+        </label>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Parent</th>
+              <th className="px-6 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visible.map(({ category, depth }) => (
+              <tr key={category.id} className={category.archived ? 'opacity-60' : ''}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="flex items-center" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                    <span className="p-1.5 rounded-full mr-3" style={{ backgroundColor: `${category.color}20` }}>
+                      <CategoryIcon icon={category.icon} color={category.color} />
+                    </span>
+                    <span className="text-sm font-medium text-gray-900">{category.name}</span>
+                    {category.archived && <span className="ml-2 text-xs text-gray-500">Archived</span>}
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {category.parent_id ? byId.get(category.parent_id)?.name ?? '' : ''}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                  <button
+                    onClick={() => openEditCategory(category)}
+                    className="text-blue-600 hover:text-blue-900 mr-3"
+                    aria-label={`Edit ${category.name}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleToggleArchived(category)}
+                    className="text-gray-500 hover:text-gray-800"
+                    aria-label={category.archived ? `Restore ${category.name}` : `Archive ${category.name}`}
+                  >
+                    {category.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoryContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { useAccounts } from '../contexts/AccountContext';
+import { filterByAccount } from '../lib/accounts';
+import { ALL_ACCOUNTS, NO_ACCOUNT } from '../utils/accountUtils';
+import { Link } from 'react-router-dom';
+import { hasChildren, rollUpTotals } from '../../supabase/functions/_shared/categories';
+import { Citation } from '../../supabase/functions/_shared/finance-tools';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -8,10 +17,17 @@ import {
   CreditCard,
   ArrowUpRight,
   ArrowDownRight,
-  MessageSquare
+  MessageSquare,
+  Send
 } from 'lucide-react';
 import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, LineElement, Title, Tooltip, Legend, PointElement } from 'chart.js';
 import { Bar } from 'react-chartjs-2';
+import { sumByCategory, sortedCategoryTotals, TransactionSplit } from '../utils/splitUtils';
+import { BudgetStatus } from '../utils/budgetUtils';
+import { loadBudgetStatus } from '../lib/budgets';
+import { BudgetProgress } from '../components/BudgetProgress';
+import { TransactionAmount } from '../components/TransactionAmount';
+import { getTodayString } from '../utils/dateUtils';
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, LineElement, PointElement, Title, Tooltip, Legend);
 
@@ -27,10 +43,20 @@ interface RecentTransaction {
   date: string;
   description: string;
   amount: number;
+  currency?: string | null;
   type: 'debit' | 'credit';
   category: string;
 }
 
+interface MonthTransaction {
+  date: string;
+  amount: number;
+  currency: string | null;
+  type: 'debit' | 'credit';
+  category: string;
+  transaction_splits: TransactionSplit[] | null;
+}
+
 interface MonthlyData {
   month: string;
   expenses: number;
@@ -38,18 +64,44 @@ interface MonthlyData {
 
 export function DashboardPage() {
   const { user } = useAuth();
+  const { categories, colorFor } = useCategories();
+  const { loading: currencyLoading, toBase, convert, formatBase } = useCurrency();
+  const { date: formatDate, month: formatMonth } = useFormat();
+  const { accounts } = useAccounts();
+  // An account id, NO_ACCOUNT or ALL_ACCOUNTS; budgets always cover every account
+  const [accountFilter, setAccountFilter] = useState(ALL_ACCOUNTS);
   const [stats, setStats] = useState<DashboardStats>({ income: 0, expenses: 0, net: 0, transactionCount: 0 });
   const [recentTransactions, setRecentTransactions] = useState<RecentTransaction[]>([]);
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
+  // This month's spending per category as filed, before rolling up
+  const [categorySpend, setCategorySpend] = useState<Record<string, number>>({});
+  // The parent category being drilled into; null shows top-level categories
+  const [drillCategory, setDrillCategory] = useState<string | null>(null);
+  const [budgetStatuses, setBudgetStatuses] = useState<BudgetStatus[]>([]);
+  // Currencies this month with no exchange rate, counted at face value
+  const [missingRates, setMissingRates] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [queryAnswer, setQueryAnswer] = useState<string>('');
+  // What an answer from the model was based on, numbered the way the answer cites it
+  const [queryCitations, setQueryCitations] = useState<Citation[]>([]);
   const [queryLoading, setQueryLoading] = useState(false);
+  const [queryText, setQueryText] = useState('');
 
+  // Totals are in the profile currency, so they wait for it and its exchange rates
   useEffect(() => {
-    if (user) {
+    if (user && !currencyLoading) {
       loadDashboardData();
     }
-  }, [user]);
+  }, [user, currencyLoading, toBase, formatMonth, accountFilter]);
+
+  // Budgets roll up sub-categories, so they are recomputed once categories arrive
+  useEffect(() => {
+    if (!user) return;
+    const now = new Date();
+    loadBudgetStatus(user.id, categories, now.getFullYear(), now.getMonth(), convert)
+      .then(setBudgetStatuses)
+      .catch(err => console.error('Error loading budgets:', err));
+  }, [user, categories, convert]);
 
   const loadDashboardData = async () => {
     try {
@@ -57,22 +109,30 @@ export function DashboardPage() {
       const startOfMonth = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
 
       // Get current month stats
-      const { data: transactions } = await supabase
-        .from('transactions')
-        .select('amount, type')
-        .eq('user_id', user!.id)
-        .gte('date', startOfMonth.toISOString().split('T')[0]);
+      const { data: monthRows } = await filterByAccount(
+        supabase
+          .from('transactions')
+          .select('date, amount, currency, type, category, transaction_splits(category, amount)')
+          .eq('user_id', user!.id)
+          .is('transfer_id', null)
+          .gte('date', startOfMonth.toISOString().split('T')[0]),
+        accountFilter
+      );
+      const transactions = toBase<MonthTransaction>(monthRows || []);
 
       const income = transactions?.filter(t => t.type === 'credit').reduce((sum, t) => sum + t.amount, 0) || 0;
       const expenses = transactions?.filter(t => t.type === 'debit').reduce((sum, t) => sum + t.amount, 0) || 0;
 
       // Get recent transactions
-      const { data: recent } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('user_id', user!.id)
-        .order('created_at', { ascending: false })
-        .limit(5);
+      const { data: recent } = await filterByAccount(
+        supabase
+          .from('transactions')
+          .select('*')
+          .eq('user_id', user!.id)
+          .order('created_at', { ascending: false })
+          .limit(5),
+        accountFilter
+      );
 
       // Get last 3 months data for chart
       const monthsData = [];
@@ -80,17 +140,21 @@ export function DashboardPage() {
         const monthDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth() - i, 1);
         const nextMonth = new Date(currentMonth.getFullYear(), currentMonth.getMonth() - i + 1, 1);
         
-        const { data: monthTransactions } = await supabase
-          .from('transactions')
-          .select('amount')
-          .eq('user_id', user!.id)
-          .eq('type', 'debit')
-          .gte('date', monthDate.toISOString().split('T')[0])
-          .lt('date', nextMonth.toISOString().split('T')[0]);
+        const { data: monthTransactions } = await filterByAccount(
+          supabase
+            .from('transactions')
+            .select('date, amount, currency')
+            .eq('user_id', user!.id)
+            .eq('type', 'debit')
+            .is('transfer_id', null)
+            .gte('date', monthDate.toISOString().split('T')[0])
+            .lt('date', nextMonth.toISOString().split('T')[0]),
+          accountFilter
+        );
 
-        const monthExpenses = monthTransactions?.reduce((sum, t) => sum + t.amount, 0) || 0;
+        const monthExpenses = toBase(monthTransactions || []).reduce((sum, t) => sum + t.amount, 0);
         monthsData.push({
-          month: monthDate.toLocaleDateString('en-US', { month: 'short' }),
+          month: formatMonth(monthDate, 'short'),
           expenses: monthExpenses
         });
       }
@@ -103,6 +167,8 @@ export function DashboardPage() {
       });
       setRecentTransactions(recent || []);
       setMonthlyData(monthsData);
+      setCategorySpend(sumByCategory(transactions || []));
+      setMissingRates([...new Set(transactions.filter(t => t.fx_missing).map(t => t.currency || ''))]);
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
@@ -110,8 +176,12 @@ export function DashboardPage() {
     }
   };
 
-  const handlePresetQuery = async (preset: string) => {
+  const categoryTotals = sortedCategoryTotals(rollUpTotals(categories, categorySpend, drillCategory));
+  const categoryTotalSpend = categoryTotals.reduce((sum, { amount }) => sum + amount, 0);
+
+  const runQuery = async (query: { preset: string } | { text: string }) => {
     setQueryLoading(true);
+    setQueryCitations([]);
     try {
       // Check if Supabase is configured
       if (!import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_SUPABASE_URL === 'your-supabase-url-here') {
@@ -126,11 +196,13 @@ export function DashboardPage() {
           'Authorization': `Bearer ${session.session?.access_token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ preset })
+        // Questions like "last week" are read against the user's own calendar
+        body: JSON.stringify({ ...query, today: getTodayString() })
       });
 
       const result = await response.json();
       setQueryAnswer(result.answerText || 'Unable to process query.');
+      setQueryCitations(result.citations || []);
     } catch (error) {
       setQueryAnswer('Error processing query.');
     } finally {
@@ -138,6 +210,14 @@ export function DashboardPage() {
     }
   };
 
+  const handlePresetQuery = (preset: string) => runQuery({ preset });
+
+  const handleTextQuery = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = queryText.trim();
+    if (text) runQuery({ text });
+  };
+
   const chartData = {
     labels: monthlyData.map(d => d.month),
     datasets: [
@@ -167,7 +247,7 @@ export function DashboardPage() {
         beginAtZero: true,
         ticks: {
           callback: function(value: any) {
-            return '$' + value.toFixed(0);
+            return formatBase(value);
           }
         }
       }
@@ -191,11 +271,33 @@ export function DashboardPage() {
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
-        <p className="mt-2 text-gray-600">Your financial overview at a glance</p>
+      <div className="mb-8 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
+          <p className="mt-2 text-gray-600">Your financial overview at a glance</p>
+        </div>
+        {accounts.length > 0 && (
+          <select
+            value={accountFilter}
+            onChange={(e) => setAccountFilter(e.target.value)}
+            aria-label="Account"
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-700 bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value={ALL_ACCOUNTS}>All accounts</option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>{account.name}</option>
+            ))}
+            <option value={NO_ACCOUNT}>No account</option>
+          </select>
+        )}
       </div>
 
+      {missingRates.length > 0 && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm">
+          No exchange rate for {missingRates.join(', ')} yet, so those amounts are counted as if they were already in your currency. Import rates in <Link to="/settings" className="font-medium underline">Settings</Link>.
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         <div className="bg-white overflow-hidden shadow-lg rounded-lg">
@@ -209,7 +311,7 @@ export function DashboardPage() {
                   <dt className="text-sm font-medium text-gray-500 truncate">This Month Income</dt>
                   <dd className="flex items-baseline">
                     <div className="text-2xl font-semibold text-gray-900">
-                      ${stats.income.toFixed(2)}
+                      {formatBase(stats.income)}
                     </div>
                   </dd>
                 </dl>
@@ -229,7 +331,7 @@ export function DashboardPage() {
                   <dt className="text-sm font-medium text-gray-500 truncate">This Month Expenses</dt>
                   <dd className="flex items-baseline">
                     <div className="text-2xl font-semibold text-gray-900">
-                      ${stats.expenses.toFixed(2)}
+                      {formatBase(stats.expenses)}
                     </div>
                   </dd>
                 </dl>
@@ -249,7 +351,7 @@ export function DashboardPage() {
                   <dt className="text-sm font-medium text-gray-500 truncate">Net This Month</dt>
                   <dd className="flex items-baseline">
                     <div className={`text-2xl font-semibold ${stats.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      ${stats.net.toFixed(2)}
+                      {formatBase(stats.net)}
                     </div>
                   </dd>
                 </dl>
@@ -312,9 +414,9 @@ export function DashboardPage() {
                   </div>
                   <div className="text-right">
                     <p className={`text-sm font-semibold ${transaction.type === 'credit' ? 'text-green-600' : 'text-red-600'}`}>
-                      {transaction.type === 'credit' ? '+' : '-'}${transaction.amount.toFixed(2)}
+                      <TransactionAmount amount={transaction.amount} currency={transaction.currency} date={transaction.date} type={transaction.type} />
                     </p>
-                    <p className="text-xs text-gray-500">{new Date(transaction.date).toLocaleDateString()}</p>
+                    <p className="text-xs text-gray-500">{formatDate(transaction.date)}</p>
                   </div>
                 </div>
               ))
@@ -323,6 +425,77 @@ export function DashboardPage() {
         </div>
       </div>
 
+      {/* Budgets */}
+      <div className="mt-8 bg-white p-6 rounded-lg shadow-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Budgets (This Month)</h3>
+          <Link to="/budgets" className="text-sm text-blue-600 hover:text-blue-800">
+            Manage budgets
+          </Link>
+        </div>
+        {budgetStatuses.length === 0 ? (
+          <p className="text-sm text-gray-500">No budgets yet. Set a monthly limit for a category on the Budgets page.</p>
+        ) : (
+          <BudgetProgress statuses={budgetStatuses} />
+        )}
+      </div>
+
+      {/* Spending by Category */}
+      <div className="mt-8 bg-white p-6 rounded-lg shadow-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Spending by Category (This Month){drillCategory && ` › ${drillCategory}`}
+          </h3>
+          {drillCategory && (
+            <button
+              onClick={() => setDrillCategory(null)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              All categories
+            </button>
+          )}
+        </div>
+        {categoryTotals.length === 0 ? (
+          <p className="text-sm text-gray-500">No expenses recorded this month.</p>
+        ) : (
+          <div className="space-y-3">
+            {categoryTotals.map(({ category, amount }) => {
+              // Sub-categories with children of their own can be opened in turn
+              const canDrill = category !== drillCategory && hasChildren(categories, category);
+              return (
+                <div key={category}>
+                  <div className="flex justify-between text-sm mb-1">
+                    {canDrill ? (
+                      <button
+                        onClick={() => setDrillCategory(category)}
+                        className="font-medium text-blue-600 hover:text-blue-800"
+                        title={`Show ${category} by sub-category`}
+                      >
+                        {category} ›
+                      </button>
+                    ) : (
+                      <span className="font-medium text-gray-700">
+                        {category}{category === drillCategory && ' (not in a sub-category)'}
+                      </span>
+                    )}
+                    <span className="text-gray-900">{formatBase(amount)}</span>
+                  </div>
+                  <div className="w-full bg-gray-100 rounded-full h-2">
+                    <div
+                      className="h-2 rounded-full"
+                      style={{
+                        width: `${categoryTotalSpend > 0 ? (amount / categoryTotalSpend) * 100 : 0}%`,
+                        backgroundColor: colorFor(category)
+                      }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
       {/* Quick Insights */}
       <div className="mt-8 bg-white p-6 rounded-lg shadow-lg">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Insights</h3>
@@ -349,6 +522,24 @@ export function DashboardPage() {
             Net vs Last Month
           </button>
         </div>
+
+        <form onSubmit={handleTextQuery} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={queryText}
+            onChange={(e) => setQueryText(e.target.value)}
+            placeholder='Ask a question, e.g. "Top 5 merchants since March" or "Dining in Q2 vs Q1"'
+            className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={queryLoading || !queryText.trim()}
+            className="inline-flex items-center px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 transition-colors"
+          >
+            <Send className="h-4 w-4 mr-2" />
+            Ask
+          </button>
+        </form>
         
         {queryLoading && (
           <div className="flex items-center space-x-2 text-gray-600">
@@ -363,6 +554,18 @@ export function DashboardPage() {
               <MessageSquare className="h-5 w-5 text-blue-600 mt-0.5" />
               <p className="text-blue-800">{queryAnswer}</p>
             </div>
+            {queryCitations.length > 0 && (
+              <ul className="mt-3 ml-7 space-y-1 text-xs text-blue-700">
+                {queryCitations.map(citation => (
+                  <li key={citation.ref}>
+                    [{citation.ref}]{' '}
+                    {citation.kind === 'transaction'
+                      ? `${formatDate(citation.date)} · ${citation.description} · ${formatBase(citation.amount)}`
+                      : `${citation.label} · ${formatBase(citation.amount)} across ${citation.count} ${citation.count === 1 ? 'transaction' : 'transactions'}`}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
       </div>
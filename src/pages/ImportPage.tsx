@@ -0,0 +1,594 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoryContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { useAccounts } from '../contexts/AccountContext';
+import { Link } from 'react-router-dom';
+import { FileUp, AlertCircle, CheckCircle, ArrowUpRight, ArrowDownRight, AlertTriangle } from 'lucide-react';
+import { CategorizationRule, categorizeWithRules } from '../../supabase/functions/_shared/rules';
+import { loadCategorizationRules } from '../lib/categorizationRules';
+import { loadCategoryCorrections, recordCategoryCorrections } from '../lib/categoryCorrections';
+import { CategoryCorrection } from '../../supabase/functions/_shared/category-learning';
+import { loadMerchants } from '../lib/merchants';
+import { matchMerchant, Merchant } from '../../supabase/functions/_shared/merchants';
+import { normalizeCategory } from '../../supabase/functions/_shared/categories';
+import {
+  DUPLICATE_DATE_WINDOW_DAYS,
+  DuplicateCandidate,
+  ExistingTransaction,
+  describeDuplicateReasons,
+  findDuplicateCandidates,
+  shiftDate
+} from '../../supabase/functions/_shared/duplicates';
+import {
+  CsvColumnMapping,
+  DateOrder,
+  ParsedStatementRow,
+  StatementFormat,
+  StatementParseResult,
+  detectStatementFormat,
+  guessCsvMapping,
+  mapCsvRows,
+  parseCsv,
+  parseOfx,
+  parseQif
+} from '../utils/statementParsers';
+
+type DuplicateAction = 'keep_both' | 'merge' | 'discard';
+
+interface PreviewRow extends ParsedStatementRow {
+  // Position in the parsed statement; stays put as saved rows leave the preview
+  key: number;
+  category: string;
+  // What rules, learned corrections, the merchant directory or keywords picked; a change from it is a correction
+  suggestedCategory: string;
+  // Known merchant the description matched; statements never add new ones
+  merchant: Merchant | null;
+  selected: boolean;
+  duplicate: DuplicateCandidate | null;
+  duplicateAction: DuplicateAction;
+  // Choices the user made, which suggestions and duplicate checks arriving later leave alone
+  categoryEdited: boolean;
+  selectionEdited: boolean;
+}
+
+const INSERT_BATCH_SIZE = 500;
+
+// Supabase returns at most this many rows per request, and a long statement spans more
+const PAGE_SIZE = 1000;
+
+function toPreviewRows(rows: ParsedStatementRow[]): PreviewRow[] {
+  return rows.map((row, key) => ({
+    ...row,
+    key,
+    category: '',
+    suggestedCategory: '',
+    merchant: null,
+    selected: true,
+    duplicate: null,
+    duplicateAction: 'keep_both',
+    categoryEdited: false,
+    selectionEdited: false
+  }));
+}
+
+// Fill in what rules, past corrections and the merchant directory suggest, keeping categories the user picked
+function applySuggestions(
+  rows: PreviewRow[],
+  rules: CategorizationRule[],
+  history: CategoryCorrection[],
+  merchants: Merchant[],
+  categoryNames: string[]
+): PreviewRow[] {
+  return rows.map(row => {
+    const merchant = matchMerchant(merchants, row.description);
+    const { category } = categorizeWithRules(rules, { ...row, merchant: merchant?.name ?? null }, history, merchants);
+    const suggestedCategory = normalizeCategory(category, categoryNames);
+    return {
+      ...row,
+      category: row.categoryEdited ? row.category : suggestedCategory,
+      suggestedCategory,
+      merchant
+    };
+  });
+}
+
+// Saved transactions close enough in date to any statement row to be one of its duplicates
+async function loadNearbyTransactions(userId: string, rows: ParsedStatementRow[]): Promise<ExistingTransaction[]> {
+  if (rows.length === 0) return [];
+
+  const dates = rows.map(row => row.date).sort();
+  const transactions: ExistingTransaction[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, date, amount, currency, type, description, category, image_hash, notes')
+      .eq('user_id', userId)
+      .gte('date', shiftDate(dates[0], -DUPLICATE_DATE_WINDOW_DAYS))
+      .lte('date', shiftDate(dates[dates.length - 1], DUPLICATE_DATE_WINDOW_DAYS))
+      .order('date')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    transactions.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return transactions;
+  }
+}
+
+// Flag rows that look like a saved transaction in the statement's currency. Matches
+// start out discarded; rows the user ticked or unticked keep that choice.
+function applyDuplicates(rows: PreviewRow[], existing: ExistingTransaction[], currency: string): PreviewRow[] {
+  return rows.map(row => {
+    const duplicate = findDuplicateCandidates({ ...row, currency }, existing)[0] ?? null;
+    if (!row.selectionEdited) {
+      return { ...row, duplicate, duplicateAction: duplicate ? 'discard' : 'keep_both', selected: !duplicate };
+    }
+    const duplicateAction: DuplicateAction = !duplicate
+      ? 'keep_both'
+      : !row.selected
+        ? 'discard'
+        : row.duplicateAction === 'discard' ? 'keep_both' : row.duplicateAction;
+    return { ...row, duplicate, duplicateAction };
+  });
+}
+
+export function ImportPage() {
+  const { user } = useAuth();
+  const { categoryNames, categoryOptions, categoryLabel } = useCategories();
+  const { baseCurrency } = useCurrency();
+  const { signedMoney, date: formatDate } = useFormat();
+  const { accounts } = useAccounts();
+  // The account the statement belongs to; empty leaves the rows unassigned
+  const [accountId, setAccountId] = useState('');
+  // Statement amounts are in the account's currency; without an account the profile currency applies
+  const account = accounts.find(candidate => candidate.id === accountId);
+  const statementCurrency = account?.currency ?? baseCurrency;
+  const [fileName, setFileName] = useState('');
+  const [fileContent, setFileContent] = useState('');
+  const [format, setFormat] = useState<StatementFormat | null>(null);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('MDY');
+  const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [history, setHistory] = useState<CategoryCorrection[]>([]);
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  // Saved transactions around the statement's dates, for the duplicate check
+  const [nearby, setNearby] = useState<ExistingTransaction[]>([]);
+  // Bumped each time the statement is parsed again, so suggestions are filled in for the new rows
+  const [parseCount, setParseCount] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+    loadCategorizationRules(user.id)
+      .then(setRules)
+      .catch(err => console.error('Error loading categorization rules:', err));
+    loadCategoryCorrections(user.id)
+      .then(setHistory)
+      .catch(err => console.error('Error loading category corrections:', err));
+    loadMerchants(user.id)
+      .then(setMerchants)
+      .catch(err => console.error('Error loading merchants:', err));
+  }, [user]);
+
+  useEffect(() => {
+    if (!format) return;
+    let cancelled = false;
+
+    let result: StatementParseResult;
+    if (format === 'csv') {
+      if (!mapping) return;
+      result = mapCsvRows(hasHeader ? csvRows.slice(1) : csvRows, mapping);
+    } else if (format === 'ofx') {
+      result = parseOfx(fileContent);
+    } else {
+      result = parseQif(fileContent, dateOrder);
+    }
+
+    const rows = toPreviewRows(result.rows);
+    setPreviewRows(rows);
+    setParseErrors(result.errors);
+    setParseCount(count => count + 1);
+    setNearby([]);
+
+    loadNearbyTransactions(user!.id, result.rows)
+      .then(transactions => {
+        if (!cancelled) setNearby(transactions);
+      })
+      .catch(err => console.error('Error checking for duplicates:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, format, fileContent, csvRows, hasHeader, mapping, dateOrder]);
+
+  // Rules, corrections and merchants may load after the statement is parsed
+  useEffect(() => {
+    setPreviewRows(prev => applySuggestions(prev, rules, history, merchants, categoryNames));
+  }, [parseCount, rules, history, merchants, categoryNames]);
+
+  // Checked again when the account, and with it the statement's currency, changes
+  useEffect(() => {
+    if (nearby.length === 0) return;
+    setPreviewRows(prev => applyDuplicates(prev, nearby, statementCurrency));
+  }, [nearby, statementCurrency]);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    setSuccess('');
+
+    try {
+      const content = await file.text();
+      const detected = detectStatementFormat(file.name, content);
+
+      setFileName(file.name);
+      setFileContent(content);
+      setFormat(detected);
+
+      if (detected === 'csv') {
+        const rows = parseCsv(content);
+        if (rows.length === 0) {
+          setError('The file is empty');
+          return;
+        }
+        setCsvRows(rows);
+        setMapping(guessCsvMapping(rows[0]));
+      } else {
+        setCsvRows([]);
+        setMapping(null);
+      }
+    } catch (err) {
+      console.error('Error reading statement:', err);
+      setError('Could not read the selected file');
+    }
+  };
+
+  const updateMapping = (field: keyof CsvColumnMapping, value: string) => {
+    setMapping(prev => {
+      if (!prev) return prev;
+      if (field === 'dateOrder') return { ...prev, dateOrder: value as DateOrder };
+      if (field === 'type') return { ...prev, type: value === '' ? null : parseInt(value, 10) };
+      return { ...prev, [field]: parseInt(value, 10) };
+    });
+  };
+
+  const updateRow = (index: number, changes: Partial<PreviewRow>) => {
+    setPreviewRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const setDuplicateAction = (index: number, action: DuplicateAction) => {
+    updateRow(index, { duplicateAction: action, selected: action !== 'discard', selectionEdited: true });
+  };
+
+  const selectedRows = previewRows.filter(row => row.selected);
+  const allSelected = previewRows.length > 0 && selectedRows.length === previewRows.length;
+
+  const handleImport = async () => {
+    if (selectedRows.length === 0) return;
+
+    setError('');
+    setSuccess('');
+
+    // Keys of rows already saved; they leave the preview even if a later batch fails, so a retry doesn't save them twice
+    const saved = new Set<number>();
+    const mergeRows = selectedRows.filter(row => row.duplicate && row.duplicateAction === 'merge');
+    const insertRows = selectedRows.filter(row => !mergeRows.includes(row));
+
+    try {
+      setImporting(true);
+
+      // Merged rows are recorded on the transaction they match instead of being inserted
+      for (const row of mergeRows) {
+        const existing = row.duplicate!.transaction as ExistingTransaction & { notes?: string | null };
+        const statementNote = `Matched on statement ${fileName}: ${row.description}`;
+        const { error } = await supabase
+          .from('transactions')
+          .update({
+            notes: existing.notes ? `${existing.notes}\n${statementNote}` : statementNote,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', existing.id);
+
+        if (error) throw error;
+        saved.add(row.key);
+      }
+
+      for (let i = 0; i < insertRows.length; i += INSERT_BATCH_SIZE) {
+        const batch = insertRows.slice(i, i + INSERT_BATCH_SIZE);
+        const { error } = await supabase
+          .from('transactions')
+          .insert(batch.map(row => ({
+            user_id: user!.id,
+            account_id: account?.id ?? null,
+            ...(account ? { currency: account.currency } : {}),
+            date: row.date,
+            description: row.description || row.category,
+            merchant: row.merchant?.name ?? null,
+            merchant_id: row.merchant?.id ?? null,
+            amount: row.amount,
+            type: row.type,
+            category: row.category,
+            notes: `Imported from ${fileName}`
+          })));
+
+        if (error) throw error;
+        batch.forEach(row => saved.add(row.key));
+
+        await recordCategoryCorrections(user!.id, batch
+          .map(row => ({ description: row.description, from: row.suggestedCategory, to: row.category })));
+      }
+
+      setSuccess(
+        `Imported ${insertRows.length} transaction${insertRows.length === 1 ? '' : 's'} from ${fileName}` +
+        (mergeRows.length > 0 ? ` and merged ${mergeRows.length} into existing ones` : '')
+      );
+    } catch (err) {
+      console.error('Error importing transactions:', err);
+      setError(saved.size > 0
+        ? `Failed to import every transaction. The ${saved.size} already saved were removed from the list; import again to save the rest.`
+        : 'Failed to import transactions. Nothing was saved.');
+    } finally {
+      setPreviewRows(prev => prev.filter(row => !saved.has(row.key)));
+      setImporting(false);
+    }
+  };
+
+  const columnOptions = csvRows[0]?.map((header, index) => ({
+    value: index,
+    label: hasHeader ? header || `Column ${index + 1}` : `Column ${index + 1} (${header})`
+  })) || [];
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Import Statement</h1>
+        <p className="mt-2 text-gray-600">Bring in transactions from a bank export (CSV, OFX/QFX or QIF)</p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 p-4 rounded-lg flex items-start space-x-2">
+          <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 bg-green-50 border border-green-200 p-4 rounded-lg flex items-start space-x-2">
+          <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
+          <p className="text-green-800">
+            {success}. <Link to="/transactions" className="font-medium underline">View transactions</Link>
+          </p>
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow-lg mb-6">
+        <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-8 cursor-pointer hover:border-blue-400 transition-colors">
+          <FileUp className="h-10 w-10 text-gray-400 mb-2" />
+          <span className="text-sm font-medium text-gray-900">
+            {fileName || 'Choose a statement file'}
+          </span>
+          <span className="text-xs text-gray-500 mt-1">.csv, .ofx, .qfx or .qif</span>
+          <input
+            type="file"
+            accept=".csv,.ofx,.qfx,.qif,text/csv"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {format === 'csv' && mapping && (
+        <div className="bg-white p-6 rounded-lg shadow-lg mb-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Column Mapping</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+            {(['date', 'description', 'amount'] as const).map(field => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 mb-1 capitalize">{field}</label>
+                <select
+                  value={mapping[field]}
+                  onChange={(e) => updateMapping(field, e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {columnOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={mapping.type ?? ''}
+                onChange={(e) => updateMapping('type', e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">From amount sign</option>
+                {columnOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date format</label>
+              <select
+                value={mapping.dateOrder}
+                onChange={(e) => updateMapping('dateOrder', e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="MDY">MM/DD/YYYY</option>
+                <option value="DMY">DD/MM/YYYY</option>
+                <option value="YMD">YYYY-MM-DD</option>
+              </select>
+            </div>
+          </div>
+          <label className="mt-4 inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={(e) => setHasHeader(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            First row is a header
+          </label>
+        </div>
+      )}
+
+      {format === 'qif' && (
+        <div className="bg-white p-6 rounded-lg shadow-lg mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Date format</label>
+          <select
+            value={dateOrder}
+            onChange={(e) => setDateOrder(e.target.value as DateOrder)}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="MDY">MM/DD/YYYY</option>
+            <option value="DMY">DD/MM/YYYY</option>
+          </select>
+        </div>
+      )}
+
+      {parseErrors.length > 0 && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 p-4 rounded-lg">
+          <p className="text-sm font-medium text-yellow-800 mb-1">
+            {parseErrors.length} row{parseErrors.length === 1 ? '' : 's'} skipped
+          </p>
+          <ul className="text-xs text-yellow-700 list-disc list-inside max-h-32 overflow-y-auto">
+            {parseErrors.map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {previewRows.length > 0 && (
+        <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Preview ({selectedRows.length} of {previewRows.length} selected)
+            </h3>
+            <div className="flex items-center gap-3">
+              {accounts.length > 0 && (
+                <select
+                  value={accountId}
+                  onChange={(e) => setAccountId(e.target.value)}
+                  aria-label="Account"
+                  className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">No account</option>
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={handleImport}
+                disabled={importing || selectedRows.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {importing ? 'Importing...' : `Import ${selectedRows.length}`}
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={(e) => setPreviewRows(prev => prev.map(row => ({ ...row, selected: e.target.checked, selectionEdited: true })))}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      aria-label="Select all"
+                    />
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {previewRows.map((row, index) => (
+                  <tr key={row.key} className={row.selected ? '' : 'opacity-50'}>
+                    <td className="px-6 py-3">
+                      <input
+                        type="checkbox"
+                        checked={row.selected}
+                        onChange={(e) => updateRow(index, {
+                          selected: e.target.checked,
+                          selectionEdited: true,
+                          duplicateAction: row.duplicate && !e.target.checked ? 'discard' : row.duplicate && row.duplicateAction === 'discard' ? 'keep_both' : row.duplicateAction
+                        })}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{formatDate(row.date)}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      {row.description}
+                      {row.merchant && <div className="text-xs text-gray-500">{row.merchant.name}</div>}
+                      {row.duplicate && (
+                        <div className="mt-1 flex items-center gap-2">
+                          <span
+                            className="inline-flex items-center text-xs text-yellow-800"
+                            title={describeDuplicateReasons(row.duplicate.reasons)}
+                          >
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Possible duplicate of "{row.duplicate.transaction.description}" on {formatDate(row.duplicate.transaction.date)}
+                          </span>
+                          <select
+                            value={row.duplicateAction}
+                            onChange={(e) => setDuplicateAction(index, e.target.value as DuplicateAction)}
+                            className="border border-yellow-300 rounded px-1 py-0.5 text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            <option value="discard">Discard</option>
+                            <option value="merge">Merge</option>
+                            <option value="keep_both">Keep both</option>
+                          </select>
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-3">
+                      <select
+                        value={row.category}
+                        onChange={(e) => updateRow(index, { category: e.target.value, categoryEdited: true })}
+                        className="border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        {categoryOptions(row.category).map(cat => (
+                          <option key={cat} value={cat}>{categoryLabel(cat)}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <div className="flex items-center">
+                        {row.type === 'credit' ? (
+                          <ArrowUpRight className="h-4 w-4 text-green-600 mr-1" />
+                        ) : (
+                          <ArrowDownRight className="h-4 w-4 text-red-600 mr-1" />
+                        )}
+                        <span className={`text-sm font-semibold ${row.type === 'credit' ? 'text-green-600' : 'text-red-600'}`}>
+                          {signedMoney(row.amount, row.type === 'credit' ? 'income' : 'expense')}
+                        </span>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoryContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { addMerchantAlias, loadMerchants, renameMerchant } from '../lib/merchants';
+import { Merchant } from '../../supabase/functions/_shared/merchants';
+import { convertTransactions, CurrencyConverter } from '../../supabase/functions/_shared/currency';
+import { Pencil, Save, X, AlertCircle, CheckCircle, Merge, Plus } from 'lucide-react';
+import { getTodayString } from '../utils/dateUtils';
+
+interface MerchantTotals {
+  count: number;
+  spentThisMonth: number;
+  spentAllTime: number;
+}
+
+const EMPTY_TOTALS: MerchantTotals = { count: 0, spentThisMonth: 0, spentAllTime: 0 };
+
+// Spending counts debits only; refunds and other credits still count as transactions
+async function loadMerchantTotals(userId: string, convert: CurrencyConverter): Promise<Record<string, MerchantTotals>> {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('merchant_id, amount, currency, type, date')
+    .eq('user_id', userId)
+    .not('merchant_id', 'is', null);
+
+  if (error) throw error;
+
+  const month = getTodayString().slice(0, 7);
+  const totals: Record<string, MerchantTotals> = {};
+  const rows = (data || []) as Array<{ merchant_id: string; amount: number; currency: string; type: string; date: string }>;
+  for (const transaction of convertTransactions(rows, convert)) {
+    const entry = totals[transaction.merchant_id] ?? (totals[transaction.merchant_id] = { ...EMPTY_TOTALS });
+    entry.count += 1;
+    if (transaction.type !== 'debit') continue;
+    entry.spentAllTime += Number(transaction.amount);
+    if (transaction.date.startsWith(month)) entry.spentThisMonth += Number(transaction.amount);
+  }
+  return totals;
+}
+
+export function MerchantsPage() {
+  const { user } = useAuth();
+  const { categoryOptions, categoryLabel } = useCategories();
+  const { convert, formatBase } = useCurrency();
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [totals, setTotals] = useState<Record<string, MerchantTotals>>({});
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [aliasDrafts, setAliasDrafts] = useState<Record<string, string>>({});
+  const [mergeSource, setMergeSource] = useState<Merchant | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [loadedMerchants, loadedTotals] = await Promise.all([loadMerchants(user.id), loadMerchantTotals(user.id, convert)]);
+      setMerchants(loadedMerchants);
+      setTotals(loadedTotals);
+    } catch (err) {
+      console.error('Error loading merchants:', err);
+      setError('Failed to load merchants');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, convert]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const query = search.trim().toLowerCase();
+  const visible = merchants
+    .filter(merchant => !query || [merchant.name, ...merchant.aliases].some(name => name.toLowerCase().includes(query)))
+    .sort((a, b) => (totals[b.id]?.spentAllTime ?? 0) - (totals[a.id]?.spentAllTime ?? 0) || a.name.localeCompare(b.name));
+
+  const handleRename = async (merchant: Merchant) => {
+    if (!user) return;
+    const name = renameValue.trim();
+    if (!name || name === merchant.name) {
+      setRenamingId(null);
+      return;
+    }
+    const clash = merchants.find(other => other.id !== merchant.id && other.name.toLowerCase() === name.toLowerCase());
+    if (clash) {
+      setError(`There is already a merchant called "${clash.name}"; merge them instead`);
+      return;
+    }
+
+    try {
+      setError('');
+      await renameMerchant(user.id, merchant, name);
+      setRenamingId(null);
+      await refresh();
+      setSuccess(`Renamed ${merchant.name} to ${name}`);
+    } catch (err) {
+      console.error('Error renaming merchant:', err);
+      setError('Failed to rename merchant');
+    }
+  };
+
+  const handleDefaultCategory = async (merchant: Merchant, category: string) => {
+    try {
+      const { error } = await supabase
+        .from('merchants')
+        .update({ default_category: category || null, updated_at: new Date().toISOString() })
+        .eq('id', merchant.id);
+
+      if (error) throw error;
+      setMerchants(prev => prev.map(m => (m.id === merchant.id ? { ...m, default_category: category || null } : m)));
+    } catch (err) {
+      console.error('Error updating merchant:', err);
+      setError('Failed to update default category');
+    }
+  };
+
+  const handleAddAlias = async (merchant: Merchant) => {
+    if (!user) return;
+    const alias = (aliasDrafts[merchant.id] || '').trim();
+    if (!alias) return;
+
+    try {
+      await addMerchantAlias(user.id, merchant, alias);
+      setAliasDrafts(prev => ({ ...prev, [merchant.id]: '' }));
+      await refresh();
+    } catch (err) {
+      console.error('Error adding merchant alias:', err);
+      setError('Failed to add alias');
+    }
+  };
+
+  const handleRemoveAlias = async (merchant: Merchant, alias: string) => {
+    try {
+      const { error } = await supabase
+        .from('merchant_aliases')
+        .delete()
+        .eq('merchant_id', merchant.id)
+        .eq('alias', alias);
+
+      if (error) throw error;
+      setMerchants(prev => prev.map(m => (m.id === merchant.id ? { ...m, aliases: m.aliases.filter(a => a !== alias) } : m)));
+    } catch (err) {
+      console.error('Error removing merchant alias:', err);
+      setError('Failed to remove alias');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeSource || !mergeTargetId) return;
+    const target = merchants.find(merchant => merchant.id === mergeTargetId);
+
+    try {
+      setError('');
+      const { error } = await supabase.rpc('merge_merchants', {
+        p_source_id: mergeSource.id,
+        p_target_id: mergeTargetId
+      });
+
+      if (error) throw error;
+      setMergeSource(null);
+      setMergeTargetId('');
+      await refresh();
+      setSuccess(`Merged ${mergeSource.name} into ${target?.name ?? 'the selected merchant'}`);
+    } catch (err) {
+      console.error('Error merging merchants:', err);
+      setError('Failed to merge merchants');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Merchants</h1>
+        <p className="mt-2 text-gray-600">
+          Every place you spend, under one name. Receipts and statements that print a merchant differently are matched through its aliases; a default category is used when no rule or earlier correction applies. Merge duplicates to combine their transactions.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-center">
+          <CheckCircle className="h-5 w-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      {mergeSource && (
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Merge {mergeSource.name}</h2>
+            <button type="button" onClick={() => setMergeSource(null)} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Its {totals[mergeSource.id]?.count ?? 0} transactions and aliases move to the merchant you pick, and "{mergeSource.name}" becomes one of that merchant's aliases.
+          </p>
+          <div className="flex items-center space-x-3">
+            <select
+              value={mergeTargetId}
+              onChange={(e) => setMergeTargetId(e.target.value)}
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Merge into...</option>
+              {merchants.filter(merchant => merchant.id !== mergeSource.id).map(merchant => (
+                <option key={merchant.id} value={merchant.id}>{merchant.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleMerge}
+              disabled={!mergeTargetId}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Merge className="h-4 w-4 mr-2" />
+              Merge
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="mb-4">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search merchants and aliases"
+          className="w-full md:w-80 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+          {merchants.length === 0
+            ? 'No merchants yet. They are added as you save receipts and transactions with a merchant.'
+            : 'No merchants match your search.'}
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Merchant</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Default Category</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Transactions</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">This Month</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">All Time</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visible.map(merchant => {
+                const merchantTotals = totals[merchant.id] ?? EMPTY_TOTALS;
+                return (
+                  <tr key={merchant.id} className="align-top">
+                    <td className="px-6 py-4">
+                      {renamingId === merchant.id ? (
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="text"
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            className="border border-gray-300 rounded px-2 py-1 text-sm"
+                            autoFocus
+                          />
+                          <button onClick={() => handleRename(merchant)} className="text-green-600 hover:text-green-900" aria-label="Save name">
+                            <Save className="h-4 w-4" />
+                          </button>
+                          <button onClick={() => setRenamingId(null)} className="text-gray-500 hover:text-gray-800" aria-label="Cancel rename">
+                            <X className="h-4 w-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="text-sm font-medium text-gray-900">{merchant.name}</div>
+                      )}
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {merchant.aliases.map(alias => (
+                          <span key={alias} className="inline-flex items-center px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-700">
+                            {alias}
+                            <button
+                              onClick={() => handleRemoveAlias(merchant, alias)}
+                              className="ml-1 text-gray-400 hover:text-gray-700"
+                              aria-label={`Remove alias ${alias}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                      <div className="mt-2 flex items-center space-x-1">
+                        <input
+                          type="text"
+                          value={aliasDrafts[merchant.id] || ''}
+                          onChange={(e) => setAliasDrafts(prev => ({ ...prev, [merchant.id]: e.target.value }))}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleAddAlias(merchant);
+                          }}
+                          placeholder="Add alias"
+                          className="border border-gray-200 rounded px-2 py-0.5 text-xs w-36"
+                        />
+                        <button onClick={() => handleAddAlias(merchant)} className="text-blue-600 hover:text-blue-900" aria-label="Add alias">
+                          <Plus className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <select
+                        value={merchant.default_category || ''}
+                        onChange={(e) => handleDefaultCategory(merchant, e.target.value)}
+                        className="border border-gray-300 rounded px-2 py-1 text-sm"
+                      >
+                        <option value="">None</option>
+                        {categoryOptions(merchant.default_category || '').map(cat => (
+                          <option key={cat} value={cat}>{categoryLabel(cat)}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{merchantTotals.count}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatBase(merchantTotals.spentThisMonth)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{formatBase(merchantTotals.spentAllTime)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <button
+                        onClick={() => {
+                          setRenamingId(merchant.id);
+                          setRenameValue(merchant.name);
+                        }}
+                        className="text-blue-600 hover:text-blue-900 mr-3"
+                        aria-label={`Rename ${merchant.name}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          setMergeSource(merchant);
+                          setMergeTargetId('');
+                        }}
+                        className="text-gray-500 hover:text-gray-800"
+                        aria-label={`Merge ${merchant.name} into another merchant`}
+                      >
+                        <Merge className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,579 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoryContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { useAccounts } from '../contexts/AccountContext';
+import { generateDueTransactions, loadRecurringTransactions } from '../lib/recurring';
+import {
+  detectRecurring,
+  firstOccurrenceFrom,
+  FREQUENCIES,
+  RecurrenceFrequency,
+  RecurringSuggestion,
+  RecurringTransaction
+} from '../utils/recurrenceUtils';
+import { getTodayString, parseLocalDate, getLocalDateString } from '../utils/dateUtils';
+import { amountStep, currencyOptions } from '../../supabase/functions/_shared/currency';
+import { Plus, Pencil, Trash2, Save, X, AlertCircle, CheckCircle, Pause, Play, Sparkles } from 'lucide-react';
+
+interface RecurringForm {
+  name: string;
+  merchant: string;
+  amount: string;
+  // Empty until the user picks one, meaning the profile currency
+  currency: string;
+  account_id: string;
+  type: 'debit' | 'credit';
+  category: string;
+  frequency: RecurrenceFrequency;
+  start_date: string;
+  end_date: string;
+}
+
+// How far back the subscription detector looks
+const DETECTION_DAYS = 400;
+
+function emptyForm(): RecurringForm {
+  return {
+    name: '',
+    merchant: '',
+    amount: '',
+    currency: '',
+    account_id: '',
+    type: 'debit',
+    category: 'Subscriptions',
+    frequency: 'monthly',
+    start_date: getTodayString(),
+    end_date: ''
+  };
+}
+
+function toForm(template: RecurringTransaction): RecurringForm {
+  return {
+    name: template.name,
+    merchant: template.merchant || '',
+    amount: Number(template.amount).toString(),
+    currency: template.currency,
+    account_id: template.account_id || '',
+    type: template.type,
+    category: template.category,
+    frequency: template.frequency,
+    start_date: template.start_date,
+    end_date: template.end_date || ''
+  };
+}
+
+function frequencyLabel(frequency: RecurrenceFrequency): string {
+  return FREQUENCIES.find(candidate => candidate.value === frequency)?.label ?? frequency;
+}
+
+async function loadHistory(userId: string) {
+  const today = parseLocalDate(getTodayString());
+  const since = getLocalDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() - DETECTION_DAYS));
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('date, amount, currency, account_id, type, category, description, merchant, recurring_id')
+    .eq('user_id', userId)
+    .gte('date', since);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export function RecurringPage() {
+  const { user } = useAuth();
+  const { categoryOptions, categoryLabel } = useCategories();
+  const { baseCurrency } = useCurrency();
+  const { money, signedMoney, date: formatDate } = useFormat();
+  const { accounts } = useAccounts();
+  const [templates, setTemplates] = useState<RecurringTransaction[]>([]);
+  const [suggestions, setSuggestions] = useState<RecurringSuggestion[]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<RecurringForm>(emptyForm);
+  const [editing, setEditing] = useState<RecurringTransaction | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const formCurrency = form.currency || baseCurrency;
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [loadedTemplates, history] = await Promise.all([loadRecurringTransactions(user.id), loadHistory(user.id)]);
+      setTemplates(loadedTemplates);
+      setSuggestions(detectRecurring(history, loadedTemplates, getTodayString()));
+    } catch (err) {
+      console.error('Error loading recurring transactions:', err);
+      setError('Failed to load recurring transactions');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Saving a template whose first date has passed adds those transactions straight away
+  const generateAndRefresh = async (message: string) => {
+    if (!user) return;
+    const created = await generateDueTransactions(user.id);
+    await refresh();
+    setSuccess(created > 0 ? `${message}; added ${created} transaction${created === 1 ? '' : 's'} that were due` : message);
+  };
+
+  const openNewTemplate = () => {
+    setForm(emptyForm());
+    setEditing(null);
+    setShowForm(true);
+    setError('');
+  };
+
+  const openEditTemplate = (template: RecurringTransaction) => {
+    setForm(toForm(template));
+    setEditing(template);
+    setShowForm(true);
+    setError('');
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+    setForm(emptyForm());
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const amount = parseFloat(form.amount);
+    if (!form.name.trim()) {
+      setError('Please give the recurring transaction a name');
+      return;
+    }
+    if (!(amount > 0)) {
+      setError('The amount must be greater than zero');
+      return;
+    }
+    if (!form.start_date) {
+      setError('Please choose the first date');
+      return;
+    }
+    if (form.end_date && form.end_date < form.start_date) {
+      setError('The end date must be after the first date');
+      return;
+    }
+
+    // A changed schedule picks up from today, so past occurrences aren't generated again on new dates
+    const scheduleChanged = editing && (editing.start_date !== form.start_date || editing.frequency !== form.frequency);
+    const nextDate = !editing
+      ? form.start_date
+      : scheduleChanged
+        ? firstOccurrenceFrom(form.start_date, form.frequency, getTodayString())
+        : editing.next_date;
+
+    const templateData = {
+      name: form.name.trim(),
+      merchant: form.merchant.trim() || null,
+      amount: Math.round(amount * 100) / 100,
+      currency: formCurrency,
+      account_id: form.account_id || null,
+      type: form.type,
+      category: form.category,
+      frequency: form.frequency,
+      start_date: form.start_date,
+      next_date: nextDate,
+      end_date: form.end_date || null,
+      updated_at: new Date().toISOString()
+    };
+
+    try {
+      setSaving(true);
+      setError('');
+
+      if (editing) {
+        const { error } = await supabase.from('recurring_transactions').update(templateData).eq('id', editing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('recurring_transactions').insert([{ user_id: user.id, ...templateData }]);
+        if (error) throw error;
+      }
+
+      closeForm();
+      await generateAndRefresh(editing ? 'Recurring transaction updated' : 'Recurring transaction created');
+    } catch (err) {
+      console.error('Error saving recurring transaction:', err);
+      setError('Failed to save recurring transaction');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (template: RecurringTransaction) => {
+    // Resuming continues from today rather than catching up on the paused months
+    const nextDate = template.active
+      ? template.next_date
+      : firstOccurrenceFrom(template.next_date, template.frequency, getTodayString());
+
+    try {
+      const { error } = await supabase
+        .from('recurring_transactions')
+        .update({ active: !template.active, next_date: nextDate, updated_at: new Date().toISOString() })
+        .eq('id', template.id);
+
+      if (error) throw error;
+      await generateAndRefresh(template.active ? `Paused ${template.name}` : `Resumed ${template.name}`);
+    } catch (err) {
+      console.error('Error updating recurring transaction:', err);
+      setError('Failed to update recurring transaction');
+    }
+  };
+
+  const handleDelete = async (template: RecurringTransaction) => {
+    if (!confirm(`Delete "${template.name}"? Transactions it already added are kept.`)) return;
+
+    try {
+      const { error } = await supabase.from('recurring_transactions').delete().eq('id', template.id);
+      if (error) throw error;
+      await refresh();
+      setSuccess(`Deleted ${template.name}`);
+    } catch (err) {
+      console.error('Error deleting recurring transaction:', err);
+      setError('Failed to delete recurring transaction');
+    }
+  };
+
+  const handleAcceptSuggestion = async (suggestion: RecurringSuggestion) => {
+    if (!user) return;
+
+    try {
+      // The detected charges already exist, so the schedule starts at the next expected one
+      const { error } = await supabase.from('recurring_transactions').insert([{
+        user_id: user.id,
+        name: suggestion.name,
+        merchant: suggestion.merchant,
+        amount: suggestion.amount,
+        currency: suggestion.currency || baseCurrency,
+        account_id: suggestion.account_id,
+        type: suggestion.type,
+        category: suggestion.category,
+        frequency: suggestion.frequency,
+        start_date: suggestion.lastDate,
+        next_date: suggestion.nextDate
+      }]);
+
+      if (error) throw error;
+      await generateAndRefresh(`Added ${suggestion.name} as a recurring transaction`);
+    } catch (err) {
+      console.error('Error adding suggested recurring transaction:', err);
+      setError('Failed to add recurring transaction');
+    }
+  };
+
+  const visibleSuggestions = suggestions.filter(suggestion => !dismissed.has(suggestion.key));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Recurring</h1>
+          <p className="mt-2 text-gray-600">
+            Rent, payroll, subscriptions and bills that repeat on a schedule. Each one adds its transaction automatically when it falls due, and upcoming charges are listed on the calendar.
+          </p>
+        </div>
+        <button
+          onClick={openNewTemplate}
+          className="ml-4 flex-shrink-0 inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Recurring
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-center">
+          <CheckCircle className="h-5 w-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white shadow rounded-lg p-6 mb-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">{editing ? 'Edit Recurring Transaction' : 'New Recurring Transaction'}</h2>
+            <button type="button" onClick={closeForm} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Rent"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Merchant</label>
+              <input
+                type="text"
+                value={form.merchant}
+                onChange={(e) => setForm(prev => ({ ...prev, merchant: e.target.value }))}
+                placeholder="e.g., Netflix"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+              <input
+                type="number"
+                step={amountStep(formCurrency)}
+                min="0"
+                value={form.amount}
+                onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+              <select
+                value={formCurrency}
+                onChange={(e) => setForm(prev => ({ ...prev, currency: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {currencyOptions(formCurrency).map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+            {accounts.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Account</label>
+                <select
+                  value={form.account_id}
+                  onChange={(e) => {
+                    const account = accounts.find(candidate => candidate.id === e.target.value);
+                    // A new template is in its account's currency unless one was picked
+                    setForm(prev => ({
+                      ...prev,
+                      account_id: e.target.value,
+                      currency: prev.currency || (editing ? '' : account?.currency ?? '')
+                    }));
+                  }}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">No account</option>
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as 'debit' | 'credit' }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="debit">Expense</option>
+                <option value="credit">Income</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={form.category}
+                onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {categoryOptions(form.category).map(cat => (
+                  <option key={cat} value={cat}>{categoryLabel(cat)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+              <select
+                value={form.frequency}
+                onChange={(e) => setForm(prev => ({ ...prev, frequency: e.target.value as RecurrenceFrequency }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {FREQUENCIES.map(frequency => (
+                  <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">First date</label>
+              <input
+                type="date"
+                value={form.start_date}
+                onChange={(e) => setForm(prev => ({ ...prev, start_date: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End date (optional)</label>
+              <input
+                type="date"
+                value={form.end_date}
+                onChange={(e) => setForm(prev => ({ ...prev, end_date: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {!editing && form.start_date < getTodayString() && (
+            <p className="text-xs text-gray-500">Occurrences between the first date and today are added when you save.</p>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {visibleSuggestions.length > 0 && (
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <div className="flex items-center mb-4">
+            <Sparkles className="h-5 w-5 text-blue-600 mr-2" />
+            <h2 className="text-lg font-semibold text-gray-900">Possible Subscriptions</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            These look like regular charges in your history. Add one to have it entered automatically from now on.
+          </p>
+          <div className="divide-y divide-gray-200">
+            {visibleSuggestions.map(suggestion => (
+              <div key={suggestion.key} className="py-3 flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {suggestion.name} · {money(suggestion.amount, suggestion.currency)} {frequencyLabel(suggestion.frequency).toLowerCase()}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Seen {suggestion.occurrences} times, last on {formatDate(suggestion.lastDate)}; next expected {formatDate(suggestion.nextDate)}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3 ml-4">
+                  <button
+                    onClick={() => handleAcceptSuggestion(suggestion)}
+                    className="inline-flex items-center px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </button>
+                  <button
+                    onClick={() => setDismissed(prev => new Set(prev).add(suggestion.key))}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {templates.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-8 text-center text-gray-500">
+          No recurring transactions yet.
+        </div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Frequency</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {templates.map(template => (
+                <tr key={template.id} className={template.active ? '' : 'opacity-60'}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{template.name}</div>
+                    {template.merchant && <div className="text-xs text-gray-500">{template.merchant}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{frequencyLabel(template.frequency)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    {template.active ? formatDate(template.next_date) : 'Paused'}
+                    {template.end_date && <div className="text-xs text-gray-500">Ends {formatDate(template.end_date)}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{categoryLabel(template.category)}</td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${template.type === 'credit' ? 'text-green-600' : 'text-red-600'}`}>
+                    {signedMoney(Number(template.amount), template.type === 'credit' ? 'income' : 'expense', template.currency)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    <button
+                      onClick={() => openEditTemplate(template)}
+                      className="text-blue-600 hover:text-blue-900 mr-3"
+                      aria-label={`Edit ${template.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleToggleActive(template)}
+                      className="text-gray-500 hover:text-gray-800 mr-3"
+                      aria-label={template.active ? `Pause ${template.name}` : `Resume ${template.name}`}
+                    >
+                      {template.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(template)}
+                      className="text-red-600 hover:text-red-900"
+                      aria-label={`Delete ${template.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
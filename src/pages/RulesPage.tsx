@@ -0,0 +1,615 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoryContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { Plus, Pencil, Trash2, Save, X, AlertCircle, CheckCircle, RefreshCw, ArrowRight } from 'lucide-react';
+import { CategorizationRule, RuleChange, RuleInput, isValidPattern, previewRuleChanges } from '../../supabase/functions/_shared/rules';
+import { loadCategorizationRules } from '../lib/categorizationRules';
+import { amountStep } from '../../supabase/functions/_shared/currency';
+
+interface RuleForm {
+  name: string;
+  priority: string;
+  description_pattern: string;
+  merchant: string;
+  min_amount: string;
+  max_amount: string;
+  type: '' | 'debit' | 'credit';
+  category: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  priority: '100',
+  description_pattern: '',
+  merchant: '',
+  min_amount: '',
+  max_amount: '',
+  type: '',
+  category: 'Other',
+  enabled: true
+};
+
+const UPDATE_BATCH_SIZE = 200;
+
+// Supabase returns at most this many rows per request, and rules re-run over every transaction
+const PAGE_SIZE = 1000;
+
+type RuleTransaction = RuleInput & { id: string; category: string; transaction_splits?: unknown[] | null };
+
+function toForm(rule: CategorizationRule): RuleForm {
+  return {
+    name: rule.name,
+    priority: rule.priority.toString(),
+    description_pattern: rule.description_pattern || '',
+    merchant: rule.merchant || '',
+    min_amount: rule.min_amount !== null ? rule.min_amount.toString() : '',
+    max_amount: rule.max_amount !== null ? rule.max_amount.toString() : '',
+    type: rule.type || '',
+    category: rule.category,
+    enabled: rule.enabled
+  };
+}
+
+function describeConditions(rule: CategorizationRule, formatAmount: (amount: number) => string): string {
+  const conditions: string[] = [];
+  if (rule.merchant) conditions.push(`merchant is "${rule.merchant}"`);
+  if (rule.description_pattern) conditions.push(`description matches /${rule.description_pattern}/`);
+  if (rule.type) conditions.push(rule.type === 'credit' ? 'income' : 'expense');
+  if (rule.min_amount !== null && rule.max_amount !== null) {
+    conditions.push(`amount ${formatAmount(Number(rule.min_amount))}-${formatAmount(Number(rule.max_amount))}`);
+  } else if (rule.min_amount !== null) {
+    conditions.push(`amount ≥ ${formatAmount(Number(rule.min_amount))}`);
+  } else if (rule.max_amount !== null) {
+    conditions.push(`amount ≤ ${formatAmount(Number(rule.max_amount))}`);
+  }
+  return conditions.join(' and ');
+}
+
+// Split transactions are left alone: their categories live on the splits
+async function loadRuleChanges(userId: string, rules: CategorizationRule[]): Promise<RuleChange[]> {
+  const transactions: RuleTransaction[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, description, merchant, amount, type, category, transaction_splits(id)')
+      .eq('user_id', userId)
+      .order('date')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    transactions.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const unsplit = transactions.filter(transaction =>
+    !transaction.transaction_splits || transaction.transaction_splits.length === 0
+  );
+  return previewRuleChanges(rules, unsplit);
+}
+
+export function RulesPage() {
+  const { user } = useAuth();
+  const { categoryOptions, categoryLabel } = useCategories();
+  const { baseCurrency, formatBase } = useCurrency();
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [changes, setChanges] = useState<RuleChange[] | null>(null);
+  const [selectedChanges, setSelectedChanges] = useState<Set<string>>(new Set());
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadCategorizationRules(user.id)
+      .then(setRules)
+      .catch(err => {
+        console.error('Error loading categorization rules:', err);
+        setError('Failed to load rules');
+      })
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const reloadRules = async () => {
+    if (!user) return;
+    try {
+      setRules(await loadCategorizationRules(user.id));
+    } catch (err) {
+      console.error('Error loading categorization rules:', err);
+    }
+  };
+
+  const openNewRule = () => {
+    setForm(EMPTY_FORM);
+    setEditingRuleId(null);
+    setShowForm(true);
+    setError('');
+  };
+
+  const openEditRule = (rule: CategorizationRule) => {
+    setForm(toForm(rule));
+    setEditingRuleId(rule.id);
+    setShowForm(true);
+    setError('');
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingRuleId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const validateForm = (): string | null => {
+    if (!form.name.trim()) return 'Please give the rule a name';
+    if (isNaN(parseInt(form.priority, 10))) return 'Priority must be a whole number';
+
+    const min = form.min_amount ? parseFloat(form.min_amount) : null;
+    const max = form.max_amount ? parseFloat(form.max_amount) : null;
+    if ((min !== null && isNaN(min)) || (max !== null && isNaN(max))) return 'Amounts must be numbers';
+    if (min !== null && max !== null && min > max) return 'Minimum amount cannot be more than the maximum';
+
+    if (form.description_pattern && !isValidPattern(form.description_pattern)) {
+      return 'Description pattern is not a valid regular expression';
+    }
+    if (!form.description_pattern.trim() && !form.merchant.trim() && !form.type && min === null && max === null) {
+      return 'A rule needs at least one condition';
+    }
+    return null;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const validationError = validateForm();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const ruleData = {
+      user_id: user.id,
+      name: form.name.trim(),
+      priority: parseInt(form.priority, 10),
+      description_pattern: form.description_pattern.trim() || null,
+      merchant: form.merchant.trim() || null,
+      min_amount: form.min_amount ? parseFloat(form.min_amount) : null,
+      max_amount: form.max_amount ? parseFloat(form.max_amount) : null,
+      type: form.type || null,
+      category: form.category,
+      enabled: form.enabled,
+      updated_at: new Date().toISOString()
+    };
+
+    try {
+      setSaving(true);
+      setError('');
+
+      const { error } = editingRuleId
+        ? await supabase.from('categorization_rules').update(ruleData).eq('id', editingRuleId)
+        : await supabase.from('categorization_rules').insert([ruleData]);
+
+      if (error) throw error;
+
+      closeForm();
+      setChanges(null);
+      await reloadRules();
+      setSuccess(editingRuleId ? 'Rule updated' : 'Rule created');
+    } catch (err) {
+      console.error('Error saving rule:', err);
+      setError('Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: CategorizationRule) => {
+    try {
+      const { error } = await supabase
+        .from('categorization_rules')
+        .update({ enabled: !rule.enabled, updated_at: new Date().toISOString() })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)));
+      setChanges(null);
+    } catch (err) {
+      console.error('Error updating rule:', err);
+      setError('Failed to update rule');
+    }
+  };
+
+  const handleDelete = async (rule: CategorizationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('categorization_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+      setChanges(null);
+    } catch (err) {
+      console.error('Error deleting rule:', err);
+      setError('Failed to delete rule');
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!user) return;
+
+    try {
+      setPreviewing(true);
+      setError('');
+      setSuccess('');
+      const preview = await loadRuleChanges(user.id, rules);
+      setChanges(preview);
+      setSelectedChanges(new Set(preview.map(change => change.transactionId)));
+    } catch (err) {
+      console.error('Error previewing rule changes:', err);
+      setError('Failed to preview changes');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const toggleChange = (transactionId: string) => {
+    setSelectedChanges(prev => {
+      const next = new Set(prev);
+      if (next.has(transactionId)) {
+        next.delete(transactionId);
+      } else {
+        next.add(transactionId);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!changes) return;
+
+    const toApply = changes.filter(change => selectedChanges.has(change.transactionId));
+    const idsByCategory = toApply.reduce<Record<string, string[]>>((acc, change) => {
+      (acc[change.to] ||= []).push(change.transactionId);
+      return acc;
+    }, {});
+
+    try {
+      setApplying(true);
+      setError('');
+
+      for (const [category, ids] of Object.entries(idsByCategory)) {
+        for (let i = 0; i < ids.length; i += UPDATE_BATCH_SIZE) {
+          const { error } = await supabase
+            .from('transactions')
+            .update({ category, updated_at: new Date().toISOString() })
+            .in('id', ids.slice(i, i + UPDATE_BATCH_SIZE));
+
+          if (error) throw error;
+        }
+      }
+
+      setChanges(null);
+      setSuccess(`Re-categorized ${toApply.length} transaction${toApply.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      console.error('Error applying rule changes:', err);
+      setError('Failed to apply changes. Some transactions may have been updated; preview again to see what is left.');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Categorization Rules</h1>
+          <p className="mt-2 text-gray-600">
+            Rules set the category of uploaded receipts, imported statements and new transactions. They are checked in priority order and the first match wins.
+          </p>
+        </div>
+        <button
+          onClick={openNewRule}
+          className="ml-4 flex-shrink-0 inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Rule
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center">
+          <AlertCircle className="h-5 w-5 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-center">
+          <CheckCircle className="h-5 w-5 mr-2" />
+          {success}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white shadow rounded-lg p-6 mb-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">{editingRuleId ? 'Edit Rule' : 'New Rule'}</h2>
+            <button type="button" onClick={closeForm} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Coffee shops"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+              <input
+                type="number"
+                step="1"
+                value={form.priority}
+                onChange={(e) => setForm(prev => ({ ...prev, priority: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="mt-1 text-xs text-gray-500">Lower numbers are checked first</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Merchant</label>
+              <input
+                type="text"
+                value={form.merchant}
+                onChange={(e) => setForm(prev => ({ ...prev, merchant: e.target.value }))}
+                placeholder="e.g., Starbucks"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="mt-1 text-xs text-gray-500">Matched as whole words in the description</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description pattern</label>
+              <input
+                type="text"
+                value={form.description_pattern}
+                onChange={(e) => setForm(prev => ({ ...prev, description_pattern: e.target.value }))}
+                placeholder="e.g., ^(amzn|amazon)"
+                className={`w-full border rounded-lg px-3 py-2 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  form.description_pattern && !isValidPattern(form.description_pattern) ? 'border-red-400' : 'border-gray-300'
+                }`}
+              />
+              <p className="mt-1 text-xs text-gray-500">Regular expression, case-insensitive</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as RuleForm['type'] }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Any</option>
+                <option value="debit">Expense</option>
+                <option value="credit">Income</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Min amount</label>
+              <input
+                type="number"
+                step={amountStep(baseCurrency)}
+                min="0"
+                value={form.min_amount}
+                onChange={(e) => setForm(prev => ({ ...prev, min_amount: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max amount</label>
+              <input
+                type="number"
+                step={amountStep(baseCurrency)}
+                min="0"
+                value={form.max_amount}
+                onChange={(e) => setForm(prev => ({ ...prev, max_amount: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Set category to</label>
+              <select
+                value={form.category}
+                onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {categoryOptions(form.category).map(cat => (
+                  <option key={cat} value={cat}>{categoryLabel(cat)}</option>
+                ))}
+              </select>
+            </div>
+            <label className="inline-flex items-center text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={form.enabled}
+                onChange={(e) => setForm(prev => ({ ...prev, enabled: e.target.checked }))}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Enabled
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Rule'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Rules List */}
+      <div className="bg-white shadow rounded-lg overflow-hidden mb-6">
+        {rules.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            No rules yet. Categories come from the built-in keyword list until you add one.
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Priority</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Enabled</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rules.map(rule => (
+                <tr key={rule.id} className={rule.enabled ? '' : 'opacity-60'}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rule.priority}</td>
+                  <td className="px-6 py-4">
+                    <p className="text-sm font-medium text-gray-900">{rule.name}</p>
+                    <p className="text-xs text-gray-500">When {describeConditions(rule, formatBase)}</p>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">{rule.category}</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => handleToggle(rule)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      aria-label={`Enable ${rule.name}`}
+                    />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    <button
+                      onClick={() => openEditRule(rule)}
+                      className="text-blue-600 hover:text-blue-900 mr-3"
+                      aria-label={`Edit ${rule.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="text-red-600 hover:text-red-900"
+                      aria-label={`Delete ${rule.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Re-run Rules */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Re-run Rules on Existing Transactions</h2>
+            <p className="text-sm text-gray-500">
+              Preview which saved transactions your rules would re-categorize, then apply the ones you want. Split transactions are not changed.
+            </p>
+          </div>
+          <button
+            onClick={handlePreview}
+            disabled={previewing || rules.length === 0}
+            className="ml-4 flex-shrink-0 inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${previewing ? 'animate-spin' : ''}`} />
+            Preview Changes
+          </button>
+        </div>
+
+        {changes && (
+          <div className="mt-4">
+            {changes.length === 0 ? (
+              <p className="text-sm text-gray-600">Your transactions already match your rules. Nothing to change.</p>
+            ) : (
+              <>
+                <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-200">
+                  {changes.map(change => (
+                    <label key={change.transactionId} className="flex items-center px-4 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={selectedChanges.has(change.transactionId)}
+                        onChange={() => toggleChange(change.transactionId)}
+                        className="mr-3 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="flex-1 min-w-0 truncate text-gray-900">{change.description}</span>
+                      <span className="flex items-center ml-4 whitespace-nowrap text-gray-600">
+                        {change.from}
+                        <ArrowRight className="h-3 w-3 mx-1" />
+                        <span className="font-medium text-gray-900">{change.to}</span>
+                      </span>
+                      <span className="ml-4 text-xs text-gray-400 whitespace-nowrap">{change.rule.name}</span>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex justify-end mt-4">
+                  <button
+                    onClick={handleApply}
+                    disabled={applying || selectedChanges.size === 0}
+                    className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {applying ? 'Applying...' : `Apply ${selectedChanges.size} Change${selectedChanges.size === 1 ? '' : 's'}`}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
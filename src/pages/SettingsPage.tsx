@@ -1,22 +1,52 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Save, User, DollarSign, Trash2, AlertTriangle } from 'lucide-react';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { importFxRates } from '../lib/fxRates';
+import { parseFxRatesCsv } from '../utils/fxUtils';
+import { currencyOptions, currencySymbol } from '../../supabase/functions/_shared/currency';
+import {
+  DATE_FORMATS,
+  DateFormat,
+  DEFAULT_FORMAT_PREFERENCES,
+  formatDate,
+  LOCALES,
+  weekdayNames
+} from '../../supabase/functions/_shared/format';
+import { Save, User, DollarSign, Trash2, AlertTriangle, Upload, Globe } from 'lucide-react';
 
 interface Profile {
   display_name: string | null;
   currency: string;
+  locale: string;
+  week_start: number;
+  date_format: DateFormat;
 }
 
+const DEFAULT_PROFILE_FORMAT = {
+  currency: DEFAULT_FORMAT_PREFERENCES.currency,
+  locale: DEFAULT_FORMAT_PREFERENCES.locale,
+  week_start: DEFAULT_FORMAT_PREFERENCES.weekStart,
+  date_format: DEFAULT_FORMAT_PREFERENCES.dateFormat,
+};
+
+// Day used to preview date formats
+const SAMPLE_DATE = '2025-03-28';
+
 export function SettingsPage() {
   const { user } = useAuth();
+  const { rates, refreshCurrency } = useCurrency();
+  const format = useFormat();
   const [profile, setProfile] = useState<Profile>({
     display_name: '',
-    currency: 'USD'
+    ...DEFAULT_PROFILE_FORMAT
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const [importingRates, setImportingRates] = useState(false);
+  const [rateMessage, setRateMessage] = useState<{ type: 'success' | 'error', text: string, details?: string[] } | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -37,7 +67,7 @@ export function SettingsPage() {
           // No profile exists yet - use defaults
           setProfile({
             display_name: user?.email?.split('@')[0] || '',
-            currency: 'USD'
+            ...DEFAULT_PROFILE_FORMAT
           });
           return;
         }
@@ -47,7 +77,10 @@ export function SettingsPage() {
       if (data) {
         setProfile({
           display_name: data.display_name || '',
-          currency: data.currency || 'USD'
+          currency: data.currency || DEFAULT_PROFILE_FORMAT.currency,
+          locale: data.locale || DEFAULT_PROFILE_FORMAT.locale,
+          week_start: data.week_start ?? DEFAULT_PROFILE_FORMAT.week_start,
+          date_format: data.date_format || DEFAULT_PROFILE_FORMAT.date_format
         });
       }
     } catch (error) {
@@ -55,7 +88,7 @@ export function SettingsPage() {
       // Set defaults even on error to prevent UI issues
       setProfile({
         display_name: user?.email?.split('@')[0] || '',
-        currency: 'USD'
+        ...DEFAULT_PROFILE_FORMAT
       });
     } finally {
       setLoading(false);
@@ -74,10 +107,14 @@ export function SettingsPage() {
           user_id: user!.id,
           display_name: profile.display_name || null,
           currency: profile.currency,
+          locale: profile.locale,
+          week_start: profile.week_start,
+          date_format: profile.date_format,
         });
 
       if (error) throw error;
 
+      await refreshCurrency();
       setMessage({ type: 'success', text: 'Profile updated successfully!' });
     } catch (error: any) {
       setMessage({ type: 'error', text: error.message });
@@ -86,6 +123,38 @@ export function SettingsPage() {
     }
   };
 
+  const handleRatesFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user) return;
+
+    setImportingRates(true);
+    setRateMessage(null);
+
+    try {
+      const { rates: parsed, errors } = parseFxRatesCsv(await file.text());
+      if (parsed.length === 0) {
+        setRateMessage({ type: 'error', text: 'No exchange rates found in this file.', details: errors });
+        return;
+      }
+
+      const saved = await importFxRates(user.id, parsed);
+      await refreshCurrency();
+      setRateMessage({
+        type: 'success',
+        text: `Imported ${saved} exchange rate${saved === 1 ? '' : 's'}${errors.length > 0 ? `, skipped ${errors.length} line${errors.length === 1 ? '' : 's'}` : ''}.`,
+        details: errors
+      });
+    } catch (error: any) {
+      setRateMessage({ type: 'error', text: error.message });
+    } finally {
+      setImportingRates(false);
+    }
+  };
+
+  const latestRateDate = rates.length > 0 ? format.date(rates[rates.length - 1].date) : null;
+  const rateCurrencies = [...new Set(rates.flatMap(rate => [rate.base_currency, rate.quote_currency]))].sort();
+
   const handleDeleteAllData = async () => {
     const confirmed = window.confirm(
       'Are you sure you want to delete ALL your transaction data? This action cannot be undone.'
@@ -234,12 +303,73 @@ export function SettingsPage() {
                   onChange={(e) => setProfile(prev => ({ ...prev, currency: e.target.value }))}
                   className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
-                  <option value="USD">USD ($)</option>
-                  <option value="CAD">CAD ($)</option>
-                  <option value="EUR">EUR (€)</option>
-                  <option value="GBP">GBP (£)</option>
-                  <option value="JPY">JPY (¥)</option>
-                  <option value="NPR">NPR (₨)</option>
+                  {currencyOptions(profile.currency).map(code => (
+                    <option key={code} value={code}>{code} ({currencySymbol(code)})</option>
+                  ))}
+                </select>
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                Totals, budgets and goals are shown in this currency. Transactions in other currencies are converted with your exchange rates.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="locale" className="block text-sm font-medium text-gray-700 mb-2">
+                Language &amp; Region
+              </label>
+              <div className="flex items-center">
+                <Globe className="h-5 w-5 text-gray-400 mr-2" />
+                <select
+                  id="locale"
+                  value={profile.locale}
+                  onChange={(e) => setProfile(prev => ({ ...prev, locale: e.target.value }))}
+                  className="flex-1 border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {!LOCALES.some(locale => locale.code === profile.locale) && (
+                    <option value={profile.locale}>{profile.locale}</option>
+                  )}
+                  {LOCALES.map(locale => (
+                    <option key={locale.code} value={locale.code}>{locale.label}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                Used for number separators and month and weekday names
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="dateFormat" className="block text-sm font-medium text-gray-700 mb-2">
+                  Date Format
+                </label>
+                <select
+                  id="dateFormat"
+                  value={profile.date_format}
+                  onChange={(e) => setProfile(prev => ({ ...prev, date_format: e.target.value as DateFormat }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {DATE_FORMATS.map(format => (
+                    <option key={format.value} value={format.value}>
+                      {format.label} ({formatDate(SAMPLE_DATE, profile.locale, format.value)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="weekStart" className="block text-sm font-medium text-gray-700 mb-2">
+                  First Day of the Week
+                </label>
+                <select
+                  id="weekStart"
+                  value={profile.week_start}
+                  onChange={(e) => setProfile(prev => ({ ...prev, week_start: Number(e.target.value) }))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {weekdayNames(profile.locale, 0).map((name, day) => (
+                    <option key={day} value={day}>{name}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -268,6 +398,62 @@ export function SettingsPage() {
           </form>
         </div>
 
+        {/* Exchange Rates */}
+        <div className="bg-white shadow-lg rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Exchange Rates</h2>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-600">
+              Import a CSV file with the columns <code className="px-1 bg-gray-100 rounded">date,base,quote,rate</code>,
+              where each line says one unit of the base currency buys <em>rate</em> units of the quote currency
+              (e.g. <code className="px-1 bg-gray-100 rounded">2025-03-01,EUR,USD,1.0842</code>). Each transaction is
+              converted with the latest rate on or before its date. Importing a day and pair again replaces its rate.
+            </p>
+
+            <p className="text-sm text-gray-700">
+              {rates.length > 0
+                ? `${rates.length} rate${rates.length === 1 ? '' : 's'} stored for ${rateCurrencies.join(', ')}, latest on ${latestRateDate}.`
+                : 'No exchange rates stored yet.'}
+            </p>
+
+            {rateMessage && (
+              <div className={`p-4 rounded-lg text-sm ${
+                rateMessage.type === 'success'
+                  ? 'bg-green-50 border border-green-200 text-green-700'
+                  : 'bg-red-50 border border-red-200 text-red-700'
+              }`}>
+                <p>{rateMessage.text}</p>
+                {rateMessage.details && rateMessage.details.length > 0 && (
+                  <ul className="mt-2 list-disc list-inside space-y-1">
+                    {rateMessage.details.slice(0, 5).map(detail => (
+                      <li key={detail}>{detail}</li>
+                    ))}
+                    {rateMessage.details.length > 5 && <li>…and {rateMessage.details.length - 5} more</li>}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <label className={`inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 transition-colors ${
+              importingRates ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+            }`}>
+              {importingRates
+                ? <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600 mr-2"></div>
+                : <Upload className="h-4 w-4 mr-2" />}
+              Import Rates CSV
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleRatesFile}
+                disabled={importingRates}
+                className="hidden"
+              />
+            </label>
+          </div>
+        </div>
+
         {/* Danger Zone */}
         <div className="bg-white shadow-lg rounded-lg overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -1,37 +1,65 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useCategories } from '../contexts/CategoryContext';
+import { descendantNames, hasChildren, sortCategoryTree } from '../../supabase/functions/_shared/categories';
 import { useSearchParams } from 'react-router-dom';
-import { Filter, Download, Pencil, Trash2, Save, X, Calendar, Tag, DollarSign, Image as ImageIcon, ArrowUpRight, ArrowDownRight, Plus } from 'lucide-react';
-import { formatDisplayDate, getTodayString } from '../utils/dateUtils';
+import { Filter, Download, Pencil, Trash2, Save, X, Calendar, Tag, DollarSign, Image as ImageIcon, ArrowUpRight, ArrowDownRight, Plus, ChevronRight, ChevronDown, List, Unlink } from 'lucide-react';
+import { getTodayString } from '../utils/dateUtils';
 import { TransactionDrawer } from '../components/TransactionDrawer';
+import { TransactionItemsBreakdown } from '../components/TransactionItemsBreakdown';
+import { ReceiptPreview } from '../components/ReceiptPreview';
+import { recordCategoryCorrections } from '../lib/categoryCorrections';
+import { loadMerchants, resolveMerchant } from '../lib/merchants';
+import { getAllocations, hasSplits, TransactionSplit } from '../utils/splitUtils';
+import { TransactionAmount } from '../components/TransactionAmount';
+import { useFormat } from '../contexts/FormatContext';
+import { amountStep, createConverter, currencyOptions } from '../../supabase/functions/_shared/currency';
+import { useAccounts } from '../contexts/AccountContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { filterByAccount, loadAccountTransactions } from '../lib/accounts';
+import { ALL_ACCOUNTS, NO_ACCOUNT, runningBalances } from '../utils/accountUtils';
+import { unlinkTransfer } from '../lib/transfers';
+import { isTransfer } from '../utils/transferUtils';
 
 interface Transaction {
   id: string;
   date: string;
   description: string;
+  merchant: string | null;
+  merchant_id: string | null;
+  account_id: string | null;
+  transfer_id: string | null;
   amount: number;
+  currency: string;
   type: 'debit' | 'credit';
   category: string;
   image_path: string | null;
   created_at: string;
   notes: string | null;
+  ocr_provider: string | null;
+  ocr_confidence: number | null;
+  transaction_items?: { count: number }[];
+  transaction_splits?: TransactionSplit[];
 }
 
 interface Filters {
   startDate: string;
   endDate: string;
   category: string;
+  // Roll a parent category up with its sub-categories, or match it exactly
+  includeSubcategories: boolean;
   type: string;
+  // An account id, NO_ACCOUNT or ALL_ACCOUNTS
+  account: string;
 }
 
-const CATEGORIES = [
-  'All', 'Dining', 'Groceries', 'Transport', 'Utilities', 
-  'Rent', 'Income', 'Shopping', 'Healthcare', 'Entertainment', 'Uncategorized'
-];
-
 export function TransactionsPage() {
   const { user } = useAuth();
+  const { money, date: formatDate } = useFormat();
+  const { categories, categoryNames, categoryOptions, colorFor, categoryLabel } = useCategories();
+  const { accounts, accountName } = useAccounts();
+  const { rates } = useCurrency();
   const [searchParams, setSearchParams] = useSearchParams();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
@@ -41,15 +69,21 @@ export function TransactionsPage() {
     startDate: '',
     endDate: '',
     category: 'All',
-    type: 'All'
+    includeSubcategories: true,
+    type: 'All',
+    account: searchParams.get('account') || ALL_ACCOUNTS
   });
+  // Running balance after each transaction, when the list is filtered to one account
+  const [balances, setBalances] = useState<Map<string, number> | null>(null);
   const [showFilters, setShowFilters] = useState(false);
-  const [imagePreview, setImagePreview] = useState<{ url: string; show: boolean }>({ url: '', show: false });
+  const [imagePreview, setImagePreview] = useState<{ url: string; path: string; show: boolean }>({ url: '', path: '', show: false });
   const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; transactionId: string | null }>({
     show: false,
     transactionId: null
   });
   const [addDrawerOpen, setAddDrawerOpen] = useState(false);
+  const [drawerTransaction, setDrawerTransaction] = useState<Transaction | null>(null);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
 
   const highlightId = searchParams.get('highlight');
 
@@ -57,7 +91,7 @@ export function TransactionsPage() {
     if (user) {
       loadTransactions();
     }
-  }, [user, filters]);
+  }, [user, filters, categories, accounts, rates]);
 
   useEffect(() => {
     // Auto-scroll to highlighted transaction
@@ -79,7 +113,7 @@ export function TransactionsPage() {
     try {
       let query = supabase
         .from('transactions')
-        .select('*')
+        .select('*, transaction_items(count), transaction_splits(category, amount, note)')
         .eq('user_id', user!.id)
         .order('date', { ascending: false });
 
@@ -89,17 +123,28 @@ export function TransactionsPage() {
       if (filters.endDate) {
         query = query.lte('date', filters.endDate);
       }
-      if (filters.category !== 'All') {
-        query = query.eq('category', filters.category);
-      }
       if (filters.type !== 'All') {
         query = query.eq('type', filters.type);
       }
 
-      const { data, error } = await query;
+      const { data, error } = await filterByAccount(query, filters.account);
 
       if (error) throw error;
-      setTransactions(data || []);
+
+      // Balances run over the account's whole history, whatever else is filtered
+      const account = accounts.find(candidate => candidate.id === filters.account);
+      setBalances(account
+        ? runningBalances(account, await loadAccountTransactions(user!.id, account.id), createConverter(rates, account.currency))
+        : null);
+
+      // Filtered client-side so split transactions match on any of their categories
+      const rows: Transaction[] = data || [];
+      const matching = new Set(filters.includeSubcategories
+        ? descendantNames(categories, filters.category)
+        : [filters.category]);
+      setTransactions(filters.category === 'All'
+        ? rows
+        : rows.filter(t => getAllocations(t).some(allocation => matching.has(allocation.category))));
     } catch (error) {
       console.error('Error loading transactions:', error);
     } finally {
@@ -108,31 +153,59 @@ export function TransactionsPage() {
   };
 
   const handleEdit = (transaction: Transaction) => {
+    // Split allocations have to stay in sync with the amount, so they are edited in the drawer
+    if (hasSplits(transaction)) {
+      setDrawerTransaction(transaction);
+      setAddDrawerOpen(true);
+      return;
+    }
+
     setEditingId(transaction.id);
     setEditForm({
       description: transaction.description,
+      merchant: transaction.merchant,
       date: transaction.date,
       category: transaction.category,
       amount: transaction.amount,
+      currency: transaction.currency,
       type: transaction.type,
       notes: transaction.notes,
     });
   };
 
   const handleSave = async (id: string) => {
+    const original = transactions.find(t => t.id === id);
+
     try {
+      const changes: Partial<Transaction> = { ...editForm };
+      // A changed merchant is filed under its directory entry like in the drawer
+      if (original && (editForm.merchant ?? null) !== original.merchant) {
+        const merchant = await resolveMerchant(user!.id, await loadMerchants(user!.id), editForm.merchant ?? '');
+        changes.merchant = merchant?.name ?? null;
+        changes.merchant_id = merchant?.id ?? null;
+      }
+
       const { error } = await supabase
         .from('transactions')
         .update({
-          ...editForm,
+          ...changes,
           updated_at: new Date().toISOString(),
         })
         .eq('id', id);
 
       if (error) throw error;
 
+      if (original && editForm.category) {
+        await recordCategoryCorrections(user!.id, [{
+          transactionId: id,
+          description: editForm.merchant || editForm.description || original.description,
+          from: original.category,
+          to: editForm.category
+        }]);
+      }
+
       setTransactions(prev =>
-        prev.map(t => t.id === id ? { ...t, ...editForm } : t)
+        prev.map(t => t.id === id ? { ...t, ...changes } : t)
       );
       setEditingId(null);
       setEditForm({});
@@ -141,6 +214,20 @@ export function TransactionsPage() {
     }
   };
 
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const getItemCount = (transaction: Transaction) => transaction.transaction_items?.[0]?.count ?? 0;
+
   const handleCancel = () => {
     setEditingId(null);
     setEditForm({});
@@ -168,16 +255,29 @@ export function TransactionsPage() {
     }
   };
 
+  const handleUnlinkTransfer = async (transaction: Transaction) => {
+    if (!confirm('Unlink this transfer? Both sides will count as income and spending again.')) return;
+
+    try {
+      await unlinkTransfer(transaction.id);
+      await loadTransactions();
+    } catch (error) {
+      console.error('Error unlinking transfer:', error);
+    }
+  };
+
   const handleDeleteCancel = () => {
     setDeleteConfirm({ show: false, transactionId: null });
   };
 
   const handleAddTransaction = () => {
+    setDrawerTransaction(null);
     setAddDrawerOpen(true);
   };
 
   const handleAddDrawerClose = () => {
     setAddDrawerOpen(false);
+    setDrawerTransaction(null);
   };
 
   const handleTransactionSaved = () => {
@@ -198,7 +298,7 @@ export function TransactionsPage() {
 
       const result = await response.json();
       if (result.signedUrl) {
-        setImagePreview({ url: result.signedUrl, show: true });
+        setImagePreview({ url: result.signedUrl, path: imagePath, show: true });
       }
     } catch (error) {
       console.error('Error getting image preview:', error);
@@ -206,7 +306,7 @@ export function TransactionsPage() {
   };
 
   const exportCSV = () => {
-    const headers = ['Date', 'Type', 'Category', 'Sub-Category', 'Amount', 'Notes'];
+    const headers = ['Date', 'Type', 'Category', 'Description', 'Merchant', 'Amount', 'Currency', 'Notes'];
     const csvContent = [
       headers.join(','),
       ...transactions.map(t => [
@@ -214,7 +314,9 @@ export function TransactionsPage() {
         t.type,
         t.category,
         `"${t.description}"`,
+        `"${t.merchant || ''}"`,
         t.amount,
+        t.currency,
         `"${t.notes || ''}"`
       ].join(','))
     ].join('\n');
@@ -241,6 +343,8 @@ export function TransactionsPage() {
     );
   }
 
+  const balanceCurrency = accounts.find(account => account.id === filters.account)?.currency;
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
       <div className="mb-8">
@@ -278,7 +382,7 @@ export function TransactionsPage() {
       {/* Filters */}
       {showFilters && (
         <div className="bg-white p-6 rounded-lg shadow-lg mb-6">
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
               <input
@@ -304,10 +408,22 @@ export function TransactionsPage() {
                 onChange={(e) => setFilters(prev => ({ ...prev, category: e.target.value }))}
                 className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
-                {CATEGORIES.map(cat => (
-                  <option key={cat} value={cat}>{cat}</option>
+                {/* Archived categories stay filterable, since old transactions still use them */}
+                {['All', ...(categories.length > 0 ? sortCategoryTree(categories).map(({ category }) => category.name) : categoryNames)].map(cat => (
+                  <option key={cat} value={cat}>{categoryLabel(cat)}</option>
                 ))}
               </select>
+              {hasChildren(categories, filters.category) && (
+                <label className="mt-2 inline-flex items-center text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={filters.includeSubcategories}
+                    onChange={(e) => setFilters(prev => ({ ...prev, includeSubcategories: e.target.checked }))}
+                    className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Include sub-categories
+                </label>
+              )}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
@@ -321,6 +437,20 @@ export function TransactionsPage() {
                 <option value="credit">In</option>
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Account</label>
+              <select
+                value={filters.account}
+                onChange={(e) => setFilters(prev => ({ ...prev, account: e.target.value }))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value={ALL_ACCOUNTS}>All</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+                <option value={NO_ACCOUNT}>No account</option>
+              </select>
+            </div>
           </div>
         </div>
       )}
@@ -346,8 +476,11 @@ export function TransactionsPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sub-Category</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  {balances && (
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Receipt</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
@@ -355,8 +488,8 @@ export function TransactionsPage() {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {transactions.map((transaction) => (
+                  <React.Fragment key={transaction.id}>
                   <tr 
-                    key={transaction.id} 
                     id={`transaction-${transaction.id}`}
                     className="hover:bg-gray-50 transition-colors"
                   >
@@ -373,7 +506,7 @@ export function TransactionsPage() {
                         <div className="flex items-center">
                           <Calendar className="h-4 w-4 text-gray-400 mr-2" />
                           <span className="text-sm font-medium text-gray-900">
-                            {formatDisplayDate(transaction.date)}
+                            {formatDate(transaction.date)}
                           </span>
                         </div>
                       )}
@@ -409,42 +542,110 @@ export function TransactionsPage() {
                           onChange={(e) => setEditForm(prev => ({ ...prev, category: e.target.value }))}
                           className="border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         >
-                          {CATEGORIES.filter(cat => cat !== 'All').map(cat => (
-                            <option key={cat} value={cat}>{cat}</option>
+                          {categoryOptions(editForm.category || '').map(cat => (
+                            <option key={cat} value={cat}>{categoryLabel(cat)}</option>
                           ))}
                         </select>
                       ) : (
                         <div className="flex items-center">
-                          <Tag className="h-4 w-4 text-gray-400 mr-2" />
-                          <span className="text-sm text-gray-900">{transaction.category}</span>
+                          <Tag
+                            className="h-4 w-4 text-gray-400 mr-2"
+                            style={hasSplits(transaction) ? undefined : { color: colorFor(transaction.category) }}
+                          />
+                          {hasSplits(transaction) ? (
+                            <span
+                              className="text-sm text-gray-900"
+                              title={transaction.transaction_splits!
+                                .map(split => `${split.category}: ${money(split.amount, transaction.currency)}${split.note ? ` (${split.note})` : ''}`)
+                                .join('\n')}
+                            >
+                              {transaction.transaction_splits!.map(split => split.category).join(', ')}
+                              <span className="ml-2 px-1.5 py-0.5 text-xs font-medium bg-purple-100 text-purple-800 rounded">
+                                Split
+                              </span>
+                            </span>
+                          ) : (
+                            <span className="text-sm text-gray-900">{transaction.category}</span>
+                          )}
                         </div>
                       )}
                     </td>
 
-                    {/* Sub-Category (formerly Description) */}
+                    {/* Description and merchant */}
                     <td className="px-6 py-4">
                       {editingId === transaction.id ? (
-                        <input
-                          type="text"
-                          value={editForm.description || ''}
-                          onChange={(e) => setEditForm(prev => ({ ...prev, description: e.target.value }))}
-                          className="w-full border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        />
+                        <>
+                          <input
+                            type="text"
+                            value={editForm.description || ''}
+                            onChange={(e) => setEditForm(prev => ({ ...prev, description: e.target.value }))}
+                            className="w-full border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                          <input
+                            type="text"
+                            value={editForm.merchant || ''}
+                            onChange={(e) => setEditForm(prev => ({ ...prev, merchant: e.target.value || null }))}
+                            placeholder="Merchant"
+                            className="mt-1 w-full border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </>
                       ) : (
-                        <span className="text-sm text-gray-900">{transaction.description}</span>
+                        <div className="flex items-center">
+                          {getItemCount(transaction) > 0 && (
+                            <button
+                              onClick={() => toggleExpanded(transaction.id)}
+                              className="mr-1 text-gray-400 hover:text-gray-600 transition-colors"
+                              title={expandedIds.has(transaction.id) ? 'Hide line items' : 'Show line items'}
+                              aria-label={expandedIds.has(transaction.id) ? 'Hide line items' : 'Show line items'}
+                            >
+                              {expandedIds.has(transaction.id) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </button>
+                          )}
+                          <span className="text-sm text-gray-900">{transaction.description}</span>
+                          {transaction.merchant && transaction.merchant !== transaction.description && (
+                            <span className="ml-2 text-xs text-gray-500">{transaction.merchant}</span>
+                          )}
+                          {filters.account === ALL_ACCOUNTS && accountName(transaction.account_id) && (
+                            <span className="ml-2 px-1.5 py-0.5 text-xs text-gray-600 bg-gray-100 rounded">
+                              {accountName(transaction.account_id)}
+                            </span>
+                          )}
+                          {isTransfer(transaction) && (
+                            <span className="ml-2 px-1.5 py-0.5 text-xs font-medium text-gray-700 bg-gray-200 rounded" title="Not counted as income or spending">
+                              Transfer
+                            </span>
+                          )}
+                          {getItemCount(transaction) > 0 && (
+                            <span className="ml-2 inline-flex items-center text-xs text-gray-500" title="Itemized receipt">
+                              <List className="h-3 w-3 mr-0.5" />
+                              {getItemCount(transaction)}
+                            </span>
+                          )}
+                        </div>
                       )}
                     </td>
 
                     {/* Amount */}
                     <td className="px-6 py-4 whitespace-nowrap">
                       {editingId === transaction.id ? (
-                        <input
-                          type="number"
-                          step="0.01"
-                          value={editForm.amount || ''}
-                          onChange={(e) => setEditForm(prev => ({ ...prev, amount: parseFloat(e.target.value) }))}
-                          className="border border-gray-300 rounded px-2 py-1 text-sm w-24 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        />
+                        <div className="flex items-center">
+                          <input
+                            type="number"
+                            step={amountStep(editForm.currency || transaction.currency)}
+                            value={editForm.amount || ''}
+                            onChange={(e) => setEditForm(prev => ({ ...prev, amount: parseFloat(e.target.value) }))}
+                            className="border border-gray-300 rounded px-2 py-1 text-sm w-24 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                          <select
+                            value={editForm.currency || transaction.currency}
+                            onChange={(e) => setEditForm(prev => ({ ...prev, currency: e.target.value }))}
+                            className="ml-1 border border-gray-300 rounded px-1 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            {currencyOptions(transaction.currency).map(code => (
+                              <option key={code} value={code}>{code}</option>
+                            ))}
+                          </select>
+                        </div>
                       ) : (
                         <div className="flex items-center">
                           {transaction.type === 'credit' ? (
@@ -453,19 +654,30 @@ export function TransactionsPage() {
                             <ArrowDownRight className="h-4 w-4 text-red-600 mr-1" />
                           )}
                           <span className={`text-sm font-semibold ${transaction.type === 'credit' ? 'text-green-600' : 'text-red-600'}`}>
-                            {transaction.type === 'credit' ? '+' : '-'}${transaction.amount.toFixed(2)}
+                            <TransactionAmount amount={transaction.amount} currency={transaction.currency} date={transaction.date} type={transaction.type} />
                           </span>
                         </div>
                       )}
                     </td>
 
+                    {/* Running balance of the filtered account */}
+                    {balances && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">
+                        {balances.has(transaction.id)
+                          ? money(balances.get(transaction.id)!, balanceCurrency)
+                          : '—'}
+                      </td>
+                    )}
+
                     {/* Receipt */}
                     <td className="px-6 py-4 whitespace-nowrap">
                       {transaction.image_path ? (
                         <button
                           onClick={() => handleImagePreview(transaction.image_path!)}
                           className="text-blue-600 hover:text-blue-800 transition-colors"
-                          title="View receipt"
+                          title={transaction.ocr_provider
+                            ? `View receipt (read by ${transaction.ocr_provider}${transaction.ocr_confidence !== null ? `, ${Math.round(transaction.ocr_confidence * 100)}% confidence` : ''})`
+                            : 'View receipt'}
                         >
                           <ImageIcon className="h-4 w-4" />
                         </button>
@@ -505,6 +717,16 @@ export function TransactionsPage() {
                           >
                             <Pencil className="h-4 w-4" />
                           </button>
+                          {isTransfer(transaction) && (
+                            <button
+                              onClick={() => handleUnlinkTransfer(transaction)}
+                              className="text-gray-600 hover:text-gray-800 transition-colors"
+                              title="Unlink transfer"
+                              aria-label="Unlink transfer"
+                            >
+                              <Unlink className="h-4 w-4" />
+                            </button>
+                          )}
                           <button
                             onClick={() => handleDeleteClick(transaction.id)}
                             className="text-red-600 hover:text-red-800 transition-colors"
@@ -534,6 +756,16 @@ export function TransactionsPage() {
                       )}
                     </td>
                   </tr>
+                  {expandedIds.has(transaction.id) && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={balances ? 9 : 8} className="px-6 py-3">
+                        <div className="max-w-2xl ml-auto mr-auto">
+                          <TransactionItemsBreakdown transactionId={transaction.id} transactionAmount={transaction.amount} currency={transaction.currency} />
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
@@ -583,16 +815,16 @@ export function TransactionsPage() {
             <div className="flex justify-between items-center mb-4">
               <h3 className="text-lg font-medium text-white">Receipt Preview</h3>
               <button
-                onClick={() => setImagePreview({ url: '', show: false })}
+                onClick={() => setImagePreview({ url: '', path: '', show: false })}
                 className="text-white hover:text-gray-300 ml-4"
               >
                 <X className="h-6 w-6" />
               </button>
             </div>
             <div className="text-center">
-              <img
-                src={imagePreview.url}
-                alt="Receipt"
+              <ReceiptPreview
+                url={imagePreview.url}
+                imagePath={imagePreview.path}
                 className="max-w-full max-h-[90vh] mx-auto rounded-lg shadow-lg"
               />
             </div>
@@ -605,7 +837,7 @@ export function TransactionsPage() {
         onClose={handleAddDrawerClose}
         onSave={handleTransactionSaved}
         initialDate={getTodayString()}
-        transaction={null}
+        transaction={drawerTransaction ? { ...drawerTransaction, notes: drawerTransaction.notes ?? undefined } : null}
       />
     </div>
   );
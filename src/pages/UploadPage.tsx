@@ -1,328 +1,487 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Upload, Camera, AlertCircle, CheckCircle, FileText, Copy, RefreshCw, X } from 'lucide-react';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useFormat } from '../contexts/FormatContext';
+import { Camera, AlertCircle, CheckCircle, Copy, RefreshCw, RotateCcw, X, AlertTriangle, Eye } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { describeDuplicateReasons } from '../../supabase/functions/_shared/duplicates';
+import { ReceiptReviewForm, ReviewedReceipt } from '../components/ReceiptReviewForm';
+import {
+  UploadJob,
+  UploadJobStatus,
+  UPLOAD_CONCURRENCY,
+  loadUploadJobs,
+  createUploadJob,
+  updateUploadJob,
+  deleteUploadJob,
+  createPageJobs,
+  pageFileName,
+  PageDraft,
+  callProcessImage,
+  processingTimeoutFor,
+  readErrorMessage
+} from '../lib/uploadJobs';
+import { preprocessReceiptImage } from '../utils/imagePreprocess';
+import { recordCategoryCorrections } from '../lib/categoryCorrections';
+
+const STATUS_LABELS: Record<UploadJobStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  processing: { label: 'Processing', className: 'bg-blue-100 text-blue-800' },
+  needs_review: { label: 'Needs review', className: 'bg-yellow-100 text-yellow-800' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' }
+};
+
+function errorMessageFor(error: unknown, fallback: string) {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return 'Processing timed out. Please try again with a clearer image.';
+  }
+  return (error instanceof Error && error.message) || fallback;
+}
 
-interface UploadState {
-  file: File | null;
-  uploading: boolean;
-  processing: boolean;
-  error: string;
-  success: string;
+interface UploadJobResult {
+  changes: Partial<UploadJob>;
+  // Drafts for the remaining pages of a multi-page PDF
+  extraPages: PageDraft[];
 }
 
-// Persistent OCR state that survives navigation
-interface PersistentOcrState {
-  ocrText: string;
-  showOcrText: boolean;
-  isProcessingComplete: boolean;
+function isSupportedFile(file: File): boolean {
+  return file.type.startsWith('image/') || file.type === 'application/pdf';
 }
 
-const OCR_STORAGE_KEY = 'budgetsnap_ocr_text';
+/**
+ * Run OCR on a queued job and work out what it needs next: a review of the
+ * extracted draft, or a decision about an identical receipt that is already saved.
+ */
+async function runUploadJob(job: UploadJob, file?: File): Promise<UploadJobResult> {
+  try {
+    const response = await callProcessImage({
+      imagePath: job.image_path,
+      draft: true,
+      duplicateAction: job.duplicate_action ?? undefined
+    }, await processingTimeoutFor(job, file));
+
+    // The same receipt image is already saved; let the user decide before running OCR
+    if (response.status === 409) {
+      const conflict = await response.json();
+      if (conflict.duplicate) {
+        return {
+          changes: { status: 'needs_review', draft: null, duplicates: conflict.candidates || [], error: null },
+          extraPages: []
+        };
+      }
+    }
+
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response));
+    }
+
+    let result;
+    try {
+      result = await response.json();
+    } catch {
+      throw new Error('Invalid response from processing service');
+    }
+
+    const [first, ...extraPages]: PageDraft[] = result.drafts;
+    return {
+      changes: {
+        status: 'needs_review',
+        file_name: extraPages.length > 0 ? pageFileName(job.file_name, first.draft.page) : job.file_name,
+        draft: first.draft,
+        duplicates: first.duplicates,
+        ocr_text: first.ocr_text,
+        error: null
+      },
+      extraPages
+    };
+  } catch (error) {
+    return {
+      changes: { status: 'failed', error: errorMessageFor(error, 'Processing failed. Please try again.') },
+      extraPages: []
+    };
+  }
+}
+
+async function getSignedImageUrl(imagePath: string): Promise<string | null> {
+  const { data: session } = await supabase.auth.getSession();
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/signed_image_url`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.session?.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ imagePath })
+  });
+
+  const result = await response.json();
+  return result.signedUrl || null;
+}
 
 export function UploadPage() {
   const { user, loading } = useAuth();
+  const { baseCurrency } = useCurrency();
+  const { signedMoney, date: formatDate } = useFormat();
   const navigate = useNavigate();
-  const [state, setState] = useState<UploadState>({
-    file: null,
-    uploading: false,
-    processing: false,
-    error: '',
-    success: '',
-  });
-  
-  const [ocrState, setOcrState] = useState<PersistentOcrState>({
-    ocrText: '',
-    showOcrText: false,
-    isProcessingComplete: false,
-  });
+  const [jobs, setJobs] = useState<UploadJob[]>([]);
+  const [jobsLoading, setJobsLoading] = useState(true);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [dragActive, setDragActive] = useState(false);
+  const [enhancePhotos, setEnhancePhotos] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [reviewJobId, setReviewJobId] = useState<string | null>(null);
+  const [reviewImageUrl, setReviewImageUrl] = useState<string | null>(null);
+  const [savingReview, setSavingReview] = useState(false);
+  const [showOcrText, setShowOcrText] = useState(false);
+  const [refreshingOcr, setRefreshingOcr] = useState(false);
+  const [savedTransactionId, setSavedTransactionId] = useState<string | null>(null);
+  // Bumped whenever a worker slot frees up so the queue gets pumped again
+  const [queueTick, setQueueTick] = useState(0);
+
+  // Files picked in this tab, so previews don't need a round trip to storage
+  const localFiles = useRef(new Map<string, File>());
+  const activeJobIds = useRef(new Set<string>());
+
+  const reviewJob = jobs.find(job => job.id === reviewJobId) || null;
+  const reviewImagePath = reviewJob?.image_path;
+
+  const patchJob = useCallback((jobId: string, changes: Partial<UploadJob>) => {
+    setJobs(prev => prev.map(job => (job.id === jobId ? { ...job, ...changes } : job)));
+  }, []);
 
-  const [countdown, setCountdown] = useState<number | null>(null);
+  const saveJob = useCallback(async (jobId: string, changes: Partial<UploadJob>) => {
+    patchJob(jobId, changes);
+    try {
+      await updateUploadJob(jobId, changes);
+    } catch (err) {
+      console.error('Error updating upload job:', err);
+    }
+  }, [patchJob]);
 
-  // Load OCR text from localStorage on component mount
   useEffect(() => {
-    const savedOcrState = localStorage.getItem(OCR_STORAGE_KEY);
-    if (savedOcrState) {
+    if (!user) return;
+
+    setJobsLoading(true);
+    loadUploadJobs(user.id)
+      .then(setJobs)
+      .catch(err => {
+        console.error('Error loading upload queue:', err);
+        setError('Failed to load your upload queue.');
+      })
+      .finally(() => setJobsLoading(false));
+  }, [user]);
+
+  const processJob = useCallback(async (job: UploadJob, userId: string) => {
+    activeJobIds.current.add(job.id);
+    await saveJob(job.id, { status: 'processing', error: null });
+    const { changes, extraPages } = await runUploadJob(job, localFiles.current.get(job.id));
+    await saveJob(job.id, changes);
+
+    if (extraPages.length > 0) {
       try {
-        const parsed = JSON.parse(savedOcrState);
-        setOcrState(parsed);
-      } catch (error) {
-        console.error('Failed to parse saved OCR state:', error);
-        localStorage.removeItem(OCR_STORAGE_KEY);
+        const pageJobs = await createPageJobs(userId, job, extraPages);
+        setJobs(prev => [...prev, ...pageJobs]);
+      } catch (err) {
+        console.error('Error queueing PDF pages:', err);
+        setError(`Only the first page of ${job.file_name} could be queued for review.`);
       }
     }
-  }, []);
 
-  // Save OCR text to localStorage whenever it changes
+    activeJobIds.current.delete(job.id);
+    setQueueTick(tick => tick + 1);
+  }, [saveJob]);
+
+  // Keep up to UPLOAD_CONCURRENCY jobs in flight
+  useEffect(() => {
+    const freeSlots = UPLOAD_CONCURRENCY - activeJobIds.current.size;
+    if (!user || freeSlots <= 0) return;
+
+    jobs
+      .filter(job => job.status === 'queued' && !activeJobIds.current.has(job.id))
+      .slice(0, freeSlots)
+      .forEach(job => {
+        processJob(job, user.id);
+      });
+  }, [jobs, queueTick, processJob, user]);
+
   useEffect(() => {
-    if (ocrState.ocrText || ocrState.showOcrText) {
-      localStorage.setItem(OCR_STORAGE_KEY, JSON.stringify(ocrState));
+    if (!reviewJobId || !reviewImagePath) {
+      setReviewImageUrl(null);
+      return;
     }
-  }, [ocrState]);
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const file = localFiles.current.get(reviewJobId);
     if (file) {
-      if (file.type.startsWith('image/')) {
-        setState(prev => ({ 
-          ...prev, 
-          file, 
-          error: '', 
-          success: ''
-        }));
-        // Clear OCR text and localStorage when new file is selected
-        setOcrState({
-          ocrText: '',
-          showOcrText: false,
-          isProcessingComplete: false,
-        });
-        localStorage.removeItem(OCR_STORAGE_KEY);
-      } else {
-        setState(prev => ({ ...prev, error: 'Please select an image file.' }));
-      }
+      const url = URL.createObjectURL(file);
+      setReviewImageUrl(url);
+      return () => URL.revokeObjectURL(url);
     }
-  };
 
-  const handleUpload = async () => {
-    if (!state.file || !user || loading) return;
+    let cancelled = false;
+    setReviewImageUrl(null);
+    getSignedImageUrl(reviewImagePath)
+      .then(url => {
+        if (!cancelled) setReviewImageUrl(url);
+      })
+      .catch(err => console.error('Error getting image preview:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [reviewJobId, reviewImagePath]);
+
+  const enqueueFiles = async (files: File[]) => {
+    if (!user || loading) return;
+
+    setError('');
+    setSuccess('');
+    setSavedTransactionId(null);
+
+    const supported = files.filter(isSupportedFile);
+    if (supported.length < files.length) {
+      setError(`${files.length - supported.length} file(s) skipped. Please select images or PDFs only.`);
+    }
+    if (supported.length === 0) return;
 
-    setState(prev => ({ ...prev, uploading: true, error: '', success: '' }));
+    // Check if we're using mock client
+    if (!import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_SUPABASE_URL === 'your-supabase-url-here') {
+      setError('Please configure Supabase environment variables to upload receipts. For now, you can use the "Add Demo Transactions" button to test the app.');
+      return;
+    }
 
-    try {
-      // Ensure we have a fresh session before uploading
-      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-      if (sessionError || !session) {
-        throw new Error('Authentication required. Please sign in again.');
+    setUploadingCount(count => count + supported.length);
+    for (const file of supported) {
+      try {
+        const prepared = enhancePhotos ? await preprocessReceiptImage(file) : file;
+        const job = await createUploadJob(user.id, prepared);
+        localFiles.current.set(job.id, prepared);
+        setJobs(prev => [...prev, job]);
+      } catch (err) {
+        console.error('Error uploading receipt:', err);
+        setError(`Failed to upload ${file.name}: ${errorMessageFor(err, 'Upload failed. Please try again.')}`);
+      } finally {
+        setUploadingCount(count => count - 1);
       }
+    }
+  };
 
-      // Check if we're using mock client
-      if (!import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_SUPABASE_URL === 'your-supabase-url-here') {
-        throw new Error('Please configure Supabase environment variables to upload receipts. For now, you can use the "Add Demo Transactions" button to test the app.');
-      }
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    // Allow picking the same files again later
+    event.target.value = '';
+    enqueueFiles(files);
+  };
 
-      // Generate unique filename
-      const timestamp = Date.now();
-      const filename = `${timestamp}_${state.file.name}`;
-      const filePath = `${session.user.id}/${filename}`;
+  const handleDragOver = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragActive(true);
+  };
 
-      // Upload file to Supabase Storage
-      const { error: uploadError } = await supabase.storage
-        .from('receipts')
-        .upload(filePath, state.file);
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragActive(false);
+    enqueueFiles(Array.from(event.dataTransfer.files));
+  };
 
-      if (uploadError) {
-        if (uploadError.message.includes('Bucket not found')) {
-          throw new Error('Storage bucket "receipts" not found. Please create the bucket in your Supabase dashboard under Storage.');
-        }
-        throw uploadError;
-      }
+  const openNextReview = (afterJobId: string) => {
+    const next = jobs.find(job => job.id !== afterJobId && job.status === 'needs_review');
+    setReviewJobId(next ? next.id : null);
+    setShowOcrText(false);
+  };
+
+  const handleSaved = (job: UploadJob, transactionId: string, message: string) => {
+    saveJob(job.id, { status: 'done', transaction_id: transactionId, error: null });
+    localFiles.current.delete(job.id);
+    setSuccess(message);
+    setSavedTransactionId(transactionId);
+    openNextReview(job.id);
+  };
+
+  const handleConfirmDraft = async (values: ReviewedReceipt, duplicateAction?: 'keep_both' | 'merge', mergeIntoId?: string) => {
+    if (!reviewJob?.draft) return;
+    const job = reviewJob;
+    const draft = reviewJob.draft;
 
-      setState(prev => ({ ...prev, uploading: false, processing: true }));
+    setSavingReview(true);
+    setError('');
+    setSuccess('');
 
-      // Process the image using Edge Function
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process_image`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
-          'Content-Type': 'application/json',
+    try {
+      const response = await callProcessImage({
+        imagePath: job.image_path,
+        confirmed: {
+          ...values,
+          ocr_provider: draft.ocr_provider,
+          ocr_confidence: draft.ocr_confidence
         },
-        body: JSON.stringify({ imagePath: filePath }),
-        signal: AbortSignal.timeout(30000) // 30 second timeout
+        duplicateAction: duplicateAction ?? job.duplicate_action ?? undefined,
+        mergeIntoId
       });
 
-      if (!response.ok) {
-        let errorMessage = 'Processing failed';
-        try {
-          // Clone the response to avoid "body stream already read" error
-          const responseClone = response.clone();
-          const errorData = await responseClone.json();
-          errorMessage = errorData.error || errorMessage;
-        } catch (jsonError) {
-          // If response is not JSON, use the response text
-          try {
-            const errorText = await response.text();
-            errorMessage = errorText || `HTTP ${response.status}: ${response.statusText}`;
-          } catch (textError) {
-            errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-          }
+      // Edits can make the draft match something that wasn't flagged before
+      if (response.status === 409) {
+        const conflict = await response.json();
+        if (conflict.duplicate) {
+          saveJob(job.id, { duplicates: conflict.candidates || [] });
+          setError('These details match an existing transaction. Merge into it or save as new.');
+          return;
         }
-        throw new Error(errorMessage);
       }
 
-      let result;
-      try {
-        result = await response.json();
-      } catch (jsonError) {
-        throw new Error('Invalid response from processing service');
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
       }
-      
-      setState(prev => ({ 
-        ...prev, 
-        processing: false,
-        success: 'Receipt processed successfully!',
-      }));
-      
-      // Set OCR text in persistent state
-      setOcrState({
-        ocrText: result.debug?.ocrText || result.text || '',
-        showOcrText: true,
-        isProcessingComplete: true,
-      });
 
-      // Clear the file after successful processing but keep OCR text
-      setState(prev => ({ ...prev, file: null }));
-
-      // Start countdown and navigate after 5 seconds
-      setCountdown(5);
-      const countdownInterval = setInterval(() => {
-        setCountdown(prev => {
-          if (prev === null || prev <= 1) {
-            clearInterval(countdownInterval);
-            navigate(`/transactions?highlight=${result.transaction.id}`);
-            return null;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-
-      // Cleanup function in case component unmounts
-      setTimeout(() => {
-        clearInterval(countdownInterval);
-      }, 5000);
-
-    } catch (error: any) {
-       // Handle timeout specifically
-       if (error.name === 'TimeoutError') {
-         error.message = 'Processing timed out. Please try again with a clearer image.';
-       }
-       
-      setState(prev => ({
-        ...prev,
-        uploading: false,
-        processing: false,
-        error: error.message || 'Upload failed. Please try again.'
-      }));
+      const result = await response.json();
+      if (!result.merged && user) {
+        await recordCategoryCorrections(user.id, [{
+          transactionId: result.transaction.id,
+          description: values.merchant || values.description,
+          from: draft.category,
+          to: values.category
+        }]);
+      }
+      handleSaved(
+        job,
+        result.transaction.id,
+        result.merged ? `${job.file_name} attached to the existing transaction!` : `${job.file_name} saved!`
+      );
+    } catch (err) {
+      setError(errorMessageFor(err, 'Failed to save transaction. Please try again.'));
+    } finally {
+      setSavingReview(false);
     }
   };
 
-  const handleCopyOcrText = async () => {
-    if (ocrState.ocrText) {
-      try {
-        await navigator.clipboard.writeText(ocrState.ocrText);
-        setState(prev => ({ ...prev, success: 'OCR text copied to clipboard!' }));
-        setTimeout(() => setState(prev => ({ ...prev, success: '' })), 2000);
-      } catch (error) {
-        setState(prev => ({ ...prev, error: 'Failed to copy text to clipboard' }));
+  // Same receipt image already saved: attach this upload to it without a review
+  const handleMerge = async (job: UploadJob, transactionId: string) => {
+    setSavingReview(true);
+    setError('');
+
+    try {
+      const response = await callProcessImage({
+        imagePath: job.image_path,
+        duplicateAction: 'merge',
+        mergeIntoId: transactionId
+      });
+
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response));
       }
+
+      const result = await response.json();
+      handleSaved(job, result.transaction.id, `${job.file_name} attached to the existing transaction!`);
+    } catch (err) {
+      setError(errorMessageFor(err, 'Failed to merge receipt. Please try again.'));
+    } finally {
+      setSavingReview(false);
     }
   };
 
-  const handleRefreshOcr = async () => {
-    if (!user) return;
+  const handleKeepBoth = (job: UploadJob) => {
+    saveJob(job.id, { status: 'queued', duplicate_action: 'keep_both', duplicates: null });
+    openNextReview(job.id);
+  };
 
-    // If no file is currently selected, we can't refresh OCR
-    if (!state.file) {
-      setState(prev => ({ ...prev, error: 'Please select a new image file to refresh OCR.' }));
-      return;
-    }
+  const handleRetry = (job: UploadJob) => {
+    saveJob(job.id, { status: 'queued', error: null });
+  };
 
-    setState(prev => ({ ...prev, processing: true, error: '', success: '' }));
+  const handleRemove = async (job: UploadJob) => {
     try {
-      // Ensure we have a fresh session
-      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-      if (sessionError || !session) {
-        throw new Error('Authentication required. Please sign in again.');
-      }
+      await deleteUploadJob(job);
+      localFiles.current.delete(job.id);
+      setJobs(prev => prev.filter(j => j.id !== job.id));
+      if (reviewJobId === job.id) openNextReview(job.id);
+    } catch (err) {
+      console.error('Error removing upload:', err);
+      setError('Failed to remove upload. Please try again.');
+    }
+  };
+
+  const handleDiscard = async (job: UploadJob) => {
+    await handleRemove(job);
+    setSuccess(`${job.file_name} discarded. No transaction was added.`);
+    setSavedTransactionId(null);
+  };
 
-      // Check if we're using mock client
-      if (!import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_SUPABASE_URL === 'your-supabase-url-here') {
-        throw new Error('Please configure Supabase environment variables to refresh OCR.');
+  const handleClearFinished = async () => {
+    for (const job of jobs.filter(j => j.status === 'done')) {
+      await handleRemove(job);
+    }
+  };
+
+  const handleCopyOcrText = async () => {
+    if (reviewJob?.ocr_text) {
+      try {
+        await navigator.clipboard.writeText(reviewJob.ocr_text);
+        setSuccess('OCR text copied to clipboard!');
+        setTimeout(() => setSuccess(''), 2000);
+      } catch {
+        setError('Failed to copy text to clipboard');
       }
+    }
+  };
 
-      // Generate unique filename for re-upload
-      const timestamp = Date.now();
-      const filename = `${timestamp}_${state.file.name}`;
-      const filePath = `${session.user.id}/${filename}`;
-
-      // Upload file again
-      const { error: uploadError } = await supabase.storage
-        .from('receipts')
-        .upload(filePath, state.file);
-
-      if (uploadError) throw uploadError;
-
-      // Process with OCR only (don't save transaction)
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process_image`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ imagePath: filePath, ocrOnly: true }),
-        signal: AbortSignal.timeout(30000)
-      });
+  // Read the stored file again and show the new text; the draft keeps what was reviewed so far
+  const handleRefreshOcr = async (job: UploadJob) => {
+    setRefreshingOcr(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await callProcessImage(
+        { imagePath: job.image_path, ocrOnly: true, page: job.draft?.page ?? undefined },
+        await processingTimeoutFor(job, localFiles.current.get(job.id))
+      );
 
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+        throw new Error(await readErrorMessage(response));
       }
 
       const result = await response.json();
-      
-      setState(prev => ({ 
-        ...prev, 
-        processing: false,
-        success: 'OCR refreshed successfully!',
-      }));
-      
-      // Update OCR text in persistent state
-      setOcrState({
-        ocrText: result.debug?.ocrText || result.text || '',
-        showOcrText: true,
-        isProcessingComplete: false,
-      });
-    } catch (error: any) {
-      setState(prev => ({ 
-        ...prev, 
-        processing: false, 
-        error: error.message || 'Failed to refresh OCR. Please try again.'
-      }));
+      saveJob(job.id, { ocr_text: result.text || '' });
+      setShowOcrText(true);
+      setSuccess('OCR refreshed successfully!');
+    } catch (err) {
+      setError(errorMessageFor(err, 'Failed to refresh OCR. Please try again.'));
+    } finally {
+      setRefreshingOcr(false);
     }
   };
 
-  const handleClearOcrResults = () => {
-    setOcrState({
-      ocrText: '',
-      showOcrText: false,
-      isProcessingComplete: false,
-    });
-    localStorage.removeItem(OCR_STORAGE_KEY);
-    setState(prev => ({ ...prev, success: '' }));
-  };
-  
+  const counts = jobs.reduce<Record<UploadJobStatus, number>>(
+    (acc, job) => ({ ...acc, [job.status]: acc[job.status] + 1 }),
+    { queued: 0, processing: 0, needs_review: 0, done: 0, failed: 0 }
+  );
+  const settled = counts.needs_review + counts.done + counts.failed;
+  const progress = jobs.length > 0 ? Math.round((settled / jobs.length) * 100) : 0;
+
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
       <div className="mb-8">
-        <h1 className="text-3xl font-bold text-gray-900">Upload Receipt</h1>
-        <p className="mt-2 text-gray-600">Take a photo or upload an image of your receipt to automatically extract transaction details</p>
+        <h1 className="text-3xl font-bold text-gray-900">Upload Receipts</h1>
+        <p className="mt-2 text-gray-600">Take photos or upload images and PDFs of your receipts and bills to automatically extract transaction details</p>
       </div>
 
       <div className="bg-white shadow-lg rounded-lg overflow-hidden">
         <div className="p-8">
           {/* File Upload Area */}
           <div className="mb-8">
-            <label className="flex flex-col items-center justify-center w-full h-64 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 transition-colors">
+            <label
+              onDragOver={handleDragOver}
+              onDragLeave={() => setDragActive(false)}
+              onDrop={handleDrop}
+              className={`flex flex-col items-center justify-center w-full h-48 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+                dragActive ? 'border-blue-400 bg-blue-50' : 'border-gray-300 bg-gray-50 hover:bg-gray-100'
+              }`}
+            >
               <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                {state.file ? (
+                {uploadingCount > 0 ? (
                   <>
-                    <FileText className="w-10 h-10 mb-3 text-gray-400" />
-                    <p className="mb-2 text-sm text-gray-500">
-                      <span className="font-semibold">Selected:</span> {state.file.name}
-                    </p>
-                    <p className="text-xs text-gray-500">Click to choose a different file</p>
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mb-3"></div>
+                    <p className="text-sm text-gray-500">Preparing and uploading {uploadingCount} file(s)...</p>
                   </>
                 ) : (
                   <>
@@ -330,126 +489,272 @@ export function UploadPage() {
                     <p className="mb-2 text-sm text-gray-500">
                       <span className="font-semibold">Click to upload</span> or drag and drop
                     </p>
-                    <p className="text-xs text-gray-500">PNG, JPG, JPEG up to 10MB</p>
+                    <p className="text-xs text-gray-500">Select as many receipts as you like · PNG, JPG, JPEG or PDF up to 10MB</p>
                   </>
                 )}
               </div>
               <input
                 type="file"
                 className="hidden"
-                accept="image/*"
+                accept="image/*,application/pdf"
+                multiple
                 onChange={handleFileSelect}
-                disabled={state.uploading || state.processing}
+                disabled={loading || !user}
+              />
+            </label>
+            <label className="inline-flex items-center mt-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={enhancePhotos}
+                onChange={(e) => setEnhancePhotos(e.target.checked)}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
               />
+              Enhance photos before upload (straighten, crop to the receipt, boost contrast)
             </label>
           </div>
 
           {/* Error Message */}
-          {state.error && (
+          {error && (
             <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center">
               <AlertCircle className="h-5 w-5 mr-2" />
-              {state.error}
+              {error}
             </div>
           )}
 
           {/* Success Message */}
-          {state.success && (
+          {success && (
             <div className="mb-6 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-center">
               <CheckCircle className="h-5 w-5 mr-2" />
               <div className="flex-1">
-                {state.success}
-                {countdown !== null && (
-                  <div className="mt-2 text-sm">
-                    Redirecting to transactions in <span className="font-semibold text-green-800">{countdown}</span> second{countdown !== 1 ? 's' : ''}...
-                    <div className="mt-1 w-full bg-green-200 rounded-full h-2">
-                      <div 
-                        className="bg-green-600 h-2 rounded-full transition-all duration-1000 ease-linear"
-                        style={{ width: `${((5 - countdown) / 5) * 100}%` }}
-                      ></div>
-                    </div>
-                  </div>
-                )}
+                {success}
               </div>
+              {savedTransactionId && (
+                <button
+                  onClick={() => navigate(`/transactions?highlight=${savedTransactionId}`)}
+                  className="ml-4 px-3 py-1 text-sm font-medium text-green-800 bg-white border border-green-300 rounded hover:bg-green-100 transition-colors"
+                >
+                  View Transaction
+                </button>
+              )}
             </div>
           )}
 
-          {/* OCR Text Display */}
-          {ocrState.ocrText && ocrState.showOcrText && (
-            <div className="mb-6 bg-gray-50 border border-gray-200 p-4 rounded-lg">
-              <div className="flex items-center justify-between mb-3">
-                <h4 className="text-sm font-medium text-gray-900">
-                  Extracted Text {ocrState.isProcessingComplete ? '(Processing Complete)' : ''}
-                </h4>
-                <div className="flex space-x-2">
-                  <button
-                    onClick={handleCopyOcrText}
-                    className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-600 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
-                    aria-label="Copy OCR text"
-                  >
-                    <Copy className="h-3 w-3 mr-1" />
-                    Copy
-                  </button>
-                  <button
-                    onClick={handleRefreshOcr}
-                    disabled={state.processing}
-                    className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-600 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                    aria-label="Refresh OCR"
-                  >
-                    <RefreshCw className={`h-3 w-3 mr-1 ${state.processing ? 'animate-spin' : ''}`} />
-                    Refresh
-                  </button>
-                </div>
+          {/* Review Panel */}
+          {reviewJob && reviewJob.status === 'needs_review' && (
+            <div className="mb-6 border border-blue-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-4">
+                <p className="text-sm font-medium text-gray-700 truncate">{reviewJob.file_name}</p>
+                <button
+                  onClick={() => setReviewJobId(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                  aria-label="Close review"
+                >
+                  <X className="h-5 w-5" />
+                </button>
               </div>
-              {ocrState.ocrText ? (
-                <pre className="text-xs text-gray-600 whitespace-pre-wrap bg-white p-3 rounded border overflow-auto max-h-80 font-mono">
-                  {ocrState.ocrText}
-                </pre>
+
+              {reviewJob.draft ? (
+                <ReceiptReviewForm
+                  key={reviewJob.id}
+                  draft={reviewJob.draft}
+                  imageUrl={reviewImageUrl}
+                  duplicates={reviewJob.duplicates || []}
+                  saving={savingReview}
+                  onConfirm={handleConfirmDraft}
+                  onDiscard={() => handleDiscard(reviewJob)}
+                />
               ) : (
-                <p className="text-sm text-gray-500 bg-white p-3 rounded border">
-                  No text detected in this image.
-                </p>
+                <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-lg">
+                  <div className="flex items-start mb-3">
+                    <AlertTriangle className="h-5 w-5 text-yellow-600 mr-2 mt-0.5" />
+                    <div>
+                      <h4 className="text-sm font-semibold text-yellow-900">This receipt may already be recorded</h4>
+                      <p className="text-sm text-yellow-800">
+                        Merge it into an existing transaction, keep both, or discard this upload.
+                      </p>
+                    </div>
+                  </div>
+                  <div className="space-y-2 mb-3">
+                    {(reviewJob.duplicates || []).map(({ transaction, reasons }) => (
+                      <div key={transaction.id} className="flex items-center justify-between bg-white p-3 rounded border border-yellow-200">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {transaction.description} · {signedMoney(transaction.amount, transaction.type === 'credit' ? 'income' : 'expense', transaction.currency || baseCurrency)}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDate(transaction.date)} · {describeDuplicateReasons(reasons)}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleMerge(reviewJob, transaction.id)}
+                          disabled={savingReview}
+                          className="px-3 py-1 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 disabled:opacity-50 transition-colors"
+                        >
+                          Merge
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleKeepBoth(reviewJob)}
+                      disabled={savingReview}
+                      className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                    >
+                      Keep Both
+                    </button>
+                    <button
+                      onClick={() => handleDiscard(reviewJob)}
+                      disabled={savingReview}
+                      className="flex-1 px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                    >
+                      Discard Upload
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* OCR Text Display */}
+              {reviewJob.draft && (
+                <div className="mt-4 bg-gray-50 border border-gray-200 p-4 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <button
+                      onClick={() => setShowOcrText(prev => !prev)}
+                      className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                    >
+                      {showOcrText ? 'Hide Extracted Text' : 'Show Extracted Text'}
+                    </button>
+                    {showOcrText && (
+                      <div className="flex space-x-2">
+                        {reviewJob.ocr_text && (
+                          <button
+                            onClick={handleCopyOcrText}
+                            className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-600 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                            aria-label="Copy OCR text"
+                          >
+                            <Copy className="h-3 w-3 mr-1" />
+                            Copy
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleRefreshOcr(reviewJob)}
+                          disabled={refreshingOcr}
+                          className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-600 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                          aria-label="Refresh OCR"
+                        >
+                          <RefreshCw className={`h-3 w-3 mr-1 ${refreshingOcr ? 'animate-spin' : ''}`} />
+                          Refresh
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {showOcrText && (
+                    reviewJob.ocr_text ? (
+                      <pre className="mt-3 text-xs text-gray-600 whitespace-pre-wrap bg-white p-3 rounded border overflow-auto max-h-80 font-mono">
+                        {reviewJob.ocr_text}
+                      </pre>
+                    ) : (
+                      <p className="mt-3 text-sm text-gray-500 bg-white p-3 rounded border">
+                        No text detected in this image.
+                      </p>
+                    )
+                  )}
+                </div>
               )}
             </div>
           )}
 
-          {/* Upload Button */}
-          <div className="flex flex-col space-y-4">
-            <button
-              onClick={handleUpload}
-              disabled={!state.file || state.uploading || state.processing || loading || !user}
-              className="w-full flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              {state.uploading && (
-                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-              )}
-              {state.processing && (
-                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-              )}
-              <Upload className="h-5 w-5 mr-2" />
-              {state.uploading ? 'Uploading...' : state.processing ? 'Processing OCR...' : 'Upload & Process Receipt'}
-            </button>
-
-            {/* Clear OCR Text Button - show when OCR text is visible */}
-            {ocrState.ocrText && ocrState.showOcrText && (
-              <button
-                onClick={handleClearOcrResults}
-                disabled={countdown !== null}
-                className="w-full flex items-center justify-center px-6 py-3 border border-gray-300 text-base font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
-              >
-                <X className="h-5 w-5 mr-2" />
-                Clear Results & Upload New Receipt
-              </button>
-            )}
-          </div>
+          {/* Upload Queue */}
+          {jobsLoading && user ? (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : jobs.length > 0 && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-900">
+                  Upload Queue · {settled} of {jobs.length} processed
+                </h3>
+                {counts.done > 0 && (
+                  <button
+                    onClick={handleClearFinished}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Clear finished
+                  </button>
+                )}
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2 mb-4">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all"
+                  style={{ width: `${progress}%` }}
+                ></div>
+              </div>
 
-          {/* Processing Status */}
-          {(state.uploading || state.processing) && (
-            <div className="mt-6 text-center">
-              <p className="text-sm text-gray-600">
-                {state.uploading && 'Uploading your receipt...'}
-                {state.processing && 'Processing with OCR and extracting transaction details...'}
-              </p>
-              <p className="text-xs text-gray-500 mt-1">This may take 5-10 seconds</p>
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {jobs.map(job => (
+                  <li
+                    key={job.id}
+                    className={`flex items-center justify-between px-4 py-3 ${job.id === reviewJobId ? 'bg-blue-50' : ''}`}
+                  >
+                    <div className="min-w-0 flex-1 mr-4">
+                      <p className="text-sm font-medium text-gray-900 truncate">{job.file_name}</p>
+                      {job.status === 'failed' && job.error && (
+                        <p className="text-xs text-red-600 truncate">{job.error}</p>
+                      )}
+                      {job.status === 'needs_review' && !job.draft && (
+                        <p className="text-xs text-yellow-700">Possible duplicate receipt</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {job.status === 'processing' && (
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                      )}
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_LABELS[job.status].className}`}>
+                        {STATUS_LABELS[job.status].label}
+                      </span>
+                      {job.status === 'needs_review' && (
+                        <button
+                          onClick={() => {
+                            setReviewJobId(job.id);
+                            setShowOcrText(false);
+                          }}
+                          className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 transition-colors"
+                        >
+                          <Eye className="h-3 w-3 mr-1" />
+                          Review
+                        </button>
+                      )}
+                      {job.status === 'done' && job.transaction_id && (
+                        <button
+                          onClick={() => navigate(`/transactions?highlight=${job.transaction_id}`)}
+                          className="px-2 py-1 text-xs font-medium text-green-800 bg-white border border-green-300 rounded hover:bg-green-100 transition-colors"
+                        >
+                          View
+                        </button>
+                      )}
+                      {job.status === 'failed' && (
+                        <button
+                          onClick={() => handleRetry(job)}
+                          className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Retry
+                        </button>
+                      )}
+                      {job.status !== 'processing' && (
+                        <button
+                          onClick={() => handleRemove(job)}
+                          className="text-gray-400 hover:text-red-600"
+                          aria-label={`Remove ${job.file_name}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
             </div>
           )}
 
@@ -457,14 +762,16 @@ export function UploadPage() {
           <div className="mt-8 bg-blue-50 border border-blue-200 rounded-lg p-4">
             <h4 className="text-sm font-medium text-blue-900 mb-2">Tips for best results:</h4>
             <ul className="text-sm text-blue-800 space-y-1">
-              <li>• Ensure the receipt is well-lit and in focus</li>
+              <li>• Photos are rotated upright, cropped, straightened and contrast-boosted automatically; turn this off if a crop cuts off part of a receipt</li>
+              <li>• Lay the receipt flat on a darker surface so its edges are easy to find</li>
               <li>• Include the full receipt with date, merchant, and total amount</li>
               <li>• Avoid shadows or glare on the receipt</li>
-              <li>• Supported formats: JPG, PNG, JPEG</li>
+              <li>• You can leave the page while receipts process; the queue picks up where it left off</li>
+              <li>• Supported formats: JPG, PNG, JPEG, PDF (each page of a multi-page PDF is reviewed separately)</li>
             </ul>
           </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
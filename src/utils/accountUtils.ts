@@ -0,0 +1,80 @@
+import { CurrencyConverter } from '../../supabase/functions/_shared/currency';
+
+export type AccountType = 'chequing' | 'credit_card' | 'cash' | 'savings';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  currency: string;
+  // Balance before the account's first recorded transaction
+  opening_balance: number;
+}
+
+export const ACCOUNT_TYPES: Array<{ value: AccountType; label: string }> = [
+  { value: 'chequing', label: 'Chequing' },
+  { value: 'credit_card', label: 'Credit card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'savings', label: 'Savings' },
+];
+
+// Account filter values besides an account id
+export const ALL_ACCOUNTS = 'All';
+export const NO_ACCOUNT = 'none';
+
+export interface AccountTransaction {
+  id: string;
+  account_id: string | null;
+  date: string;
+  created_at?: string | null;
+  amount: number;
+  currency?: string | null;
+  type: 'debit' | 'credit';
+}
+
+export function accountTypeLabel(type: AccountType): string {
+  return ACCOUNT_TYPES.find(candidate => candidate.value === type)?.label ?? type;
+}
+
+/**
+ * The account's balance after each of its transactions, by transaction id,
+ * in the account's own currency (`convert` converts into it). Transactions are
+ * applied in date order, and in the order they were entered within a day.
+ * Credits raise the balance and debits lower it, so a credit card with money
+ * owed on it has a negative balance.
+ */
+export function runningBalances(
+  account: Account,
+  transactions: AccountTransaction[],
+  convert: CurrencyConverter
+): Map<string, number> {
+  const ordered = transactions
+    .filter(transaction => transaction.account_id === account.id)
+    .sort((a, b) =>
+      a.date.localeCompare(b.date) ||
+      (a.created_at ?? '').localeCompare(b.created_at ?? '') ||
+      a.id.localeCompare(b.id)
+    );
+
+  const balances = new Map<string, number>();
+  let balance = Number(account.opening_balance);
+  for (const transaction of ordered) {
+    const amount = Number(transaction.amount);
+    // Without a rate the amount is counted as it is, as everywhere else
+    const converted = convert(amount, transaction.currency, transaction.date) ?? amount;
+    balance += transaction.type === 'credit' ? converted : -converted;
+    balances.set(transaction.id, Math.round(balance * 100) / 100);
+  }
+  return balances;
+}
+
+// The account's balance after all of its transactions
+export function accountBalance(account: Account, transactions: AccountTransaction[], convert: CurrencyConverter): number {
+  const balances = [...runningBalances(account, transactions, convert).values()];
+  return balances.length > 0 ? balances[balances.length - 1] : Number(account.opening_balance);
+}
+
+// The account's balance at the end of `date`
+export function balanceOn(account: Account, transactions: AccountTransaction[], convert: CurrencyConverter, date: string): number {
+  return accountBalance(account, transactions.filter(transaction => transaction.date <= date), convert);
+}
@@ -0,0 +1,91 @@
+import { Category, descendantNames } from '../../supabase/functions/_shared/categories';
+import { getAllocations, TransactionSplit } from './splitUtils';
+
+export interface Budget {
+  id: string;
+  category: string;
+  amount: number;
+  rollover: boolean;
+  // First day of the first month the budget applies to, YYYY-MM-01
+  start_month: string;
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  // Unspent budget carried in from earlier months (0 without rollover)
+  carriedOver: number;
+  // This month's amount plus what was carried over
+  available: number;
+  spent: number;
+  remaining: number;
+}
+
+export interface BudgetTransaction {
+  date: string;
+  amount: number;
+  type: 'debit' | 'credit';
+  category: string;
+  transaction_splits?: TransactionSplit[] | null;
+}
+
+// "YYYY-MM" of a date string or of a budget's start month
+export function monthKey(date: string): string {
+  return date.slice(0, 7);
+}
+
+export function nextMonthKey(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return monthNumber === 12
+    ? `${year + 1}-01`
+    : `${year}-${String(monthNumber + 1).padStart(2, '0')}`;
+}
+
+function spendingByMonth(
+  categories: Category[],
+  category: string,
+  transactions: BudgetTransaction[]
+): Record<string, number> {
+  const counted = new Set(descendantNames(categories, category));
+  const totals: Record<string, number> = {};
+  for (const transaction of transactions) {
+    if (transaction.type !== 'debit') continue;
+    for (const allocation of getAllocations(transaction)) {
+      if (!counted.has(allocation.category)) continue;
+      const month = monthKey(transaction.date);
+      totals[month] = (totals[month] || 0) + allocation.amount;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Budget vs actual for `month` ("YYYY-MM"). Spending in sub-categories counts
+ * towards the parent's budget, and split transactions count per allocation.
+ * With rollover, whatever was left unspent in each month since the budget
+ * started is added to the next; overspending is not carried.
+ */
+export function computeBudgetStatus(
+  budgets: Budget[],
+  categories: Category[],
+  transactions: BudgetTransaction[],
+  month: string
+): BudgetStatus[] {
+  return budgets
+    .filter(budget => monthKey(budget.start_month) <= month)
+    .map(budget => {
+      const amount = Number(budget.amount);
+      const spending = spendingByMonth(categories, budget.category, transactions);
+
+      let carriedOver = 0;
+      if (budget.rollover) {
+        for (let current = monthKey(budget.start_month); current < month; current = nextMonthKey(current)) {
+          carriedOver = Math.max(0, carriedOver + amount - (spending[current] || 0));
+        }
+      }
+
+      const available = amount + carriedOver;
+      const spent = spending[month] || 0;
+      return { budget, carriedOver, available, spent, remaining: available - spent };
+    })
+    .sort((a, b) => a.budget.category.localeCompare(b.budget.category));
+}
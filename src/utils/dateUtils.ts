@@ -1,11 +1,18 @@
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, formatCurrency } from '../../supabase/functions/_shared/currency';
+import { DateFormat, DEFAULT_FORMAT_PREFERENCES, formatDate, formatMonth } from '../../supabase/functions/_shared/format';
+
 export function isSameDayStr(a: string, b: string): boolean {
   return a === b;
 }
 
-export function formatMoney(amount: number, type: 'income' | 'expense'): string {
-  const abs = Math.abs(amount);
-  const formatted = abs.toFixed(2);
-  return type === 'expense' ? `-$${formatted}` : `+$${formatted}`;
+export function formatMoney(
+  amount: number,
+  type: 'income' | 'expense',
+  currency: string = DEFAULT_CURRENCY,
+  locale: string = DEFAULT_LOCALE
+): string {
+  const formatted = formatCurrency(Math.abs(amount), currency, locale);
+  return type === 'expense' ? `-${formatted}` : `+${formatted}`;
 }
 
 export function getLocalDateString(date: Date): string {
@@ -20,13 +27,12 @@ export function parseLocalDate(dateStr: string): Date {
   return new Date(year, month - 1, day);
 }
 
-export function formatDisplayDate(dateStr: string): string {
-  const date = parseLocalDate(dateStr);
-  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+export function formatDisplayDate(dateStr: string, locale: string = DEFAULT_LOCALE, dateFormat: DateFormat = 'locale'): string {
+  return formatDate(dateStr, locale, dateFormat);
 }
 
-export function getMonthName(date: Date): string {
-  return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+export function getMonthName(date: Date, locale: string = DEFAULT_LOCALE): string {
+  return formatMonth(date, locale);
 }
 
 export function getStartOfMonth(year: number, month: number): string {
@@ -38,7 +44,12 @@ export function getEndOfMonth(year: number, month: number): string {
   return `${year}-${String(month + 1).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
 }
 
-export function getMonthGrid(year: number, month: number): Array<{ date: Date; dateStr: string; isCurrentMonth: boolean }> {
+// Six weeks of days covering the month, each week starting on `weekStart` (0 = Sunday)
+export function getMonthGrid(
+  year: number,
+  month: number,
+  weekStart: number = DEFAULT_FORMAT_PREFERENCES.weekStart
+): Array<{ date: Date; dateStr: string; isCurrentMonth: boolean }> {
   const firstDay = new Date(year, month, 1);
   const lastDay = new Date(year, month + 1, 0);
 
@@ -47,7 +58,7 @@ export function getMonthGrid(year: number, month: number): Array<{ date: Date; d
 
   const grid: Array<{ date: Date; dateStr: string; isCurrentMonth: boolean }> = [];
 
-  const leadingDays = firstDayOfWeek === 0 ? 6 : firstDayOfWeek - 1;
+  const leadingDays = (firstDayOfWeek - weekStart + 7) % 7;
 
   for (let i = leadingDays; i > 0; i--) {
     const date = new Date(year, month, 1 - i);
@@ -0,0 +1,58 @@
+import { FxRate, isCurrencyCode } from '../../supabase/functions/_shared/currency';
+import { parseCsv, parseStatementDate } from './statementParsers';
+
+export interface FxRateParseResult {
+  rates: FxRate[];
+  errors: string[];
+}
+
+/**
+ * Read exchange rates from a CSV file with a header row and one rate per line:
+ * `date,base,quote,rate` (e.g. `2025-03-01,EUR,USD,1.0842`, meaning one euro
+ * buys 1.0842 dollars). "from"/"to" are accepted as column names too.
+ */
+export function parseFxRatesCsv(content: string): FxRateParseResult {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return { rates: [], errors: ['The file is empty'] };
+
+  const lower = header.map(cell => cell.toLowerCase().trim());
+  const find = (candidates: string[]) => lower.findIndex(cell => candidates.includes(cell));
+  const columns = {
+    date: find(['date', 'day']),
+    base: find(['base', 'base_currency', 'from']),
+    quote: find(['quote', 'quote_currency', 'to']),
+    rate: find(['rate', 'fx_rate', 'exchange_rate']),
+  };
+
+  if (Object.values(columns).some(index => index === -1)) {
+    return { rates: [], errors: ['The header row must name date, base, quote and rate columns'] };
+  }
+
+  const rates: FxRate[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const date = parseStatementDate(row[columns.date] ?? '', 'YMD');
+    const base = (row[columns.base] ?? '').trim().toUpperCase();
+    const quote = (row[columns.quote] ?? '').trim().toUpperCase();
+    const rate = parseFloat((row[columns.rate] ?? '').trim());
+
+    if (!date) {
+      errors.push(`Line ${line}: unrecognised date "${row[columns.date] ?? ''}"`);
+      return;
+    }
+    if (!isCurrencyCode(base) || !isCurrencyCode(quote) || base === quote) {
+      errors.push(`Line ${line}: expected two different three-letter currency codes`);
+      return;
+    }
+    if (!(rate > 0)) {
+      errors.push(`Line ${line}: unrecognised rate "${row[columns.rate] ?? ''}"`);
+      return;
+    }
+
+    rates.push({ date, base_currency: base, quote_currency: quote, rate });
+  });
+
+  return { rates, errors };
+}
@@ -0,0 +1,273 @@
+export interface ImageBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Longest side of the uploaded image; plenty for OCR and well under provider limits
+export const MAX_IMAGE_DIMENSION = 2000;
+
+// Crop and skew are detected on a small copy, which is enough to find paper and text lines
+const ANALYSIS_DIMENSION = 400;
+
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.5;
+
+const JPEG_QUALITY = 0.9;
+
+// Formats the canvas can decode reliably; anything else is uploaded untouched
+const PROCESSABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/bmp'];
+
+/**
+ * Otsu's method: the grey level that best separates paper from background
+ * (or ink from paper) in a bimodal histogram.
+ */
+export function otsuThreshold(gray: ArrayLike<number>): number {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+  const total = gray.length;
+  let sumAll = 0;
+  for (let level = 0; level < 256; level++) sumAll += level * histogram[level];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestThreshold = 127;
+  let bestVariance = -1;
+
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = level;
+    }
+  }
+
+  return bestThreshold;
+}
+
+/**
+ * Bounding box of the receipt: the rows and columns that are mostly paper
+ * (brighter than the threshold). Returns null when the paper fills nearly the
+ * whole frame or too little of it to trust, in which case nothing is cropped.
+ */
+export function findReceiptBounds(gray: ArrayLike<number>, width: number, height: number, threshold: number): ImageBounds | null {
+  const MIN_PAPER_FRACTION = 0.3;
+
+  const rowIsPaper = (y: number) => {
+    let paper = 0;
+    for (let x = 0; x < width; x++) if (gray[y * width + x] > threshold) paper++;
+    return paper / width >= MIN_PAPER_FRACTION;
+  };
+  const columnIsPaper = (x: number) => {
+    let paper = 0;
+    for (let y = 0; y < height; y++) if (gray[y * width + x] > threshold) paper++;
+    return paper / height >= MIN_PAPER_FRACTION;
+  };
+
+  let top = 0;
+  while (top < height && !rowIsPaper(top)) top++;
+  let bottom = height - 1;
+  while (bottom > top && !rowIsPaper(bottom)) bottom--;
+  let left = 0;
+  while (left < width && !columnIsPaper(left)) left++;
+  let right = width - 1;
+  while (right > left && !columnIsPaper(right)) right--;
+
+  if (top >= bottom || left >= right) return null;
+
+  // Keep a small margin so edge text isn't clipped
+  const marginX = Math.round(width * 0.02);
+  const marginY = Math.round(height * 0.02);
+  const bounds = {
+    x: Math.max(0, left - marginX),
+    y: Math.max(0, top - marginY),
+    width: Math.min(width, right + marginX + 1) - Math.max(0, left - marginX),
+    height: Math.min(height, bottom + marginY + 1) - Math.max(0, top - marginY),
+  };
+
+  const coverage = (bounds.width * bounds.height) / (width * height);
+  if (coverage > 0.95 || coverage < 0.15) return null;
+  return bounds;
+}
+
+/**
+ * Tilt of the text lines in degrees (positive is clockwise), found by projecting
+ * the ink pixels at each candidate angle and keeping the one whose row profile is
+ * the most peaked, i.e. where text lines and gaps line up with the rows.
+ */
+export function estimateSkewAngle(gray: ArrayLike<number>, width: number, height: number, threshold: number): number {
+  const inkX: number[] = [];
+  const inkY: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] < threshold) {
+        inkX.push(x);
+        inkY.push(y);
+      }
+    }
+  }
+  if (inkX.length === 0) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES; degrees += SKEW_STEP_DEGREES) {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const profile = new Array(diagonal * 2 + 1).fill(0);
+
+    for (let i = 0; i < inkX.length; i++) {
+      profile[Math.round(inkY[i] * cos - inkX[i] * sin) + diagonal]++;
+    }
+
+    let score = 0;
+    for (const count of profile) score += count * count;
+
+    // Prefer the smaller correction when two angles score the same
+    if (score > bestScore || (score === bestScore && Math.abs(degrees) < Math.abs(bestAngle))) {
+      bestScore = score;
+      bestAngle = degrees;
+    }
+  }
+
+  return bestAngle;
+}
+
+/**
+ * Grayscale in place, then stretch the 2nd-98th percentile of brightness to the
+ * full range so faded thermal print comes out dark on white.
+ */
+export function enhanceContrast(pixels: Uint8ClampedArray): void {
+  const histogram = new Array(256).fill(0);
+  const count = pixels.length / 4;
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    const luminance = Math.round(0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2]);
+    pixels[i] = luminance;
+    histogram[luminance]++;
+  }
+
+  const percentile = (fraction: number) => {
+    let seen = 0;
+    for (let level = 0; level < 256; level++) {
+      seen += histogram[level];
+      if (seen >= count * fraction) return level;
+    }
+    return 255;
+  };
+  const low = percentile(0.02);
+  const high = percentile(0.98);
+  const range = Math.max(1, high - low);
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    const value = Math.max(0, Math.min(255, Math.round(((pixels[i] - low) / range) * 255)));
+    pixels[i] = value;
+    pixels[i + 1] = value;
+    pixels[i + 2] = value;
+  }
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+  return { canvas, context };
+}
+
+function toGray(pixels: Uint8ClampedArray): Uint8Array {
+  const gray = new Uint8Array(pixels.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2]);
+  }
+  return gray;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), 'image/jpeg', JPEG_QUALITY);
+  });
+}
+
+/**
+ * Prepare a receipt photo for OCR: upright per its EXIF orientation, scaled down
+ * to MAX_IMAGE_DIMENSION, cropped to the paper, straightened, and converted to
+ * high-contrast grayscale. PDFs and formats the canvas can't handle pass through,
+ * as does any image that fails along the way.
+ */
+export async function preprocessReceiptImage(file: File): Promise<File> {
+  if (!PROCESSABLE_TYPES.includes(file.type)) return file;
+
+  try {
+    // Decoding with imageOrientation 'from-image' applies the EXIF rotation
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const source = createCanvas(width, height);
+    source.context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const analysisScale = Math.min(1, ANALYSIS_DIMENSION / Math.max(width, height));
+    const analysisWidth = Math.max(1, Math.round(width * analysisScale));
+    const analysisHeight = Math.max(1, Math.round(height * analysisScale));
+    const analysis = createCanvas(analysisWidth, analysisHeight);
+    analysis.context.drawImage(source.canvas, 0, 0, analysisWidth, analysisHeight);
+    const gray = toGray(analysis.context.getImageData(0, 0, analysisWidth, analysisHeight).data);
+    const threshold = otsuThreshold(gray);
+
+    const bounds = findReceiptBounds(gray, analysisWidth, analysisHeight, threshold)
+      ?? { x: 0, y: 0, width: analysisWidth, height: analysisHeight };
+
+    // Measure skew inside the paper only, so the background edges don't count
+    const paper = new Uint8Array(bounds.width * bounds.height);
+    for (let y = 0; y < bounds.height; y++) {
+      paper.set(gray.subarray((bounds.y + y) * analysisWidth + bounds.x, (bounds.y + y) * analysisWidth + bounds.x + bounds.width), y * bounds.width);
+    }
+    const skew = estimateSkewAngle(paper, bounds.width, bounds.height, otsuThreshold(paper));
+
+    const crop = {
+      x: Math.round(bounds.x / analysisScale),
+      y: Math.round(bounds.y / analysisScale),
+      width: Math.min(width, Math.round(bounds.width / analysisScale)),
+      height: Math.min(height, Math.round(bounds.height / analysisScale)),
+    };
+
+    const output = createCanvas(crop.width, crop.height);
+    output.context.fillStyle = '#ffffff';
+    output.context.fillRect(0, 0, crop.width, crop.height);
+    output.context.translate(crop.width / 2, crop.height / 2);
+    output.context.rotate((-skew * Math.PI) / 180);
+    output.context.drawImage(
+      source.canvas,
+      crop.x, crop.y, crop.width, crop.height,
+      -crop.width / 2, -crop.height / 2, crop.width, crop.height
+    );
+
+    const imageData = output.context.getImageData(0, 0, crop.width, crop.height);
+    enhanceContrast(imageData.data);
+    output.context.putImageData(imageData, 0, 0);
+
+    const blob = await canvasToBlob(output.canvas);
+    const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+    return new File([blob], name, { type: 'image/jpeg', lastModified: file.lastModified });
+  } catch (error) {
+    console.error('Image preprocessing failed, uploading the original:', error);
+    return file;
+  }
+}
@@ -0,0 +1,131 @@
+import { getEndOfMonth, getStartOfMonth } from './dateUtils';
+
+export interface AssetTypeInfo {
+  value: string;
+  label: string;
+  color: string;
+  // Money owed: counted against net worth, with the amount owed stored as a positive number
+  liability?: boolean;
+}
+
+export const ASSET_TYPES: AssetTypeInfo[] = [
+  { value: 'stocks', label: 'Stocks (TFSA)', color: '#ef4444' },
+  { value: 'crypto', label: 'Crypto', color: '#6366f1' },
+  { value: 'savings', label: 'Savings', color: '#10b981' },
+  { value: 'investment', label: 'Investment', color: '#f59e0b' },
+  { value: 'real_estate', label: 'Real Estate', color: '#8b5cf6' },
+  { value: 'other', label: 'Other', color: '#6b7280' },
+  { value: 'loan', label: 'Loan', color: '#dc2626', liability: true },
+  { value: 'mortgage', label: 'Mortgage', color: '#b45309', liability: true },
+  { value: 'credit_card', label: 'Credit Card', color: '#db2777', liability: true }
+];
+
+export function assetTypeInfo(type: string): AssetTypeInfo | undefined {
+  return ASSET_TYPES.find(candidate => candidate.value === type);
+}
+
+export function isLiability(type: string): boolean {
+  return !!assetTypeInfo(type)?.liability;
+}
+
+export interface NetWorthAsset {
+  id: string;
+  type: string;
+  // Latest recorded value
+  amount: number;
+  account_id: string | null;
+}
+
+export interface AssetValuation {
+  asset_id: string;
+  date: string;
+  amount: number;
+}
+
+export interface NetWorthPoint {
+  date: string;
+  assets: number;
+  liabilities: number;
+  netWorth: number;
+}
+
+/**
+ * Value of an account in the profile currency at the end of a day, signed the
+ * way balances are (negative while money is owed), or null when it can't be
+ * converted.
+ */
+export type AccountValue = (accountId: string, date: string) => number | null;
+
+// Each asset's valuations, oldest first
+export function groupValuations(valuations: AssetValuation[]): Map<string, AssetValuation[]> {
+  const byAsset = new Map<string, AssetValuation[]>();
+  for (const valuation of valuations) {
+    const list = byAsset.get(valuation.asset_id) ?? [];
+    list.push(valuation);
+    byAsset.set(valuation.asset_id, list);
+  }
+  byAsset.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+  return byAsset;
+}
+
+// The latest value recorded on or before `date`, or null before the first one
+export function valuationOn(valuations: AssetValuation[], date: string): number | null {
+  let value: number | null = null;
+  for (const valuation of valuations) {
+    if (valuation.date > date) break;
+    value = Number(valuation.amount);
+  }
+  return value;
+}
+
+/**
+ * What an asset was worth on `date`, or what was owed on a liability. Assets
+ * linked to an account follow its balance; a liability linked to a credit card
+ * is owed the negative of the card's balance. Others use their valuations and
+ * count as nothing before the first one.
+ */
+export function assetValueOn(
+  asset: NetWorthAsset,
+  valuations: AssetValuation[],
+  accountValue: AccountValue,
+  date: string
+): number | null {
+  if (asset.account_id) {
+    const balance = accountValue(asset.account_id, date);
+    if (balance === null) return null;
+    return isLiability(asset.type) ? -balance : balance;
+  }
+  return valuationOn(valuations, date);
+}
+
+export function netWorthOn(
+  assets: NetWorthAsset[],
+  valuationsByAsset: Map<string, AssetValuation[]>,
+  accountValue: AccountValue,
+  date: string
+): NetWorthPoint {
+  let assetTotal = 0;
+  let liabilityTotal = 0;
+  for (const asset of assets) {
+    const value = assetValueOn(asset, valuationsByAsset.get(asset.id) ?? [], accountValue, date) ?? 0;
+    if (isLiability(asset.type)) liabilityTotal += value;
+    else assetTotal += value;
+  }
+  return {
+    date,
+    assets: Math.round(assetTotal * 100) / 100,
+    liabilities: Math.round(liabilityTotal * 100) / 100,
+    netWorth: Math.round((assetTotal - liabilityTotal) * 100) / 100
+  };
+}
+
+// The last day of each month of `year` up to `today`, with the current month ending today
+export function monthEndDates(year: number, today: string): string[] {
+  const dates: string[] = [];
+  for (let month = 0; month < 12; month++) {
+    if (getStartOfMonth(year, month) > today) break;
+    const end = getEndOfMonth(year, month);
+    dates.push(end < today ? end : today);
+  }
+  return dates;
+}
@@ -0,0 +1,198 @@
+import { merchantKey } from '../../supabase/functions/_shared/category-learning';
+import { getLocalDateString, parseLocalDate } from './dateUtils';
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface RecurringTransaction {
+  id: string;
+  name: string;
+  merchant: string | null;
+  amount: number;
+  currency: string;
+  account_id: string | null;
+  type: 'debit' | 'credit';
+  category: string;
+  frequency: RecurrenceFrequency;
+  start_date: string;
+  next_date: string;
+  end_date: string | null;
+  active: boolean;
+}
+
+export interface RecurringSuggestion {
+  // Merchant key and type the pattern was found under; stable across reloads
+  key: string;
+  name: string;
+  merchant: string | null;
+  amount: number;
+  // Taken from the latest charge, so the template keeps the series' currency and account
+  currency: string | null;
+  account_id: string | null;
+  type: 'debit' | 'credit';
+  category: string;
+  frequency: RecurrenceFrequency;
+  occurrences: number;
+  lastDate: string;
+  nextDate: string;
+}
+
+interface HistoryTransaction {
+  date: string;
+  amount: number;
+  type: 'debit' | 'credit';
+  category: string;
+  description: string;
+  merchant?: string | null;
+  currency?: string | null;
+  account_id?: string | null;
+  recurring_id?: string | null;
+}
+
+export const FREQUENCIES: Array<{ value: RecurrenceFrequency; label: string; days: number }> = [
+  { value: 'weekly', label: 'Weekly', days: 7 },
+  { value: 'biweekly', label: 'Every 2 weeks', days: 14 },
+  { value: 'monthly', label: 'Monthly', days: 30 },
+  { value: 'quarterly', label: 'Quarterly', days: 91 },
+  { value: 'yearly', label: 'Yearly', days: 365 },
+];
+
+const MONTHS_PER_STEP: Partial<Record<RecurrenceFrequency, number>> = { monthly: 1, quarterly: 3, yearly: 12 };
+
+// Hard stop for generating a long-neglected template in one go
+const MAX_OCCURRENCES = 400;
+
+// A pattern needs this many charges before it is suggested
+const MIN_OCCURRENCES = 3;
+
+// Charges may drift this far (in days) from the schedule and still count
+const INTERVAL_TOLERANCE: Record<RecurrenceFrequency, number> = {
+  weekly: 1,
+  biweekly: 2,
+  monthly: 4,
+  quarterly: 7,
+  yearly: 10,
+};
+
+// Amounts may vary this much from the typical charge (phone bills, utilities)
+const AMOUNT_TOLERANCE = 0.15;
+
+/**
+ * The occurrence after `date`. Monthly and longer schedules land on the start
+ * date's day of the month, or the month's last day when it is shorter, so a
+ * charge on the 31st doesn't drift to the 28th after February.
+ */
+export function nextOccurrence(date: string, frequency: RecurrenceFrequency, startDate: string): string {
+  const current = parseLocalDate(date);
+  const months = MONTHS_PER_STEP[frequency];
+  if (!months) {
+    const days = frequency === 'weekly' ? 7 : 14;
+    return getLocalDateString(new Date(current.getFullYear(), current.getMonth(), current.getDate() + days));
+  }
+
+  const anchorDay = parseLocalDate(startDate).getDate();
+  const year = current.getFullYear();
+  const month = current.getMonth() + months;
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return getLocalDateString(new Date(year, month, Math.min(anchorDay, lastDay)));
+}
+
+// First date on the schedule that starts at `startDate` falling on or after `date`
+export function firstOccurrenceFrom(startDate: string, frequency: RecurrenceFrequency, date: string): string {
+  let occurrence = startDate;
+  for (let i = 0; occurrence < date && i < MAX_OCCURRENCES * 10; i++) {
+    occurrence = nextOccurrence(occurrence, frequency, startDate);
+  }
+  return occurrence;
+}
+
+/**
+ * Dates the template falls on from its next date up to and including `to`,
+ * skipping any before `from` and stopping at its end date.
+ */
+export function occurrencesBetween(template: RecurringTransaction, from: string, to: string): string[] {
+  const dates: string[] = [];
+  let date = template.next_date;
+  while (date <= to && (!template.end_date || date <= template.end_date) && dates.length < MAX_OCCURRENCES) {
+    if (date >= from) dates.push(date);
+    date = nextOccurrence(date, template.frequency, template.start_date);
+  }
+  return dates;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((parseLocalDate(b).getTime() - parseLocalDate(a).getTime()) / 86400000);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function matchFrequency(intervals: number[]): RecurrenceFrequency | null {
+  const typical = median(intervals);
+  const frequency = FREQUENCIES.find(candidate => Math.abs(typical - candidate.days) <= INTERVAL_TOLERANCE[candidate.value] + 1);
+  if (!frequency) return null;
+
+  // Most gaps have to fit the schedule; one missed or doubled charge is forgiven
+  const fitting = intervals.filter(days => Math.abs(days - frequency.days) <= INTERVAL_TOLERANCE[frequency.value] + 1);
+  return fitting.length >= intervals.length - 1 && fitting.length / intervals.length >= 0.75 ? frequency.value : null;
+}
+
+/**
+ * Merchants charged (or paying) a similar amount on a regular schedule, which
+ * are likely subscriptions, bills or payroll. Transactions already generated
+ * from a template, patterns a template already covers and patterns that have
+ * stopped (no charge for two periods) are left out.
+ */
+export function detectRecurring(
+  transactions: HistoryTransaction[],
+  templates: RecurringTransaction[],
+  today: string
+): RecurringSuggestion[] {
+  const covered = new Set(templates.map(template => `${template.type}:${merchantKey(template.merchant || template.name)}`));
+  const groups = new Map<string, HistoryTransaction[]>();
+
+  for (const transaction of transactions) {
+    if (transaction.recurring_id) continue;
+    const merchant = merchantKey(transaction.merchant || transaction.description);
+    if (!merchant) continue;
+    const key = `${transaction.type}:${merchant}`;
+    if (covered.has(key)) continue;
+    groups.set(key, [...(groups.get(key) ?? []), transaction]);
+  }
+
+  const suggestions: RecurringSuggestion[] = [];
+  groups.forEach((group, key) => {
+    const typicalAmount = median(group.map(transaction => Number(transaction.amount)));
+    const charges = group
+      .filter(transaction => Math.abs(Number(transaction.amount) - typicalAmount) <= typicalAmount * AMOUNT_TOLERANCE)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (charges.length < MIN_OCCURRENCES) return;
+
+    const intervals = charges.slice(1).map((charge, index) => daysBetween(charges[index].date, charge.date));
+    const frequency = matchFrequency(intervals);
+    if (!frequency) return;
+
+    const last = charges[charges.length - 1];
+    const period = FREQUENCIES.find(candidate => candidate.value === frequency)!.days;
+    if (daysBetween(last.date, today) > period * 2) return;
+
+    suggestions.push({
+      key,
+      name: last.merchant || last.description,
+      merchant: last.merchant ?? null,
+      amount: Number(last.amount),
+      currency: last.currency ?? null,
+      account_id: last.account_id ?? null,
+      type: last.type,
+      category: last.category,
+      frequency,
+      occurrences: charges.length,
+      lastDate: last.date,
+      nextDate: nextOccurrence(last.date, frequency, last.date),
+    });
+  });
+
+  return suggestions.sort((a, b) => a.nextDate.localeCompare(b.nextDate));
+}
@@ -0,0 +1,49 @@
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+  note?: string | null;
+}
+
+interface SplittableTransaction {
+  amount: number;
+  type: 'debit' | 'credit';
+  category: string;
+  transaction_splits?: TransactionSplit[] | null;
+}
+
+export function hasSplits(transaction: SplittableTransaction): boolean {
+  return (transaction.transaction_splits?.length ?? 0) > 0;
+}
+
+// Splits are only trusted when they still add up to the transaction; otherwise
+// the whole amount stays with the transaction's own category.
+export function getAllocations(transaction: SplittableTransaction): TransactionSplit[] {
+  const splits = transaction.transaction_splits ?? [];
+  if (splits.length > 0) {
+    const splitTotal = splits.reduce((sum, split) => sum + split.amount, 0);
+    if (Math.abs(splitTotal - transaction.amount) < 0.005) {
+      return splits;
+    }
+  }
+  return [{ category: transaction.category, amount: transaction.amount }];
+}
+
+export function sumByCategory(
+  transactions: SplittableTransaction[],
+  type: 'debit' | 'credit' = 'debit'
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const transaction of transactions) {
+    if (transaction.type !== type) continue;
+    for (const allocation of getAllocations(transaction)) {
+      totals[allocation.category] = (totals[allocation.category] || 0) + allocation.amount;
+    }
+  }
+  return totals;
+}
+
+export function sortedCategoryTotals(totals: Record<string, number>): Array<{ category: string; amount: number }> {
+  return Object.entries(totals)
+    .map(([category, amount]) => ({ category, amount }))
+    .sort((a, b) => b.amount - a.amount);
+}
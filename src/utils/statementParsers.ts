@@ -0,0 +1,311 @@
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export type DateOrder = 'YMD' | 'MDY' | 'DMY';
+
+export interface ParsedStatementRow {
+  date: string;
+  description: string;
+  amount: number;
+  type: 'debit' | 'credit';
+}
+
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount: number;
+  // When null the sign of the amount decides: negative is money out
+  type: number | null;
+  dateOrder: DateOrder;
+}
+
+export interface StatementParseResult {
+  rows: ParsedStatementRow[];
+  errors: string[];
+}
+
+const DEBIT_WORDS = ['debit', 'dr', 'withdrawal', 'expense', 'out', 'payment', 'purchase'];
+const CREDIT_WORDS = ['credit', 'cr', 'deposit', 'income', 'in', 'refund'];
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'csv') return 'csv';
+
+  const head = content.slice(0, 500).toUpperCase();
+  if (head.includes('OFXHEADER') || head.includes('<OFX>')) return 'ofx';
+  if (head.trimStart().startsWith('!TYPE:')) return 'qif';
+  return 'csv';
+}
+
+/**
+ * Parse an amount as written on a statement: "$1,234.50", "(12.00)", "12.00-"
+ */
+export function parseAmount(value: string): number | null {
+  let cleaned = value.trim().replace(/[$€£¥\s]/g, '').replace(/,/g, '');
+  if (!cleaned) return null;
+
+  let negative = false;
+  if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (cleaned.endsWith('-')) {
+    negative = true;
+    cleaned = cleaned.slice(0, -1);
+  }
+
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) return null;
+  return negative ? -Math.abs(amount) : amount;
+}
+
+/**
+ * Convert a statement date to YYYY-MM-DD. Two-digit years are taken as 20xx.
+ */
+export function parseStatementDate(value: string, order: DateOrder): string | null {
+  const trimmed = value.trim();
+
+  // Compact OFX style: 20240315 or 20240315120000[-5:EST]
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact) {
+    return buildDate(compact[1], compact[2], compact[3]);
+  }
+
+  // QIF writes 3/15'24 for years after 1999
+  const parts = trimmed.replace(/'/g, '/').split(/[/.-]/).map(part => part.trim());
+  if (parts.length !== 3 || parts.some(part => !/^\d+$/.test(part))) {
+    return null;
+  }
+
+  let [year, month, day] = ['', '', ''];
+  if (parts[0].length === 4 || order === 'YMD') {
+    [year, month, day] = parts;
+  } else if (order === 'DMY') {
+    [day, month, year] = parts;
+  } else {
+    [month, day, year] = parts;
+  }
+
+  if (year.length === 2) year = `20${year}`;
+  return buildDate(year, month, day);
+}
+
+function buildDate(year: string, month: string, day: string): string | null {
+  const y = parseInt(year, 10);
+  const m = parseInt(month, 10);
+  const d = parseInt(day, 10);
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+
+  const date = new Date(y, m - 1, d);
+  if (date.getMonth() !== m - 1) return null;
+
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted fields and escaped quotes
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(value => value.trim() !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  if (row.some(value => value.trim() !== '')) rows.push(row);
+
+  return rows;
+}
+
+/**
+ * Pick likely columns from a header row so most bank exports need no manual mapping
+ */
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const lower = headers.map(header => header.toLowerCase().trim());
+  const find = (candidates: string[]) =>
+    lower.findIndex(header => candidates.some(candidate => header.includes(candidate)));
+
+  const date = find(['date', 'posted']);
+  const description = find(['description', 'payee', 'merchant', 'memo', 'details', 'name']);
+  const amount = find(['amount', 'value', 'total']);
+  const type = find(['type', 'debit/credit', 'dr/cr']);
+
+  return {
+    date: date === -1 ? 0 : date,
+    description: description === -1 ? 1 : description,
+    amount: amount === -1 ? 2 : amount,
+    type: type === -1 || type === amount ? null : type,
+    dateOrder: 'MDY'
+  };
+}
+
+function parseTypeValue(value: string): 'debit' | 'credit' | null {
+  const lower = value.toLowerCase().trim();
+  if (DEBIT_WORDS.includes(lower)) return 'debit';
+  if (CREDIT_WORDS.includes(lower)) return 'credit';
+  return null;
+}
+
+export function mapCsvRows(rows: string[][], mapping: CsvColumnMapping): StatementParseResult {
+  const parsed: ParsedStatementRow[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const line = index + 1;
+    const date = parseStatementDate(row[mapping.date] ?? '', mapping.dateOrder);
+    const amount = parseAmount(row[mapping.amount] ?? '');
+    const description = (row[mapping.description] ?? '').trim();
+
+    if (!date) {
+      errors.push(`Row ${line}: unrecognised date "${row[mapping.date] ?? ''}"`);
+      return;
+    }
+    if (amount === null || amount === 0) {
+      errors.push(`Row ${line}: unrecognised amount "${row[mapping.amount] ?? ''}"`);
+      return;
+    }
+
+    let type: 'debit' | 'credit' = amount < 0 ? 'debit' : 'credit';
+    if (mapping.type !== null) {
+      const explicit = parseTypeValue(row[mapping.type] ?? '');
+      if (!explicit) {
+        errors.push(`Row ${line}: unrecognised type "${row[mapping.type] ?? ''}"`);
+        return;
+      }
+      type = explicit;
+    }
+
+    parsed.push({ date, description, amount: Math.abs(amount), type });
+  });
+
+  return { rows: parsed, errors };
+}
+
+function ofxField(block: string, tag: string): string {
+  // OFX 1.x is SGML and leaves most closing tags off, so read up to the next tag or line break
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+}
+
+/**
+ * Parse OFX/QFX statements (both SGML 1.x and XML 2.x)
+ */
+export function parseOfx(content: string): StatementParseResult {
+  const parsed: ParsedStatementRow[] = [];
+  const errors: string[] = [];
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  blocks.forEach((block, index) => {
+    const line = index + 1;
+    const date = parseStatementDate(ofxField(block, 'DTPOSTED'), 'YMD');
+    const amount = parseAmount(ofxField(block, 'TRNAMT'));
+    const name = ofxField(block, 'NAME') || ofxField(block, 'PAYEE');
+    const memo = ofxField(block, 'MEMO');
+
+    if (!date || amount === null || amount === 0) {
+      errors.push(`Transaction ${line}: missing date or amount`);
+      return;
+    }
+
+    parsed.push({
+      date,
+      description: decodeEntities(name || memo),
+      amount: Math.abs(amount),
+      type: amount < 0 ? 'debit' : 'credit'
+    });
+  });
+
+  if (blocks.length === 0) {
+    errors.push('No transactions found in OFX file');
+  }
+
+  return { rows: parsed, errors };
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'");
+}
+
+/**
+ * Parse QIF bank/credit card exports. Records end with "^"; D is the date,
+ * T/U the signed amount, P the payee and M the memo.
+ */
+export function parseQif(content: string, dateOrder: DateOrder = 'MDY'): StatementParseResult {
+  const parsed: ParsedStatementRow[] = [];
+  const errors: string[] = [];
+  let record: Record<string, string> = {};
+  let count = 0;
+
+  const flush = () => {
+    if (Object.keys(record).length === 0) return;
+    count++;
+
+    const date = parseStatementDate(record.D ?? '', dateOrder);
+    const amount = parseAmount(record.T ?? record.U ?? '');
+
+    if (!date || amount === null || amount === 0) {
+      errors.push(`Record ${count}: missing date or amount`);
+    } else {
+      parsed.push({
+        date,
+        description: (record.P || record.M || '').trim(),
+        amount: Math.abs(amount),
+        type: amount < 0 ? 'debit' : 'credit'
+      });
+    }
+    record = {};
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) continue;
+
+    if (line === '^') {
+      flush();
+      continue;
+    }
+
+    const code = line[0];
+    // Only the first value for each code matters; split lines (S/E/$) repeat
+    if (!(code in record)) {
+      record[code] = line.slice(1);
+    }
+  }
+  flush();
+
+  return { rows: parsed, errors };
+}
@@ -0,0 +1,79 @@
+export interface TransferCandidate {
+  id: string;
+  account_id: string | null;
+  date: string;
+  description: string;
+  amount: number;
+  currency?: string | null;
+  type: 'debit' | 'credit';
+  transfer_id?: string | null;
+}
+
+export interface TransferMatch<T extends TransferCandidate> {
+  // Money leaves this account...
+  debit: T;
+  // ...and arrives in this one
+  credit: T;
+  days: number;
+}
+
+// How far apart the two sides of a transfer can be posted and still match
+export const TRANSFER_DATE_WINDOW_DAYS = 3;
+
+export function isTransfer(transaction: { transfer_id?: string | null }): boolean {
+  return !!transaction.transfer_id;
+}
+
+function daysBetween(a: string, b: string): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / msPerDay;
+}
+
+function matchKey(transaction: TransferCandidate): string {
+  return `${transaction.currency ?? ''}|${Math.round(Number(transaction.amount) * 100)}`;
+}
+
+/**
+ * Likely transfers among unlinked transactions: a debit and a credit for the
+ * same amount and currency, in two different accounts, posted within
+ * `windowDays` of each other. Each transaction is used at most once, with the
+ * closest dates paired first, so two identical monthly transfers don't get
+ * crossed.
+ */
+export function findTransferMatches<T extends TransferCandidate>(
+  transactions: T[],
+  windowDays: number = TRANSFER_DATE_WINDOW_DAYS
+): TransferMatch<T>[] {
+  const groups = new Map<string, { debits: T[]; credits: T[] }>();
+  for (const transaction of transactions) {
+    if (!transaction.account_id || isTransfer(transaction) || !(Number(transaction.amount) > 0)) continue;
+    const key = matchKey(transaction);
+    const group = groups.get(key) ?? { debits: [], credits: [] };
+    (transaction.type === 'debit' ? group.debits : group.credits).push(transaction);
+    groups.set(key, group);
+  }
+
+  const pairs: TransferMatch<T>[] = [];
+  groups.forEach(({ debits, credits }) => {
+    for (const debit of debits) {
+      for (const credit of credits) {
+        if (debit.account_id === credit.account_id) continue;
+        const days = daysBetween(debit.date, credit.date);
+        if (days <= windowDays) pairs.push({ debit, credit, days });
+      }
+    }
+  });
+
+  pairs.sort((a, b) => a.days - b.days || a.debit.date.localeCompare(b.debit.date) || a.debit.id.localeCompare(b.debit.id));
+
+  const used = new Set<string>();
+  const matches: TransferMatch<T>[] = [];
+  for (const pair of pairs) {
+    if (used.has(pair.debit.id) || used.has(pair.credit.id)) continue;
+    used.add(pair.debit.id);
+    used.add(pair.credit.id);
+    matches.push(pair);
+  }
+
+  return matches.sort((a, b) => b.debit.date.localeCompare(a.debit.date));
+}
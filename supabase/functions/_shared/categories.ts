@@ -0,0 +1,173 @@
+export interface Category {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  color: string;
+  icon: string;
+  archived: boolean;
+}
+
+export interface DefaultCategory {
+  name: string;
+  color: string;
+  icon: string;
+}
+
+export const CATEGORY_SELECT = 'id, name, parent_id, color, icon, archived';
+
+// Assigned when nothing else fits; also the database default for transactions.category
+export const UNCATEGORIZED = 'Uncategorized';
+
+// Where a category we can't place (e.g. an unexpected Gemini label) ends up
+export const FALLBACK_CATEGORY = 'Other';
+
+/**
+ * The taxonomy every new user starts with. Keep in sync with the seed in the
+ * categories migration; the keyword categorizer returns these names.
+ */
+export const DEFAULT_CATEGORIES: DefaultCategory[] = [
+  { name: 'Dining', color: '#f97316', icon: 'utensils' },
+  { name: 'Groceries', color: '#22c55e', icon: 'shopping-cart' },
+  { name: 'Transport', color: '#3b82f6', icon: 'car' },
+  { name: 'Utilities', color: '#eab308', icon: 'zap' },
+  { name: 'Rent', color: '#8b5cf6', icon: 'home' },
+  { name: 'Income', color: '#10b981', icon: 'wallet' },
+  { name: 'Shopping', color: '#ec4899', icon: 'shopping-bag' },
+  { name: 'Healthcare', color: '#ef4444', icon: 'heart-pulse' },
+  { name: 'Entertainment', color: '#6366f1', icon: 'film' },
+  { name: 'Gym', color: '#14b8a6', icon: 'dumbbell' },
+  { name: 'Subscriptions', color: '#0ea5e9', icon: 'repeat' },
+  { name: 'Fees', color: '#64748b', icon: 'receipt' },
+  { name: 'Transfers', color: '#06b6d4', icon: 'arrow-left-right' },
+  { name: 'Education', color: '#a855f7', icon: 'graduation-cap' },
+  { name: 'Other', color: '#9ca3af', icon: 'tag' },
+  { name: UNCATEGORIZED, color: '#d1d5db', icon: 'help-circle' },
+];
+
+export const DEFAULT_CATEGORY_NAMES = DEFAULT_CATEGORIES.map(category => category.name);
+
+// Labels Gemini and older imports used for the default categories
+const CATEGORY_ALIASES: Record<string, string> = {
+  grocery: 'Groceries',
+  utility: 'Utilities',
+  transportation: 'Transport',
+  health: 'Healthcare',
+  transfer: 'Transfers',
+  fee: 'Fees',
+  subscription: 'Subscriptions',
+};
+
+export function activeCategoryNames(categories: Category[]): string[] {
+  return categories.filter(category => !category.archived).map(category => category.name);
+}
+
+/**
+ * Map a category label from any source onto one of the user's category names:
+ * a case-insensitive match first, then the known aliases, then Other (or
+ * Uncategorized when the user has no Other).
+ */
+export function normalizeCategory(value: string | null | undefined, names: string[] = DEFAULT_CATEGORY_NAMES): string {
+  const byLowerName = new Map(names.map(name => [name.toLowerCase(), name]));
+  const label = (value ?? '').trim().toLowerCase();
+  if (!label) return byLowerName.get(UNCATEGORIZED.toLowerCase()) ?? UNCATEGORIZED;
+
+  const exact = byLowerName.get(label);
+  if (exact) return exact;
+
+  const alias = CATEGORY_ALIASES[label];
+  const aliased = alias ? byLowerName.get(alias.toLowerCase()) : undefined;
+  if (aliased) return aliased;
+
+  return byLowerName.get(FALLBACK_CATEGORY.toLowerCase()) ?? UNCATEGORIZED;
+}
+
+/**
+ * Names from the top-level ancestor down to the category itself. A name that
+ * isn't one of the categories is its own top level.
+ */
+export function categoryPath(categories: Category[], name: string): string[] {
+  const byName = new Map(categories.map(category => [category.name, category]));
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const path = [name];
+  const seen = new Set([name]);
+
+  let parentId = byName.get(name)?.parent_id ?? null;
+  while (parentId) {
+    const parent = byId.get(parentId);
+    // A parent loop would otherwise spin forever; stop where it closes
+    if (!parent || seen.has(parent.name)) break;
+    path.unshift(parent.name);
+    seen.add(parent.name);
+    parentId = parent.parent_id;
+  }
+  return path;
+}
+
+// The category and everything filed under it, at any depth
+export function descendantNames(categories: Category[], name: string): string[] {
+  return categories
+    .filter(category => categoryPath(categories, category.name).includes(name))
+    .map(category => category.name)
+    .concat(categories.some(category => category.name === name) ? [] : [name]);
+}
+
+/**
+ * The level a category is counted at when looking inside `parent`: its
+ * ancestor that is a direct child of `parent`, or its top-level ancestor when
+ * `parent` is null. Spending filed on the parent itself stays on the parent;
+ * categories outside `parent` give null.
+ */
+export function rollUpCategory(categories: Category[], name: string, parent: string | null): string | null {
+  const path = categoryPath(categories, name);
+  if (parent === null) return path[0];
+
+  const index = path.indexOf(parent);
+  if (index < 0) return null;
+  return path[index + 1] ?? parent;
+}
+
+export function rollUpTotals(
+  categories: Category[],
+  totals: Record<string, number>,
+  parent: string | null
+): Record<string, number> {
+  const rolled: Record<string, number> = {};
+  for (const [name, amount] of Object.entries(totals)) {
+    const level = rollUpCategory(categories, name, parent);
+    if (level !== null) rolled[level] = (rolled[level] || 0) + amount;
+  }
+  return rolled;
+}
+
+export function hasChildren(categories: Category[], name: string): boolean {
+  const category = categories.find(candidate => candidate.name === name);
+  return !!category && categories.some(candidate => candidate.parent_id === category.id);
+}
+
+// Parents first, each followed by its children, alphabetical within a level
+export function sortCategoryTree(categories: Category[]): Array<{ category: Category; depth: number }> {
+  const ids = new Set(categories.map(category => category.id));
+  const sorted: Array<{ category: Category; depth: number }> = [];
+  const visited = new Set<string>();
+
+  const visit = (parentId: string | null, depth: number) => {
+    categories
+      .filter(category => (parentId === null
+        ? !category.parent_id || !ids.has(category.parent_id)
+        : category.parent_id === parentId))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(category => {
+        if (visited.has(category.id)) return;
+        visited.add(category.id);
+        sorted.push({ category, depth });
+        visit(category.id, depth + 1);
+      });
+  };
+
+  visit(null, 0);
+  // Anything caught in a parent loop is listed at the end rather than lost
+  categories.forEach(category => {
+    if (!visited.has(category.id)) sorted.push({ category, depth: 0 });
+  });
+  return sorted;
+}
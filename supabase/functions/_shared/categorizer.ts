@@ -44,13 +44,20 @@ const CATEGORY_KEYWORDS: CategoryMap = {
   ]
 };
 
+// Keywords match at word boundaries (allowing a plural or possessive), so "bar"
+// finds "Joe's Bar" but not "Barnes & Noble"
+function mentionsKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}(s|'s)?($|[^a-z0-9])`).test(text);
+}
+
 export function categorizeTransaction(description: string, type: 'debit' | 'credit'): string {
   const lowerDescription = description.toLowerCase();
   
   // If it's a credit transaction, check for income keywords first
   if (type === 'credit') {
     for (const keyword of CATEGORY_KEYWORDS['Income']) {
-      if (lowerDescription.includes(keyword)) {
+      if (mentionsKeyword(lowerDescription, keyword)) {
         return 'Income';
       }
     }
@@ -61,7 +68,7 @@ export function categorizeTransaction(description: string, type: 'debit' | 'cred
     if (category === 'Income' && type !== 'credit') continue;
     
     for (const keyword of keywords) {
-      if (lowerDescription.includes(keyword)) {
+      if (mentionsKeyword(lowerDescription, keyword)) {
         return category;
       }
     }
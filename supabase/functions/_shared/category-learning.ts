@@ -0,0 +1,64 @@
+import { merchantTokens } from './duplicates.ts';
+
+export interface CategoryCorrection {
+  description: string;
+  merchant_key: string;
+  to_category: string;
+  created_at: string;
+}
+
+export interface LearnedCategory {
+  category: string;
+  // The merchant key of the correction it was learned from
+  merchant: string;
+  similarity: number;
+}
+
+export const CORRECTION_SELECT = 'description, merchant_key, to_category, created_at';
+
+// How many of the most recent corrections are consulted
+export const CORRECTION_HISTORY_LIMIT = 500;
+
+// Share of the shorter merchant name's tokens that must match to count as the same merchant
+const MIN_MERCHANT_SIMILARITY = 0.5;
+
+/**
+ * Normalized merchant name used as the key for learned categories, so
+ * "TIM HORTONS #1234" and "Tim Hortons" land on the same entry.
+ */
+export function merchantKey(description: string): string {
+  return Array.from(merchantTokens(description)).join(' ');
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return shared / Math.min(a.size, b.size);
+}
+
+/**
+ * Category the user has corrected this merchant to before. The closest merchant
+ * wins; among equally close ones the most recent correction wins, so changing
+ * your mind is respected.
+ */
+export function learnedCategory(corrections: CategoryCorrection[], description: string): LearnedCategory | null {
+  const tokens = merchantTokens(description);
+  if (tokens.size === 0) return null;
+
+  let best: (LearnedCategory & { createdAt: string }) | null = null;
+  for (const correction of corrections) {
+    const score = similarity(tokens, new Set(correction.merchant_key.split(' ').filter(Boolean)));
+    if (score < MIN_MERCHANT_SIMILARITY) continue;
+
+    const closer = !best || score > best.similarity;
+    const newer = best && score === best.similarity && correction.created_at > best.createdAt;
+    if (closer || newer) {
+      best = { category: correction.to_category, merchant: correction.merchant_key, similarity: score, createdAt: correction.created_at };
+    }
+  }
+
+  return best && { category: best.category, merchant: best.merchant, similarity: best.similarity };
+}
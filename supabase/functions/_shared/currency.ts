@@ -0,0 +1,221 @@
+export interface FxRate {
+  date: string;
+  // One unit of `base_currency` is worth `rate` units of `quote_currency`
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+}
+
+export interface CurrencyInfo {
+  code: string;
+  symbol: string;
+}
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', symbol: '$' },
+  { code: 'CAD', symbol: '$' },
+  { code: 'EUR', symbol: '€' },
+  { code: 'GBP', symbol: '£' },
+  { code: 'JPY', symbol: '¥' },
+  { code: 'INR', symbol: '₹' },
+  { code: 'RUB', symbol: '₽' },
+  { code: 'NPR', symbol: '₨' },
+  { code: 'AUD', symbol: '$' },
+  { code: 'CHF', symbol: 'Fr' },
+  { code: 'CNY', symbol: '¥' },
+  { code: 'MXN', symbol: '$' },
+];
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Symbols that identify one currency; "$" and "¥" are shared, so only the unambiguous
+// ones are read from receipts (a receipt in yen and one in yuan both read as JPY)
+const SYMBOL_CURRENCIES: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₽': 'RUB',
+  '₨': 'NPR',
+};
+
+const CURRENCY_CODES = new Set(CURRENCIES.map(currency => currency.code));
+
+export function isCurrencyCode(value: string | null | undefined): value is string {
+  return !!value && /^[A-Z]{3}$/.test(value);
+}
+
+/**
+ * The currency a receipt or statement line is written in, from an ISO code
+ * ("EUR 12.50", "12.50 GBP") or a symbol that belongs to a single currency.
+ * Returns null for dollar amounts and text without any currency, which are
+ * taken to be in the user's own currency.
+ */
+export function detectCurrency(text: string): string | null {
+  const counts = new Map<string, number>();
+  const add = (code: string) => counts.set(code, (counts.get(code) ?? 0) + 1);
+
+  for (const match of text.matchAll(/\b([A-Z]{3})\s?\d|\d\s?([A-Z]{3})\b/g)) {
+    const code = match[1] ?? match[2];
+    if (CURRENCY_CODES.has(code)) add(code);
+  }
+  for (const char of text) {
+    if (SYMBOL_CURRENCIES[char]) add(SYMBOL_CURRENCIES[char]);
+  }
+
+  let best: string | null = null;
+  counts.forEach((count, code) => {
+    if (!best || count > (counts.get(best) ?? 0)) best = code;
+  });
+  return best;
+}
+
+// Codes offered in pickers, keeping `current` even when it isn't a listed currency
+export function currencyOptions(current?: string | null): string[] {
+  const codes = CURRENCIES.map(currency => currency.code);
+  return !current || codes.includes(current) ? codes : [current, ...codes];
+}
+
+export function currencySymbol(code: string): string {
+  return CURRENCIES.find(currency => currency.code === code)?.symbol ?? code;
+}
+
+export const DEFAULT_LOCALE = 'en-US';
+
+// Digits after the decimal point, e.g. 2 for USD and 0 for JPY
+export function currencyDecimals(currency: string): number {
+  try {
+    return new Intl.NumberFormat(DEFAULT_LOCALE, { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+// `step` for amount inputs, so yen amounts aren't entered with cents
+export function amountStep(currency: string): string {
+  const decimals = currencyDecimals(currency);
+  return decimals === 0 ? '1' : (1 / 10 ** decimals).toFixed(decimals);
+}
+
+export function formatCurrency(amount: number, currency: string, locale: string = DEFAULT_LOCALE): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Codes or locales Intl doesn't know still get a readable amount
+    return `${currency} ${amount.toFixed(currencyDecimals(currency))}`;
+  }
+}
+
+/**
+ * Converts `amount` in `currency` on `date` into the converter's base currency,
+ * or null when no rate connects the two.
+ */
+export type CurrencyConverter = (amount: number, currency: string | null | undefined, date: string) => number | null;
+
+interface DatedRate {
+  date: string;
+  rate: number;
+}
+
+function pairKey(from: string, to: string): string {
+  return `${from}/${to}`;
+}
+
+// Rate in force on `date`: the latest one on or before it, or the earliest one
+// when the date is older than every rate
+function rateOn(rates: DatedRate[], date: string): number {
+  let low = 0;
+  let high = rates.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (rates[middle].date <= date) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return rates[Math.max(found, 0)].rate;
+}
+
+/**
+ * Build a converter into `baseCurrency` from the user's stored rates. A rate
+ * works in both directions, and currencies without a direct rate are converted
+ * through one they share (e.g. GBP → EUR → USD when every rate is against EUR).
+ */
+export function createConverter(rates: FxRate[], baseCurrency: string): CurrencyConverter {
+  const pairs = new Map<string, DatedRate[]>();
+  const add = (from: string, to: string, date: string, rate: number) => {
+    const key = pairKey(from, to);
+    const list = pairs.get(key) ?? [];
+    list.push({ date, rate });
+    pairs.set(key, list);
+  };
+
+  for (const fxRate of rates) {
+    const rate = Number(fxRate.rate);
+    if (!(rate > 0) || fxRate.base_currency === fxRate.quote_currency) continue;
+    add(fxRate.base_currency, fxRate.quote_currency, fxRate.date, rate);
+    add(fxRate.quote_currency, fxRate.base_currency, fxRate.date, 1 / rate);
+  }
+  pairs.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const currencies = new Set(rates.flatMap(fxRate => [fxRate.base_currency, fxRate.quote_currency]));
+
+  const pairRate = (from: string, to: string, date: string): number | null => {
+    const list = pairs.get(pairKey(from, to));
+    return list ? rateOn(list, date) : null;
+  };
+
+  return (amount, currency, date) => {
+    if (!currency || currency === baseCurrency) return amount;
+
+    const direct = pairRate(currency, baseCurrency, date);
+    if (direct !== null) return amount * direct;
+
+    for (const via of currencies) {
+      const first = pairRate(currency, via, date);
+      const second = first !== null ? pairRate(via, baseCurrency, date) : null;
+      if (first !== null && second !== null) return amount * first * second;
+    }
+    return null;
+  };
+}
+
+interface ConvertibleTransaction {
+  date: string;
+  amount: number;
+  currency?: string | null;
+  transaction_splits?: Array<{ category: string; amount: number; note?: string | null }> | null;
+}
+
+export type ConvertedTransaction<T> = T & {
+  // The amount in the transaction's own currency; `amount` is in the base currency
+  original_amount: number;
+  // No rate was found, so `amount` is still the original amount
+  fx_missing: boolean;
+};
+
+/**
+ * Copies of the transactions with amounts (and split amounts) in the base
+ * currency, so totals can add them up directly.
+ */
+export function convertTransactions<T extends ConvertibleTransaction>(
+  transactions: T[],
+  convert: CurrencyConverter
+): ConvertedTransaction<T>[] {
+  return transactions.map(transaction => {
+    const amount = Number(transaction.amount);
+    const converted = convert(amount, transaction.currency, transaction.date);
+    const factor = converted === null || amount === 0 ? 1 : converted / amount;
+
+    return {
+      ...transaction,
+      amount: converted ?? amount,
+      transaction_splits: transaction.transaction_splits?.map(split => ({ ...split, amount: Number(split.amount) * factor })),
+      original_amount: amount,
+      fx_missing: converted === null,
+    };
+  });
+}
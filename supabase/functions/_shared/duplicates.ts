@@ -0,0 +1,119 @@
+export type DuplicateReason = 'same_image' | 'same_amount' | 'same_date' | 'near_date' | 'similar_merchant';
+
+export interface DuplicateCheckInput {
+  date: string;
+  amount: number;
+  // Null when it is in the user's own currency
+  currency?: string | null;
+  type: 'debit' | 'credit';
+  description: string;
+  image_hash?: string | null;
+}
+
+export interface ExistingTransaction extends DuplicateCheckInput {
+  id: string;
+  category?: string;
+}
+
+export interface DuplicateCandidate {
+  transaction: ExistingTransaction;
+  reasons: DuplicateReason[];
+  score: number;
+}
+
+// How far apart a receipt and its statement line can be posted and still match
+export const DUPLICATE_DATE_WINDOW_DAYS = 3;
+
+const MERCHANT_NOISE = new Set(['the', 'inc', 'llc', 'ltd', 'co', 'corp', 'store', 'pos', 'purchase', 'debit', 'card']);
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function merchantTokens(description: string): Set<string> {
+  return new Set(
+    description
+      .toLowerCase()
+      .replace(/[^a-z0-9 ]/g, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 1 && !MERCHANT_NOISE.has(token) && !/^\d+$/.test(token))
+  );
+}
+
+/**
+ * Merchants match when one name's tokens mostly appear in the other,
+ * so "STARBUCKS #1234 TORONTO" matches "Starbucks".
+ */
+export function isSimilarMerchant(a: string, b: string): boolean {
+  const tokensA = merchantTokens(a);
+  const tokensB = merchantTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return false;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+
+  return shared / Math.min(tokensA.size, tokensB.size) >= 0.5;
+}
+
+function daysBetween(a: string, b: string): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / msPerDay;
+}
+
+export function shiftDate(date: string, days: number): string {
+  const shifted = new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000);
+  return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * Score one existing transaction against a new one. Returns null unless it is a
+ * likely duplicate: the same receipt image, or the same amount and direction on
+ * the same day, or within a few days from a similar merchant.
+ */
+export function scoreDuplicate(candidate: DuplicateCheckInput, existing: ExistingTransaction): DuplicateCandidate | null {
+  if (candidate.image_hash && existing.image_hash && candidate.image_hash === existing.image_hash) {
+    return { transaction: existing, reasons: ['same_image'], score: 1 };
+  }
+
+  if (candidate.type !== existing.type) return null;
+  if (candidate.currency && existing.currency && candidate.currency !== existing.currency) return null;
+  if (Math.round(candidate.amount * 100) !== Math.round(existing.amount * 100)) return null;
+
+  const days = daysBetween(candidate.date, existing.date);
+  if (days > DUPLICATE_DATE_WINDOW_DAYS) return null;
+
+  const reasons: DuplicateReason[] = ['same_amount', days === 0 ? 'same_date' : 'near_date'];
+  const similar = isSimilarMerchant(candidate.description, existing.description);
+  if (similar) reasons.push('similar_merchant');
+
+  if (days > 0 && !similar) return null;
+
+  const score = 0.5 + (days === 0 ? 0.25 : 0.1) + (similar ? 0.2 : 0);
+  return { transaction: existing, reasons, score };
+}
+
+export function findDuplicateCandidates(
+  candidate: DuplicateCheckInput,
+  existing: ExistingTransaction[]
+): DuplicateCandidate[] {
+  return existing
+    .map(transaction => scoreDuplicate(candidate, transaction))
+    .filter((match): match is DuplicateCandidate => match !== null)
+    .sort((a, b) => b.score - a.score);
+}
+
+export function describeDuplicateReasons(reasons: DuplicateReason[]): string {
+  const labels: Record<DuplicateReason, string> = {
+    same_image: 'same receipt image',
+    same_amount: 'same amount',
+    same_date: 'same date',
+    near_date: `within ${DUPLICATE_DATE_WINDOW_DAYS} days`,
+    similar_merchant: 'similar merchant'
+  };
+  return reasons.map(reason => labels[reason]).join(', ');
+}
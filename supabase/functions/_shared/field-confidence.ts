@@ -0,0 +1,101 @@
+import { categorizeTransaction } from './categorizer.ts';
+
+export type ReceiptField = 'date' | 'description' | 'amount' | 'type' | 'category';
+
+export type FieldConfidence = Record<ReceiptField, number>;
+
+export interface ReceiptFields {
+  date: string;
+  description: string;
+  amount: number;
+  type: 'debit' | 'credit';
+  category: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const CREDIT_HINTS = ['refund', 'return', 'deposit', 'credit', 'reversal'];
+
+function dateAppearsInText(date: string, text: string): boolean {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+
+  const [, year, month, day] = match;
+  const m = String(parseInt(month, 10));
+  const d = String(parseInt(day, 10));
+  const shortYear = year.slice(2);
+  const compact = text.toLowerCase().replace(/\s+/g, ' ');
+
+  const numeric = [
+    `${year}-${month}-${day}`, `${year}/${month}/${day}`,
+    `${month}/${day}/${year}`, `${day}/${month}/${year}`,
+    `${m}/${d}/${year}`, `${d}/${m}/${year}`,
+    `${month}/${day}/${shortYear}`, `${day}/${month}/${shortYear}`,
+    `${m}/${d}/${shortYear}`, `${d}/${m}/${shortYear}`,
+    `${day}.${month}.${year}`, `${month}-${day}-${year}`, `${day}-${month}-${year}`,
+  ];
+  if (numeric.some(candidate => compact.includes(candidate))) return true;
+
+  // "Mar 15, 2024" / "15 March 2024"
+  const monthName = MONTHS[parseInt(month, 10) - 1];
+  return new RegExp(`${monthName}[a-z]*\\.? ${d},? ${year}|${d} ${monthName}[a-z]*\\.? ${year}`).test(compact);
+}
+
+function amountConfidence(amount: number, lines: string[]): number {
+  const formatted = amount.toFixed(2);
+  const linesWithAmount = lines.filter(line => line.replace(/,/g, '').includes(formatted));
+  if (linesWithAmount.length === 0) return 0.35;
+  if (linesWithAmount.some(line => /total|amount due|balance/i.test(line) && !/sub\s*total/i.test(line))) return 1;
+  return 0.8;
+}
+
+function descriptionConfidence(description: string, text: string): number {
+  const tokens = description.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1);
+  if (tokens.length === 0 || description === 'Transaction') return 0.2;
+
+  const lower = text.toLowerCase();
+  const found = tokens.filter(token => lower.includes(token)).length;
+  return found / tokens.length >= 0.5 ? 0.9 : 0.5;
+}
+
+// Gemini and the keyword categorizer use different spellings (grocery / Groceries)
+function sameCategory(a: string, b: string): boolean {
+  return a.toLowerCase().slice(0, 4) === b.toLowerCase().slice(0, 4);
+}
+
+function categoryConfidence(fields: ReceiptFields): number {
+  if (!fields.category || /^(other|uncategorized)$/i.test(fields.category)) return 0.4;
+  const keywordGuess = categorizeTransaction(fields.description, fields.type);
+  return sameCategory(keywordGuess, fields.category) ? 0.9 : 0.6;
+}
+
+function typeConfidence(type: 'debit' | 'credit', text: string): number {
+  const lower = text.toLowerCase();
+  const looksLikeCredit = CREDIT_HINTS.some(hint => lower.includes(hint));
+  if (type === 'credit') return looksLikeCredit ? 0.9 : 0.5;
+  return looksLikeCredit ? 0.5 : 0.9;
+}
+
+/**
+ * Rough 0-1 confidence per extracted field so the review form can point at
+ * what to double-check. Each field is checked against the OCR text, then
+ * scaled by how much the OCR text itself can be trusted.
+ */
+export function estimateFieldConfidence(
+  ocrText: string,
+  ocrConfidence: number,
+  fields: ReceiptFields,
+  source: 'gemini' | 'legacy'
+): FieldConfidence {
+  const lines = ocrText.split('\n');
+  const sourceWeight = source === 'gemini' ? 1 : 0.8;
+  const textWeight = 0.5 + 0.5 * Math.max(0, Math.min(1, ocrConfidence));
+  const scale = (value: number) => Math.round(value * textWeight * sourceWeight * 100) / 100;
+
+  return {
+    date: scale(dateAppearsInText(fields.date, ocrText) ? 0.95 : 0.4),
+    description: scale(descriptionConfidence(fields.description, ocrText)),
+    amount: scale(amountConfidence(fields.amount, lines)),
+    type: scale(typeConfidence(fields.type, ocrText)),
+    category: scale(categoryConfidence(fields)),
+  };
+}
@@ -0,0 +1,382 @@
+import { DateRange, QueryFlow, rangeDays, startOfWeek } from './query-intent.ts';
+
+// The read-only aggregations a language model may call to answer questions about
+// the user's money. The model only ever picks a tool and its filters: which user's
+// transactions are read is decided by the caller, never by the arguments.
+
+export type FinanceToolName = 'sum_by_category' | 'sum_by_merchant' | 'sum_by_period' | 'list_transactions' | 'compare_periods';
+
+export type SumPeriod = 'day' | 'week' | 'month' | 'year';
+
+export interface ToolFilter {
+  range: DateRange;
+  flow: QueryFlow;
+  // One of the user's categories; sub-categories are included
+  category?: string;
+  // Matched against merchants and descriptions
+  merchant?: string;
+  search?: string;
+}
+
+export type FinanceToolCall =
+  | { name: 'sum_by_category'; filter: ToolFilter; limit: number }
+  | { name: 'sum_by_merchant'; filter: ToolFilter; limit: number }
+  | { name: 'sum_by_period'; filter: ToolFilter; period: SumPeriod }
+  | { name: 'list_transactions'; filter: ToolFilter; sort: 'date' | 'amount'; limit: number }
+  | { name: 'compare_periods'; filter: ToolFilter; compareTo: DateRange };
+
+// A transaction matching a tool's filter, amounts in the base currency
+export interface ToolRow {
+  id: string;
+  date: string;
+  merchant: string | null;
+  description: string;
+  type: 'debit' | 'credit';
+  // The part of the transaction the filter counts, negative for debits when the flow is net
+  value: number;
+  // Its category allocations within the filter, signed like `value`
+  allocations: Array<{ category: string; amount: number }>;
+}
+
+export type Citation =
+  | { ref: number; kind: 'transaction'; id: string; date: string; description: string; amount: number }
+  | { ref: number; kind: 'aggregate'; tool: FinanceToolName; label: string; start: string; end: string; amount: number; count: number };
+
+// Everything the tools handed to the model in one conversation, numbered as the model cites it
+export interface CitationLog {
+  citations: Citation[];
+}
+
+type CitationInput =
+  | Omit<Extract<Citation, { kind: 'transaction' }>, 'ref'>
+  | Omit<Extract<Citation, { kind: 'aggregate' }>, 'ref'>;
+
+// Arguments the model got wrong; the message goes back to it so it can try again
+export class ToolArgumentError extends Error {}
+
+const MAX_LIMIT = 50;
+// Long enough for "all time" questions, short enough to keep a single call cheap
+const MAX_RANGE_DAYS = 366 * 10;
+
+const FLOWS: QueryFlow[] = ['expense', 'income', 'net'];
+const PERIODS: SumPeriod[] = ['day', 'week', 'month', 'year'];
+
+const FILTER_PROPERTIES = {
+  start: { type: 'string', description: 'First day included, YYYY-MM-DD' },
+  end: { type: 'string', description: 'Last day included, YYYY-MM-DD' },
+  flow: { type: 'string', enum: FLOWS, description: 'expense = money spent, income = money received, net = income minus spending' },
+  category: { type: 'string', description: 'Only this category (and its sub-categories)' },
+  merchant: { type: 'string', description: 'Only transactions whose merchant or description contains this text' },
+  search: { type: 'string', description: 'Only transactions whose merchant, description or category contains this text' }
+};
+
+const LIMIT_PROPERTY = { type: 'integer', minimum: 1, maximum: MAX_LIMIT, description: 'How many rows to return, largest first' };
+
+function toolDefinition(name: FinanceToolName, description: string, properties: Record<string, unknown>, required: string[]) {
+  return {
+    type: 'function' as const,
+    function: {
+      name,
+      description,
+      parameters: {
+        type: 'object',
+        properties: { ...FILTER_PROPERTIES, ...properties },
+        required: ['start', 'end', 'flow', ...required],
+        additionalProperties: false
+      }
+    }
+  };
+}
+
+// In the OpenAI "tools" format, which most chat servers (hosted or local) accept
+export const FINANCE_TOOLS = [
+  toolDefinition('sum_by_category', 'Totals per category for a period, largest first.', { limit: LIMIT_PROPERTY }, []),
+  toolDefinition('sum_by_merchant', 'Totals per merchant for a period, largest first.', { limit: LIMIT_PROPERTY }, []),
+  toolDefinition(
+    'sum_by_period',
+    'Totals per day, week, month or year within a period.',
+    { period: { type: 'string', enum: PERIODS } },
+    ['period']
+  ),
+  toolDefinition(
+    'list_transactions',
+    'Individual transactions in a period, newest or largest first.',
+    { sort: { type: 'string', enum: ['date', 'amount'] }, limit: LIMIT_PROPERTY },
+    []
+  ),
+  toolDefinition(
+    'compare_periods',
+    'The total for one period next to the total for another, with the difference.',
+    {
+      compare_start: { type: 'string', description: 'First day of the period compared against, YYYY-MM-DD' },
+      compare_end: { type: 'string', description: 'Last day of the period compared against, YYYY-MM-DD' }
+    },
+    ['compare_start', 'compare_end']
+  )
+];
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function optionalText(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new ToolArgumentError(`${key} must be a string`);
+  return value.trim() || undefined;
+}
+
+function readDate(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(`${value}T00:00:00Z`))) {
+    throw new ToolArgumentError(`${key} must be a date as YYYY-MM-DD`);
+  }
+  return value;
+}
+
+function readRange(args: Record<string, unknown>, startKey: string, endKey: string): DateRange {
+  const start = readDate(args, startKey);
+  const end = readDate(args, endKey);
+  if (end < start) throw new ToolArgumentError(`${endKey} is before ${startKey}`);
+  const range = { start, end, label: `${start} to ${end}` };
+  if (rangeDays(range) > MAX_RANGE_DAYS) throw new ToolArgumentError('Periods can be at most 10 years long');
+  return range;
+}
+
+function readLimit(args: Record<string, unknown>, fallback: number): number {
+  const value = args.limit;
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) throw new ToolArgumentError('limit must be a positive integer');
+  return Math.min(value, MAX_LIMIT);
+}
+
+function readEnum<T extends string>(args: Record<string, unknown>, key: string, values: readonly T[], fallback?: T): T {
+  const value = args[key] ?? fallback;
+  if (!values.includes(value as T)) throw new ToolArgumentError(`${key} must be one of ${values.join(', ')}`);
+  return value as T;
+}
+
+/**
+ * Check a tool call from the model and turn it into one the caller can run.
+ * Categories are matched case-insensitively against the user's own, and
+ * anything not in the tool's schema is ignored. Throws ToolArgumentError with a
+ * message meant for the model when the call can't be run.
+ */
+export function parseToolCall(name: string, rawArguments: string, categories: string[]): FinanceToolCall {
+  if (!FINANCE_TOOLS.some(tool => tool.function.name === name)) throw new ToolArgumentError(`Unknown tool "${name}"`);
+
+  let args: Record<string, unknown>;
+  try {
+    args = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+  } catch {
+    throw new ToolArgumentError('Arguments must be a JSON object');
+  }
+  if (!args || typeof args !== 'object' || Array.isArray(args)) throw new ToolArgumentError('Arguments must be a JSON object');
+
+  const filter: ToolFilter = { range: readRange(args, 'start', 'end'), flow: readEnum(args, 'flow', FLOWS, 'expense') };
+  const category = optionalText(args, 'category');
+  if (category) {
+    const known = categories.find(candidate => candidate.toLowerCase() === category.toLowerCase());
+    if (!known) throw new ToolArgumentError(`Unknown category "${category}". Categories are: ${categories.join(', ')}`);
+    filter.category = known;
+  }
+  const merchant = optionalText(args, 'merchant');
+  if (merchant) filter.merchant = merchant;
+  const search = optionalText(args, 'search');
+  if (search) filter.search = search;
+
+  switch (name) {
+    case 'sum_by_category':
+    case 'sum_by_merchant':
+      return { name, filter, limit: readLimit(args, 10) };
+    case 'sum_by_period':
+      return { name, filter, period: readEnum(args, 'period', PERIODS, 'month') };
+    case 'list_transactions':
+      return { name, filter, sort: readEnum(args, 'sort', ['date', 'amount'] as const, 'date'), limit: readLimit(args, 10) };
+    case 'compare_periods':
+      return { name, filter, compareTo: readRange(args, 'compare_start', 'compare_end') };
+    default:
+      throw new ToolArgumentError(`Unknown tool "${name}"`);
+  }
+}
+
+export function cite(log: CitationLog, citation: CitationInput): number {
+  const ref = log.citations.length + 1;
+  log.citations.push({ ...citation, ref } as Citation);
+  return ref;
+}
+
+function describeFilter(filter: ToolFilter, range: DateRange = filter.range): string {
+  const subject = [filter.category, filter.merchant && `at ${filter.merchant}`, filter.search && `matching "${filter.search}"`]
+    .filter(Boolean)
+    .join(' ');
+  return `${filter.flow}${subject ? ` ${subject}` : ''}, ${range.start} to ${range.end}`;
+}
+
+function periodKey(date: string, period: SumPeriod, weekStart: number): string {
+  if (period === 'year') return date.slice(0, 4);
+  if (period === 'month') return date.slice(0, 7);
+  if (period === 'week') return startOfWeek(date, weekStart);
+  return date;
+}
+
+interface Group {
+  name: string;
+  amount: number;
+  count: number;
+}
+
+function addToGroup(groups: Map<string, Group>, name: string, amount: number) {
+  const group = groups.get(name) ?? { name, amount: 0, count: 0 };
+  group.amount += amount;
+  group.count += 1;
+  groups.set(name, group);
+}
+
+function rankGroups(groups: Map<string, Group>): Group[] {
+  return Array.from(groups.values())
+    .map(group => ({ ...group, amount: round(group.amount) }))
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount) || a.name.localeCompare(b.name));
+}
+
+function total(rows: ToolRow[]): number {
+  return round(rows.reduce((sum, row) => sum + row.value, 0));
+}
+
+/**
+ * Run a checked tool call over the transactions matching its filter (and, for
+ * compare_periods, over the ones in the period compared against). Every number
+ * handed back carries a `ref` to the citation recorded for it in `log`.
+ */
+export function runFinanceTool(
+  call: FinanceToolCall,
+  rows: ToolRow[],
+  log: CitationLog,
+  options: { weekStart?: number; compareRows?: ToolRow[] } = {}
+): Record<string, unknown> {
+  const { filter } = call;
+  const overall = () => {
+    const amount = total(rows);
+    return {
+      total: amount,
+      count: rows.length,
+      ref: cite(log, {
+        kind: 'aggregate',
+        tool: call.name,
+        label: describeFilter(filter),
+        start: filter.range.start,
+        end: filter.range.end,
+        amount,
+        count: rows.length
+      })
+    };
+  };
+  const groupCitation = (group: Group, label: string) => cite(log, {
+    kind: 'aggregate',
+    tool: call.name,
+    label: `${label}: ${describeFilter(filter)}`,
+    start: filter.range.start,
+    end: filter.range.end,
+    amount: group.amount,
+    count: group.count
+  });
+
+  switch (call.name) {
+    case 'sum_by_category': {
+      const groups = new Map<string, Group>();
+      rows.forEach(row => row.allocations.forEach(allocation => addToGroup(groups, allocation.category, allocation.amount)));
+      const ranked = rankGroups(groups).slice(0, call.limit);
+      return {
+        ...overall(),
+        categories: ranked.map(group => ({ ...group, ref: groupCitation(group, group.name) }))
+      };
+    }
+
+    case 'sum_by_merchant': {
+      const groups = new Map<string, Group>();
+      rows.forEach(row => addToGroup(groups, row.merchant || row.description, row.value));
+      const ranked = rankGroups(groups).slice(0, call.limit);
+      return {
+        ...overall(),
+        merchants: ranked.map(group => ({ ...group, ref: groupCitation(group, group.name) }))
+      };
+    }
+
+    case 'sum_by_period': {
+      const groups = new Map<string, Group>();
+      rows.forEach(row => addToGroup(groups, periodKey(row.date, call.period, options.weekStart ?? 1), row.value));
+      const periods = Array.from(groups.values())
+        .map(group => ({ ...group, amount: round(group.amount) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      return {
+        ...overall(),
+        period: call.period,
+        periods: periods.map(group => ({
+          [call.period === 'week' ? 'week_starting' : call.period]: group.name,
+          amount: group.amount,
+          count: group.count,
+          ref: groupCitation(group, `${call.period} ${group.name}`)
+        }))
+      };
+    }
+
+    case 'list_transactions': {
+      const sorted = [...rows].sort(call.sort === 'amount'
+        ? (a, b) => Math.abs(b.value) - Math.abs(a.value) || b.date.localeCompare(a.date)
+        : (a, b) => b.date.localeCompare(a.date) || Math.abs(b.value) - Math.abs(a.value));
+      return {
+        count: rows.length,
+        transactions: sorted.slice(0, call.limit).map(row => ({
+          date: row.date,
+          description: row.merchant || row.description,
+          type: row.type,
+          amount: round(row.value),
+          ref: cite(log, {
+            kind: 'transaction',
+            id: row.id,
+            date: row.date,
+            description: row.merchant || row.description,
+            amount: round(row.value)
+          })
+        }))
+      };
+    }
+
+    case 'compare_periods': {
+      const compareRows = options.compareRows ?? [];
+      const current = total(rows);
+      const previous = total(compareRows);
+      const difference = round(current - previous);
+      return {
+        period: { ...overall(), start: filter.range.start, end: filter.range.end },
+        compared_to: {
+          start: call.compareTo.start,
+          end: call.compareTo.end,
+          total: previous,
+          count: compareRows.length,
+          ref: cite(log, {
+            kind: 'aggregate',
+            tool: call.name,
+            label: describeFilter(filter, call.compareTo),
+            start: call.compareTo.start,
+            end: call.compareTo.end,
+            amount: previous,
+            count: compareRows.length
+          })
+        },
+        difference,
+        percent: previous !== 0 ? Math.round((difference / Math.abs(previous)) * 1000) / 10 : null
+      };
+    }
+  }
+}
+
+/**
+ * The citations an answer refers to as [n] or [n, m]. Answers that cite nothing
+ * explicitly are backed by everything the tools returned.
+ */
+export function citedIn(answer: string, log: CitationLog): Citation[] {
+  const refs = new Set(Array.from(answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)).flatMap(match => match[1].split(',').map(Number)));
+  const cited = log.citations.filter(citation => refs.has(citation.ref));
+  return cited.length > 0 ? cited : log.citations;
+}
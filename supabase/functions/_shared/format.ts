@@ -0,0 +1,139 @@
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, formatCurrency } from './currency.ts';
+
+export type DateFormat = 'locale' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+// How a user wants amounts and dates written, from their profile
+export interface FormatPreferences {
+  currency: string;
+  locale: string;
+  // 0 = Sunday through 6 = Saturday
+  weekStart: number;
+  dateFormat: DateFormat;
+}
+
+export interface ProfileFormatRow {
+  currency?: string | null;
+  locale?: string | null;
+  week_start?: number | null;
+  date_format?: string | null;
+}
+
+export const DEFAULT_FORMAT_PREFERENCES: FormatPreferences = {
+  currency: DEFAULT_CURRENCY,
+  locale: DEFAULT_LOCALE,
+  weekStart: 1,
+  dateFormat: 'locale',
+};
+
+export const LOCALES: Array<{ code: string; label: string }> = [
+  { code: 'en-US', label: 'English (United States)' },
+  { code: 'en-GB', label: 'English (United Kingdom)' },
+  { code: 'en-CA', label: 'English (Canada)' },
+  { code: 'en-AU', label: 'English (Australia)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'fr-FR', label: 'Français (France)' },
+  { code: 'fr-CA', label: 'Français (Canada)' },
+  { code: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { code: 'es-ES', label: 'Español (España)' },
+  { code: 'es-MX', label: 'Español (México)' },
+  { code: 'ja-JP', label: '日本語 (日本)' },
+  { code: 'zh-CN', label: '中文 (中国)' },
+  { code: 'ru-RU', label: 'Русский (Россия)' },
+  { code: 'ne-NP', label: 'नेपाली (नेपाल)' },
+];
+
+export const DATE_FORMATS: Array<{ value: DateFormat; label: string }> = [
+  { value: 'locale', label: 'Locale default' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+];
+
+function isDateFormat(value: string | null | undefined): value is DateFormat {
+  return DATE_FORMATS.some(format => format.value === value);
+}
+
+function isSupportedLocale(value: string | null | undefined): value is string {
+  if (!value) return false;
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([value]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// Preferences from a profile row, falling back to the defaults for anything unset or invalid
+export function normalizeFormatPreferences(row: ProfileFormatRow | null | undefined): FormatPreferences {
+  const locale = row?.locale;
+  const dateFormat = row?.date_format;
+  const weekStart = row?.week_start ?? NaN;
+  return {
+    currency: row?.currency || DEFAULT_FORMAT_PREFERENCES.currency,
+    locale: isSupportedLocale(locale) ? locale : DEFAULT_FORMAT_PREFERENCES.locale,
+    weekStart: Number.isInteger(weekStart) && weekStart >= 0 && weekStart <= 6 ? weekStart : DEFAULT_FORMAT_PREFERENCES.weekStart,
+    dateFormat: isDateFormat(dateFormat) ? dateFormat : DEFAULT_FORMAT_PREFERENCES.dateFormat,
+  };
+}
+
+// A `YYYY-MM-DD` date, e.g. "Mar 1, 2025" for en-US or "01/03/2025" with DD/MM/YYYY
+export function formatDate(dateStr: string, locale: string = DEFAULT_LOCALE, dateFormat: DateFormat = 'locale'): string {
+  const [year, month, day] = dateStr.split('-');
+  if (!year || !month || !day) return dateStr;
+
+  switch (dateFormat) {
+    case 'YYYY-MM-DD':
+      return `${year}-${month}-${day.slice(0, 2)}`;
+    case 'DD/MM/YYYY':
+      return `${day.slice(0, 2)}/${month}/${year}`;
+    case 'MM/DD/YYYY':
+      return `${month}/${day.slice(0, 2)}/${year}`;
+    default: {
+      const date = new Date(Number(year), Number(month) - 1, parseInt(day, 10));
+      return date.toLocaleDateString(locale, { month: 'short', day: 'numeric', year: 'numeric' });
+    }
+  }
+}
+
+// "March 2025", or "Mar" with the short style used for chart labels
+export function formatMonth(date: Date, locale: string = DEFAULT_LOCALE, style: 'long' | 'short' = 'long'): string {
+  return style === 'long'
+    ? date.toLocaleDateString(locale, { month: 'long', year: 'numeric' })
+    : date.toLocaleDateString(locale, { month: 'short' });
+}
+
+// Short weekday names in calendar order, starting from `weekStart`
+export function weekdayNames(locale: string = DEFAULT_LOCALE, weekStart: number = DEFAULT_FORMAT_PREFERENCES.weekStart): string[] {
+  // 7 January 2024 was a Sunday
+  return Array.from({ length: 7 }, (_, i) =>
+    new Date(2024, 0, 7 + ((weekStart + i) % 7)).toLocaleDateString(locale, { weekday: 'short' })
+  );
+}
+
+export interface Formatter {
+  preferences: FormatPreferences;
+  // An amount in `currency`, or the profile currency when none is given
+  money: (amount: number, currency?: string | null) => string;
+  // An expense as "-$4.50" and income as "+$4.50"
+  signedMoney: (amount: number, type: 'income' | 'expense', currency?: string | null) => string;
+  date: (dateStr: string) => string;
+  month: (date: Date, style?: 'long' | 'short') => string;
+  weekdays: () => string[];
+}
+
+/**
+ * Formatting functions bound to one user's preferences, shared by every page
+ * and by the query answers so amounts and dates read the same everywhere.
+ */
+export function createFormatter(preferences: FormatPreferences): Formatter {
+  const { locale } = preferences;
+  const money = (amount: number, currency?: string | null) => formatCurrency(amount, currency || preferences.currency, locale);
+
+  return {
+    preferences,
+    money,
+    signedMoney: (amount, type, currency) => `${type === 'expense' ? '-' : '+'}${money(Math.abs(amount), currency)}`,
+    date: dateStr => formatDate(dateStr, locale, preferences.dateFormat),
+    month: (date, style = 'long') => formatMonth(date, locale, style),
+    weekdays: () => weekdayNames(locale, preferences.weekStart),
+  };
+}
@@ -0,0 +1,105 @@
+// A minimal client for OpenAI-compatible chat completion endpoints with tool
+// calling. Hosted APIs and local servers (Ollama, llama.cpp, vLLM, LM Studio)
+// all speak it, so a stand-in model can be swapped in through the environment.
+
+export interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface ChatTool {
+  type: 'function';
+  function: { name: string; description: string; parameters: Record<string, unknown> };
+}
+
+export interface LlmConfig {
+  url: string;
+  model: string;
+  apiKey: string | null;
+  timeoutMs: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * The endpoint configured by QUERY_LLM_URL and QUERY_LLM_MODEL, or null when
+ * either is missing. The URL may be the API base (".../v1") or the full
+ * chat completions URL; QUERY_LLM_API_KEY is optional for local servers.
+ */
+export function llmConfig(): LlmConfig | null {
+  const baseUrl = Deno.env.get('QUERY_LLM_URL')?.trim();
+  const model = Deno.env.get('QUERY_LLM_MODEL')?.trim();
+  if (!baseUrl || !model) return null;
+
+  const timeout = Number(Deno.env.get('QUERY_LLM_TIMEOUT_MS'));
+  return {
+    url: /\/chat\/completions\/?$/.test(baseUrl) ? baseUrl : `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+    model,
+    apiKey: Deno.env.get('QUERY_LLM_API_KEY') || null,
+    timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS
+  };
+}
+
+// Send the conversation so far and return the model's next message
+export async function chatCompletion(config: LlmConfig, messages: ChatMessage[], tools: ChatTool[]): Promise<Extract<ChatMessage, { role: 'assistant' }>> {
+  let response;
+  try {
+    response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        tools,
+        tool_choice: 'auto',
+        temperature: 0
+      }),
+      signal: AbortSignal.timeout(config.timeoutMs)
+    });
+  } catch (error) {
+    console.error('LLM request failed:', error);
+    throw new Error('Failed to call the LLM endpoint');
+  }
+
+  if (!response.ok) {
+    throw new Error(`LLM endpoint error: ${response.status} ${response.statusText}`);
+  }
+
+  let result;
+  try {
+    result = await response.json();
+  } catch (error) {
+    console.error('Failed to parse LLM response:', error);
+    throw new Error('Invalid response from the LLM endpoint');
+  }
+
+  const message = result?.choices?.[0]?.message;
+  if (!message) {
+    throw new Error('LLM response has no message');
+  }
+
+  const toolCalls: ChatToolCall[] = (message.tool_calls || []).map((call: ChatToolCall, index: number) => ({
+    // Some local servers leave out ids or send arguments as an object
+    id: call.id || `call_${index}`,
+    type: 'function',
+    function: {
+      name: call.function?.name ?? '',
+      arguments: typeof call.function?.arguments === 'string' ? call.function.arguments : JSON.stringify(call.function?.arguments ?? {})
+    }
+  }));
+
+  return {
+    role: 'assistant',
+    content: typeof message.content === 'string' ? message.content : null,
+    ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+  };
+}
@@ -0,0 +1,66 @@
+import { merchantKey } from './category-learning.ts';
+
+export interface Merchant {
+  id: string;
+  name: string;
+  default_category: string | null;
+  aliases: string[];
+}
+
+// Row shape of MERCHANT_SELECT before the aliases are flattened
+export interface MerchantRow {
+  id: string;
+  name: string;
+  default_category: string | null;
+  merchant_aliases?: Array<{ alias: string }> | null;
+}
+
+export const MERCHANT_SELECT = 'id, name, default_category, merchant_aliases(alias)';
+
+export function toMerchant(row: MerchantRow): Merchant {
+  return {
+    id: row.id,
+    name: row.name,
+    default_category: row.default_category,
+    aliases: (row.merchant_aliases ?? []).map(alias => alias.alias),
+  };
+}
+
+/**
+ * The merchant a raw name or statement description belongs to. An exact match
+ * on the normalized name or an alias wins; otherwise the merchant whose name or
+ * alias appears word for word inside the text, preferring the longest, so
+ * "TIM HORTONS #4312 TORONTO ON" finds "Tim Hortons".
+ */
+export function matchMerchant(merchants: Merchant[], text: string | null | undefined): Merchant | null {
+  const key = merchantKey(text ?? '');
+  if (!key) return null;
+
+  const padded = ` ${key} `;
+  let best: Merchant | null = null;
+  let bestLength = 0;
+
+  for (const merchant of merchants) {
+    for (const spelling of [merchant.name, ...merchant.aliases]) {
+      const candidate = merchantKey(spelling);
+      if (!candidate) continue;
+      if (candidate === key) return merchant;
+      if (padded.includes(` ${candidate} `) && candidate.length > bestLength) {
+        best = merchant;
+        bestLength = candidate.length;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Display name for a merchant seen for the first time: store numbers and
+ * punctuation dropped, words capitalized ("TIM HORTONS #4312" becomes "Tim Hortons").
+ */
+export function canonicalMerchantName(raw: string): string {
+  const key = merchantKey(raw);
+  if (!key) return raw.trim();
+  return key.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
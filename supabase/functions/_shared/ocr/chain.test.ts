@@ -0,0 +1,176 @@
+import { runOcrChain, runPdfOcrChain } from './chain.ts';
+import { OcrCapabilities, OcrProvider, OcrResult } from './provider.ts';
+
+const JPEG_HEADER = [0xff, 0xd8, 0xff, 0xe0];
+const PNG_HEADER = [0x89, 0x50, 0x4e, 0x47];
+const PDF_HEADER = [0x25, 0x50, 0x44, 0x46];
+
+function image(header: number[], size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  bytes.set(header);
+  return bytes;
+}
+
+// A provider that records whether it was called and always reads the receipt confidently
+function fakeProvider(name: string, capabilities: Partial<OcrCapabilities>, calls: string[]): OcrProvider {
+  return {
+    name,
+    capabilities: { offline: true, mimeTypes: ['image/jpeg', 'image/png'], maxImageBytes: null, ...capabilities },
+    isConfigured: () => true,
+    extract: async () => {
+      calls.push(name);
+      return { text: `read by ${name}`, confidence: 0.9 };
+    }
+  };
+}
+
+async function testCapabilitiesAreChecked() {
+  const testCases = [
+    {
+      name: 'image over a provider\'s size limit skips it',
+      bytes: image(JPEG_HEADER, 2 * 1024 * 1024),
+      providers: (calls: string[]) => [
+        fakeProvider('ocrspace', { maxImageBytes: 1024 * 1024 }, calls),
+        fakeProvider('google', { maxImageBytes: 20 * 1024 * 1024 }, calls),
+      ],
+      expectedCalls: ['google'],
+      expectedProvider: 'google',
+    },
+    {
+      name: 'image type a provider does not accept skips it',
+      bytes: image(PNG_HEADER, 1024),
+      providers: (calls: string[]) => [
+        fakeProvider('jpeg-only', { mimeTypes: ['image/jpeg'] }, calls),
+        fakeProvider('tesseract', {}, calls),
+      ],
+      expectedCalls: ['tesseract'],
+      expectedProvider: 'tesseract',
+    },
+    {
+      name: 'image within limits goes to the first provider',
+      bytes: image(JPEG_HEADER, 1024),
+      providers: (calls: string[]) => [
+        fakeProvider('ocrspace', { maxImageBytes: 1024 * 1024 }, calls),
+        fakeProvider('google', {}, calls),
+      ],
+      expectedCalls: ['ocrspace'],
+      expectedProvider: 'ocrspace',
+    },
+  ];
+
+  let allPassed = true;
+
+  for (const testCase of testCases) {
+    const calls: string[] = [];
+    const result = await runOcrChain(testCase.providers(calls), testCase.bytes, 0.6);
+
+    if (result.provider !== testCase.expectedProvider || calls.join(',') !== testCase.expectedCalls.join(',')) {
+      console.error(`FAIL: ${testCase.name}: called ${calls.join(',') || 'nobody'}, result from ${result.provider}`);
+      allPassed = false;
+    } else {
+      console.log(`PASS: ${testCase.name}`);
+    }
+  }
+
+  const calls: string[] = [];
+  try {
+    await runOcrChain([fakeProvider('ocrspace', { maxImageBytes: 1024 }, calls)], image(JPEG_HEADER, 4096), 0.6);
+    console.error('FAIL: a chain where every provider is skipped should fail');
+    allPassed = false;
+  } catch {
+    if (calls.length > 0) {
+      console.error('FAIL: a skipped provider was still called');
+      allPassed = false;
+    } else {
+      console.log('PASS: a chain where every provider is skipped fails without calling any');
+    }
+  }
+
+  if (allPassed) {
+    console.log('\n✓ All OCR chain capability tests passed!');
+  } else {
+    console.error('\n✗ Some tests failed!');
+  }
+
+  return allPassed;
+}
+
+// A provider that reads PDFs, with a fixed confidence per page (missing pages have no text)
+function fakePdfProvider(name: string, confidences: Record<number, number>, calls: string[]): OcrProvider {
+  return {
+    ...fakeProvider(name, { mimeTypes: ['image/jpeg', 'application/pdf'] }, calls),
+    extractPdfPages: async (_pdfBytes: Uint8Array, pageNumbers: number[]) => {
+      calls.push(`${name}:${pageNumbers.join('+')}`);
+      return pageNumbers.map((page): OcrResult | null =>
+        page in confidences ? { text: `page ${page} by ${name}`, confidence: confidences[page] } : null
+      );
+    }
+  };
+}
+
+async function testScannedPdfPages() {
+  const testCases = [
+    {
+      name: 'providers without PDF support are skipped for scanned pages',
+      providers: (calls: string[]) => [
+        fakeProvider('tesseract', {}, calls),
+        fakePdfProvider('google', { 1: 0.9, 2: 0.9 }, calls),
+      ],
+      pages: [1, 2],
+      expectedCalls: ['google:1+2'],
+      expectedProviders: { 1: 'google', 2: 'google' },
+    },
+    {
+      name: 'only pages below the threshold go to the next provider',
+      providers: (calls: string[]) => [
+        fakePdfProvider('ocrspace', { 1: 0.9, 3: 0.3 }, calls),
+        fakePdfProvider('google', { 2: 0.8, 3: 0.7 }, calls),
+      ],
+      pages: [1, 2, 3],
+      expectedCalls: ['ocrspace:1+2+3', 'google:2+3'],
+      expectedProviders: { 1: 'ocrspace', 2: 'google', 3: 'google' },
+    },
+    {
+      name: 'pages nobody reads are left out',
+      providers: (calls: string[]) => [fakePdfProvider('google', { 1: 0.9 }, calls)],
+      pages: [1, 2],
+      expectedCalls: ['google:1+2'],
+      expectedProviders: { 1: 'google' },
+    },
+    {
+      name: 'a PDF over a provider\'s size limit skips it',
+      providers: (calls: string[]) => [
+        { ...fakePdfProvider('ocrspace', { 1: 0.9 }, calls), capabilities: { offline: false, mimeTypes: ['application/pdf'], maxImageBytes: 1024 } },
+        fakePdfProvider('google', { 1: 0.9 }, calls),
+      ],
+      pages: [1],
+      expectedCalls: ['google:1'],
+      expectedProviders: { 1: 'google' },
+    },
+  ];
+
+  let allPassed = true;
+
+  for (const testCase of testCases) {
+    const calls: string[] = [];
+    const results = await runPdfOcrChain(testCase.providers(calls), image(PDF_HEADER, 4096), testCase.pages, 0.6);
+    const providers = Object.fromEntries(Array.from(results, ([page, result]) => [page, result.provider]));
+
+    if (calls.join(',') !== testCase.expectedCalls.join(',') || JSON.stringify(providers) !== JSON.stringify(testCase.expectedProviders)) {
+      console.error(`FAIL: ${testCase.name}: called ${calls.join(',') || 'nobody'}, pages read by ${JSON.stringify(providers)}`);
+      allPassed = false;
+    } else {
+      console.log(`PASS: ${testCase.name}`);
+    }
+  }
+
+  if (allPassed) {
+    console.log('\n✓ All scanned PDF page tests passed!');
+  } else {
+    console.error('\n✗ Some tests failed!');
+  }
+
+  return allPassed;
+}
+
+testCapabilitiesAreChecked().then(testScannedPdfPages);
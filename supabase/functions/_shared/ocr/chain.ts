@@ -0,0 +1,148 @@
+import { detectMimeType, OcrProvider, OcrResult, unsupportedReason } from './provider.ts';
+import { getOcrProvider } from './registry.ts';
+
+export interface OcrAttempt {
+  provider: string;
+  confidence: number | null;
+  error: string | null;
+}
+
+export interface OcrChainResult extends OcrResult {
+  provider: string;
+  attempts: OcrAttempt[];
+}
+
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+// OCR_PROVIDERS is an ordered, comma-separated list (e.g. "google,ocrspace,tesseract").
+// OCR_PROVIDER is still honoured for single-provider deployments.
+export function resolveOcrChain(): { providers: OcrProvider[]; problems: string[] } {
+  const configured = Deno.env.get('OCR_PROVIDERS') || Deno.env.get('OCR_PROVIDER') || 'google';
+  const names = configured.split(',').map(name => name.trim()).filter(Boolean);
+
+  const providers: OcrProvider[] = [];
+  const problems: string[] = [];
+
+  for (const name of names) {
+    const provider = getOcrProvider(name);
+    if (!provider) {
+      problems.push(`Unknown OCR provider "${name}"`);
+    } else if (!provider.isConfigured()) {
+      problems.push(`OCR provider "${name}" is missing its configuration`);
+    } else {
+      providers.push(provider);
+    }
+  }
+
+  return { providers, problems };
+}
+
+export function getMinConfidence(): number {
+  const value = parseFloat(Deno.env.get('OCR_MIN_CONFIDENCE') ?? '');
+  return isNaN(value) ? DEFAULT_MIN_CONFIDENCE : value;
+}
+
+// Try each provider in order, falling through on errors or results below the
+// confidence threshold. If nobody clears the bar, the best result still wins.
+// Providers that can't take the image's type or size are skipped without a call.
+export async function runOcrChain(
+  providers: OcrProvider[],
+  imageBytes: Uint8Array,
+  minConfidence = getMinConfidence()
+): Promise<OcrChainResult> {
+  const attempts: OcrAttempt[] = [];
+  let best: (OcrResult & { provider: string }) | null = null;
+  const mimeType = detectMimeType(imageBytes);
+
+  for (const provider of providers) {
+    const unsupported = unsupportedReason(provider.capabilities, mimeType, imageBytes.length);
+    if (unsupported) {
+      console.log(`Skipping OCR provider ${provider.name}: ${unsupported}`);
+      attempts.push({ provider: provider.name, confidence: null, error: `skipped: ${unsupported}` });
+      continue;
+    }
+
+    try {
+      console.log('Using OCR provider:', provider.name);
+      const result = await provider.extract(imageBytes);
+      attempts.push({ provider: provider.name, confidence: result.confidence, error: null });
+      console.log(`OCR provider ${provider.name} returned confidence ${result.confidence}`);
+
+      if (!best || result.confidence > best.confidence) {
+        best = { ...result, provider: provider.name };
+      }
+
+      if (result.confidence >= minConfidence) {
+        return { ...result, provider: provider.name, attempts };
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`OCR provider ${provider.name} failed:`, message);
+      attempts.push({ provider: provider.name, confidence: null, error: message });
+    }
+  }
+
+  if (best) {
+    console.log(`No OCR provider reached confidence ${minConfidence}, using best result from ${best.provider}`);
+    return { ...best, attempts };
+  }
+
+  throw new Error(`All OCR providers failed: ${attempts.map(a => `${a.provider} (${a.error})`).join(', ')}`);
+}
+
+// The scanned pages of a PDF, read by the providers that accept PDFs. Each page
+// falls through the chain on its own: only pages still below the confidence
+// threshold are sent to the next provider. Pages nobody found text on are left out.
+export async function runPdfOcrChain(
+  providers: OcrProvider[],
+  pdfBytes: Uint8Array,
+  pageNumbers: number[],
+  minConfidence = getMinConfidence()
+): Promise<Map<number, OcrChainResult>> {
+  const attempts = new Map<number, OcrAttempt[]>(pageNumbers.map(page => [page, []]));
+  const best = new Map<number, OcrResult & { provider: string }>();
+  let remaining = pageNumbers;
+
+  for (const provider of providers) {
+    if (remaining.length === 0) break;
+
+    const unsupported = provider.extractPdfPages
+      ? unsupportedReason(provider.capabilities, 'application/pdf', pdfBytes.length)
+      : 'does not read PDFs';
+    if (unsupported || !provider.extractPdfPages) {
+      console.log(`Skipping OCR provider ${provider.name} for PDF pages: ${unsupported}`);
+      remaining.forEach(page => attempts.get(page)!.push({ provider: provider.name, confidence: null, error: `skipped: ${unsupported}` }));
+      continue;
+    }
+
+    try {
+      console.log(`Using OCR provider ${provider.name} for PDF pages ${remaining.join(', ')}`);
+      const results = await provider.extractPdfPages(pdfBytes, remaining);
+      const stillBelow: number[] = [];
+
+      remaining.forEach((page, index) => {
+        const result = results[index];
+        if (!result) {
+          attempts.get(page)!.push({ provider: provider.name, confidence: null, error: 'No text detected on page' });
+          stillBelow.push(page);
+          return;
+        }
+
+        attempts.get(page)!.push({ provider: provider.name, confidence: result.confidence, error: null });
+        const current = best.get(page);
+        if (!current || result.confidence > current.confidence) {
+          best.set(page, { ...result, provider: provider.name });
+        }
+        if (result.confidence < minConfidence) stillBelow.push(page);
+      });
+
+      remaining = stillBelow;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`OCR provider ${provider.name} failed on PDF pages:`, message);
+      remaining.forEach(page => attempts.get(page)!.push({ provider: provider.name, confidence: null, error: message }));
+    }
+  }
+
+  return new Map(Array.from(best, ([page, result]) => [page, { ...result, attempts: attempts.get(page)! }]));
+}
@@ -0,0 +1,190 @@
+import { OcrProvider, OcrResult, estimateTextConfidence } from './provider.ts';
+
+interface VisionBlock {
+  confidence?: number;
+  paragraphs?: { words?: unknown[] }[];
+}
+
+// Vision reports confidence per block; weight each block by how many words it holds
+function averageBlockConfidence(annotation: { pages?: { blocks?: VisionBlock[] }[] }): number | null {
+  let weighted = 0;
+  let words = 0;
+
+  for (const page of annotation.pages ?? []) {
+    for (const block of page.blocks ?? []) {
+      if (typeof block.confidence !== 'number') continue;
+      const wordCount = (block.paragraphs ?? []).reduce((sum, p) => sum + (p.words?.length ?? 0), 0) || 1;
+      weighted += block.confidence * wordCount;
+      words += wordCount;
+    }
+  }
+
+  return words > 0 ? weighted / words : null;
+}
+
+// Spreading a whole image into String.fromCharCode overflows the call stack on
+// large inputs (such as PDFs), so convert in chunks
+function toBase64(bytes: Uint8Array): string {
+  const CHUNK_SIZE = 0x8000;
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+// files:annotate reads at most this many pages of a PDF per request
+const PDF_PAGES_PER_REQUEST = 5;
+
+interface VisionResponse {
+  error?: { message: string };
+  fullTextAnnotation?: { text?: string; pages?: { blocks?: VisionBlock[] }[] };
+  textAnnotations?: { description?: string }[];
+  context?: { pageNumber?: number };
+}
+
+// POST to a Vision endpoint, turning HTTP and API errors into exceptions
+async function callVision(method: string, body: unknown): Promise<{ responses?: unknown[] }> {
+  const apiKey = Deno.env.get('GOOGLE_VISION_API_KEY');
+  if (!apiKey) {
+    throw new Error('Google Vision API key not configured');
+  }
+
+  console.log(`Calling Google Vision API (${method})...`);
+
+  const endpoint = `https://vision.googleapis.com/v1/${method}?key=${apiKey}`;
+
+  try {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const responseText = await response.text();
+
+    if (!response.ok) {
+      // Try to parse error details
+      let errorMessage = responseText;
+      try {
+        const errorJson = JSON.parse(responseText);
+        errorMessage = errorJson?.error?.message ??
+                       errorJson?.responses?.[0]?.error?.message ??
+                       JSON.stringify(errorJson);
+      } catch {
+        console.error('Google Vision API error (raw):', responseText);
+      }
+      console.error('Google Vision API error details:', errorMessage);
+      throw new Error(`Vision API ${response.status}: ${errorMessage}`);
+    }
+
+    const result = JSON.parse(responseText);
+    console.log('Google Vision API response received successfully');
+
+    // Check for API-level errors in the response
+    if (result.responses?.[0]?.error) {
+      console.error('Google Vision API returned error:', result.responses[0].error);
+      throw new Error(`Google Vision API error: ${result.responses[0].error.message}`);
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Google Vision API request failed:', error);
+    throw error;
+  }
+}
+
+// The text of one image or page, or null when Vision found none
+function readAnnotation(response: VisionResponse | undefined): OcrResult | null {
+  // Try DOCUMENT_TEXT_DETECTION first (more accurate for receipts)
+  const fullTextAnnotation = response?.fullTextAnnotation;
+  if (fullTextAnnotation?.text) {
+    return {
+      text: fullTextAnnotation.text,
+      confidence: averageBlockConfidence(fullTextAnnotation) ?? estimateTextConfidence(fullTextAnnotation.text)
+    };
+  }
+
+  // Fallback to TEXT_DETECTION
+  const textAnnotation = response?.textAnnotations?.[0]?.description;
+  if (textAnnotation) {
+    return { text: textAnnotation, confidence: estimateTextConfidence(textAnnotation) };
+  }
+
+  return null;
+}
+
+function encode(bytes: Uint8Array): string {
+  const base64 = toBase64(bytes);
+
+  // Basic sanity check
+  if (!base64 || !/^[A-Za-z0-9+/]+=*$/.test(base64)) {
+    throw new Error('Invalid base64 content generated from image');
+  }
+
+  console.log(`File converted to base64, length: ${base64.length}`);
+  return base64;
+}
+
+export const googleVisionProvider: OcrProvider = {
+  name: 'google',
+  capabilities: {
+    offline: false,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/bmp', 'image/webp', 'image/tiff', 'application/pdf'],
+    maxImageBytes: 20 * 1024 * 1024
+  },
+
+  isConfigured() {
+    return Boolean(Deno.env.get('GOOGLE_VISION_API_KEY'));
+  },
+
+  async extract(imageBytes: Uint8Array): Promise<OcrResult> {
+    const result = await callVision('images:annotate', {
+      requests: [
+        {
+          image: { content: encode(imageBytes) },
+          features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
+        },
+      ],
+    });
+
+    const text = readAnnotation(result.responses?.[0] as VisionResponse | undefined);
+    if (text) {
+      console.log('Successfully extracted text from image using Google Vision');
+      return text;
+    }
+
+    console.log('No text detected in image by Google Vision');
+    throw new Error('No text detected in image');
+  },
+
+  async extractPdfPages(pdfBytes: Uint8Array, pageNumbers: number[]): Promise<(OcrResult | null)[]> {
+    const content = encode(pdfBytes);
+    const batches: number[][] = [];
+    for (let i = 0; i < pageNumbers.length; i += PDF_PAGES_PER_REQUEST) {
+      batches.push(pageNumbers.slice(i, i + PDF_PAGES_PER_REQUEST));
+    }
+
+    const byPage = new Map<number, OcrResult | null>();
+    await Promise.all(batches.map(async pages => {
+      const result = await callVision('files:annotate', {
+        requests: [
+          {
+            inputConfig: { content, mimeType: 'application/pdf' },
+            features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
+            pages,
+          },
+        ],
+      });
+
+      const fileResponse = result.responses?.[0] as { responses?: VisionResponse[] } | undefined;
+      (fileResponse?.responses ?? []).forEach((response, index) => {
+        byPage.set(response.context?.pageNumber ?? pages[index], response.error ? null : readAnnotation(response));
+      });
+    }));
+
+    return pageNumbers.map(page => byPage.get(page) ?? null);
+  }
+};
@@ -0,0 +1,92 @@
+import { OcrProvider, OcrResult, detectMimeType, estimateTextConfidence, extensionForMimeType } from './provider.ts';
+
+interface OcrSpaceResult {
+  ParsedText?: string;
+}
+
+// Send a file to OCR.Space and return its parsed results, one per page
+async function parseFile(bytes: Uint8Array, fields: Record<string, string> = {}): Promise<OcrSpaceResult[]> {
+  const apiKey = Deno.env.get('OCRSPACE_API_KEY');
+  if (!apiKey) {
+    throw new Error('OCR.Space API key not configured');
+  }
+
+  // OCR.Space infers the file type from the upload name, so name it after the sniffed type
+  const mimeType = detectMimeType(bytes);
+  const formData = new FormData();
+  formData.append('file', new Blob([bytes], { type: mimeType }), `receipt.${extensionForMimeType(mimeType)}`);
+  formData.append('apikey', apiKey);
+  formData.append('language', 'eng');
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+
+  let response;
+  try {
+    response = await fetch('https://api.ocr.space/parse/image', {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`OCR.Space API error: ${response.status} ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('OCR.Space API request failed:', error);
+    throw new Error('Failed to call OCR.Space API');
+  }
+
+  let result;
+  try {
+    result = await response.json();
+  } catch (error) {
+    console.error('Failed to parse OCR.Space API response:', error);
+    throw new Error('Invalid response from OCR.Space API');
+  }
+
+  if (result.IsErroredOnProcessing) {
+    console.error('OCR.Space processing error:', result.ErrorMessage);
+    throw new Error(`OCR.Space error: ${result.ErrorMessage}`);
+  }
+
+  return result.ParsedResults ?? [];
+}
+
+// OCR.Space does not report a confidence score
+function toResult(text: string | undefined): OcrResult | null {
+  return text?.trim() ? { text, confidence: estimateTextConfidence(text) } : null;
+}
+
+export const ocrSpaceProvider: OcrProvider = {
+  name: 'ocrspace',
+  capabilities: {
+    offline: false,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/bmp', 'image/tiff', 'application/pdf'],
+    maxImageBytes: 1024 * 1024
+  },
+
+  isConfigured() {
+    return Boolean(Deno.env.get('OCRSPACE_API_KEY'));
+  },
+
+  async extract(imageBytes: Uint8Array): Promise<OcrResult> {
+    console.log('Using OCR.Space for text extraction...');
+
+    const result = toResult((await parseFile(imageBytes))[0]?.ParsedText);
+    if (result) {
+      console.log('Successfully extracted text from image');
+      return result;
+    }
+
+    console.log('No text detected in image by OCR.Space');
+    throw new Error('No text detected in image');
+  },
+
+  async extractPdfPages(pdfBytes: Uint8Array, pageNumbers: number[]): Promise<(OcrResult | null)[]> {
+    console.log(`Using OCR.Space for ${pageNumbers.length} scanned PDF page(s)...`);
+
+    // The whole document is read; its results come back in page order
+    const results = await parseFile(pdfBytes, { filetype: 'PDF' });
+    return pageNumbers.map(page => toResult(results[page - 1]?.ParsedText));
+  }
+};
@@ -0,0 +1,77 @@
+export interface OcrCapabilities {
+  // True when the provider never calls out to a remote service
+  offline: boolean;
+  // Mime types the provider accepts directly; 'application/pdf' when it implements extractPdfPages
+  mimeTypes: string[];
+  // Largest payload the provider will accept, or null if unbounded
+  maxImageBytes: number | null;
+}
+
+export interface OcrResult {
+  text: string;
+  // 0..1, either reported by the engine or estimated from the text
+  confidence: number;
+}
+
+export interface OcrProvider {
+  name: string;
+  capabilities: OcrCapabilities;
+  isConfigured(): boolean;
+  extract(imageBytes: Uint8Array): Promise<OcrResult>;
+  // Read scanned pages straight from a PDF. Results follow `pageNumbers`, with
+  // null for a page the provider found no text on.
+  extractPdfPages?(pdfBytes: Uint8Array, pageNumbers: number[]): Promise<(OcrResult | null)[]>;
+}
+
+// Why a provider can't take this image, or null when it can. Images of a type
+// we can't sniff are left to the provider to accept or reject.
+export function unsupportedReason(capabilities: OcrCapabilities, mimeType: string, byteLength: number): string | null {
+  if (mimeType !== 'application/octet-stream' && !capabilities.mimeTypes.includes(mimeType)) {
+    return `does not accept ${mimeType}`;
+  }
+  if (capabilities.maxImageBytes !== null && byteLength > capabilities.maxImageBytes) {
+    return `file is ${byteLength} bytes, over its ${capabilities.maxImageBytes} byte limit`;
+  }
+  return null;
+}
+
+// Rough confidence for engines that do not report one: receipts that OCR well are
+// mostly readable characters and contain at least an amount and a date.
+export function estimateTextConfidence(text: string): number {
+  const compact = text.replace(/\s+/g, '');
+  if (compact.length === 0) return 0;
+
+  const readable = compact.match(/[A-Za-z0-9$€£¥₹₽.,:/\-#%&@()*+']/g)?.length ?? 0;
+  let score = (readable / compact.length) * 0.6;
+
+  if (/\d+[.,]\d{2}\b/.test(text)) score += 0.2;
+  if (/\b\d{1,4}[/\-.]\d{1,2}[/\-.]\d{2,4}\b|\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s+\d{1,2}/i.test(text)) score += 0.1;
+  if (compact.length >= 20) score += 0.1;
+
+  return Math.min(1, Math.round(score * 1000) / 1000);
+}
+
+export function detectMimeType(bytes: Uint8Array): string {
+  if (bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46) return 'application/pdf';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'image/jpeg';
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'image/png';
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return 'image/gif';
+  if (bytes[0] === 0x42 && bytes[1] === 0x4d) return 'image/bmp';
+  if (bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 &&
+      bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50) return 'image/webp';
+  if ((bytes[0] === 0x49 && bytes[1] === 0x49) || (bytes[0] === 0x4d && bytes[1] === 0x4d)) return 'image/tiff';
+  return 'application/octet-stream';
+}
+
+export function extensionForMimeType(mimeType: string): string {
+  const extensions: { [key: string]: string } = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/bmp': 'bmp',
+    'image/webp': 'webp',
+    'image/tiff': 'tif',
+    'application/pdf': 'pdf'
+  };
+  return extensions[mimeType] || 'bin';
+}
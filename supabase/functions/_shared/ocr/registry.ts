@@ -0,0 +1,24 @@
+import { OcrProvider } from './provider.ts';
+import { googleVisionProvider } from './google-vision.ts';
+import { ocrSpaceProvider } from './ocr-space.ts';
+import { tesseractProvider } from './tesseract.ts';
+
+export type { OcrProvider, OcrCapabilities, OcrResult } from './provider.ts';
+
+const providers = new Map<string, OcrProvider>();
+
+export function registerOcrProvider(provider: OcrProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function getOcrProvider(name: string): OcrProvider | undefined {
+  return providers.get(name);
+}
+
+export function listOcrProviders(): OcrProvider[] {
+  return Array.from(providers.values());
+}
+
+registerOcrProvider(googleVisionProvider);
+registerOcrProvider(ocrSpaceProvider);
+registerOcrProvider(tesseractProvider);
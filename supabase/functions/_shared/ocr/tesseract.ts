@@ -0,0 +1,56 @@
+import { Buffer } from 'node:buffer';
+import { createWorker } from 'npm:tesseract.js@5';
+import { OcrProvider, OcrResult } from './provider.ts';
+
+// Directory holding <lang>.traineddata.gz files. Required: without it tesseract.js
+// would fetch the language data from its CDN, so the provider is left unconfigured
+// rather than quietly going online. The WASM core ships inside the package.
+const LANG_PATH = Deno.env.get('TESSERACT_LANG_PATH');
+const LANGS = Deno.env.get('TESSERACT_LANGS') || 'eng';
+
+type TesseractWorker = Awaited<ReturnType<typeof createWorker>>;
+
+// Workers are expensive to boot, so keep one per isolate and reuse it across requests
+let workerPromise: Promise<TesseractWorker> | null = null;
+
+function getWorker(): Promise<TesseractWorker> {
+  if (!workerPromise) {
+    console.log('Starting Tesseract worker for languages:', LANGS);
+    workerPromise = createWorker(LANGS, 1, {
+      langPath: LANG_PATH,
+      cachePath: '/tmp/tesseract',
+    }).catch((error: unknown) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+export const tesseractProvider: OcrProvider = {
+  name: 'tesseract',
+  capabilities: {
+    offline: true,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/bmp', 'image/webp'],
+    maxImageBytes: null
+  },
+
+  isConfigured() {
+    return Boolean(LANG_PATH);
+  },
+
+  async extract(imageBytes: Uint8Array): Promise<OcrResult> {
+    console.log('Running local Tesseract OCR...');
+
+    const worker = await getWorker();
+    const { data } = await worker.recognize(Buffer.from(imageBytes));
+
+    if (data?.text?.trim()) {
+      console.log('Successfully extracted text from image using Tesseract');
+      return { text: data.text, confidence: (data.confidence ?? 0) / 100 };
+    }
+
+    console.log('No text detected in image by Tesseract');
+    throw new Error('No text detected in image');
+  }
+};
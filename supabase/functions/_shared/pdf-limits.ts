@@ -0,0 +1,28 @@
+// How much of a PDF one upload processes, and how long the client waits for it.
+// Kept free of pdf.js so the web app can import it too.
+
+// Long statements are cut off here to keep structuring cost per upload bounded
+export const MAX_PDF_PAGES = 10;
+
+// How many pages of one PDF are structured at the same time
+export const PDF_PAGE_CONCURRENCY = 3;
+
+// Enough for one receipt (or one batch of pages) to go through OCR and structuring
+export const PROCESS_TIMEOUT_MS = 30000;
+
+// How long to wait for process_image on a document of `pageCount` pages
+export function processingTimeoutMs(pageCount: number): number {
+  const pages = Math.min(Math.max(1, pageCount), MAX_PDF_PAGES);
+  return PROCESS_TIMEOUT_MS * Math.ceil(pages / PDF_PAGE_CONCURRENCY);
+}
+
+/**
+ * A quick page count read from the raw file, without parsing it: the number of
+ * page objects. PDFs that keep their objects in compressed streams don't show
+ * them, so this returns null rather than a guess.
+ */
+export function countPdfPages(bytes: Uint8Array): number | null {
+  const text = new TextDecoder('latin1').decode(bytes);
+  const count = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+  return count > 0 ? count : null;
+}
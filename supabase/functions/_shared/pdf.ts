@@ -0,0 +1,41 @@
+import { extractText, getDocumentProxy } from 'npm:unpdf@0.12.1';
+import { MAX_PDF_PAGES } from './pdf-limits.ts';
+
+export { MAX_PDF_PAGES } from './pdf-limits.ts';
+
+export interface PdfPage {
+  pageNumber: number;
+  text: string;
+}
+
+// Pages with less embedded text than this are treated as scans
+export const MIN_TEXT_LAYER_CHARS = 20;
+
+// No page of the PDF gave any text, neither embedded nor from OCR (for example
+// when no provider in the chain accepts PDFs), so the upload is turned away with
+// a message asking for a photo instead.
+export class UnreadablePdfError extends Error {}
+
+export function isPdf(bytes: Uint8Array): boolean {
+  // "%PDF"
+  return bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46;
+}
+
+export function hasTextLayer(page: PdfPage): boolean {
+  return page.text.replace(/\s+/g, '').length >= MIN_TEXT_LAYER_CHARS;
+}
+
+/**
+ * Embedded text per page, up to MAX_PDF_PAGES. pdf.js takes ownership of the
+ * buffer it is given, so it always gets a copy.
+ */
+export async function readPdfPages(bytes: Uint8Array): Promise<{ pages: PdfPage[]; totalPages: number }> {
+  const pdf = await getDocumentProxy(bytes.slice());
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+
+  const pages = (text as string[])
+    .slice(0, MAX_PDF_PAGES)
+    .map((pageText, index) => ({ pageNumber: index + 1, text: pageText.trim() }));
+
+  return { pages, totalPages };
+}
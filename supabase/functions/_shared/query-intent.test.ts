@@ -0,0 +1,40 @@
+import { parseDateRanges } from './query-intent.ts';
+
+function testRelativeRanges() {
+  // Months and years back from the end of a month land on a shorter month
+  const testCases: Array<{ text: string; today: string; start: string; end: string }> = [
+    { text: 'last 1 month', today: '2025-03-31', start: '2025-03-01', end: '2025-03-31' },
+    { text: 'last 1 month', today: '2025-05-31', start: '2025-05-01', end: '2025-05-31' },
+    { text: 'last 3 months', today: '2025-05-31', start: '2025-03-01', end: '2025-05-31' },
+    { text: 'last 2 months', today: '2024-12-31', start: '2024-11-01', end: '2024-12-31' },
+    { text: 'last month', today: '2025-03-31', start: '2025-02-01', end: '2025-02-28' },
+    { text: 'past 6 months', today: '2025-08-31', start: '2025-03-01', end: '2025-08-31' },
+    { text: 'last 1 month', today: '2025-03-15', start: '2025-02-16', end: '2025-03-15' },
+    { text: 'last 1 year', today: '2024-02-29', start: '2023-03-01', end: '2024-02-29' },
+    { text: 'last 2 years', today: '2025-01-31', start: '2023-02-01', end: '2025-01-31' },
+    { text: 'last 7 days', today: '2025-03-31', start: '2025-03-25', end: '2025-03-31' },
+  ];
+
+  let allPassed = true;
+
+  testCases.forEach(({ text, today, start, end }) => {
+    const range = parseDateRanges(text, today)[0];
+
+    if (!range || range.start !== start || range.end !== end) {
+      console.error(`FAIL: "${text}" on ${today}: expected ${start}..${end}, got ${range ? `${range.start}..${range.end}` : 'nothing'}`);
+      allPassed = false;
+    } else {
+      console.log(`PASS: "${text}" on ${today} is ${start}..${end}`);
+    }
+  });
+
+  if (allPassed) {
+    console.log('\n✓ All relative range tests passed!');
+  } else {
+    console.error('\n✗ Some tests failed!');
+  }
+
+  return allPassed;
+}
+
+testRelativeRanges();
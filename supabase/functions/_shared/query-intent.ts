@@ -0,0 +1,318 @@
+export type QueryKind = 'total' | 'average' | 'count' | 'top' | 'compare';
+
+// Which transactions a question is about: debits, credits, or credits minus debits
+export type QueryFlow = 'expense' | 'income' | 'net';
+
+export type AveragePer = 'transaction' | 'day' | 'week' | 'month';
+
+export type TopGroup = 'category' | 'merchant' | 'transaction';
+
+export interface DateRange {
+  // Inclusive YYYY-MM-DD bounds
+  start: string;
+  end: string;
+  // How the period reads in an answer, e.g. "in March 2025" or "last weekend"
+  label: string;
+}
+
+export interface QueryIntent {
+  kind: QueryKind;
+  flow: QueryFlow;
+  range: DateRange;
+  // The period `range` is compared against
+  compareTo?: DateRange;
+  // One of the user's categories; sub-categories are included
+  category?: string;
+  // A merchant name, matched against merchants and descriptions
+  merchant?: string;
+  // Text after "on" that is neither a known category nor a merchant
+  search?: string;
+  per?: AveragePer;
+  groupBy?: TopGroup;
+  limit?: number;
+}
+
+export interface QueryVocabulary {
+  categories: string[];
+  merchants: string[];
+  // 0 = Sunday ... 6 = Saturday, as in the profile
+  weekStart?: number;
+}
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_PATTERN = '(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)';
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 };
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7 };
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function isoDate(year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month, day));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+function parts(date: string): { year: number; month: number; day: number } {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month: month - 1, day };
+}
+
+function addDays(date: string, days: number): string {
+  const { year, month, day } = parts(date);
+  return isoDate(year, month, day + days);
+}
+
+// The same day `months` months away, or the last day of that month when it is shorter
+function addMonths(date: string, months: number): string {
+  const { year, month, day } = parts(date);
+  const lastDay = new Date(Date.UTC(year, month + months + 1, 0)).getUTCDate();
+  return isoDate(year, month + months, Math.min(day, lastDay));
+}
+
+function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function monthRange(year: number, month: number, label: string): DateRange {
+  return { start: isoDate(year, month, 1), end: isoDate(year, month + 1, 0), label };
+}
+
+function monthIndex(name: string): number {
+  return MONTH_NAMES.findIndex(month => month.startsWith(name.slice(0, 3)));
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// The number of days from `start` to `end`, both included
+export function rangeDays(range: DateRange): number {
+  return Math.round((Date.parse(`${range.end}T00:00:00Z`) - Date.parse(`${range.start}T00:00:00Z`)) / 86400000) + 1;
+}
+
+// The first day of the week `date` falls in, for weeks starting on `weekStart` (0 = Sunday)
+export function startOfWeek(date: string, weekStart: number = 1): string {
+  return addDays(date, -((dayOfWeek(date) - weekStart + 7) % 7));
+}
+
+// The period just before `range`, as long as it
+export function previousPeriod(range: DateRange): DateRange {
+  const days = rangeDays(range);
+  return { start: addDays(range.start, -days), end: addDays(range.start, -1), label: 'the period before' };
+}
+
+interface RangeMatch {
+  index: number;
+  length: number;
+  range: DateRange;
+}
+
+type RangeResolver = (match: RegExpExecArray, today: string, weekStart: number) => DateRange | null;
+
+// Expressions in the order they are tried; where two overlap, the longer one wins
+const RANGE_PATTERNS: Array<[RegExp, RangeResolver]> = [
+  [/\b(?:between|from)\s+(\d{4}-\d{2}-\d{2})\s+(?:and|to|until)\s+(\d{4}-\d{2}-\d{2})\b/g, match => (
+    { start: match[1], end: match[2], label: `between ${match[1]} and ${match[2]}` }
+  )],
+  [/\b(\d{4}-\d{2}-\d{2})\b/g, match => ({ start: match[1], end: match[1], label: `on ${match[1]}` })],
+  [/\bq([1-4])(?:\s+(?:of\s+)?(\d{4}))?\b/g, (match, today) => {
+    const quarter = Number(match[1]) - 1;
+    const current = parts(today);
+    let year = match[2] ? Number(match[2]) : current.year;
+    if (!match[2] && isoDate(year, quarter * 3, 1) > today) year -= 1;
+    return { start: isoDate(year, quarter * 3, 1), end: isoDate(year, quarter * 3 + 3, 0), label: `in Q${quarter + 1} ${year}` };
+  }],
+  [new RegExp(`\\b${MONTH_PATTERN}(?:\\s+(?:of\\s+)?(\\d{4}))?\\b`, 'g'), (match, today) => {
+    const month = monthIndex(match[1]);
+    // "may" is usually the verb unless a year follows it
+    if (match[1] === 'may' && !match[2]) return null;
+    const current = parts(today);
+    // Without a year, the month is the latest one of that name up to today
+    const year = match[2] ? Number(match[2]) : month <= current.month ? current.year : current.year - 1;
+    return monthRange(year, month, `in ${capitalize(MONTH_NAMES[month])} ${year}`);
+  }],
+  [/\b(?:in|during|for|of)\s+(\d{4})\b/g, match => {
+    const year = Number(match[1]);
+    return { start: isoDate(year, 0, 1), end: isoDate(year, 11, 31), label: `in ${year}` };
+  }],
+  [/\b(?:year to date|ytd)\b/g, (_match, today) => ({ start: `${today.slice(0, 4)}-01-01`, end: today, label: 'this year so far' })],
+  [/\btoday\b/g, (_match, today) => ({ start: today, end: today, label: 'today' })],
+  [/\byesterday\b/g, (_match, today) => ({ start: addDays(today, -1), end: addDays(today, -1), label: 'yesterday' })],
+  [/\b(this|last|previous)\s+week\b/g, (match, today, weekStart) => {
+    const start = startOfWeek(today, weekStart);
+    return match[1] === 'this'
+      ? { start, end: addDays(start, 6), label: 'this week' }
+      : { start: addDays(start, -7), end: addDays(start, -1), label: 'last week' };
+  }],
+  [/\b(this|last|previous)\s+weekend\b/g, (match, today) => {
+    const day = dayOfWeek(today);
+    if (match[1] === 'this') {
+      // The weekend we are in, or the coming one
+      const saturday = day === 0 ? addDays(today, -1) : addDays(today, 6 - day);
+      return { start: saturday, end: addDays(saturday, 1), label: 'this weekend' };
+    }
+    // The latest Saturday and Sunday that are both over
+    const sunday = addDays(today, day === 0 ? -7 : -day);
+    return { start: addDays(sunday, -1), end: sunday, label: 'last weekend' };
+  }],
+  [/\b(this|last|previous)\s+month\b/g, (match, today) => {
+    const { year, month } = parts(today);
+    return match[1] === 'this' ? monthRange(year, month, 'this month') : monthRange(year, month - 1, 'last month');
+  }],
+  [/\b(this|last|previous)\s+quarter\b/g, (match, today) => {
+    const { year, month } = parts(today);
+    const first = Math.floor(month / 3) * 3 - (match[1] === 'this' ? 0 : 3);
+    return { start: isoDate(year, first, 1), end: isoDate(year, first + 3, 0), label: `${match[1] === 'this' ? 'this' : 'last'} quarter` };
+  }],
+  [/\b(this|last|previous)\s+year\b/g, (match, today) => {
+    const year = parts(today).year - (match[1] === 'this' ? 0 : 1);
+    return { start: isoDate(year, 0, 1), end: isoDate(year, 11, 31), label: match[1] === 'this' ? 'this year' : 'last year' };
+  }],
+  [/\b(?:last|past|previous)\s+(\d+|one|two|three|four|five|six|seven|eight|nine|ten)\s+(day|week|month|year)s?\b/g, (match, today) => {
+    const count = NUMBER_WORDS[match[1]] ?? Number(match[1]);
+    const unit = match[2];
+    const start = unit in UNIT_DAYS
+      ? addDays(today, -(count * UNIT_DAYS[unit]) + 1)
+      : addDays(addMonths(today, -(unit === 'month' ? count : count * 12)), 1);
+    return { start, end: today, label: `in the last ${count} ${unit}${count === 1 ? '' : 's'}` };
+  }],
+];
+
+/**
+ * Every period mentioned in the question, in the order they appear. "since X"
+ * runs from the start of X to today.
+ */
+export function parseDateRanges(text: string, today: string, weekStart: number = 1): DateRange[] {
+  const lower = text.toLowerCase();
+  const matches: RangeMatch[] = [];
+
+  for (const [pattern, resolve] of RANGE_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(lower)) !== null) {
+      const range = resolve(match, today, weekStart);
+      if (range) matches.push({ index: match.index, length: match[0].length, range });
+    }
+  }
+
+  const kept: RangeMatch[] = [];
+  for (const match of [...matches].sort((a, b) => b.length - a.length)) {
+    const overlaps = kept.some(other => match.index < other.index + other.length && other.index < match.index + match.length);
+    if (!overlaps) kept.push(match);
+  }
+
+  return kept
+    .sort((a, b) => a.index - b.index)
+    .map(({ index, range }) => {
+      if (!/\bsince\s+$/.test(lower.slice(0, index))) return range;
+      return { start: range.start, end: today, label: `since ${range.label.replace(/^(in|on) /, '')}` };
+    });
+}
+
+// Name variants a category or merchant is recognized by, e.g. "groceries" and "grocery"
+function nameVariants(name: string): string[] {
+  const lower = name.toLowerCase();
+  const variants = [lower];
+  if (lower.endsWith('ies')) variants.push(`${lower.slice(0, -3)}y`);
+  else if (lower.endsWith('s')) variants.push(lower.slice(0, -1));
+  return variants;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The longest of `names` mentioned in `text` as whole words
+function findName(text: string, names: string[]): string | undefined {
+  return [...names]
+    .sort((a, b) => b.length - a.length)
+    .find(name => nameVariants(name).some(variant => new RegExp(`(^|[^a-z0-9])${escapeRegExp(variant)}($|[^a-z0-9])`).test(text)));
+}
+
+// Words that end a merchant or search phrase ("at Costco last month")
+const PHRASE_END = '(?=\\s+(?:in|during|since|between|from|at|last|this|past|previous|on|for|over|vs|versus|compared|than|and|per|each|today|yesterday)\\b|[?.!,]|$)';
+
+function phraseAfter(text: string, words: string): string | undefined {
+  const match = text.match(new RegExp(`\\b(?:${words})\\s+(?:the\\s+)?([a-z0-9&'][a-z0-9&' .-]*?)${PHRASE_END}`));
+  const phrase = match?.[1].trim();
+  if (!phrase || /^\d/.test(phrase) || /^(this|last|past|previous|average|total)\b/.test(phrase)) return undefined;
+  if (parseDateRanges(phrase, '2000-01-01').length > 0) return undefined;
+  return phrase;
+}
+
+function detectFlow(text: string): QueryFlow | null {
+  if (/\b(income|earn|earned|earning|earnings|salary|paid me|received|receive|made)\b/.test(text)) return 'income';
+  if (/\b(net|save|saved|saving)\b/.test(text)) return 'net';
+  if (/\b(spend|spent|spending|expenses?|cost|pay|paid|purchases?|bought|charges?)\b/.test(text)) return 'expense';
+  return null;
+}
+
+function detectLimit(text: string, plural: boolean): number {
+  const match = text.match(/\btop\s+(\d+|one|two|three|four|five|six|seven|eight|nine|ten)\b/);
+  if (match) return NUMBER_WORDS[match[1]] ?? Number(match[1]);
+  return plural ? 5 : 1;
+}
+
+/**
+ * Read a question about the user's money into an intent the query function can
+ * answer: what is measured (a total, an average, a count, a top-N list or a
+ * comparison), of which transactions (spending, income or net), over which
+ * period, and optionally for one category or merchant. Periods without a year
+ * are the latest ones up to `today`, and questions without a period are about
+ * this month. Returns null when nothing in the text looks like a question
+ * about transactions.
+ */
+export function parseQuery(text: string, today: string, vocabulary: QueryVocabulary): QueryIntent | null {
+  const lower = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const ranges = parseDateRanges(lower, today, vocabulary.weekStart ?? 1);
+
+  // A category named like the question's subject ("Income") isn't a filter on it
+  const category = findName(lower, vocabulary.categories.filter(name => !detectFlow(name.toLowerCase())));
+  const knownMerchant = findName(lower, vocabulary.merchants);
+  const merchant = knownMerchant ?? phraseAfter(lower, 'at|from');
+  const onPhrase = phraseAfter(lower, 'on');
+  const search = !category && !knownMerchant && onPhrase ? onPhrase : undefined;
+
+  let flow = detectFlow(lower);
+  const isCount = /\b(how many|number of|count)\b/.test(lower);
+  const isAverage = /\b(average|avg|mean|typical|typically|per (day|week|month)|daily|weekly|monthly)\b/.test(lower);
+  const isTop = /\b(top|biggest|largest|most|highest)\b/.test(lower);
+  const isCompare = /\b(compare|compared|vs\.?|versus|than)\b/.test(lower);
+
+  if (!flow && !isCount && !isAverage && !isTop && !isCompare && !category && !merchant && !search) return null;
+  flow = flow ?? 'expense';
+
+  const thisMonth = parseDateRanges('this month', today)[0];
+  const intent: QueryIntent = { kind: 'total', flow, range: ranges[0] ?? thisMonth };
+  if (category) intent.category = category;
+  if (merchant) intent.merchant = merchant;
+  if (search) intent.search = search;
+
+  if (isCompare) {
+    intent.kind = 'compare';
+    if (ranges.length >= 2) {
+      intent.compareTo = ranges[1];
+    } else if (ranges.length === 0) {
+      intent.compareTo = parseDateRanges('last month', today)[0];
+    } else {
+      intent.compareTo = previousPeriod(intent.range);
+    }
+  } else if (isTop) {
+    intent.kind = 'top';
+    const plural = /\b(categories|merchants|stores|shops|places|purchases|transactions|expenses|charges)\b/.test(lower);
+    if (/\b(merchants?|stores?|shops?|places?|where)\b/.test(lower)) intent.groupBy = 'merchant';
+    else if (/\b(purchases?|transactions?|expenses?|charges?|payments?)\b/.test(lower) && !/\bcategor/.test(lower)) intent.groupBy = 'transaction';
+    else intent.groupBy = 'category';
+    intent.limit = detectLimit(lower, plural);
+  } else if (isCount) {
+    intent.kind = 'count';
+  } else if (isAverage) {
+    intent.kind = 'average';
+    const per = lower.match(/\bper (day|week|month)\b/)?.[1] ?? { daily: 'day', weekly: 'week', monthly: 'month' }[lower.match(/\b(daily|weekly|monthly)\b/)?.[1] ?? ''];
+    intent.per = (per as AveragePer | undefined) ?? 'transaction';
+  }
+
+  return intent;
+}
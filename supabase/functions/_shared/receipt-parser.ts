@@ -1,8 +1,17 @@
+export interface ParsedLineItem {
+  name: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  taxable: boolean;
+}
+
 export interface ParsedTransaction {
   date: string;
   description: string;
   amount: number;
   type: 'debit' | 'credit';
+  items: ParsedLineItem[];
 }
 
 export function parseReceiptText(ocrText: string): ParsedTransaction {
@@ -18,12 +27,15 @@ export function parseReceiptText(ocrText: string): ParsedTransaction {
   console.log('Extracted merchant:', description);
   const type = extractType(ocrText);
   console.log('Extracted type:', type);
+  const items = extractLineItems(lines);
+  console.log('Extracted line items:', items.length);
 
   return {
     date,
     description,
     amount,
-    type
+    type,
+    items
   };
 }
 
@@ -236,4 +248,61 @@ function extractType(text: string): 'debit' | 'credit' {
 
   // Bank transactions are typically debits unless specified otherwise
   return 'debit';
-}
\ No newline at end of file
+}
+
+// Lines that carry a price but are totals, payments or tax rather than purchased items
+const NON_ITEM_PATTERN = /\b(total|subtotal|sub total|tax|hst|gst|pst|vat|change|cash|visa|mastercard|amex|debit|credit|balance|tender|payment|amount due|you saved|savings|discount|rounding|tip|gratuity)\b/i;
+
+// Trailing tax markers printed by common POS systems (e.g. Costco "Y", Walmart "T", Canadian "H")
+const TAXABLE_FLAGS = ['T', 'TX', 'Y', 'H', 'HST', 'GST'];
+
+export function extractLineItems(lines: string[]): ParsedLineItem[] {
+  const items: ParsedLineItem[] = [];
+
+  for (const line of lines) {
+    if (NON_ITEM_PATTERN.test(line)) continue;
+
+    // "<name> <price> [flag]" with the price at the end of the line; negative
+    // amounts ("-3.00" or "3.00-") are coupons and are skipped
+    const priceMatch = line.match(/^(.*?)\s+[$€£¥₹₽]?(\d{1,5}(?:,\d{3})*\.\d{2})(?:\s+([A-Z]{1,3}))?$/);
+    if (!priceMatch) continue;
+
+    let name = priceMatch[1].trim();
+    const lineTotal = parseFloat(priceMatch[2].replace(/,/g, ''));
+    const flag = priceMatch[3];
+    if (isNaN(lineTotal) || lineTotal <= 0) continue;
+
+    let quantity = 1;
+    let unitPrice = lineTotal;
+
+    // "2 @ 3.49" or "2 x 3.49" somewhere in the name portion
+    const atMatch = name.match(/(\d+(?:\.\d+)?)\s*(?:@|x|X)\s*[$€£¥₹₽]?(\d+\.\d{2})/);
+    if (atMatch) {
+      quantity = parseFloat(atMatch[1]);
+      unitPrice = parseFloat(atMatch[2]);
+      name = name.replace(atMatch[0], '').trim();
+    } else {
+      // Leading quantity, e.g. "3 BANANAS"
+      const leadingQty = name.match(/^(\d{1,3})\s+(?=[A-Za-z])/);
+      if (leadingQty && parseInt(leadingQty[1]) > 1) {
+        quantity = parseInt(leadingQty[1]);
+        unitPrice = Math.round((lineTotal / quantity) * 100) / 100;
+        name = name.slice(leadingQty[0].length).trim();
+      }
+    }
+
+    // Drop SKU / item numbers that precede the description
+    name = name.replace(/^\d{4,}\s+/, '').trim();
+    if (name.length < 2 || !/[a-zA-Z]/.test(name)) continue;
+
+    items.push({
+      name,
+      quantity,
+      unit_price: unitPrice,
+      line_total: lineTotal,
+      taxable: flag ? TAXABLE_FLAGS.includes(flag) : false
+    });
+  }
+
+  return items;
+}
@@ -0,0 +1,146 @@
+import { categorizeTransaction } from './categorizer.ts';
+import { CategoryCorrection, learnedCategory } from './category-learning.ts';
+import { matchMerchant, Merchant } from './merchants.ts';
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  priority: number;
+  description_pattern: string | null;
+  merchant: string | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  type: 'debit' | 'credit' | null;
+  category: string;
+  enabled: boolean;
+  created_at?: string;
+}
+
+export interface RuleInput {
+  description: string;
+  // The merchant the transaction is filed under, usually its directory name
+  merchant?: string | null;
+  amount: number;
+  type: 'debit' | 'credit';
+}
+
+export interface RuleChange {
+  transactionId: string;
+  description: string;
+  from: string;
+  to: string;
+  rule: CategorizationRule;
+}
+
+export const RULE_SELECT = 'id, name, priority, description_pattern, merchant, min_amount, max_amount, type, category, enabled, created_at';
+
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words only, so a "Bar" rule doesn't catch "Barnes & Noble"
+function mentionsMerchant(description: string, merchant: string): boolean {
+  const words = merchant.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return words.length > 0 && new RegExp(`(^|[^a-z0-9])${words}($|[^a-z0-9])`, 'i').test(description);
+}
+
+// The transaction's merchant is checked first, so renamed and normalized merchants
+// still match; the description covers transactions filed without one
+function matchesMerchant(input: RuleInput, merchant: string): boolean {
+  return Boolean(input.merchant && mentionsMerchant(input.merchant, merchant)) || mentionsMerchant(input.description, merchant);
+}
+
+/**
+ * A rule matches when every condition it sets holds. A rule with no
+ * conditions at all never matches, so it can't swallow everything.
+ */
+export function ruleMatches(rule: CategorizationRule, input: RuleInput): boolean {
+  if (!rule.enabled) return false;
+
+  const hasCondition = Boolean(rule.description_pattern || rule.merchant || rule.type) ||
+    rule.min_amount !== null || rule.max_amount !== null;
+  if (!hasCondition) return false;
+
+  if (rule.type && rule.type !== input.type) return false;
+  if (rule.min_amount !== null && input.amount < Number(rule.min_amount)) return false;
+  if (rule.max_amount !== null && input.amount > Number(rule.max_amount)) return false;
+  if (rule.merchant && !matchesMerchant(input, rule.merchant)) return false;
+
+  if (rule.description_pattern) {
+    // A pattern that no longer compiles disables the rule rather than breaking ingest
+    if (!isValidPattern(rule.description_pattern)) return false;
+    if (!new RegExp(rule.description_pattern, 'i').test(input.description)) return false;
+  }
+
+  return true;
+}
+
+export function sortRules(rules: CategorizationRule[]): CategorizationRule[] {
+  return [...rules].sort((a, b) =>
+    a.priority - b.priority || (a.created_at ?? '').localeCompare(b.created_at ?? '')
+  );
+}
+
+export function findMatchingRule(rules: CategorizationRule[], input: RuleInput): CategorizationRule | null {
+  return sortRules(rules).find(rule => ruleMatches(rule, input)) ?? null;
+}
+
+/**
+ * The user's own rules first, then categories learned from their corrections,
+ * then the default category of the merchant in their directory, then the
+ * built-in keyword categorizer.
+ */
+export function categorizeWithRules(
+  rules: CategorizationRule[],
+  input: RuleInput,
+  history: CategoryCorrection[] = [],
+  merchants: Merchant[] = []
+): { category: string; rule: CategorizationRule | null } {
+  const rule = findMatchingRule(rules, input);
+  if (rule) return { category: rule.category, rule };
+
+  const learned = learnedCategory(history, input.description);
+  if (learned) return { category: learned.category, rule: null };
+
+  const merchant = matchMerchant(merchants, input.description);
+  if (merchant?.default_category) return { category: merchant.default_category, rule: null };
+
+  return { category: categorizeTransaction(input.description, input.type), rule: null };
+}
+
+/**
+ * What re-running the rules over existing transactions would change. Only
+ * transactions a rule matches are considered; the keyword fallback never
+ * overrides a category that is already set.
+ */
+export function previewRuleChanges(
+  rules: CategorizationRule[],
+  transactions: Array<RuleInput & { id: string; category: string }>
+): RuleChange[] {
+  const sorted = sortRules(rules);
+  const changes: RuleChange[] = [];
+
+  for (const transaction of transactions) {
+    const rule = sorted.find(candidate => ruleMatches(candidate, transaction));
+    if (rule && rule.category !== transaction.category) {
+      changes.push({
+        transactionId: transaction.id,
+        description: transaction.description,
+        from: transaction.category,
+        to: rule.category,
+        rule,
+      });
+    }
+  }
+
+  return changes;
+}
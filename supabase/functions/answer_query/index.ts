@@ -1,4 +1,22 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { convertTransactions, ConvertedTransaction, createConverter, CurrencyConverter, FxRate } from '../_shared/currency.ts';
+import { createFormatter, Formatter, normalizeFormatPreferences } from '../_shared/format.ts';
+import { Category, CATEGORY_SELECT, descendantNames } from '../_shared/categories.ts';
+import { AveragePer, DateRange, parseDateRanges, parseQuery, QueryFlow, QueryIntent, rangeDays } from '../_shared/query-intent.ts';
+import {
+  Citation,
+  CitationLog,
+  citedIn,
+  FINANCE_TOOLS,
+  FinanceToolCall,
+  FinanceToolName,
+  parseToolCall,
+  runFinanceTool,
+  ToolArgumentError,
+  ToolFilter,
+  ToolRow
+} from '../_shared/finance-tools.ts';
+import { chatCompletion, ChatMessage, LlmConfig, llmConfig } from '../_shared/llm-chat.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,11 +27,58 @@ const corsHeaders = {
 interface QueryRequest {
   preset?: 'groceries_30d' | 'top_category_this_month' | 'net_this_month_vs_last';
   text?: string;
+  // The user's local date, so "today" and "last week" follow their calendar rather than the server's
+  today?: string;
 }
 
+interface CategorizedRow {
+  category: string;
+  amount: number | string;
+  transaction_splits?: { category: string; amount: number | string }[] | null;
+}
+
+type QueryClient = ReturnType<typeof createClient>;
+
+// Totals are reported in the user's profile currency and written the way their locale expects
+interface BaseCurrency {
+  code: string;
+  convert: CurrencyConverter;
+  format: Formatter;
+}
+
+// Text questions read these, so merchants and descriptions can be matched
+const QUERY_SELECT = 'id, date, currency, amount, type, category, merchant, description, transaction_splits(category, amount)';
+
+interface QueryRow {
+  id: string;
+  date: string;
+  currency: string | null;
+  amount: number;
+  type: 'debit' | 'credit';
+  category: string;
+  merchant: string | null;
+  description: string;
+  transaction_splits?: { category: string; amount: number }[] | null;
+}
+
+interface IntentValue {
+  row: ConvertedTransaction<QueryRow>;
+  value: number;
+}
+
+// Supabase returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// How many times the model may call tools before it has to answer
+const MAX_TOOL_ROUNDS = 6;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
 interface QueryResponse {
   answerText: string;
   data?: any;
+  // The tool results an answer from the model is based on
+  citations?: Citation[];
 }
 
 Deno.serve(async (req: Request) => {
@@ -43,14 +108,24 @@ Deno.serve(async (req: Request) => {
       return new Response('Invalid authorization token', { status: 401, headers: corsHeaders });
     }
 
-    const { preset, text }: QueryRequest = await req.json();
+    const { preset, text, today: requestToday }: QueryRequest = await req.json();
+    const today = requestToday && /^\d{4}-\d{2}-\d{2}$/.test(requestToday) ? requestToday : new Date().toISOString().split('T')[0];
 
     let response: QueryResponse;
+    const base = await loadBaseCurrency(supabaseClient, user.id);
 
     if (preset) {
-      response = await handlePresetQuery(supabaseClient, user.id, preset);
+      response = await handlePresetQuery(supabaseClient, user.id, preset, base, today);
     } else if (text) {
-      response = await handleTextQuery(supabaseClient, user.id, text);
+      // With a model configured it answers first; the question parser covers for it when it can't
+      const llm = llmConfig();
+      const llmResponse = llm
+        ? await handleLlmQuery(supabaseClient, user.id, text, base, today, llm).catch(error => {
+          console.error('LLM query failed, falling back to the question parser:', error);
+          return null;
+        })
+        : null;
+      response = llmResponse ?? await handleTextQuery(supabaseClient, user.id, text, base, today);
     } else {
       return new Response('Either preset or text query required', { status: 400, headers: corsHeaders });
     }
@@ -75,159 +150,436 @@ Deno.serve(async (req: Request) => {
   }
 });
 
-async function handlePresetQuery(supabaseClient: any, userId: string, preset: string): Promise<QueryResponse> {
-  const now = new Date();
-  
+async function loadBaseCurrency(supabaseClient: QueryClient, userId: string): Promise<BaseCurrency> {
+  const { data: profile } = await supabaseClient
+    .from('profiles')
+    .select('currency, locale, week_start, date_format')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const rates: FxRate[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from('fx_rates')
+      .select('date, base_currency, quote_currency, rate')
+      .eq('user_id', userId)
+      .order('date')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    // Without rates, amounts in other currencies are counted as they are
+    if (error) {
+      console.error('Failed to load exchange rates:', error);
+      break;
+    }
+    rates.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const format = createFormatter(normalizeFormatPreferences(profile));
+  const code = format.preferences.currency;
+  return { code, convert: createConverter(rates, code), format };
+}
+
+// Presets read their periods the same way typed questions do, from the user's own date
+function presetRange(period: string, today: string): DateRange {
+  return parseDateRanges(period, today)[0];
+}
+
+async function handlePresetQuery(supabaseClient: QueryClient, userId: string, preset: string, base: BaseCurrency, today: string): Promise<QueryResponse> {
+  const { data: categoryRows } = await supabaseClient.from('categories').select(CATEGORY_SELECT).eq('user_id', userId);
+  const categories: Category[] = categoryRows || [];
+
   switch (preset) {
-    case 'groceries_30d':
-      const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      const { data: groceries } = await supabaseClient
-        .from('transactions')
-        .select('amount')
-        .eq('user_id', userId)
-        .eq('category', 'Groceries')
-        .eq('type', 'debit')
-        .gte('date', thirtyDaysAgo.toISOString().split('T')[0]);
-
-      const total = groceries?.reduce((sum: number, t: any) => sum + parseFloat(t.amount), 0) || 0;
+    case 'groceries_30d': {
+      // Sub-categories of Groceries count towards it, as in the typed question
+      const range = presetRange('last 30 days', today);
+      const intent: QueryIntent = { kind: 'total', flow: 'expense', range, category: 'Groceries' };
+      const total = sumValues(await loadIntentValues(supabaseClient, userId, intent, range, base, categories));
       return {
-        answerText: `You've spent $${total.toFixed(2)} on groceries in the last 30 days.`,
-        data: { amount: total, period: '30 days', category: 'Groceries' }
+        answerText: `You've spent ${base.format.money(total)} on groceries in the last 30 days.`,
+        data: { amount: total, currency: base.code, period: '30 days', category: 'Groceries' }
       };
+    }
+
+    case 'top_category_this_month': {
+      const range = presetRange('this month', today);
+      const intent: QueryIntent = { kind: 'top', flow: 'expense', range };
+      const values = await loadIntentValues(supabaseClient, userId, intent, range, base, categories);
+      const categoryTotals = sumByCategory(values.map(({ row }) => row));
+
+      const topCategory = Object.entries(categoryTotals).sort(([, a], [, b]) => b - a)[0];
 
-    case 'top_category_this_month':
-      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-      const { data: categories } = await supabaseClient
-        .from('transactions')
-        .select('category, amount')
-        .eq('user_id', userId)
-        .eq('type', 'debit')
-        .gte('date', startOfMonth.toISOString().split('T')[0]);
-
-      const categoryTotals = categories?.reduce((acc: any, t: any) => {
-        acc[t.category] = (acc[t.category] || 0) + parseFloat(t.amount);
-        return acc;
-      }, {}) || {};
-
-      const topCategory = Object.entries(categoryTotals).sort(([,a]: any, [,b]: any) => b - a)[0];
-      
       if (topCategory) {
         return {
-          answerText: `Your top spending category this month is ${topCategory[0]} with $${topCategory[1].toFixed(2)}.`,
-          data: { category: topCategory[0], amount: topCategory[1] }
+          answerText: `Your top spending category this month is ${topCategory[0]} with ${base.format.money(topCategory[1])}.`,
+          data: { category: topCategory[0], amount: topCategory[1], currency: base.code }
         };
       }
       return { answerText: "No transactions found for this month." };
+    }
 
-    case 'net_this_month_vs_last':
-      const thisMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-      const lastMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-      const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
-
-      const [{ data: thisMonth }, { data: lastMonth }] = await Promise.all([
-        supabaseClient
-          .from('transactions')
-          .select('amount, type')
-          .eq('user_id', userId)
-          .gte('date', thisMonthStart.toISOString().split('T')[0]),
-        supabaseClient
-          .from('transactions')
-          .select('amount, type')
-          .eq('user_id', userId)
-          .gte('date', lastMonthStart.toISOString().split('T')[0])
-          .lte('date', lastMonthEnd.toISOString().split('T')[0])
+    case 'net_this_month_vs_last': {
+      const thisMonth = presetRange('this month', today);
+      const lastMonth = presetRange('last month', today);
+      const intent: QueryIntent = { kind: 'compare', flow: 'net', range: thisMonth, compareTo: lastMonth };
+
+      const [thisMonthValues, lastMonthValues] = await Promise.all([
+        loadIntentValues(supabaseClient, userId, intent, thisMonth, base, categories),
+        loadIntentValues(supabaseClient, userId, intent, lastMonth, base, categories)
       ]);
 
-      const thisMonthNet = calculateNet(thisMonth || []);
-      const lastMonthNet = calculateNet(lastMonth || []);
+      const thisMonthNet = sumValues(thisMonthValues);
+      const lastMonthNet = sumValues(lastMonthValues);
       const difference = thisMonthNet - lastMonthNet;
 
       return {
-        answerText: `This month's net is $${thisMonthNet.toFixed(2)} vs last month's $${lastMonthNet.toFixed(2)} (${difference >= 0 ? '+' : ''}$${difference.toFixed(2)}).`,
-        data: { thisMonth: thisMonthNet, lastMonth: lastMonthNet, difference }
+        answerText: `This month's net is ${base.format.money(thisMonthNet)} vs last month's ${base.format.money(lastMonthNet)} (${difference >= 0 ? '+' : ''}${base.format.money(difference)}).`,
+        data: { thisMonth: thisMonthNet, lastMonth: lastMonthNet, difference, currency: base.code }
       };
+    }
 
     default:
       return { answerText: "Unknown preset query." };
   }
 }
 
-async function handleTextQuery(supabaseClient: any, userId: string, text: string): Promise<QueryResponse> {
-  const lower = text.toLowerCase();
+async function handleTextQuery(supabaseClient: QueryClient, userId: string, text: string, base: BaseCurrency, today: string): Promise<QueryResponse> {
+  const [{ data: categoryRows }, { data: merchantRows }] = await Promise.all([
+    supabaseClient.from('categories').select(CATEGORY_SELECT).eq('user_id', userId),
+    supabaseClient.from('merchants').select('name').eq('user_id', userId)
+  ]);
+  const categories: Category[] = categoryRows || [];
 
-  // Pattern: "how much did I spend on [category] in [month]"
-  const categoryMatch = lower.match(/how much.*on (\w+) in (\w+)/);
-  if (categoryMatch) {
-    const category = categoryMatch[1];
-    const month = monthNameToNumber(categoryMatch[2]);
-    
-    if (month !== -1) {
-      const year = new Date().getFullYear();
-      const startDate = new Date(year, month, 1);
-      const endDate = new Date(year, month + 1, 0);
-
-      const { data: transactions } = await supabaseClient
-        .from('transactions')
-        .select('amount')
-        .eq('user_id', userId)
-        .ilike('category', `%${category}%`)
-        .eq('type', 'debit')
-        .gte('date', startDate.toISOString().split('T')[0])
-        .lte('date', endDate.toISOString().split('T')[0]);
-
-      const total = transactions?.reduce((sum: number, t: any) => sum + parseFloat(t.amount), 0) || 0;
+  const intent = parseQuery(text, today, {
+    categories: categories.map(category => category.name),
+    merchants: (merchantRows || []).map((merchant: { name: string }) => merchant.name),
+    weekStart: base.format.preferences.weekStart
+  });
+
+  if (!intent) {
+    return {
+      answerText: 'I don\'t understand that question. Try "How much did I spend on groceries in March?", "Top 5 merchants this year" or "Income in Q2 2025 vs Q1 2025".'
+    };
+  }
+
+  return answerIntent(supabaseClient, userId, intent, base, categories, today);
+}
+
+function assistantPrompt(base: BaseCurrency, categories: Category[], today: string): string {
+  return `You answer questions about the user's own transactions using the tools provided.
+Today is ${today}. Amounts are in ${base.code}. Weeks start on ${WEEKDAYS[base.format.preferences.weekStart] ?? 'Monday'}.
+The user's categories are: ${JSON.stringify(categories.map(category => category.name))}.
+Only state figures returned by the tools; call a tool for every figure you mention and never estimate one.
+Every figure in a tool result has a "ref". Cite the refs you use in square brackets, e.g. "You spent 120.50 on Groceries in March [2]."
+Answer in one to three short sentences. If the tools find nothing, say so.`;
+}
+
+/**
+ * Answer a question by letting the configured model call the finance tools
+ * over the user's transactions. Returns null when the model answers without
+ * calling any, since nothing in its answer would come from the user's data, or
+ * keeps calling tools past MAX_TOOL_ROUNDS; the question parser answers then.
+ */
+async function handleLlmQuery(
+  supabaseClient: QueryClient,
+  userId: string,
+  text: string,
+  base: BaseCurrency,
+  today: string,
+  config: LlmConfig
+): Promise<QueryResponse | null> {
+  const { data: categoryRows } = await supabaseClient.from('categories').select(CATEGORY_SELECT).eq('user_id', userId);
+  const categories: Category[] = categoryRows || [];
+  const categoryNames = categories.map(category => category.name);
+
+  const log: CitationLog = { citations: [] };
+  const toolsUsed: FinanceToolName[] = [];
+  const messages: ChatMessage[] = [
+    { role: 'system', content: assistantPrompt(base, categories, today) },
+    { role: 'user', content: text }
+  ];
+
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const reply = await chatCompletion(config, messages, FINANCE_TOOLS);
+    messages.push(reply);
+
+    if (!reply.tool_calls) {
+      const answerText = reply.content?.trim();
+      if (!answerText || log.citations.length === 0) return null;
       return {
-        answerText: `You spent $${total.toFixed(2)} on ${category} in ${categoryMatch[2]}.`,
-        data: { amount: total, category, month: categoryMatch[2] }
+        answerText,
+        citations: citedIn(answerText, log),
+        data: { source: 'llm', model: config.model, tools: toolsUsed, currency: base.code }
       };
     }
+
+    for (const toolCall of reply.tool_calls) {
+      let result: Record<string, unknown>;
+      try {
+        const call = parseToolCall(toolCall.function.name, toolCall.function.arguments, categoryNames);
+        result = await runTool(supabaseClient, userId, call, base, categories, log);
+        toolsUsed.push(call.name);
+      } catch (error) {
+        if (!(error instanceof ToolArgumentError)) throw error;
+        result = { error: error.message };
+      }
+      messages.push({ role: 'tool', tool_call_id: toolCall.id, content: JSON.stringify(result) });
+    }
   }
 
-  // Pattern: "total spend last [X] days"
-  const daysMatch = lower.match(/total spend last (\d+) days/);
-  if (daysMatch) {
-    const days = parseInt(daysMatch[1]);
-    const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  return null;
+}
 
-    const { data: transactions } = await supabaseClient
-      .from('transactions')
-      .select('amount')
-      .eq('user_id', userId)
-      .eq('type', 'debit')
-      .gte('date', startDate.toISOString().split('T')[0]);
+async function runTool(
+  supabaseClient: QueryClient,
+  userId: string,
+  call: FinanceToolCall,
+  base: BaseCurrency,
+  categories: Category[],
+  log: CitationLog
+): Promise<Record<string, unknown>> {
+  const rows = await loadToolRows(supabaseClient, userId, call.filter, call.filter.range, base, categories);
+  const compareRows = call.name === 'compare_periods'
+    ? await loadToolRows(supabaseClient, userId, call.filter, call.compareTo, base, categories)
+    : undefined;
+  const weekStart = base.format.preferences.weekStart;
+  return { currency: base.code, ...runFinanceTool(call, rows, log, { weekStart, compareRows }) };
+}
 
-    const total = transactions?.reduce((sum: number, t: any) => sum + parseFloat(t.amount), 0) || 0;
+// The transactions a tool reads: the same ones a parsed question with its filter would
+async function loadToolRows(
+  supabaseClient: QueryClient,
+  userId: string,
+  filter: ToolFilter,
+  range: DateRange,
+  base: BaseCurrency,
+  categories: Category[]
+): Promise<ToolRow[]> {
+  const intent: QueryIntent = { kind: 'total', ...filter, range };
+  const values = await loadIntentValues(supabaseClient, userId, intent, range, base, categories);
+  const names = filter.category ? new Set(descendantNames(categories, filter.category)) : null;
+
+  return values.map(({ row, value }) => {
+    const sign = filter.flow === 'net' && row.type === 'debit' ? -1 : 1;
     return {
-      answerText: `You spent $${total.toFixed(2)} in the last ${days} days.`,
-      data: { amount: total, days }
+      id: row.id,
+      date: row.date,
+      merchant: row.merchant,
+      description: row.description,
+      type: row.type,
+      value,
+      allocations: allocations(row)
+        .filter(allocation => !names || names.has(allocation.category))
+        .map(allocation => ({ category: allocation.category, amount: sign * allocation.amount }))
     };
+  });
+}
+
+/**
+ * Each matching transaction with the part of it the intent counts, in the base
+ * currency: only its allocations to the category when one is asked about, and
+ * negative for debits when the question is about the net.
+ */
+async function loadIntentValues(
+  supabaseClient: QueryClient,
+  userId: string,
+  intent: QueryIntent,
+  range: DateRange,
+  base: BaseCurrency,
+  categories: Category[]
+): Promise<IntentValue[]> {
+  const rows: QueryRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabaseClient
+      .from('transactions')
+      .select(QUERY_SELECT)
+      .eq('user_id', userId)
+      .is('transfer_id', null)
+      .gte('date', range.start)
+      .lte('date', range.end);
+    if (intent.flow !== 'net') query = query.eq('type', intent.flow === 'income' ? 'credit' : 'debit');
+
+    const { data, error } = await query.order('date').order('id').range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const names = intent.category ? new Set(descendantNames(categories, intent.category)) : null;
+  const merchant = intent.merchant?.toLowerCase();
+  const search = intent.search?.toLowerCase();
+  const mentions = (row: QueryRow, term: string) =>
+    `${row.merchant ?? ''} ${row.description}`.toLowerCase().includes(term);
+
+  return convertTransactions(rows, base.convert).flatMap(row => {
+    if (merchant && !mentions(row, merchant)) return [];
+    if (search && !mentions(row, search) && !allocations(row).some(allocation => allocation.category.toLowerCase().includes(search))) return [];
+
+    const amount = names
+      ? allocations(row).filter(allocation => names.has(allocation.category)).reduce((sum, allocation) => sum + allocation.amount, 0)
+      : Number(row.amount);
+    if (names && amount === 0) return [];
+    return [{ row, value: intent.flow === 'net' && row.type === 'debit' ? -amount : amount }];
+  });
+}
+
+function describeSubject(intent: QueryIntent): string {
+  if (intent.category && intent.merchant) return ` on ${intent.category} at ${intent.merchant}`;
+  if (intent.category) return ` on ${intent.category}`;
+  if (intent.merchant && intent.search) return ` on ${intent.search} at ${intent.merchant}`;
+  if (intent.merchant) return ` at ${intent.merchant}`;
+  if (intent.search) return ` on ${intent.search}`;
+  return '';
+}
+
+function transactionNoun(flow: QueryFlow, count: number): string {
+  const nouns: Record<QueryFlow, string> = { expense: 'purchase', income: 'payment received', net: 'transaction' };
+  const noun = nouns[flow];
+  if (count === 1) return noun;
+  return flow === 'income' ? 'payments received' : `${noun}s`;
+}
+
+// Days, weeks or months an average is spread over; periods still to come don't count
+function averagePeriods(range: DateRange, per: AveragePer, today: string): number {
+  const end = range.end < today ? range.end : today;
+  if (end < range.start) return 0;
+  const days = rangeDays({ ...range, end });
+  if (per === 'day') return days;
+  if (per === 'week') return days / 7;
+  const [startYear, startMonth] = range.start.split('-').map(Number);
+  const [endYear, endMonth] = end.split('-').map(Number);
+  return (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
+}
+
+function sumValues(values: IntentValue[]): number {
+  return Math.round(values.reduce((sum, { value }) => sum + value, 0) * 100) / 100;
+}
+
+async function answerIntent(
+  supabaseClient: QueryClient,
+  userId: string,
+  intent: QueryIntent,
+  base: BaseCurrency,
+  categories: Category[],
+  today: string
+): Promise<QueryResponse> {
+  const money = base.format.money;
+  const subject = describeSubject(intent);
+  const { range } = intent;
+  const values = await loadIntentValues(supabaseClient, userId, intent, range, base, categories);
+  const total = sumValues(values);
+  const data = { intent, currency: base.code };
+
+  switch (intent.kind) {
+    case 'compare': {
+      const compareTo = intent.compareTo!;
+      const previous = sumValues(await loadIntentValues(supabaseClient, userId, intent, compareTo, base, categories));
+      const difference = Math.round((total - previous) * 100) / 100;
+      const percent = previous !== 0 ? Math.round((difference / Math.abs(previous)) * 1000) / 10 : null;
+      const sign = difference >= 0 ? '+' : '';
+      const change = `${sign}${money(difference)}${percent !== null ? `, ${sign}${percent}%` : ''}`;
+      const lead = { expense: 'You spent', income: 'You received', net: 'Your net was' }[intent.flow];
+      return {
+        answerText: `${lead} ${money(total)}${subject} ${range.label} vs ${money(previous)} ${compareTo.label} (${change}).`,
+        data: { ...data, amount: total, compareAmount: previous, difference, percent }
+      };
+    }
+
+    case 'count': {
+      const count = values.length;
+      return {
+        answerText: `You had ${count} ${transactionNoun(intent.flow, count)}${subject} ${range.label}, totalling ${money(total)}.`,
+        data: { ...data, count, amount: total }
+      };
+    }
+
+    case 'average': {
+      const per = intent.per ?? 'transaction';
+      const periods = per === 'transaction' ? values.length : averagePeriods(range, per, today);
+      const average = periods > 0 ? Math.round((total / periods) * 100) / 100 : 0;
+      const answerText = per === 'transaction'
+        ? `Your average ${transactionNoun(intent.flow, 1)}${subject} ${range.label} was ${money(average)} across ${values.length} ${transactionNoun(intent.flow, values.length)}.`
+        : `On average ${intent.flow === 'net' ? 'your net was' : intent.flow === 'income' ? 'you received' : 'you spent'} ${money(average)} per ${per}${subject} ${range.label}.`;
+      return { answerText, data: { ...data, average, per, periods, amount: total } };
+    }
+
+    case 'top': {
+      const limit = intent.limit ?? 1;
+      const groupBy = intent.groupBy ?? 'category';
+      let ranked: Array<{ name: string; amount: number; date?: string }>;
+
+      if (groupBy === 'transaction') {
+        ranked = values
+          .map(({ row, value }) => ({ name: row.merchant || row.description, amount: Math.abs(value), date: row.date }))
+          .sort((a, b) => b.amount - a.amount);
+      } else {
+        const names = intent.category ? new Set(descendantNames(categories, intent.category)) : null;
+        const totals: Record<string, number> = {};
+        for (const { row, value } of values) {
+          if (groupBy === 'merchant') {
+            const name = row.merchant || row.description;
+            totals[name] = (totals[name] || 0) + Math.abs(value);
+            continue;
+          }
+          for (const allocation of allocations(row)) {
+            if (names && !names.has(allocation.category)) continue;
+            totals[allocation.category] = (totals[allocation.category] || 0) + allocation.amount;
+          }
+        }
+        ranked = Object.entries(totals)
+          .map(([name, amount]) => ({ name, amount: Math.round(amount * 100) / 100 }))
+          .sort((a, b) => b.amount - a.amount);
+      }
+
+      const top = ranked.slice(0, limit);
+      const noun = { category: 'category', merchant: 'merchant', transaction: transactionNoun(intent.flow, 1) }[groupBy];
+      const nounPlural = { category: 'categories', merchant: 'merchants', transaction: transactionNoun(intent.flow, 2) }[groupBy];
+      const describe = (entry: { name: string; amount: number; date?: string }) =>
+        `${entry.name} (${money(entry.amount)}${entry.date ? ` on ${base.format.date(entry.date)}` : ''})`;
+
+      if (top.length === 0) {
+        return { answerText: `No ${transactionNoun(intent.flow, 2)} found${subject} ${range.label}.`, data: { ...data, top } };
+      }
+      if (limit === 1) {
+        const adjective = groupBy === 'transaction' ? 'largest' : 'top';
+        return { answerText: `Your ${adjective} ${noun}${subject} ${range.label} was ${describe(top[0])}.`, data: { ...data, top } };
+      }
+      return {
+        answerText: `Your top ${top.length} ${nounPlural}${subject} ${range.label}: ${top.map(describe).join(', ')}.`,
+        data: { ...data, top }
+      };
+    }
+
+    default: {
+      const answerText = intent.flow === 'net'
+        ? `Your net${subject} ${range.label} was ${money(total)}.`
+        : `You ${intent.flow === 'income' ? 'received' : 'spent'} ${money(total)}${subject} ${range.label}.`;
+      return { answerText, data: { ...data, amount: total, count: values.length } };
+    }
   }
+}
+
+// The category amounts a transaction is counted under: its splits when they
+// add up to it, otherwise the whole amount under its own category
+function allocations(t: CategorizedRow): Array<{ category: string; amount: number }> {
+  const amount = parseFloat(String(t.amount));
+  const splits = t.transaction_splits || [];
+  const splitTotal = splits.reduce((sum, split) => sum + parseFloat(String(split.amount)), 0);
 
-  return { answerText: "I don't understand that query. Try asking about spending on specific categories or time periods." };
-}
-
-function calculateNet(transactions: any[]): number {
-  return transactions.reduce((net, t) => {
-    const amount = parseFloat(t.amount);
-    return t.type === 'credit' ? net + amount : net - amount;
-  }, 0);
-}
-
-function monthNameToNumber(monthName: string): number {
-  const months = {
-    january: 0, jan: 0,
-    february: 1, feb: 1,
-    march: 2, mar: 2,
-    april: 3, apr: 3,
-    may: 4,
-    june: 5, jun: 5,
-    july: 6, jul: 6,
-    august: 7, aug: 7,
-    september: 8, sep: 8, sept: 8,
-    october: 9, oct: 9,
-    november: 10, nov: 10,
-    december: 11, dec: 11
-  };
-  
-  return months[monthName.toLowerCase()] ?? -1;
-}
\ No newline at end of file
+  // Splits that no longer add up to the transaction are ignored, same as the web app
+  if (splits.length > 0 && Math.abs(splitTotal - amount) < 0.005) {
+    return splits.map(split => ({ category: split.category, amount: parseFloat(String(split.amount)) }));
+  }
+  return [{ category: t.category, amount }];
+}
+
+function sumByCategory(transactions: CategorizedRow[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const t of transactions) {
+    for (const allocation of allocations(t)) {
+      totals[allocation.category] = (totals[allocation.category] || 0) + allocation.amount;
+    }
+  }
+  return totals;
+}
@@ -1,7 +1,39 @@
 // deno-lint-ignore-file no-explicit-any
-import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
 import { categorizeTransaction } from '../_shared/categorizer.ts';
-import { parseReceiptText } from '../_shared/receipt-parser.ts';
+import { extractLineItems, ParsedLineItem, parseReceiptText } from '../_shared/receipt-parser.ts';
+import { OcrAttempt, OcrChainResult, resolveOcrChain, runOcrChain, runPdfOcrChain } from '../_shared/ocr/chain.ts';
+import { OcrProvider } from '../_shared/ocr/provider.ts';
+import { hasTextLayer, isPdf, readPdfPages, UnreadablePdfError } from '../_shared/pdf.ts';
+import { PDF_PAGE_CONCURRENCY } from '../_shared/pdf-limits.ts';
+import {
+  DUPLICATE_DATE_WINDOW_DAYS,
+  DuplicateCandidate,
+  ExistingTransaction,
+  findDuplicateCandidates,
+  scoreDuplicate,
+  sha256Hex,
+  shiftDate,
+} from '../_shared/duplicates.ts';
+import { estimateFieldConfidence } from '../_shared/field-confidence.ts';
+import { CategorizationRule, findMatchingRule, RULE_SELECT } from '../_shared/rules.ts';
+import {
+  CategoryCorrection,
+  CORRECTION_HISTORY_LIMIT,
+  CORRECTION_SELECT,
+  LearnedCategory,
+  learnedCategory,
+} from '../_shared/category-learning.ts';
+import { CATEGORY_SELECT, DEFAULT_CATEGORY_NAMES, activeCategoryNames, normalizeCategory } from '../_shared/categories.ts';
+import {
+  canonicalMerchantName,
+  matchMerchant,
+  Merchant,
+  MERCHANT_SELECT,
+  MerchantRow,
+  toMerchant,
+} from '../_shared/merchants.ts';
+import { detectCurrency, isCurrencyCode } from '../_shared/currency.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,8 +43,82 @@ const corsHeaders = {
 
 interface ProcessImageRequest {
   imagePath: string;
+  ocrOnly?: boolean;
+  // With ocrOnly, the page of a multi-page PDF whose text is wanted
+  page?: number;
+  // Return the extracted candidate for review instead of saving it
+  draft?: boolean;
+  // Values the user reviewed and confirmed; saved without running OCR again
+  confirmed?: ConfirmedReceipt;
+  // Sent after the user has reviewed a duplicate warning for this upload
+  duplicateAction?: 'keep_both' | 'merge';
+  mergeIntoId?: string;
 }
 
+interface StructuredReceipt {
+  date: string;
+  type: 'debit' | 'credit';
+  category: string;
+  description: string;
+  merchant: string | null;
+  amount: number;
+  // ISO code read from the receipt; null means the user's profile currency
+  currency: string | null;
+  notes: string | null;
+  items: ParsedLineItem[];
+}
+
+interface ConfirmedReceipt extends Omit<StructuredReceipt, 'items' | 'merchant' | 'currency'> {
+  merchant?: string | null;
+  currency?: string | null;
+  items?: ParsedLineItem[];
+  ocr_provider?: string | null;
+  ocr_confidence?: number | null;
+}
+
+interface SaveReceiptOptions {
+  userId: string;
+  imagePath: string;
+  imageHash: string;
+  ocrProvider: string | null;
+  ocrConfidence: number | null;
+  structuredData: StructuredReceipt;
+  duplicateAction?: 'keep_both' | 'merge';
+  mergeIntoId?: string;
+  debug: Record<string, unknown> | null;
+}
+
+// Merging a re-uploaded image skips OCR, so there may be nothing read from it to fill in
+interface MergeOptions extends Omit<SaveReceiptOptions, 'structuredData' | 'duplicateAction' | 'mergeIntoId'> {
+  structuredData: StructuredReceipt | null;
+}
+
+interface ExtractedPage {
+  // 1-based page number for PDFs; null for a photo
+  page: number | null;
+  text: string;
+  provider: string;
+  confidence: number;
+  attempts: OcrAttempt[];
+}
+
+interface ReceiptCandidate {
+  page: ExtractedPage;
+  structuredData: StructuredReceipt;
+  source: 'gemini' | 'legacy';
+  // The user's rule that set the category, if any
+  rule?: CategorizationRule | null;
+  // Otherwise, the earlier correction the category was learned from
+  learned?: LearnedCategory | null;
+  // Otherwise, the directory merchant whose default category was used
+  merchantDefault?: Merchant | null;
+}
+
+// Recorded as the OCR provider for PDF pages read from their embedded text
+const PDF_TEXT_PROVIDER = 'pdf-text';
+
+const DUPLICATE_SELECT = 'id, date, amount, currency, type, description, category, image_hash';
+
 Deno.serve(async (req: Request) => {
   try {
     if (req.method === 'OPTIONS') {
@@ -26,7 +132,6 @@ Deno.serve(async (req: Request) => {
     // Check required environment variables
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-    const ocrProvider = Deno.env.get('OCR_PROVIDER') || 'google';
     
     if (!supabaseUrl || !serviceRoleKey) {
       console.error('Missing required environment variables: SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
@@ -37,27 +142,12 @@ Deno.serve(async (req: Request) => {
     }
 
     // Check OCR provider configuration
-    if (ocrProvider === 'google' && !Deno.env.get('GOOGLE_VISION_API_KEY')) {
-      console.error('Missing GOOGLE_VISION_API_KEY for Google Vision OCR');
-      return new Response(
-        JSON.stringify({ error: 'OCR service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-    
-    if (ocrProvider === 'ocrspace' && !Deno.env.get('OCRSPACE_API_KEY')) {
-      console.error('Missing OCRSPACE_API_KEY for OCR.Space');
-      return new Response(
-        JSON.stringify({ error: 'OCR service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const { providers: ocrProviders, problems: ocrProblems } = resolveOcrChain();
+    ocrProblems.forEach(problem => console.error(problem));
 
-    // If no valid OCR provider is configured, return error
-    if (ocrProvider !== 'google' && ocrProvider !== 'ocrspace') {
-      console.error('Invalid OCR provider:', ocrProvider);
+    if (ocrProviders.length === 0) {
       return new Response(
-        JSON.stringify({ error: 'Invalid OCR provider configured' }),
+        JSON.stringify({ error: 'OCR service not configured' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -93,7 +183,7 @@ Deno.serve(async (req: Request) => {
       return new Response('Invalid request body', { status: 400, headers: corsHeaders });
     }
 
-    const { imagePath }: ProcessImageRequest = requestBody;
+    const { imagePath, ocrOnly = false, page, draft = false, confirmed, duplicateAction, mergeIntoId }: ProcessImageRequest = requestBody;
     
     if (!imagePath) {
       console.error('Missing imagePath in request');
@@ -106,69 +196,129 @@ Deno.serve(async (req: Request) => {
       return new Response('Unauthorized access to image', { status: 403, headers: corsHeaders });
     }
 
-    // Perform OCR
-    let ocrText;
+    if (duplicateAction === 'merge' && !mergeIntoId) {
+      return new Response('Missing mergeIntoId', { status: 400, headers: corsHeaders });
+    }
+
+    // Download and hash the image so a re-upload of the same receipt is caught before paying for OCR
+    let imageBytes: Uint8Array;
+    let imageHash: string;
+    try {
+      imageBytes = await downloadImage(supabaseClient, imagePath);
+      imageHash = await sha256Hex(imageBytes);
+    } catch (error) {
+      console.error('Image download failed:', error);
+      return new Response(
+        JSON.stringify({ error: 'Failed to process image' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!ocrOnly && !duplicateAction) {
+      const { data: sameImage } = await supabaseClient
+        .from('transactions')
+        .select(DUPLICATE_SELECT)
+        .eq('user_id', user.id)
+        .eq('image_hash', imageHash)
+        // Other pages of this same PDF are not duplicates of each other
+        .neq('image_path', imagePath)
+        .limit(5);
+
+      if (sameImage && sameImage.length > 0) {
+        const candidates = sameImage
+          .map((existing: ExistingTransaction) => scoreDuplicate({ ...existing, image_hash: imageHash }, existing))
+          .filter((match: DuplicateCandidate | null): match is DuplicateCandidate => match !== null);
+        return duplicateResponse(candidates, null);
+      }
+    }
+
+    // The same image is already saved, so there is nothing new to read: attach the upload without OCR
+    if (duplicateAction === 'merge' && !confirmed) {
+      return await mergeIntoExisting(supabaseClient, {
+        userId: user.id,
+        imagePath,
+        imageHash,
+        ocrProvider: null,
+        ocrConfidence: null,
+        structuredData: null,
+        debug: null,
+      }, mergeIntoId!);
+    }
+
+    if (confirmed) {
+      const reviewed = validateConfirmedReceipt(confirmed);
+      if (!reviewed) {
+        return new Response(
+          JSON.stringify({ error: 'Confirmed receipt is missing a valid date, amount or type' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return await saveReceipt(supabaseClient, {
+        userId: user.id,
+        imagePath,
+        imageHash,
+        ocrProvider: confirmed.ocr_provider ?? null,
+        ocrConfidence: confirmed.ocr_confidence ?? null,
+        structuredData: reviewed,
+        duplicateAction,
+        mergeIntoId,
+        debug: null,
+      });
+    }
+
+    // Read the text of every page (a photo is a single page)
+    let pages: ExtractedPage[];
     try {
-      ocrText = await performOCR(supabaseClient, imagePath);
+      pages = await extractPages(ocrProviders, imageBytes);
     } catch (error) {
+      if (error instanceof UnreadablePdfError) {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
       console.error('OCR processing failed:', error);
       return new Response(
         JSON.stringify({ error: 'Failed to process image' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
-    
-    if (!ocrText) {
+
+    pages = pages.filter(page => page.text);
+    if (pages.length === 0) {
       console.error('No text extracted from image');
       return new Response('Failed to extract text from image', { status: 500, headers: corsHeaders });
     }
 
+    const ocrText = pages.map(page => page.text).join('\n\n');
+    const ocrDebug = {
+      ocrText,
+      ocrProvider: pages[0].provider,
+      ocrConfidence: pages[0].confidence,
+      ocrAttempts: pages.flatMap(page => page.attempts),
+      pages: pages.length,
+    };
+
+    // "Refresh OCR" only wants the text back; nothing is saved
+    if (ocrOnly) {
+      const text = page ? pages.filter(candidate => candidate.page === page).map(candidate => candidate.text).join('\n\n') : ocrText;
+      return new Response(
+        JSON.stringify({ text, debug: ocrDebug }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      );
+    }
+
     // Parse the OCR text
-    let structuredData;
+    let candidates: ReceiptCandidate[];
     try {
-      console.log('Raw OCR text to parse:', JSON.stringify(ocrText));
-      
-      // Call Gemini structure extraction
-      const structureResponse = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/structure_with_gemini`, {
-        method: 'POST',
-        headers: {
-          'Authorization': authorization,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ ocrText })
-      });
-
-      if (!structureResponse.ok) {
-        console.error('Gemini structure extraction failed, falling back to legacy parser');
-        // Fallback to legacy parsing
-        const legacyParsed = parseReceiptText(ocrText);
-        const legacyCategory = categorizeTransaction(legacyParsed.description, legacyParsed.type);
-        structuredData = {
-          date: legacyParsed.date,
-          type: legacyParsed.type,
-          category: legacyCategory,
-          description: legacyParsed.description,
-          amount: legacyParsed.amount,
-          notes: null
-        };
-      } else {
-        const structureResult = await structureResponse.json();
-        if (structureResult.ok && structureResult.record) {
-          const record = structureResult.record;
-          structuredData = {
-            date: record.date || new Date().toISOString().split('T')[0],
-            type: record.type === 'in' ? 'credit' : 'debit',
-            category: record.category,
-            description: record.sub_category || 'Transaction',
-            amount: record.amount,
-            notes: record.note
-          };
-        } else {
-          throw new Error('Gemini structure extraction returned invalid result');
-        }
-      }
-      
-      console.log('Structured transaction data:', JSON.stringify(structuredData));
+      const rules = await loadCategorizationRules(supabaseClient, user.id);
+      const history = await loadCategoryCorrections(supabaseClient, user.id);
+      const categoryNames = await loadCategoryNames(supabaseClient, user.id);
+      const merchants = await loadMerchants(supabaseClient, user.id);
+      candidates = (await structurePages(pages, authorization, categoryNames))
+        .map(candidate => applyUserCategories(rules, history, merchants, candidate));
+      console.log('Structured transaction data:', JSON.stringify(candidates.map(candidate => candidate.structuredData)));
     } catch (error) {
       console.error('Failed to structure receipt data:', error);
       return new Response(
@@ -177,37 +327,55 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Insert transaction into database
-    const { data: transaction, error: dbError } = await supabaseClient
-      .from('transactions')
-      .insert({
-        user_id: user.id,
-        date: structuredData.date,
-        description: structuredData.description,
-        amount: structuredData.amount,
-        type: structuredData.type,
-        category: structuredData.category,
-        notes: structuredData.notes,
-        image_path: imagePath,
-      })
-      .select()
-      .single();
+    if (draft) {
+      const drafts = [];
+      for (const { page, structuredData, source, rule, learned, merchantDefault } of candidates) {
+        const confidence = estimateFieldConfidence(page.text, page.confidence, structuredData, source);
+        // The user's own rule is authoritative; their past corrections and merchant defaults nearly so
+        if (rule) confidence.category = 1;
+        else if (learned || merchantDefault) confidence.category = Math.max(confidence.category, 0.9);
+        const duplicates = duplicateAction ? [] : await findNearbyDuplicates(supabaseClient, user.id, structuredData, imageHash);
+        drafts.push({
+          draft: {
+            ...structuredData,
+            image_path: imagePath,
+            page: page.page,
+            category_rule: rule?.name ?? null,
+            category_learned_from: learned?.merchant ?? null,
+            category_merchant_default: merchantDefault?.name ?? null,
+            ocr_provider: page.provider,
+            ocr_confidence: page.confidence,
+            confidence,
+          },
+          duplicates,
+          ocr_text: page.text,
+        });
+      }
 
-    if (dbError) {
-      console.error('Database error:', dbError);
+      // `draft` and `duplicates` describe the first candidate; multi-page documents list every page in `drafts`
       return new Response(
-        JSON.stringify({ error: 'Failed to save transaction', details: dbError.message }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({
+          draft: drafts[0].draft,
+          duplicates: drafts[0].duplicates,
+          drafts,
+          debug: { ...ocrDebug, structuredData: candidates.map(candidate => candidate.structuredData) },
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
       );
     }
 
-    return new Response(
-      JSON.stringify({ transaction, debug: { ocrText, structuredData } }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200 
-      }
-    );
+    const [{ page: firstPage, structuredData }] = candidates;
+    return await saveReceipt(supabaseClient, {
+      userId: user.id,
+      imagePath,
+      imageHash,
+      ocrProvider: firstPage.provider,
+      ocrConfidence: firstPage.confidence,
+      structuredData,
+      duplicateAction,
+      mergeIntoId,
+      debug: { ...ocrDebug, structuredData },
+    });
 
   } catch (error) {
     console.error('Unexpected error in process_image function:', error);
@@ -221,183 +389,523 @@ Deno.serve(async (req: Request) => {
   }
 });
 
-async function performOCR(supabaseClient: any, imagePath: string): Promise<string> {
-  const ocrProvider = Deno.env.get('OCR_PROVIDER') || 'google';
+// Text from each page of the upload. Photos go through the OCR chain; PDFs are
+// read from their embedded text, and pages that are only a scan go through the
+// providers in the chain that accept PDFs.
+async function extractPages(providers: OcrProvider[], bytes: Uint8Array): Promise<ExtractedPage[]> {
+  if (!isPdf(bytes)) {
+    const result = await runOcrChain(providers, bytes);
+    return [{ page: null, text: result.text, provider: result.provider, confidence: result.confidence, attempts: result.attempts }];
+  }
 
-  console.log('Using OCR provider:', ocrProvider);
+  const { pages, totalPages } = await readPdfPages(bytes);
+  if (totalPages > pages.length) {
+    console.log(`PDF has ${totalPages} pages, only the first ${pages.length} are processed`);
+  }
 
-  if (ocrProvider === 'google') {
-    return await performGoogleVisionOCR(supabaseClient, imagePath);
-  } else {
-    return await performOCRSpaceOCR(supabaseClient, imagePath);
+  const scanned = pages.filter(page => !hasTextLayer(page)).map(page => page.pageNumber);
+  let ocr = new Map<number, OcrChainResult>();
+  if (scanned.length > 0) {
+    ocr = await runPdfOcrChain(providers, bytes, scanned);
+    console.log(`OCR read ${ocr.size} of ${scanned.length} scanned PDF page(s)`);
   }
-}
 
-async function performGoogleVisionOCR(supabaseClient: any, imagePath: string): Promise<string> {
-  const apiKey = Deno.env.get('GOOGLE_VISION_API_KEY');
-  if (!apiKey) {
-    throw new Error('Google Vision API key not configured');
+  const extracted: ExtractedPage[] = [];
+  for (const page of pages) {
+    if (hasTextLayer(page)) {
+      extracted.push({ page: page.pageNumber, text: page.text, provider: PDF_TEXT_PROVIDER, confidence: 1, attempts: [] });
+      continue;
+    }
+    const result = ocr.get(page.pageNumber);
+    if (result) {
+      extracted.push({ page: page.pageNumber, text: result.text, provider: result.provider, confidence: result.confidence, attempts: result.attempts });
+    }
   }
 
-  console.log('Downloading image from Supabase Storage...');
+  if (extracted.length === 0) {
+    throw new UnreadablePdfError('No text could be read from this PDF. Upload a photo or screenshot of the receipt instead.');
+  }
+  return extracted;
+}
 
-  // Download the image file directly from Supabase Storage
-  const { data: fileData, error: downloadError } = await supabaseClient
-    .storage
-    .from('receipts')
-    .download(imagePath);
+// `fn` over every item with at most `limit` running at once; results keep the items' order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
 
-  if (downloadError || !fileData) {
-    console.error('Failed to download image:', downloadError);
-    throw new Error('Failed to download image from storage');
+async function structureReceiptText(
+  ocrText: string,
+  authorization: string,
+  categoryNames: string[]
+): Promise<{ structuredData: StructuredReceipt; source: 'gemini' | 'legacy' }> {
+  console.log('Raw OCR text to parse:', JSON.stringify(ocrText));
+
+  // Call Gemini structure extraction
+  const structureResponse = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/structure_with_gemini`, {
+    method: 'POST',
+    headers: {
+      'Authorization': authorization,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ocrText, categories: categoryNames })
+  });
+
+  if (!structureResponse.ok) {
+    console.error('Gemini structure extraction failed, falling back to legacy parser');
+    // Fallback to legacy parsing
+    const legacyParsed = parseReceiptText(ocrText);
+    const legacyCategory = categorizeTransaction(legacyParsed.description, legacyParsed.type);
+    return {
+      source: 'legacy',
+      structuredData: {
+        date: legacyParsed.date,
+        type: legacyParsed.type,
+        category: normalizeCategory(legacyCategory, categoryNames),
+        description: legacyParsed.description,
+        merchant: legacyParsed.description === 'Unknown Merchant' ? null : legacyParsed.description,
+        amount: legacyParsed.amount,
+        currency: detectCurrency(ocrText),
+        notes: null,
+        items: legacyParsed.items
+      }
+    };
   }
 
-  // Convert file to base64
-  const arrayBuffer = await fileData.arrayBuffer();
-  const uint8Array = new Uint8Array(arrayBuffer);
-  
-  // Convert to base64 using btoa with proper encoding
-  const base64 = btoa(String.fromCharCode(...uint8Array));
-  
-  // Basic sanity check
-  if (!base64 || !/^[A-Za-z0-9+/]+=*$/.test(base64)) {
-    throw new Error('Invalid base64 content generated from image');
+  const structureResult = await structureResponse.json();
+  if (!structureResult.ok || !structureResult.record) {
+    throw new Error('Gemini structure extraction returned invalid result');
   }
 
-  console.log(`Image converted to base64, length: ${base64.length}`);
-
-  // Build Vision API request
-  const visionRequest = {
-    requests: [
-      {
-        image: { content: base64 },
-        features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
-      },
-    ],
+  const record = structureResult.record;
+  return {
+    source: 'gemini',
+    structuredData: {
+      date: record.date || new Date().toISOString().split('T')[0],
+      type: record.type === 'in' ? 'credit' : 'debit',
+      category: normalizeCategory(record.category, categoryNames),
+      description: record.sub_category || 'Transaction',
+      merchant: record.sub_category || null,
+      amount: record.amount,
+      currency: isCurrencyCode(record.currency) ? record.currency : detectCurrency(ocrText),
+      notes: record.note,
+      // Fall back to the line-item heuristics when Gemini returns no breakdown
+      items: record.items?.length
+        ? record.items
+        : extractLineItems(ocrText.split('\n').map((line: string) => line.trim()).filter((line: string) => line.length > 0))
+    }
   };
+}
 
-  console.log('Calling Google Vision API...');
-
-  const endpoint = `https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`;
-  
-  let response;
-  try {
-    response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(visionRequest),
-    });
+/**
+ * One candidate transaction per page. On multi-page documents, pages without
+ * an amount (terms, continuation pages) are dropped, as are pages repeating a
+ * total already seen; if nothing is left the whole document is read as one receipt.
+ */
+async function structurePages(
+  pages: ExtractedPage[],
+  authorization: string,
+  categoryNames: string[]
+): Promise<ReceiptCandidate[]> {
+  if (pages.length === 1) {
+    return [{ page: pages[0], ...await structureReceiptText(pages[0].text, authorization, categoryNames) }];
+  }
 
-    const responseText = await response.text();
-    
-    if (!response.ok) {
-      // Try to parse error details
-      try {
-        const errorJson = JSON.parse(responseText);
-        const errorMessage = errorJson?.error?.message ?? 
-                           errorJson?.responses?.[0]?.error?.message ?? 
-                           JSON.stringify(errorJson);
-        console.error('Google Vision API error details:', errorMessage);
-        throw new Error(`Vision API ${response.status}: ${errorMessage}`);
-      } catch (parseError) {
-        console.error('Google Vision API error (raw):', responseText);
-        throw new Error(`Vision API ${response.status}: ${responseText}`);
-      }
+  // Pages are structured side by side so long documents finish within the client's timeout
+  const structured = await mapWithConcurrency(pages, PDF_PAGE_CONCURRENCY, async page => {
+    try {
+      return { page, ...await structureReceiptText(page.text, authorization, categoryNames) };
+    } catch (error) {
+      console.error(`Failed to structure PDF page ${page.page}:`, error);
+      return null;
     }
+  });
 
-    const result = JSON.parse(responseText);
-    console.log('Google Vision API response received successfully');
+  const candidates: ReceiptCandidate[] = [];
+  for (const candidate of structured) {
+    if (!candidate || !(candidate.structuredData.amount > 0)) continue;
 
-    // Check for API-level errors in the response
-    if (result.responses?.[0]?.error) {
-      console.error('Google Vision API returned error:', result.responses[0].error);
-      throw new Error(`Google Vision API error: ${result.responses[0].error.message}`);
-    }
-    
-    // Try DOCUMENT_TEXT_DETECTION first (more accurate for receipts)
-    const fullTextAnnotation = result.responses?.[0]?.fullTextAnnotation?.text;
-    if (fullTextAnnotation) {
-      console.log('Successfully extracted text from image using DOCUMENT_TEXT_DETECTION');
-      return fullTextAnnotation;
-    }
-    
-    // Fallback to TEXT_DETECTION
-    const textAnnotation = result.responses?.[0]?.textAnnotations?.[0]?.description;
-    if (textAnnotation) {
-      console.log('Successfully extracted text from image using TEXT_DETECTION fallback');
-      return textAnnotation;
+    const repeatsTotal = candidates.some(existing =>
+      existing.structuredData.date === candidate.structuredData.date &&
+      Math.round(existing.structuredData.amount * 100) === Math.round(candidate.structuredData.amount * 100)
+    );
+    if (!repeatsTotal) {
+      candidates.push(candidate);
     }
+  }
 
-    console.log('No text detected in image by Google Vision');
-    throw new Error('No text detected in image');
+  if (candidates.length > 0) return candidates;
 
-  } catch (error) {
-    console.error('Google Vision API request failed:', error);
-    throw error;
+  const wholeDocument = { ...pages[0], text: pages.map(page => page.text).join('\n\n') };
+  return [{ page: wholeDocument, ...await structureReceiptText(wholeDocument.text, authorization, categoryNames) }];
+}
+
+async function loadCategorizationRules(supabaseClient: SupabaseClient, userId: string): Promise<CategorizationRule[]> {
+  const { data, error } = await supabaseClient
+    .from('categorization_rules')
+    .select(RULE_SELECT)
+    .eq('user_id', userId)
+    .eq('enabled', true);
+
+  if (error) {
+    console.error('Failed to load categorization rules, continuing without them:', error);
+    return [];
+  }
+  return data ?? [];
+}
+
+// Users who have never opened the app since categories were added have none yet
+async function loadCategoryNames(supabaseClient: SupabaseClient, userId: string): Promise<string[]> {
+  const { data, error } = await supabaseClient
+    .from('categories')
+    .select(CATEGORY_SELECT)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Failed to load categories, using the defaults:', error);
+    return DEFAULT_CATEGORY_NAMES;
   }
+  const names = activeCategoryNames(data ?? []);
+  return names.length > 0 ? names : DEFAULT_CATEGORY_NAMES;
 }
 
-async function performOCRSpaceOCR(supabaseClient: any, imagePath: string): Promise<string> {
-  const apiKey = Deno.env.get('OCRSPACE_API_KEY');
-  if (!apiKey) {
-    throw new Error('OCR.Space API key not configured');
+async function loadCategoryCorrections(supabaseClient: SupabaseClient, userId: string): Promise<CategoryCorrection[]> {
+  const { data, error } = await supabaseClient
+    .from('category_corrections')
+    .select(CORRECTION_SELECT)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(CORRECTION_HISTORY_LIMIT);
+
+  if (error) {
+    console.error('Failed to load category corrections, continuing without them:', error);
+    return [];
   }
+  return data ?? [];
+}
 
-  console.log('Getting signed URL for OCR.Space...');
+async function loadMerchants(supabaseClient: SupabaseClient, userId: string): Promise<Merchant[]> {
+  const { data, error } = await supabaseClient
+    .from('merchants')
+    .select(MERCHANT_SELECT)
+    .eq('user_id', userId);
 
-  // Get signed URL for the image (OCR.Space needs a public URL)
-  const { data: signedUrlData, error: urlError } = await supabaseClient
-    .storage
-    .from('receipts')
-    .createSignedUrl(imagePath, 300); // 5 minutes
+  if (error) {
+    console.error('Failed to load merchants, continuing without them:', error);
+    return [];
+  }
+  return ((data ?? []) as MerchantRow[]).map(toMerchant);
+}
+
+/**
+ * The directory merchant a saved receipt belongs to, created on first sight.
+ * A new spelling of a known merchant is kept as an alias. Failures only cost
+ * the link, never the transaction.
+ */
+async function findOrCreateMerchant(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  rawName: string | null
+): Promise<Merchant | null> {
+  const raw = rawName?.trim();
+  if (!raw) return null;
+
+  let merchant = matchMerchant(await loadMerchants(supabaseClient, userId), raw);
+  if (!merchant) {
+    const { data, error } = await supabaseClient
+      .from('merchants')
+      .upsert({ user_id: userId, name: canonicalMerchantName(raw) }, { onConflict: 'user_id,name' })
+      .select(MERCHANT_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Failed to add merchant:', error);
+      return null;
+    }
+    merchant = toMerchant(data as MerchantRow);
+  }
+
+  if (raw !== merchant.name && !merchant.aliases.includes(raw)) {
+    const { error } = await supabaseClient
+      .from('merchant_aliases')
+      .upsert({ user_id: userId, merchant_id: merchant.id, alias: raw }, { onConflict: 'merchant_id,alias', ignoreDuplicates: true });
+    if (error) console.error('Failed to add merchant alias:', error);
+  }
+  return merchant;
+}
 
-  if (urlError || !signedUrlData) {
-    console.error('Failed to get signed URL:', urlError);
-    throw new Error('Failed to get image URL for OCR processing');
+// The user's rules win, then what they taught us about this merchant, then the
+// merchant's default category; only after all three does the Gemini or keyword
+// category stand. A known merchant is also shown under its directory name.
+function applyUserCategories(
+  rules: CategorizationRule[],
+  history: CategoryCorrection[],
+  merchants: Merchant[],
+  candidate: ReceiptCandidate
+): ReceiptCandidate {
+  const known = matchMerchant(merchants, candidate.structuredData.merchant ?? candidate.structuredData.description);
+  const structuredData = known ? { ...candidate.structuredData, merchant: known.name } : candidate.structuredData;
+
+  const rule = findMatchingRule(rules, structuredData);
+  if (rule) {
+    console.log(`Categorization rule "${rule.name}" set category to ${rule.category}`);
+    return { ...candidate, structuredData: { ...structuredData, category: rule.category }, rule };
   }
 
-  console.log('Using OCR.Space for text extraction...');
+  const learned = learnedCategory(history, structuredData.description);
+  if (learned) {
+    console.log(`Category ${learned.category} learned from corrections for "${learned.merchant}"`);
+    return { ...candidate, structuredData: { ...structuredData, category: learned.category }, learned };
+  }
 
-  const formData = new FormData();
-  formData.append('url', signedUrlData.signedUrl);
-  formData.append('apikey', apiKey);
-  formData.append('language', 'eng');
+  if (known?.default_category) {
+    console.log(`Category ${known.default_category} is the default for merchant "${known.name}"`);
+    return { ...candidate, structuredData: { ...structuredData, category: known.default_category }, merchantDefault: known };
+  }
 
-  let response;
-  try {
-    response = await fetch('https://api.ocr.space/parse/image', {
-      method: 'POST',
-      body: formData,
-    });
+  return { ...candidate, structuredData };
+}
+
+function validateConfirmedReceipt(confirmed: ConfirmedReceipt): StructuredReceipt | null {
+  const amount = Number(confirmed.amount);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(confirmed.date ?? '') || !(amount > 0)) return null;
+  if (confirmed.type !== 'debit' && confirmed.type !== 'credit') return null;
+
+  return {
+    date: confirmed.date,
+    type: confirmed.type,
+    category: confirmed.category || 'Other',
+    description: confirmed.description?.trim() || confirmed.merchant?.trim() || confirmed.category || 'Transaction',
+    merchant: confirmed.merchant?.trim() || null,
+    amount: Math.round(amount * 100) / 100,
+    currency: isCurrencyCode(confirmed.currency) ? confirmed.currency : null,
+    notes: confirmed.notes?.trim() || null,
+    items: Array.isArray(confirmed.items) ? confirmed.items : [],
+  };
+}
+
+async function findNearbyDuplicates(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  structuredData: StructuredReceipt,
+  imageHash: string
+): Promise<DuplicateCandidate[]> {
+  const { data: nearby, error: nearbyError } = await supabaseClient
+    .from('transactions')
+    .select(DUPLICATE_SELECT)
+    .eq('user_id', userId)
+    .eq('amount', structuredData.amount)
+    .gte('date', shiftDate(structuredData.date, -DUPLICATE_DATE_WINDOW_DAYS))
+    .lte('date', shiftDate(structuredData.date, DUPLICATE_DATE_WINDOW_DAYS));
+
+  if (nearbyError) {
+    console.error('Duplicate lookup failed, continuing without it:', nearbyError);
+    return [];
+  }
+  return findDuplicateCandidates({ ...structuredData, image_hash: imageHash }, nearby || []);
+}
+
+async function saveReceipt(supabaseClient: SupabaseClient, options: SaveReceiptOptions): Promise<Response> {
+  const { userId, imagePath, imageHash, ocrProvider, ocrConfidence, structuredData, duplicateAction, mergeIntoId, debug } = options;
 
-    if (!response.ok) {
-      throw new Error(`OCR.Space API error: ${response.status} ${response.statusText}`);
+  if (duplicateAction === 'merge') {
+    return await mergeIntoExisting(supabaseClient, options, mergeIntoId!);
+  }
+
+  if (!duplicateAction) {
+    const candidates = await findNearbyDuplicates(supabaseClient, userId, structuredData, imageHash);
+    if (candidates.length > 0) {
+      return duplicateResponse(candidates, debug);
     }
-  } catch (error) {
-    console.error('OCR.Space API request failed:', error);
-    throw new Error('Failed to call OCR.Space API');
   }
 
-  let result;
-  try {
-    result = await response.json();
-  } catch (error) {
-    console.error('Failed to parse OCR.Space API response:', error);
-    throw new Error('Invalid response from OCR.Space API');
+  const merchant = await findOrCreateMerchant(supabaseClient, userId, structuredData.merchant);
+
+  // Insert transaction into database
+  const { data: transaction, error: dbError } = await supabaseClient
+    .from('transactions')
+    .insert({
+      user_id: userId,
+      date: structuredData.date,
+      description: structuredData.description,
+      merchant: merchant?.name ?? structuredData.merchant,
+      merchant_id: merchant?.id ?? null,
+      amount: structuredData.amount,
+      // Left empty, the database fills in the profile currency
+      currency: structuredData.currency,
+      type: structuredData.type,
+      category: structuredData.category,
+      notes: structuredData.notes,
+      image_path: imagePath,
+      image_hash: imageHash,
+      ocr_provider: ocrProvider,
+      ocr_confidence: ocrConfidence,
+    })
+    .select()
+    .single();
+
+  if (dbError) {
+    console.error('Database error:', dbError);
+    return new Response(
+      JSON.stringify({ error: 'Failed to save transaction', details: dbError.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const items = await insertLineItems(supabaseClient, transaction.id, userId, structuredData.items);
+
+  return new Response(
+    JSON.stringify({ transaction, items, debug }),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    }
+  );
+}
+
+function duplicateResponse(candidates: DuplicateCandidate[], debug: Record<string, unknown> | null): Response {
+  console.log('Possible duplicate detected:', candidates.map(candidate => candidate.transaction.id));
+  return new Response(
+    JSON.stringify({ error: 'Possible duplicate transaction', duplicate: true, candidates, debug }),
+    { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Line items are a supplementary breakdown, so a failure here keeps the transaction
+async function insertLineItems(supabaseClient: SupabaseClient, transactionId: string, userId: string, items: ParsedLineItem[]): Promise<unknown[]> {
+  if (items.length === 0) return [];
+
+  const { data: insertedItems, error: itemsError } = await supabaseClient
+    .from('transaction_items')
+    .insert(items.map((item, index) => ({
+      transaction_id: transactionId,
+      user_id: userId,
+      position: index,
+      name: item.name,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      line_total: item.line_total,
+      taxable: item.taxable,
+    })))
+    .select();
+
+  if (itemsError) {
+    console.error('Failed to save line items:', itemsError);
+    return [];
+  }
+  return insertedItems ?? [];
+}
+
+/**
+ * Attach this receipt to a transaction the user says is the same purchase
+ * (typically one imported from a bank statement). Existing values win; the
+ * receipt only fills in what is missing.
+ */
+async function mergeIntoExisting(
+  supabaseClient: SupabaseClient,
+  options: MergeOptions,
+  transactionId: string
+): Promise<Response> {
+  const { userId, imagePath, imageHash, ocrProvider, ocrConfidence, structuredData, debug } = options;
+
+  const { data: existing, error: fetchError } = await supabaseClient
+    .from('transactions')
+    .select('*, transaction_items(count)')
+    .eq('id', transactionId)
+    .eq('user_id', userId)
+    .single();
+
+  if (fetchError || !existing) {
+    console.error('Merge target not found:', fetchError);
+    return new Response(
+      JSON.stringify({ error: 'Transaction to merge into was not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // An existing merchant link wins, like every other field
+  const merchant = existing.merchant_id ? null : await findOrCreateMerchant(supabaseClient, userId, existing.merchant ?? structuredData?.merchant ?? null);
+
+  const { data: transaction, error: updateError } = await supabaseClient
+    .from('transactions')
+    .update({
+      image_path: existing.image_path ?? imagePath,
+      image_hash: existing.image_hash ?? imageHash,
+      ocr_provider: existing.ocr_provider ?? ocrProvider,
+      ocr_confidence: existing.ocr_confidence ?? ocrConfidence,
+      notes: existing.notes ?? structuredData?.notes ?? null,
+      merchant: merchant?.name ?? existing.merchant ?? structuredData?.merchant ?? null,
+      merchant_id: existing.merchant_id ?? merchant?.id ?? null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', transactionId)
+    .select()
+    .single();
+
+  if (updateError) {
+    console.error('Merge update failed:', updateError);
+    return new Response(
+      JSON.stringify({ error: 'Failed to merge transaction', details: updateError.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
   }
 
-  if (result.IsErroredOnProcessing) {
-    console.error('OCR.Space processing error:', result.ErrorMessage);
-    throw new Error(`OCR.Space error: ${result.ErrorMessage}`);
+  // The existing transaction already has a receipt, so this upload is surplus
+  // unless other pages of the same PDF still need it
+  if (existing.image_path && existing.image_path !== imagePath && !await isImageInUse(supabaseClient, userId, imagePath)) {
+    const { error: removeError } = await supabaseClient.storage.from('receipts').remove([imagePath]);
+    if (removeError) console.error('Failed to remove merged upload:', removeError);
   }
 
-  if (result.ParsedResults?.[0]?.ParsedText) {
-    console.log('Successfully extracted text from image');
-    return result.ParsedResults[0].ParsedText;
+  const hasItems = (existing.transaction_items?.[0]?.count ?? 0) > 0;
+  const items = hasItems || !structuredData ? [] : await insertLineItems(supabaseClient, transactionId, userId, structuredData.items);
+
+  return new Response(
+    JSON.stringify({ transaction, items, merged: true, debug }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+  );
+}
+
+// A multi-page PDF backs one transaction per page, and each page is reviewed as its own upload job
+async function isImageInUse(supabaseClient: SupabaseClient, userId: string, imagePath: string): Promise<boolean> {
+  const { count: transactionCount } = await supabaseClient
+    .from('transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('image_path', imagePath);
+
+  const { count: openJobCount } = await supabaseClient
+    .from('upload_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('image_path', imagePath)
+    .neq('status', 'done');
+
+  // The job being merged right now is still open
+  return (transactionCount ?? 0) > 0 || (openJobCount ?? 0) > 1;
+}
+
+async function downloadImage(supabaseClient: any, imagePath: string): Promise<Uint8Array> {
+  console.log('Downloading image from Supabase Storage...');
+
+  // Download the image file directly from Supabase Storage
+  const { data: fileData, error: downloadError } = await supabaseClient
+    .storage
+    .from('receipts')
+    .download(imagePath);
+
+  if (downloadError || !fileData) {
+    console.error('Failed to download image:', downloadError);
+    throw new Error('Failed to download image from storage');
   }
 
-  console.log('No text detected in image by OCR.Space');
-  throw new Error('No text detected in image');
-}
\ No newline at end of file
+  return new Uint8Array(await fileData.arrayBuffer());
+}
@@ -1,4 +1,6 @@
 // deno-lint-ignore-file no-explicit-any
+import { DEFAULT_CATEGORY_NAMES, normalizeCategory } from '../_shared/categories.ts';
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -9,38 +11,47 @@ const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
 const GEMINI_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent";
 
 // --- Prompt pieces ---
-const SYSTEM_PREFACE = `You are a strict financial transaction extractor. 
+function systemPreface(categories: string[]) {
+  return `You are a strict financial transaction extractor. 
 Input is OCR text from a single transaction, receipt line, or statement row. 
 Output ONLY minified JSON matching the schema exactly. No extra text.
 If a field is unknown, use null. Dates must be YYYY-MM-DD.
 type is "in" (money received) or "out" (money spent).
-category is one of: ["shopping","rent","utility","grocery","dining","transportation","entertainment","health","income","fees","transfers","education","other"].
+category is exactly one of: ${JSON.stringify(categories)}.
 sub_category is the merchant/vendor short name if available (e.g., "walmart","freshco","tim hortons"). Lowercase.
 amount is a positive number (e.g., 12.34). If multiple amounts, choose the payable TOTAL; if a bank line, choose the transaction amount for that entry.
+currency is the ISO 4217 code of the amount when the text shows a currency other than dollars (e.g., "€" or "EUR" → "EUR", "£" → "GBP"), otherwise null.
 note is a short free-text note like "conversion fee", "foreign transaction", or null.
+items lists each purchased line on an itemized receipt: name as printed, quantity (default 1), unit_price, line_total, and taxable (true when the line carries a tax marker such as "T", "Y" or "H"). Exclude subtotal, tax, total, payment and change lines. Use [] for bank lines or receipts without line items.
 
 SCHEMA:
-{"date":"YYYY-MM-DD|null","type":"in|out","category":"shopping|rent|utility|grocery|dining|transportation|entertainment|health|income|fees|transfers|education|other","sub_category":"string|null","amount":0.00,"note":"string|null"}`;
+{"date":"YYYY-MM-DD|null","type":"in|out","category":"one of the categories above","sub_category":"string|null","amount":0.00,"currency":"XXX|null","note":"string|null","items":[{"name":"string","quantity":1,"unit_price":0.00,"line_total":0.00,"taxable":false}]}`;
+}
 
 const FEW_SHOTS = `Example 1:
 OCR_TEXT:
-"2025-08-14 13:05 Walmart Supercenter #1234  Debit Card  $45.67  Subtotal 42.00  Tax 3.67  Thank you"
-{"date":"2025-08-14","type":"out","category":"grocery","sub_category":"walmart","amount":45.67,"note":null}
+"2025-08-14 13:05 Walmart Supercenter #1234  MILK 2% 4L 5.49  2 @ 3.25 BREAD 6.50  DISH SOAP 4.97 T  PAPER TOWEL 25.04 T  Subtotal 42.00  Tax 3.67  Debit Card  $45.67  Thank you"
+{"date":"2025-08-14","type":"out","category":"Groceries","sub_category":"walmart","amount":45.67,"currency":null,"note":null,"items":[{"name":"MILK 2% 4L","quantity":1,"unit_price":5.49,"line_total":5.49,"taxable":false},{"name":"BREAD","quantity":2,"unit_price":3.25,"line_total":6.50,"taxable":false},{"name":"DISH SOAP","quantity":1,"unit_price":4.97,"line_total":4.97,"taxable":true},{"name":"PAPER TOWEL","quantity":1,"unit_price":25.04,"line_total":25.04,"taxable":true}]}
 
 Example 2:
 OCR_TEXT:
 "TIM HORTONS 09/02/2025 POS PURCHASE -$3.05"
-{"date":"2025-09-02","type":"out","category":"dining","sub_category":"tim hortons","amount":3.05,"note":null}
+{"date":"2025-09-02","type":"out","category":"Dining","sub_category":"tim hortons","amount":3.05,"currency":null,"note":null,"items":[]}
 
 Example 3:
 OCR_TEXT:
 "PAYROLL DEPOSIT 2025-09-15 +$2,450.00"
-{"date":"2025-09-15","type":"in","category":"income","sub_category":null,"amount":2450.00,"note":null}
+{"date":"2025-09-15","type":"in","category":"Income","sub_category":null,"amount":2450.00,"currency":null,"note":null,"items":[]}
 
 Example 4:
 OCR_TEXT:
 "VISA FX CONVERSION FEE 2025/09/10  $1.23"
-{"date":"2025-09-10","type":"out","category":"fees","sub_category":null,"amount":1.23,"note":"conversion fee"}`;
+{"date":"2025-09-10","type":"out","category":"Fees","sub_category":null,"amount":1.23,"currency":null,"note":"conversion fee","items":[]}
+
+Example 5:
+OCR_TEXT:
+"CAFE DE FLORE PARIS 12/06/2025  2 CAFE CREME 11,00  TOTAL EUR 11,00  CB"
+{"date":"2025-06-12","type":"out","category":"Dining","sub_category":"cafe de flore","amount":11.00,"currency":"EUR","note":null,"items":[]}`;
 
 function userPrompt(ocrText: string) {
   return `OCR_TEXT:
@@ -51,21 +62,21 @@ ${ocrText}
 Return ONLY valid JSON per schema.`;
 }
 
-async function callGemini(prompt: string) {
+async function callGemini(prompt: string, categories: string[]) {
   if (!GEMINI_API_KEY) {
     throw new Error('GEMINI_API_KEY not configured');
   }
 
   const body = {
     contents: [
-      { role: "user", parts: [{ text: SYSTEM_PREFACE }] },
+      { role: "user", parts: [{ text: systemPreface(categories) }] },
       { role: "user", parts: [{ text: FEW_SHOTS }] },
       { role: "user", parts: [{ text: prompt }] }
     ],
     generationConfig: {
       temperature: 0.1,
       topP: 0.9,
-      maxOutputTokens: 256
+      maxOutputTokens: 2048
     }
   };
 
@@ -96,22 +107,55 @@ function extractJson(s: string) {
   }
 }
 
+interface RawItem {
+  name: string;
+  quantity?: unknown;
+  unit_price?: unknown;
+  line_total: number;
+  taxable?: unknown;
+}
+
+function validItem(item: unknown): item is RawItem {
+  const candidate = item as RawItem | null;
+  return !!candidate && typeof candidate === "object" &&
+    typeof candidate.name === "string" && candidate.name.trim().length > 0 &&
+    typeof candidate.line_total === "number" && candidate.line_total >= 0;
+}
+
+function normalizeItem(item: RawItem) {
+  const quantity = typeof item.quantity === "number" && item.quantity > 0 ? item.quantity : 1;
+  return {
+    name: item.name.trim().slice(0, 120),
+    quantity,
+    unit_price: typeof item.unit_price === "number" ? item.unit_price : Math.round((item.line_total / quantity) * 100) / 100,
+    line_total: item.line_total,
+    taxable: item.taxable === true
+  };
+}
+
 // Basic schema validation
-function validate(rec: any) {
-  const cats = ["shopping","rent","utility","grocery","dining","transportation","entertainment","health","income","fees","transfers","education","other"];
-  
+function validate(rec: any, categories: string[]) {
   if (!rec || typeof rec !== "object") throw new Error("Invalid record structure");
   if (!["in","out"].includes(rec.type)) throw new Error("Invalid type - must be 'in' or 'out'");
-  if (!cats.includes(rec.category)) throw new Error("Invalid category");
+  if (rec.category !== null && typeof rec.category !== "string") throw new Error("Invalid category");
   if (typeof rec.amount !== "number" || rec.amount < 0) throw new Error("Invalid amount - must be positive number");
   if (rec.date !== null && !/^\d{4}-\d{2}-\d{2}$/.test(rec.date)) throw new Error("Invalid date format - must be YYYY-MM-DD");
   if (rec.sub_category !== null && typeof rec.sub_category !== "string") throw new Error("Invalid sub_category");
   if (rec.note !== null && typeof rec.note !== "string") throw new Error("Invalid note");
   
+  // anything but a three-letter code means the user's own currency
+  rec.currency = typeof rec.currency === "string" && /^[a-z]{3}$/i.test(rec.currency.trim()) ? rec.currency.trim().toUpperCase() : null;
+
+  // map near misses ("grocery", "groceries") onto the user's category names
+  rec.category = normalizeCategory(rec.category, categories);
+
   // normalize sub_category to lowercase short token
   if (typeof rec.sub_category === "string") {
     rec.sub_category = rec.sub_category.toLowerCase().slice(0, 60);
   }
+
+  // items are optional; drop malformed lines rather than rejecting the whole record
+  rec.items = Array.isArray(rec.items) ? rec.items.filter(validItem).map(normalizeItem) : [];
   
   return rec;
 }
@@ -142,6 +186,12 @@ Deno.serve(async (req: Request) => {
     }
 
     const { ocrText } = requestBody;
+    // The caller's category names; the default taxonomy when none are given
+    const categories: string[] = Array.isArray(requestBody.categories) &&
+      requestBody.categories.length > 0 &&
+      requestBody.categories.every((name: unknown) => typeof name === "string")
+      ? requestBody.categories
+      : DEFAULT_CATEGORY_NAMES;
     if (!ocrText || typeof ocrText !== "string") {
       return new Response(
         JSON.stringify({ ok: false, error: "ocrText required as string" }), 
@@ -151,10 +201,10 @@ Deno.serve(async (req: Request) => {
 
     console.log('Processing OCR text with Gemini:', ocrText.substring(0, 100) + '...');
 
-    const resp = await callGemini(userPrompt(ocrText));
+    const resp = await callGemini(userPrompt(ocrText), categories);
     console.log('Gemini response:', resp);
 
-    const json = validate(extractJson(resp));
+    const json = validate(extractJson(resp), categories);
     console.log('Validated record:', json);
 
     return new Response(
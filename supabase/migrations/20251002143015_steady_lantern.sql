@@ -0,0 +1,29 @@
+/*
+  # Record which OCR provider produced each transaction
+
+  1. Schema Changes
+    - Add `ocr_provider` column to `transactions` (text, nullable) - name of the provider whose text was used
+    - Add `ocr_confidence` column to `transactions` (numeric(4,3), nullable) - 0..1 confidence of that text
+
+  2. Notes
+    - Both columns stay null for manually entered transactions
+    - No RLS changes needed (inherits existing policies)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'ocr_provider'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN ocr_provider text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'ocr_confidence'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN ocr_confidence numeric(4,3)
+      CHECK (ocr_confidence IS NULL OR (ocr_confidence >= 0 AND ocr_confidence <= 1));
+  END IF;
+END $$;
@@ -0,0 +1,59 @@
+/*
+  # Add Transaction Line Items
+
+  1. New Tables
+    - `transaction_items`
+      - `id` (uuid, primary key)
+      - `transaction_id` (uuid, references transactions, cascades on delete)
+      - `user_id` (uuid, references auth.users)
+      - `position` (integer) - order the line appeared on the receipt
+      - `name` (text)
+      - `quantity` (numeric)
+      - `unit_price` (numeric)
+      - `line_total` (numeric)
+      - `taxable` (boolean)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own line items
+*/
+
+CREATE TABLE IF NOT EXISTS transaction_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  name text NOT NULL,
+  quantity numeric(10,3) NOT NULL DEFAULT 1,
+  unit_price numeric(12,2) NOT NULL DEFAULT 0,
+  line_total numeric(12,2) NOT NULL DEFAULT 0,
+  taxable boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE transaction_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transaction items"
+  ON transaction_items FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own transaction items"
+  ON transaction_items FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own transaction items"
+  ON transaction_items FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own transaction items"
+  ON transaction_items FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_items_transaction ON transaction_items(transaction_id, position);
+CREATE INDEX IF NOT EXISTS idx_transaction_items_user ON transaction_items(user_id);
@@ -0,0 +1,108 @@
+/*
+  # Add Split Transactions
+
+  1. New Tables
+    - `transaction_splits`
+      - `id` (uuid, primary key)
+      - `transaction_id` (uuid, references transactions, cascades on delete)
+      - `user_id` (uuid, references auth.users)
+      - `position` (integer) - display order
+      - `category` (text)
+      - `amount` (numeric, positive)
+      - `note` (text, nullable)
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `replace_transaction_splits(p_transaction_id, p_splits)` swaps a transaction's
+      allocations in one statement and rejects them unless they add up to the
+      transaction amount. Runs as the caller, so RLS still applies.
+
+  3. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own splits
+
+  4. Notes
+    - A transaction without rows here is allocated entirely to its own `category`
+*/
+
+CREATE TABLE IF NOT EXISTS transaction_splits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  category text NOT NULL,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE transaction_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transaction splits"
+  ON transaction_splits FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own transaction splits"
+  ON transaction_splits FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own transaction splits"
+  ON transaction_splits FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own transaction splits"
+  ON transaction_splits FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction ON transaction_splits(transaction_id, position);
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_user_category ON transaction_splits(user_id, category);
+
+CREATE OR REPLACE FUNCTION replace_transaction_splits(p_transaction_id uuid, p_splits jsonb)
+RETURNS SETOF transaction_splits
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_amount numeric(12,2);
+  v_user_id uuid;
+  v_total numeric(12,2);
+BEGIN
+  SELECT amount, user_id INTO v_amount, v_user_id
+  FROM transactions
+  WHERE id = p_transaction_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+
+  DELETE FROM transaction_splits WHERE transaction_id = p_transaction_id;
+
+  IF p_splits IS NULL OR jsonb_array_length(p_splits) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM((s->>'amount')::numeric(12,2)), 0) INTO v_total
+  FROM jsonb_array_elements(p_splits) AS s;
+
+  IF v_total <> v_amount THEN
+    RAISE EXCEPTION 'Split amounts (%) must add up to the transaction total (%)', v_total, v_amount;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO transaction_splits (transaction_id, user_id, position, category, amount, note)
+  SELECT
+    p_transaction_id,
+    v_user_id,
+    (t.ord - 1)::integer,
+    t.s->>'category',
+    (t.s->>'amount')::numeric(12,2),
+    NULLIF(t.s->>'note', '')
+  FROM jsonb_array_elements(p_splits) WITH ORDINALITY AS t(s, ord)
+  RETURNING *;
+END;
+$$;
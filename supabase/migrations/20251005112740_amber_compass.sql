@@ -0,0 +1,27 @@
+/*
+  # Add receipt image hash for duplicate detection
+
+  1. Schema Changes
+    - Add `image_hash` column to `transactions` (text, nullable) - SHA-256 of the uploaded receipt bytes
+
+  2. Indexes
+    - Index on (user_id, image_hash) so re-uploads of the same receipt are found quickly
+    - Index on (user_id, amount, date) for the amount/date duplicate lookup
+
+  3. Notes
+    - Stays null for manual and imported transactions
+    - No RLS changes needed (inherits existing policies)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'image_hash'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN image_hash text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_image_hash ON transactions(user_id, image_hash) WHERE image_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_amount_date ON transactions(user_id, amount, date);
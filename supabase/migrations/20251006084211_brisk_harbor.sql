@@ -0,0 +1,66 @@
+/*
+  # Add Upload Jobs
+
+  1. New Tables
+    - `upload_jobs`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `file_name` (text) - original name of the uploaded file
+      - `image_path` (text) - path in the receipts bucket
+      - `status` (text) - queued, processing, needs_review, done or failed
+      - `error` (text, nullable) - last failure message
+      - `draft` (jsonb, nullable) - extracted candidate waiting for review
+      - `duplicates` (jsonb, nullable) - possible duplicates found for the draft
+      - `duplicate_action` (text, nullable) - choice already made on a duplicate prompt
+      - `ocr_text` (text, nullable)
+      - `transaction_id` (uuid, nullable, references transactions) - set once saved
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own jobs
+
+  3. Notes
+    - Jobs are the source of truth for the Upload page queue, so a reload picks up where it left off
+*/
+
+CREATE TABLE IF NOT EXISTS upload_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  image_path text NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'needs_review', 'done', 'failed')),
+  error text,
+  draft jsonb,
+  duplicates jsonb,
+  duplicate_action text CHECK (duplicate_action IS NULL OR duplicate_action IN ('keep_both')),
+  ocr_text text,
+  transaction_id uuid REFERENCES transactions(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE upload_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own upload jobs"
+  ON upload_jobs FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own upload jobs"
+  ON upload_jobs FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own upload jobs"
+  ON upload_jobs FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own upload jobs"
+  ON upload_jobs FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_upload_jobs_user_status ON upload_jobs(user_id, status, created_at);
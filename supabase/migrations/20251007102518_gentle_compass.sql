@@ -0,0 +1,67 @@
+/*
+  # Add Categorization Rules
+
+  1. New Tables
+    - `categorization_rules`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text) - label shown in the rules list
+      - `priority` (integer) - lower numbers are checked first
+      - `description_pattern` (text, nullable) - case-insensitive regular expression
+      - `merchant` (text, nullable) - merchant name matched as whole words
+      - `min_amount`, `max_amount` (numeric, nullable) - inclusive amount range
+      - `type` (text, nullable) - debit or credit; null matches both
+      - `category` (text) - category assigned when the rule matches
+      - `enabled` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own rules
+
+  3. Notes
+    - A rule matches when every condition it sets holds; the first match by priority wins
+    - Rules run before the built-in keyword categorizer
+*/
+
+CREATE TABLE IF NOT EXISTS categorization_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  priority integer NOT NULL DEFAULT 100,
+  description_pattern text,
+  merchant text,
+  min_amount numeric(12,2),
+  max_amount numeric(12,2),
+  type text CHECK (type IS NULL OR type IN ('debit', 'credit')),
+  category text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+);
+
+ALTER TABLE categorization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own categorization rules"
+  ON categorization_rules FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own categorization rules"
+  ON categorization_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own categorization rules"
+  ON categorization_rules FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own categorization rules"
+  ON categorization_rules FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_user_priority ON categorization_rules(user_id, priority);
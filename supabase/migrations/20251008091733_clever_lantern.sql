@@ -0,0 +1,53 @@
+/*
+  # Add Category Corrections
+
+  1. New Tables
+    - `category_corrections`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `transaction_id` (uuid, nullable, references transactions) - the transaction that was corrected
+      - `description` (text) - transaction description at the time of the correction
+      - `merchant_key` (text) - normalized merchant name the category is learned for
+      - `from_category` (text, nullable) - category before the correction
+      - `to_category` (text) - category the user chose
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to view, add and delete their own corrections
+
+  3. Notes
+    - Every manual category change is recorded; categorization consults the most
+      recent corrections for the closest merchant before keywords or Gemini
+*/
+
+CREATE TABLE IF NOT EXISTS category_corrections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_id uuid REFERENCES transactions(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  merchant_key text NOT NULL,
+  from_category text,
+  to_category text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE category_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own category corrections"
+  ON category_corrections FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own category corrections"
+  ON category_corrections FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own category corrections"
+  ON category_corrections FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_category_corrections_user_created ON category_corrections(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_category_corrections_user_merchant ON category_corrections(user_id, merchant_key);
@@ -0,0 +1,146 @@
+/*
+  # Add Categories
+
+  1. New Tables
+    - `categories`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text) - unique per user; transactions, splits, rules and corrections store this name
+      - `parent_id` (uuid, nullable, references categories) - parent category
+      - `color` (text) - hex color used in lists and charts
+      - `icon` (text) - icon name
+      - `archived` (boolean) - hidden from pickers but kept for existing transactions
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Data
+    - Every existing user gets the default categories
+    - Lowercase labels stored from Gemini ("grocery", "utility", "health", ...) are mapped
+      onto the default names in transactions, transaction_splits, categorization_rules and
+      category_corrections
+    - Any other category name already in use becomes a category of its own
+
+  3. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own categories
+
+  4. Notes
+    - The default list matches DEFAULT_CATEGORIES in supabase/functions/_shared/categories.ts;
+      users who sign up later are seeded by the app on first load
+*/
+
+CREATE TABLE IF NOT EXISTS categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  parent_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  color text NOT NULL DEFAULT '#9ca3af',
+  icon text NOT NULL DEFAULT 'tag',
+  archived boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own categories"
+  ON categories FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own categories"
+  ON categories FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own categories"
+  ON categories FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own categories"
+  ON categories FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_categories_user_id ON categories(user_id);
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+
+-- Default taxonomy for existing users
+INSERT INTO categories (user_id, name, color, icon)
+SELECT u.id, d.name, d.color, d.icon
+FROM auth.users u
+CROSS JOIN (VALUES
+  ('Dining', '#f97316', 'utensils'),
+  ('Groceries', '#22c55e', 'shopping-cart'),
+  ('Transport', '#3b82f6', 'car'),
+  ('Utilities', '#eab308', 'zap'),
+  ('Rent', '#8b5cf6', 'home'),
+  ('Income', '#10b981', 'wallet'),
+  ('Shopping', '#ec4899', 'shopping-bag'),
+  ('Healthcare', '#ef4444', 'heart-pulse'),
+  ('Entertainment', '#6366f1', 'film'),
+  ('Gym', '#14b8a6', 'dumbbell'),
+  ('Subscriptions', '#0ea5e9', 'repeat'),
+  ('Fees', '#64748b', 'receipt'),
+  ('Transfers', '#06b6d4', 'arrow-left-right'),
+  ('Education', '#a855f7', 'graduation-cap'),
+  ('Other', '#9ca3af', 'tag'),
+  ('Uncategorized', '#d1d5db', 'help-circle')
+) AS d(name, color, icon)
+ON CONFLICT (user_id, name) DO NOTHING;
+
+-- Map legacy labels (matched case-insensitively) onto the default names
+CREATE TEMP TABLE category_name_map (label text PRIMARY KEY, name text NOT NULL) ON COMMIT DROP;
+
+INSERT INTO category_name_map (label, name)
+SELECT lower(name), name FROM (VALUES
+  ('Dining'), ('Groceries'), ('Transport'), ('Utilities'), ('Rent'), ('Income'),
+  ('Shopping'), ('Healthcare'), ('Entertainment'), ('Gym'), ('Subscriptions'),
+  ('Fees'), ('Transfers'), ('Education'), ('Other'), ('Uncategorized')
+) AS d(name);
+
+INSERT INTO category_name_map (label, name) VALUES
+  ('grocery', 'Groceries'),
+  ('utility', 'Utilities'),
+  ('transportation', 'Transport'),
+  ('health', 'Healthcare'),
+  ('transfer', 'Transfers'),
+  ('fee', 'Fees'),
+  ('subscription', 'Subscriptions');
+
+UPDATE transactions t
+SET category = m.name
+FROM category_name_map m
+WHERE lower(trim(t.category)) = m.label AND t.category <> m.name;
+
+UPDATE transaction_splits s
+SET category = m.name
+FROM category_name_map m
+WHERE lower(trim(s.category)) = m.label AND s.category <> m.name;
+
+UPDATE categorization_rules r
+SET category = m.name
+FROM category_name_map m
+WHERE lower(trim(r.category)) = m.label AND r.category <> m.name;
+
+UPDATE category_corrections c
+SET to_category = m.name
+FROM category_name_map m
+WHERE lower(trim(c.to_category)) = m.label AND c.to_category <> m.name;
+
+UPDATE category_corrections c
+SET from_category = m.name
+FROM category_name_map m
+WHERE lower(trim(c.from_category)) = m.label AND c.from_category <> m.name;
+
+-- Keep any other name already in use, so no transaction points at a missing category
+INSERT INTO categories (user_id, name)
+SELECT DISTINCT user_id, category FROM (
+  SELECT user_id, category FROM transactions
+  UNION SELECT user_id, category FROM transaction_splits
+  UNION SELECT user_id, category FROM categorization_rules
+) used
+WHERE length(trim(category)) > 0
+ON CONFLICT (user_id, name) DO NOTHING;
@@ -0,0 +1,30 @@
+/*
+  # Add Merchants to Transactions and Guard Category Parents
+
+  1. Changes
+    - `transactions.merchant` (text, nullable) - who the money went to or came from,
+      kept apart from the free-text description
+    - `categories` can no longer be their own parent
+
+  2. Data
+    - Receipts saved before this migration stored the merchant Gemini or the parser
+      found as their description; it is copied into `merchant`
+
+  3. Notes
+    - Category parents are used to roll spending up to the parent and to drill down
+      into sub-categories; transactions still store the category name
+*/
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS merchant text;
+
+UPDATE transactions
+SET merchant = description
+WHERE merchant IS NULL
+  AND image_path IS NOT NULL
+  AND description IS NOT NULL
+  AND description NOT IN ('Transaction', category);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_merchant ON transactions(user_id, merchant);
+
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_not_own_parent;
+ALTER TABLE categories ADD CONSTRAINT categories_not_own_parent CHECK (parent_id IS NULL OR parent_id <> id);
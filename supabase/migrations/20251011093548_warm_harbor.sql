@@ -0,0 +1,174 @@
+/*
+  # Add Merchant Directory
+
+  1. New Tables
+    - `merchants`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text) - canonical name, unique per user; copied to transactions.merchant
+      - `default_category` (text, nullable) - category for new transactions from this merchant
+      - `created_at`, `updated_at` (timestamptz)
+    - `merchant_aliases`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `merchant_id` (uuid, references merchants)
+      - `alias` (text) - another spelling seen on receipts or statements, e.g. "TIM HORTONS #4312"
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `transactions.merchant_id` (uuid, nullable, references merchants)
+
+  3. Functions
+    - `merge_merchants(p_source_id, p_target_id)` moves the source merchant's transactions
+      and aliases onto the target, keeps the source name as an alias and deletes the
+      source. Runs as the caller, so RLS still applies.
+
+  4. Data
+    - Existing transaction merchants become merchants, grouped case-insensitively;
+      other spellings of the same name are kept as aliases
+
+  5. Security
+    - Enable RLS on both tables
+    - Add policies for authenticated users to manage their own merchants and aliases
+
+  6. Notes
+    - Aliases are compared after normalization (case, punctuation, store numbers), so
+      one alias covers every branch of a chain
+*/
+
+CREATE TABLE IF NOT EXISTS merchants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  default_category text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS merchant_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  merchant_id uuid NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+  alias text NOT NULL CHECK (length(trim(alias)) > 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (merchant_id, alias)
+);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS merchant_id uuid REFERENCES merchants(id) ON DELETE SET NULL;
+
+ALTER TABLE merchants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE merchant_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own merchants"
+  ON merchants FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own merchants"
+  ON merchants FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own merchants"
+  ON merchants FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own merchants"
+  ON merchants FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own merchant aliases"
+  ON merchant_aliases FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own merchant aliases"
+  ON merchant_aliases FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own merchant aliases"
+  ON merchant_aliases FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own merchant aliases"
+  ON merchant_aliases FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_merchants_user_id ON merchants(user_id);
+CREATE INDEX IF NOT EXISTS idx_merchant_aliases_merchant_id ON merchant_aliases(merchant_id);
+CREATE INDEX IF NOT EXISTS idx_merchant_aliases_user_id ON merchant_aliases(user_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_merchant_id ON transactions(merchant_id);
+
+CREATE OR REPLACE FUNCTION merge_merchants(p_source_id uuid, p_target_id uuid)
+RETURNS merchants
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_source merchants;
+  v_target merchants;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a merchant into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM merchants WHERE id = p_source_id;
+  SELECT * INTO v_target FROM merchants WHERE id = p_target_id;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL OR v_source.user_id <> v_target.user_id THEN
+    RAISE EXCEPTION 'Merchant not found';
+  END IF;
+
+  UPDATE transactions
+  SET merchant_id = v_target.id, merchant = v_target.name, updated_at = now()
+  WHERE merchant_id = v_source.id;
+
+  INSERT INTO merchant_aliases (user_id, merchant_id, alias)
+  SELECT v_target.user_id, v_target.id, a.alias
+  FROM (
+    SELECT alias FROM merchant_aliases WHERE merchant_id = v_source.id
+    UNION SELECT v_source.name
+  ) a
+  WHERE a.alias <> v_target.name
+  ON CONFLICT (merchant_id, alias) DO NOTHING;
+
+  UPDATE merchants
+  SET default_category = COALESCE(default_category, v_source.default_category), updated_at = now()
+  WHERE id = v_target.id
+  RETURNING * INTO v_target;
+
+  DELETE FROM merchants WHERE id = v_source.id;
+
+  RETURN v_target;
+END;
+$$;
+
+-- One merchant per name already on transactions, ignoring case and surrounding spaces
+INSERT INTO merchants (user_id, name)
+SELECT user_id, min(trim(merchant))
+FROM transactions
+WHERE merchant IS NOT NULL AND length(trim(merchant)) > 0
+GROUP BY user_id, lower(trim(merchant))
+ON CONFLICT (user_id, name) DO NOTHING;
+
+INSERT INTO merchant_aliases (user_id, merchant_id, alias)
+SELECT DISTINCT t.user_id, m.id, trim(t.merchant)
+FROM transactions t
+JOIN merchants m ON m.user_id = t.user_id AND lower(m.name) = lower(trim(t.merchant))
+WHERE trim(t.merchant) <> m.name
+ON CONFLICT (merchant_id, alias) DO NOTHING;
+
+UPDATE transactions t
+SET merchant_id = m.id, merchant = m.name
+FROM merchants m
+WHERE t.merchant_id IS NULL
+  AND m.user_id = t.user_id
+  AND lower(m.name) = lower(trim(t.merchant));
@@ -0,0 +1,59 @@
+/*
+  # Add Monthly Category Budgets
+
+  1. New Tables
+    - `budgets`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `category` (text) - category name; spending in its sub-categories counts too
+      - `amount` (numeric) - budget for each month
+      - `rollover` (boolean) - carry unspent amounts into the next month
+      - `start_month` (date) - first day of the first month the budget applies to
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `budgets` table
+    - Add policies for authenticated users to manage their own budgets
+
+  3. Notes
+    - Spending is not stored; budget vs actual is computed from transactions (and
+      their splits) whenever it is shown
+    - One budget per category; renaming a category renames its budget
+*/
+
+CREATE TABLE IF NOT EXISTS budgets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category text NOT NULL,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  rollover boolean NOT NULL DEFAULT false,
+  start_month date NOT NULL DEFAULT date_trunc('month', now())::date CHECK (extract(day FROM start_month) = 1),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, category)
+);
+
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own budgets"
+  ON budgets FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own budgets"
+  ON budgets FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own budgets"
+  ON budgets FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own budgets"
+  ON budgets FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_budgets_user_id ON budgets(user_id);
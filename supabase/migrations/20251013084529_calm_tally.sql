@@ -0,0 +1,23 @@
+/*
+  # Compute Goal Progress From Transactions
+
+  1. Changes
+    - `goals.actual_source` (text) - 'computed' when the month's actual amount is net
+      savings (credits minus debits) worked out from transactions, 'manual' when it
+      was typed in and overrides that
+
+  2. Data
+    - Goals with a non-zero actual amount were entered by hand and become 'manual';
+      the rest switch to 'computed'
+
+  3. Notes
+    - For computed months `actual_amount` is only a snapshot taken when the goal was
+      last saved; the app always shows the live figure
+*/
+
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS actual_source text NOT NULL DEFAULT 'computed'
+  CHECK (actual_source IN ('computed', 'manual'));
+
+UPDATE goals
+SET actual_source = 'manual'
+WHERE actual_amount IS NOT NULL AND actual_amount <> 0;
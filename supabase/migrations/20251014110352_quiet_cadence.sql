@@ -0,0 +1,76 @@
+/*
+  # Add Recurring Transactions
+
+  1. New Tables
+    - `recurring_transactions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text) - description given to each generated transaction
+      - `merchant` (text, nullable)
+      - `amount` (numeric), `type` (debit/credit), `category` (text)
+      - `frequency` (text) - weekly, biweekly, monthly, quarterly or yearly
+      - `start_date` (date) - first occurrence; monthly and longer schedules keep its day of the month
+      - `next_date` (date) - next occurrence that has not been generated yet
+      - `end_date` (date, nullable) - no occurrences after this date
+      - `active` (boolean) - paused templates generate nothing
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `transactions.recurring_id` (uuid, nullable, references recurring_transactions) -
+      the template a transaction was generated from; unique per date so an occurrence
+      is never generated twice
+
+  3. Security
+    - Enable RLS on `recurring_transactions` table
+    - Add policies for authenticated users to manage their own templates
+
+  4. Notes
+    - Due occurrences are generated by the app when the user signs in
+*/
+
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  merchant text,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  type text NOT NULL CHECK (type IN ('debit', 'credit')),
+  category text NOT NULL DEFAULT 'Uncategorized',
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly', 'quarterly', 'yearly')),
+  start_date date NOT NULL,
+  next_date date NOT NULL,
+  end_date date,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS recurring_id uuid REFERENCES recurring_transactions(id) ON DELETE SET NULL;
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_recurring_occurrence_key;
+ALTER TABLE transactions ADD CONSTRAINT transactions_recurring_occurrence_key UNIQUE (recurring_id, date);
+
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recurring transactions"
+  ON recurring_transactions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recurring transactions"
+  ON recurring_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own recurring transactions"
+  ON recurring_transactions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recurring transactions"
+  ON recurring_transactions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_user_next ON recurring_transactions(user_id, next_date);
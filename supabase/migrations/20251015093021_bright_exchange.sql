@@ -0,0 +1,92 @@
+/*
+  # Add Transaction Currencies and Exchange Rates
+
+  1. New Tables
+    - `fx_rates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `date` (date) - day the rate applies from
+      - `base_currency` (text) - ISO 4217 code, e.g. EUR
+      - `quote_currency` (text) - ISO 4217 code, e.g. USD
+      - `rate` (numeric) - units of quote currency per one unit of base currency
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `transactions.currency` (text, not null) - ISO 4217 code of `amount`; existing
+      transactions get their owner's profile currency
+    - New transactions without a currency get the profile currency when inserted
+
+  3. Security
+    - Enable RLS on `fx_rates` table
+    - Add policies for authenticated users to manage their own rates
+
+  4. Notes
+    - Amounts are stored as entered; totals are converted to the profile currency
+      with the latest rate on or before each transaction's date
+    - Rates are imported by the user from a CSV file
+*/
+
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  base_currency text NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency text NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate numeric(18,8) NOT NULL CHECK (rate > 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, date, base_currency, quote_currency)
+);
+
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own fx rates"
+  ON fx_rates FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own fx rates"
+  ON fx_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own fx rates"
+  ON fx_rates FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own fx rates"
+  ON fx_rates FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_user_pair ON fx_rates(user_id, base_currency, quote_currency, date);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS currency text;
+
+UPDATE transactions t
+SET currency = COALESCE(p.currency, 'USD')
+FROM profiles p
+WHERE p.user_id = t.user_id AND t.currency IS NULL;
+
+UPDATE transactions SET currency = 'USD' WHERE currency IS NULL;
+
+ALTER TABLE transactions ALTER COLUMN currency SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION set_transaction_currency()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT COALESCE(currency, 'USD') INTO NEW.currency FROM profiles WHERE user_id = NEW.user_id;
+  NEW.currency := COALESCE(NEW.currency, 'USD');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_transaction_currency ON transactions;
+CREATE TRIGGER set_transaction_currency
+  BEFORE INSERT ON transactions
+  FOR EACH ROW
+  WHEN (NEW.currency IS NULL)
+  EXECUTE FUNCTION set_transaction_currency();
@@ -0,0 +1,21 @@
+/*
+  # Add Formatting Preferences to Profiles
+
+  1. Changes
+    - `profiles.locale` (text, default 'en-US') - BCP 47 locale used to format
+      amounts, dates, month and weekday names
+    - `profiles.week_start` (smallint, default 1) - first day of the calendar week,
+      0 = Sunday through 6 = Saturday
+    - `profiles.date_format` (text, default 'locale') - how dates are written:
+      'locale' follows the locale, the others fix the order of the parts
+
+  2. Notes
+    - Defaults match how the app formatted everything before: US English with
+      Monday-first calendar weeks
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS locale text NOT NULL DEFAULT 'en-US',
+  ADD COLUMN IF NOT EXISTS week_start smallint NOT NULL DEFAULT 1 CHECK (week_start BETWEEN 0 AND 6),
+  ADD COLUMN IF NOT EXISTS date_format text NOT NULL DEFAULT 'locale'
+    CHECK (date_format IN ('locale', 'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'));
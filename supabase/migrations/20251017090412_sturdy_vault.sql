@@ -0,0 +1,68 @@
+/*
+  # Add Accounts
+
+  1. New Tables
+    - `accounts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text) - e.g. "Visa", "Joint chequing"
+      - `type` (text) - chequing, credit_card, cash or savings
+      - `currency` (text) - ISO 4217 code the account is held in
+      - `opening_balance` (numeric) - balance before its first recorded transaction
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `transactions.account_id` (uuid, nullable) - account the transaction was paid from
+      or into; deleting an account leaves its transactions unassigned
+
+  3. Security
+    - Enable RLS on `accounts` table
+    - Add policies for authenticated users to manage their own accounts
+
+  4. Notes
+    - Balances are not stored; they are the opening balance plus the account's
+      credits minus its debits, worked out whenever they are shown
+    - A credit card's balance is negative while money is owed on it
+*/
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  type text NOT NULL DEFAULT 'chequing' CHECK (type IN ('chequing', 'credit_card', 'cash', 'savings')),
+  currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  opening_balance numeric(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own accounts"
+  ON accounts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own accounts"
+  ON accounts FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own accounts"
+  ON accounts FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own accounts"
+  ON accounts FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_account_date ON transactions(account_id, date);
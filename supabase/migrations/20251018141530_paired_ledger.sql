@@ -0,0 +1,71 @@
+/*
+  # Add Transfers Between Accounts
+
+  1. Changes
+    - `transactions.transfer_id` (uuid, nullable, references transactions) - the other
+      side of a transfer; both transactions point at each other. Deleting one side
+      unlinks the other.
+
+  2. Functions
+    - `link_transfer(p_debit_id, p_credit_id)` links a debit in one account with an
+      equal credit in another, replacing any transfer either was part of
+    - `unlink_transfer(p_transaction_id)` unlinks a transaction and its other side
+    - Both run as the caller, so RLS still applies
+
+  3. Notes
+    - Linked transfers still move account balances, but are left out of income,
+      spending, budgets and goals
+    - Matching (opposite types, same amount and currency, different accounts, a few
+      days apart) is suggested in the app; nothing is linked automatically here
+*/
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_id uuid REFERENCES transactions(id) ON DELETE SET NULL;
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transfer_not_self;
+ALTER TABLE transactions ADD CONSTRAINT transactions_transfer_not_self CHECK (transfer_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_id ON transactions(transfer_id);
+
+CREATE OR REPLACE FUNCTION unlink_transfer(p_transaction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+BEGIN
+  UPDATE transactions
+  SET transfer_id = NULL, updated_at = now()
+  WHERE id = p_transaction_id OR transfer_id = p_transaction_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION link_transfer(p_debit_id uuid, p_credit_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_debit transactions;
+  v_credit transactions;
+BEGIN
+  SELECT * INTO v_debit FROM transactions WHERE id = p_debit_id;
+  SELECT * INTO v_credit FROM transactions WHERE id = p_credit_id;
+
+  IF v_debit.id IS NULL OR v_credit.id IS NULL OR v_debit.user_id <> v_credit.user_id THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_debit.type <> 'debit' OR v_credit.type <> 'credit' THEN
+    RAISE EXCEPTION 'A transfer links a debit with a credit';
+  END IF;
+
+  IF v_debit.account_id IS NOT DISTINCT FROM v_credit.account_id THEN
+    RAISE EXCEPTION 'A transfer links transactions in two different accounts';
+  END IF;
+
+  PERFORM unlink_transfer(p_debit_id);
+  PERFORM unlink_transfer(p_credit_id);
+
+  UPDATE transactions SET transfer_id = p_credit_id, updated_at = now() WHERE id = p_debit_id;
+  UPDATE transactions SET transfer_id = p_debit_id, updated_at = now() WHERE id = p_credit_id;
+END;
+$$;
@@ -0,0 +1,72 @@
+/*
+  # Add Asset Valuations, Liabilities and Account-Linked Assets
+
+  1. New Tables
+    - `asset_valuations`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `asset_id` (uuid, references assets) - deleting an asset deletes its history
+      - `date` (date) - day the value was recorded for
+      - `amount` (numeric) - the asset's value (or what is owed on a liability) that day
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `assets.account_id` (uuid, nullable, references accounts) - an asset linked to an
+      account takes its value from the account's balance instead of valuations; an
+      account can back at most one asset. Deleting the account unlinks the asset.
+    - Every existing asset gets a valuation of its current amount on the day it was
+      last updated
+
+  3. Security
+    - Enable RLS on `asset_valuations` table
+    - Add policies for authenticated users to manage their own valuations
+
+  4. Notes
+    - Liabilities are assets with a loan, mortgage or credit card type; their amount is
+      what is owed, as a positive number, and net worth subtracts it
+    - `assets.amount` stays the latest value, so existing screens keep working
+*/
+
+CREATE TABLE IF NOT EXISTS asset_valuations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  asset_id uuid NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  amount numeric(12,2) NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (asset_id, date)
+);
+
+ALTER TABLE asset_valuations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own asset valuations"
+  ON asset_valuations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own asset valuations"
+  ON asset_valuations FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own asset valuations"
+  ON asset_valuations FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own asset valuations"
+  ON asset_valuations FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_asset_valuations_user_date ON asset_valuations(user_id, date);
+
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES accounts(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_assets_account_id ON assets(account_id) WHERE account_id IS NOT NULL;
+
+INSERT INTO asset_valuations (user_id, asset_id, date, amount)
+SELECT user_id, id, COALESCE(updated_at, created_at, now())::date, amount
+FROM assets
+ON CONFLICT (asset_id, date) DO NOTHING;
@@ -0,0 +1,32 @@
+/*
+  # Currency on Recurring Transactions
+
+  1. Changes
+    - `recurring_transactions.currency` (text, not null) - ISO 4217 code of `amount`;
+      existing templates get their owner's profile currency, which is what their
+      transactions have been saved in so far
+    - New templates without a currency get the profile currency when inserted, the
+      same way transactions do
+
+  2. Notes
+    - Generated transactions copy the template's currency, so they are converted
+      into the base currency like the rest of the series
+*/
+
+ALTER TABLE recurring_transactions ADD COLUMN IF NOT EXISTS currency text;
+
+UPDATE recurring_transactions r
+SET currency = COALESCE(p.currency, 'USD')
+FROM profiles p
+WHERE p.user_id = r.user_id AND r.currency IS NULL;
+
+UPDATE recurring_transactions SET currency = 'USD' WHERE currency IS NULL;
+
+ALTER TABLE recurring_transactions ALTER COLUMN currency SET NOT NULL;
+
+DROP TRIGGER IF EXISTS set_recurring_currency ON recurring_transactions;
+CREATE TRIGGER set_recurring_currency
+  BEFORE INSERT ON recurring_transactions
+  FOR EACH ROW
+  WHEN (NEW.currency IS NULL)
+  EXECUTE FUNCTION set_transaction_currency();
@@ -0,0 +1,15 @@
+/*
+  # Account on Recurring Transactions
+
+  1. Changes
+    - `recurring_transactions.account_id` (uuid, nullable, references accounts) - the
+      account each generated transaction is assigned to; deleting the account leaves
+      the template unassigned
+
+  2. Notes
+    - Generated transactions copy it, so they count towards the account's running
+      balance like the rest of the series
+*/
+
+ALTER TABLE recurring_transactions
+  ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES accounts(id) ON DELETE SET NULL;
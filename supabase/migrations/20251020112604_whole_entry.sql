@@ -0,0 +1,66 @@
+/*
+  # Save a Transaction Together With Its Splits
+
+  1. Functions
+    - `save_transaction(p_transaction_id, p_transaction, p_splits)` inserts the
+      transaction (when `p_transaction_id` is null) or updates it, then replaces its
+      splits through `replace_transaction_splits`, and returns the transaction id.
+      A `p_splits` of null leaves existing splits alone; an empty array clears them.
+      Runs as the caller, so RLS still applies.
+
+  2. Notes
+    - Both writes happen in one call, so splits that are rejected for not adding up
+      to the new amount roll back the transaction change as well
+*/
+
+CREATE OR REPLACE FUNCTION save_transaction(p_transaction_id uuid, p_transaction jsonb, p_splits jsonb DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_id uuid := p_transaction_id;
+BEGIN
+  IF v_id IS NULL THEN
+    INSERT INTO transactions (user_id, date, description, merchant, merchant_id, amount, currency, account_id, type, category, notes)
+    VALUES (
+      auth.uid(),
+      (p_transaction->>'date')::date,
+      p_transaction->>'description',
+      p_transaction->>'merchant',
+      (p_transaction->>'merchant_id')::uuid,
+      (p_transaction->>'amount')::numeric(12,2),
+      p_transaction->>'currency',
+      (p_transaction->>'account_id')::uuid,
+      p_transaction->>'type',
+      p_transaction->>'category',
+      p_transaction->>'notes'
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE transactions SET
+      date = (p_transaction->>'date')::date,
+      description = p_transaction->>'description',
+      merchant = p_transaction->>'merchant',
+      merchant_id = (p_transaction->>'merchant_id')::uuid,
+      amount = (p_transaction->>'amount')::numeric(12,2),
+      currency = COALESCE(p_transaction->>'currency', currency),
+      account_id = (p_transaction->>'account_id')::uuid,
+      type = p_transaction->>'type',
+      category = p_transaction->>'category',
+      notes = p_transaction->>'notes',
+      updated_at = now()
+    WHERE id = v_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transaction % not found', v_id;
+    END IF;
+  END IF;
+
+  IF p_splits IS NOT NULL THEN
+    PERFORM replace_transaction_splits(v_id, p_splits);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;